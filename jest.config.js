@@ -9,6 +9,8 @@ export default {
   transform: {
     '^.+\\.ts$': ['ts-jest', {
       useESM: true,
+      // Tests import shared helpers from tests/ as well as src/
+      tsconfig: { rootDir: '.' },
     }],
   },
   testSequencer: '<rootDir>/tests/test-sequencer.js',
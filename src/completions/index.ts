@@ -0,0 +1,161 @@
+/**
+ * Argument Completion
+ *
+ * Implements MCP `completion/complete` for prompt arguments and resource
+ * template variables:
+ *
+ * - entity ID arguments (`player_id`, `planet_id`, ..., and the `{id}` of
+ *   `structs://state/{entity}/{id}`): recently seen IDs first, then IDs from
+ *   the first page of the matching list endpoint
+ * - `action`: action names from the command knowledge base
+ * - `workflow_type`: workflow definitions
+ *
+ * @module completions
+ */
+
+import type { CompleteRequest, CompleteResult } from '@modelcontextprotocol/sdk/types.js';
+import type { EntityType } from '../types/references.js';
+import { listAvailableActions } from '../tools/command.js';
+import { listWorkflowTypes } from '../tools/workflow.js';
+import { listPlayers, listPlanets, listStructs, listGuilds } from '../tools/query.js';
+import { extractEntityIds } from '../utils/references.js';
+import { getRecentEntityIds } from '../utils/recent-ids.js';
+import { createLogger } from '../utils/logger.js';
+
+const log = createLogger('completions');
+
+/**
+ * Maximum values per completion response (MCP limit)
+ */
+const MAX_COMPLETION_VALUES = 100;
+
+/**
+ * How long list endpoint results are reused
+ */
+const LIST_CACHE_TTL_MS = 30000;
+
+/**
+ * Page size requested from list endpoints
+ */
+const LIST_PAGE_SIZE = 100;
+
+/**
+ * Argument names that hold entity IDs
+ */
+const ENTITY_ARGUMENTS: Record<string, EntityType> = {
+  player_id: 'player',
+  planet_id: 'planet',
+  struct_id: 'struct',
+  guild_id: 'guild',
+  fleet_id: 'fleet',
+  reactor_id: 'reactor',
+  substation_id: 'substation',
+  provider_id: 'provider',
+  agreement_id: 'agreement',
+  allocation_id: 'allocation',
+};
+
+/**
+ * List endpoints used to suggest IDs
+ */
+const LIST_SOURCES: Partial<Record<EntityType, () => Promise<{ error?: string }>>> = {
+  player: () => listPlayers(undefined, LIST_PAGE_SIZE),
+  planet: () => listPlanets(undefined, LIST_PAGE_SIZE),
+  struct: () => listStructs(undefined, LIST_PAGE_SIZE),
+  guild: () => listGuilds(undefined, LIST_PAGE_SIZE),
+};
+
+const listCache = new Map<EntityType, { ids: string[]; fetched_at: number }>();
+
+/**
+ * Get IDs from the first page of a list endpoint (cached briefly)
+ */
+async function getListedEntityIds(entityType: EntityType): Promise<string[]> {
+  const source = LIST_SOURCES[entityType];
+  if (!source) {
+    return [];
+  }
+
+  const cached = listCache.get(entityType);
+  if (cached && Date.now() - cached.fetched_at < LIST_CACHE_TTL_MS) {
+    return cached.ids;
+  }
+
+  const result = await source();
+  if (result.error) {
+    log.debug('List endpoint unavailable for completion', { entity_type: entityType, error: result.error });
+    return cached?.ids ?? [];
+  }
+
+  const ids = Array.from(extractEntityIds(result).get(entityType) ?? []);
+  listCache.set(entityType, { ids, fetched_at: Date.now() });
+  return ids;
+}
+
+/**
+ * Complete an entity ID: recent IDs first, then listed IDs
+ */
+async function completeEntityId(entityType: EntityType, prefix: string): Promise<string[]> {
+  const recent = getRecentEntityIds(entityType, prefix);
+  const listed = (await getListedEntityIds(entityType)).filter((id) => id.startsWith(prefix));
+  return Array.from(new Set([...recent, ...listed]));
+}
+
+/**
+ * Filter names by prefix, then by substring (case-insensitive)
+ */
+function matchNames(names: string[], value: string): string[] {
+  const needle = value.toLowerCase();
+  const prefixed = names.filter((name) => name.toLowerCase().startsWith(needle));
+  const contained = names.filter((name) => !prefixed.includes(name) && name.toLowerCase().includes(needle));
+  return [...prefixed, ...contained];
+}
+
+/**
+ * Entity type for the `{id}` variable of a state resource template
+ */
+function getTemplateEntityType(uriTemplate: string): EntityType | undefined {
+  const match = uriTemplate.match(/^structs:\/\/state\/([a-z_]+)\/\{id\}$/);
+  return match ? (match[1] as EntityType) : undefined;
+}
+
+/**
+ * Complete an argument value
+ *
+ * @param ref - Prompt or resource template reference
+ * @param argument - Argument name and partial value
+ * @returns Completion values (at most 100)
+ */
+export async function completeArgument(
+  ref: CompleteRequest['params']['ref'],
+  argument: { name: string; value: string }
+): Promise<CompleteResult['completion']> {
+  let values: string[] = [];
+
+  if (argument.name === 'action') {
+    values = matchNames(listAvailableActions().actions, argument.value);
+  } else if (argument.name === 'workflow_type') {
+    values = matchNames(listWorkflowTypes(), argument.value);
+  } else {
+    const entityType =
+      ref.type === 'ref/resource' && argument.name === 'id'
+        ? getTemplateEntityType(ref.uri)
+        : ENTITY_ARGUMENTS[argument.name];
+    if (entityType) {
+      values = await completeEntityId(entityType, argument.value);
+    }
+  }
+
+  return {
+    values: values.slice(0, MAX_COMPLETION_VALUES),
+    total: values.length,
+    hasMore: values.length > MAX_COMPLETION_VALUES,
+  };
+}
+
+/**
+ * Forget cached list endpoint results (useful for testing)
+ */
+export function clearCompletionCache(): void {
+  listCache.clear();
+}
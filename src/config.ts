@@ -1,58 +1,459 @@
 /**
  * Configuration
- * 
+ *
+ * Settings are layered, lowest precedence first:
+ *
+ * 1. Built-in defaults
+ * 2. Network profile picked with `profile:` in the file: endpoints, chain ID
+ *    and database URL for one network
+ * 3. YAML config file (`STRUCTS_MCP_CONFIG`, or `./structs-mcp.yaml` if
+ *    present), so its explicit keys beat its own profile
+ * 4. Network profile picked with `STRUCTS_MCP_PROFILE`
+ * 5. Environment variables
+ *
+ * Invalid values keep their default and are reported by `getConfigErrors()`;
+ * the server refuses to start while there are any.
+ *
  * @module config
  */
 
+import { existsSync, readFileSync } from 'fs';
+import YAML from 'yaml';
+
+/**
+ * Network profile: everything that changes when switching networks
+ */
+export interface NetworkProfile {
+  consensusApiUrl?: string;
+  consensusRPCUrl?: string;
+  webappApiUrl?: string;
+  natsUrl?: string;
+  natsWebSocketUrl?: string;
+  chainId?: string;
+  databaseUrl?: string;
+}
+
+/**
+ * Built-in network profiles (config files can add their own under `profiles:`)
+ */
+export const NETWORK_PROFILES: Record<string, NetworkProfile> = {
+  // Local node and services (docker stack or structsd on this machine)
+  local: {
+    consensusApiUrl: 'http://localhost:1317',
+    consensusRPCUrl: 'http://localhost:26657',
+    webappApiUrl: 'http://localhost:8080',
+    natsUrl: 'nats://localhost:4222',
+    natsWebSocketUrl: 'ws://localhost:1443',
+    chainId: 'structstestnet-111',
+  },
+  // Public testnet through the reference node
+  'testnet-111': {
+    consensusApiUrl: 'http://reactor.oh.energy:1317',
+    consensusRPCUrl: 'tcp://reactor.oh.energy:26657',
+    chainId: 'structstestnet-111',
+  },
+  // Reference node, whatever chain it is currently running
+  'reference-node': {
+    consensusApiUrl: 'http://reactor.oh.energy:1317',
+    consensusRPCUrl: 'tcp://reactor.oh.energy:26657',
+  },
+};
+
 /**
  * Default configuration
  */
-export const config = {
+const DEFAULTS = {
   // Base path for AI documentation / Structs Compendium data.
   // By default this points to a local clone of the structs-ai compendium
   // under ./data/structs-ai. Override with AI_DOCS_PATH for a different path.
-  aiDocsPath: process.env.AI_DOCS_PATH || './data/structs-ai',
+  aiDocsPath: './data/structs-ai',
+  // Watch the compendium for changes (invalidates cached resources, notifies subscribers)
+  compendiumWatch: true,
+  compendiumWatchPolling: false, // For bind mounts without fs events
+  // How often subscribed structs://state/... resources are re-read to detect changes
+  stateResourcePollInterval: 10000, // 10 seconds (~2 blocks)
   cacheEnabled: true,
   cacheMaxSize: 1000,
-  logLevel: process.env.LOG_LEVEL || 'info',
-  
+  logLevel: 'info', // debug, info, notice, warning, error, critical, alert, emergency
+  logFormat: 'json', // 'json' (one object per line) or 'text'
+
+  // Network profile the endpoints below came from (if any)
+  profile: undefined as string | undefined,
+  chainId: 'structstestnet-111',
+
   // API Endpoints (defaults: localhost; for remote use without a local node, use reference node reactor.oh.energy — see README)
-  consensusRPCUrl: process.env.CONSENSUS_RPC_URL || 'http://localhost:26657',
-  consensusApiUrl: process.env.CONSENSUS_API_URL || 'http://localhost:1317',
-  webappApiUrl: process.env.WEBAPP_API_URL || 'http://localhost:8080',
-  
+  consensusRPCUrl: 'http://localhost:26657',
+  consensusApiUrl: 'http://localhost:1317',
+  webappApiUrl: 'http://localhost:8080',
+
+  // Consensus API client
+  consensus: {
+    timeout: 10000, // per attempt
+    retries: 2, // retries after 5xx responses and timeouts
+    retryDelay: 250, // first backoff delay, doubled on each retry
+    breakerThreshold: 5, // consecutive failures before failing fast
+    breakerReset: 30000, // how long to fail fast before trying again
+  },
+
   // Streaming (NATS)
-  natsUrl: process.env.NATS_URL || 'nats://localhost:4222',
-  natsWebSocketUrl: process.env.NATS_WEBSOCKET_URL || 'ws://localhost:1443',
-  
+  natsUrl: 'nats://localhost:4222',
+  natsWebSocketUrl: 'ws://localhost:1443',
+  // structs_events_*: subjects to subscribe to (comma-separated) and buffer limits
+  events: {
+    subjects: 'structs.planet.>,structs.struct.>,structs.fleet.>,structs.player.>,structs.block',
+    bufferSize: 200, // events kept per subject
+    maxSubjects: 1000,
+    maxSubscriptions: 100,
+    subscriptionIdleTimeout: 1800000, // 30 minutes without a poll
+    reconnectDelay: 2000, // doubled after each failed attempt, up to 30 seconds
+  },
+  // Alert rules: players to watch (comma-separated; none turns alerts off),
+  // how often to check their state, and rules added to or overriding the
+  // built-in ones (by id)
+  alerts: {
+    players: '',
+    interval: 30000,
+    historySize: 500,
+    rules: [] as unknown[],
+  },
+
   // Database (Optional)
-  databaseUrl: process.env.DATABASE_URL,
-  
+  databaseUrl: undefined as string | undefined,
+
   // Database Access Control
-  danger: process.env.DANGER === 'true', // Default to false (safe mode)
-  
+  danger: false, // Default to false (safe mode)
+
   // Proof-of-Work Configuration
-  targetDifficultyStart: parseInt(process.env.TARGET_DIFFICULTY_START || '5', 10), // Default to 5
-  
+  targetDifficultyStart: 5,
+
   // Server Transport
-  transport: process.env.MCP_TRANSPORT || 'stdio', // 'stdio' or 'http'
-  httpPort: parseInt(process.env.MCP_HTTP_PORT || '3000', 10),
-  httpHost: process.env.MCP_HTTP_HOST || '0.0.0.0',
-  
+  transport: 'stdio', // 'stdio' or 'http' ('sse' is an alias for 'http')
+  httpPort: 3000,
+  httpHost: '0.0.0.0',
+  // HTTP session mode: 'stateless' (one shared transport, JSON responses) or
+  // 'stateful' (per-client sessions with resumable SSE streams)
+  httpSessionMode: 'stateless',
+  httpSessionIdleTimeout: 1800000, // 30 minutes
+  httpEventStoreMaxEvents: 1000, // per session
+  // HTTP authentication: path to a JSON/YAML file of API keys and scopes.
+  // When unset, the HTTP transport is unauthenticated.
+  authKeysFile: undefined as string | undefined,
+
   // Job Persistence
-  jobsDataDir: process.env.JOBS_DATA_DIR || './data/jobs',
-  persistJobs: process.env.PERSIST_JOBS !== 'false', // Default to true
-  
+  jobsDataDir: './data/jobs',
+  persistJobs: true,
+
+  // List tools: caps for fetch_all (walks every page)
+  lists: {
+    fetchAllMaxItems: 1000,
+    fetchAllMaxBytes: 131072, // JSON bytes of the returned items (128 KB)
+  },
+
+  // structs_query_batch: IDs per call and lookups in flight at once
+  batch: {
+    maxIds: 100,
+    concurrency: 8,
+  },
+
+  // structs_player_dashboard: snapshots kept for snapshot_token deltas
+  dashboard: {
+    snapshotTTL: 600000, // 10 minutes
+    maxSnapshots: 1000,
+  },
+
   // References Feature Configuration
   references: {
-    enabled: process.env.REFERENCES_ENABLED === 'true', // Default: false (opt-in)
-    maxReferences: parseInt(process.env.MAX_REFERENCES || '50', 10),
-    maxReferencesPerEntity: parseInt(process.env.MAX_REFERENCES_PER_ENTITY || '5', 10),
-    maxParallelQueries: parseInt(process.env.MAX_PARALLEL_QUERIES || '5', 10),
-    referenceQueryTimeout: parseInt(process.env.REFERENCE_QUERY_TIMEOUT || '2000', 10),
-    cacheEnabled: process.env.REFERENCES_CACHE_ENABLED !== 'false', // Default: true
-    cacheMaxSize: parseInt(process.env.REFERENCES_CACHE_MAX_SIZE || '1000', 10),
-    cacheTTL: parseInt(process.env.REFERENCES_CACHE_TTL || '30000', 10), // 30 seconds
+    enabled: false, // Default: false (opt-in)
+    maxReferences: 50,
+    maxReferencesPerEntity: 5,
+    maxParallelQueries: 5,
+    referenceQueryTimeout: 2000,
+    cacheEnabled: true,
+    cacheMaxSize: 1000,
+    cacheTTL: 30000, // 30 seconds
   },
 };
 
+export type Config = typeof DEFAULTS;
+
+/**
+ * How one setting is read and validated
+ */
+interface FieldSpec {
+  env: string;
+  type: 'string' | 'url' | 'boolean' | 'integer' | 'json';
+  values?: readonly string[];
+  min?: number;
+  max?: number;
+}
+
+const LOG_LEVELS = ['debug', 'info', 'notice', 'warning', 'warn', 'error', 'critical', 'fatal', 'alert', 'emergency'] as const;
+
+/**
+ * Settings by path in the config object (nested keys use dots)
+ */
+const FIELDS: Record<string, FieldSpec> = {
+  aiDocsPath: { env: 'AI_DOCS_PATH', type: 'string' },
+  compendiumWatch: { env: 'COMPENDIUM_WATCH', type: 'boolean' },
+  compendiumWatchPolling: { env: 'COMPENDIUM_WATCH_POLLING', type: 'boolean' },
+  stateResourcePollInterval: { env: 'STATE_RESOURCE_POLL_INTERVAL', type: 'integer', min: 1000 },
+  cacheEnabled: { env: 'CACHE_ENABLED', type: 'boolean' },
+  cacheMaxSize: { env: 'CACHE_MAX_SIZE', type: 'integer', min: 1 },
+  logLevel: { env: 'LOG_LEVEL', type: 'string', values: LOG_LEVELS },
+  logFormat: { env: 'LOG_FORMAT', type: 'string', values: ['json', 'text'] },
+  chainId: { env: 'CHAIN_ID', type: 'string' },
+  consensusRPCUrl: { env: 'CONSENSUS_RPC_URL', type: 'url' },
+  consensusApiUrl: { env: 'CONSENSUS_API_URL', type: 'url' },
+  webappApiUrl: { env: 'WEBAPP_API_URL', type: 'url' },
+  'consensus.timeout': { env: 'CONSENSUS_TIMEOUT', type: 'integer', min: 1 },
+  'consensus.retries': { env: 'CONSENSUS_RETRIES', type: 'integer', min: 0, max: 10 },
+  'consensus.retryDelay': { env: 'CONSENSUS_RETRY_DELAY', type: 'integer', min: 0 },
+  'consensus.breakerThreshold': { env: 'CONSENSUS_BREAKER_THRESHOLD', type: 'integer', min: 1 },
+  'consensus.breakerReset': { env: 'CONSENSUS_BREAKER_RESET', type: 'integer', min: 0 },
+  natsUrl: { env: 'NATS_URL', type: 'url' },
+  natsWebSocketUrl: { env: 'NATS_WEBSOCKET_URL', type: 'url' },
+  databaseUrl: { env: 'DATABASE_URL', type: 'url' },
+  danger: { env: 'DANGER', type: 'boolean' },
+  targetDifficultyStart: { env: 'TARGET_DIFFICULTY_START', type: 'integer', min: 1, max: 64 },
+  transport: { env: 'MCP_TRANSPORT', type: 'string', values: ['stdio', 'http', 'sse'] },
+  httpPort: { env: 'MCP_HTTP_PORT', type: 'integer', min: 1, max: 65535 },
+  httpHost: { env: 'MCP_HTTP_HOST', type: 'string' },
+  httpSessionMode: { env: 'MCP_HTTP_SESSION_MODE', type: 'string', values: ['stateless', 'stateful'] },
+  httpSessionIdleTimeout: { env: 'MCP_HTTP_SESSION_IDLE_TIMEOUT', type: 'integer', min: 1000 },
+  httpEventStoreMaxEvents: { env: 'MCP_HTTP_EVENT_STORE_MAX_EVENTS', type: 'integer', min: 0 },
+  authKeysFile: { env: 'MCP_AUTH_KEYS_FILE', type: 'string' },
+  jobsDataDir: { env: 'JOBS_DATA_DIR', type: 'string' },
+  persistJobs: { env: 'PERSIST_JOBS', type: 'boolean' },
+  'lists.fetchAllMaxItems': { env: 'LIST_FETCH_ALL_MAX_ITEMS', type: 'integer', min: 1 },
+  'lists.fetchAllMaxBytes': { env: 'LIST_FETCH_ALL_MAX_BYTES', type: 'integer', min: 1024 },
+  'batch.maxIds': { env: 'BATCH_MAX_IDS', type: 'integer', min: 1 },
+  'batch.concurrency': { env: 'BATCH_CONCURRENCY', type: 'integer', min: 1, max: 50 },
+  'dashboard.snapshotTTL': { env: 'DASHBOARD_SNAPSHOT_TTL', type: 'integer', min: 1000 },
+  'dashboard.maxSnapshots': { env: 'DASHBOARD_MAX_SNAPSHOTS', type: 'integer', min: 1 },
+  'events.subjects': { env: 'EVENTS_SUBJECTS', type: 'string' },
+  'events.bufferSize': { env: 'EVENTS_BUFFER_SIZE', type: 'integer', min: 1 },
+  'events.maxSubjects': { env: 'EVENTS_MAX_SUBJECTS', type: 'integer', min: 1 },
+  'events.maxSubscriptions': { env: 'EVENTS_MAX_SUBSCRIPTIONS', type: 'integer', min: 1 },
+  'events.subscriptionIdleTimeout': { env: 'EVENTS_SUBSCRIPTION_IDLE_TIMEOUT', type: 'integer', min: 1000 },
+  'events.reconnectDelay': { env: 'EVENTS_RECONNECT_DELAY', type: 'integer', min: 100 },
+  'alerts.players': { env: 'ALERT_PLAYERS', type: 'string' },
+  'alerts.interval': { env: 'ALERT_INTERVAL', type: 'integer', min: 1000 },
+  'alerts.historySize': { env: 'ALERT_HISTORY_SIZE', type: 'integer', min: 1 },
+  'alerts.rules': { env: 'ALERT_RULES', type: 'json' },
+  'references.enabled': { env: 'REFERENCES_ENABLED', type: 'boolean' },
+  'references.maxReferences': { env: 'MAX_REFERENCES', type: 'integer', min: 1 },
+  'references.maxReferencesPerEntity': { env: 'MAX_REFERENCES_PER_ENTITY', type: 'integer', min: 1 },
+  'references.maxParallelQueries': { env: 'MAX_PARALLEL_QUERIES', type: 'integer', min: 1 },
+  'references.referenceQueryTimeout': { env: 'REFERENCE_QUERY_TIMEOUT', type: 'integer', min: 1 },
+  'references.cacheEnabled': { env: 'REFERENCES_CACHE_ENABLED', type: 'boolean' },
+  'references.cacheMaxSize': { env: 'REFERENCES_CACHE_MAX_SIZE', type: 'integer', min: 1 },
+  'references.cacheTTL': { env: 'REFERENCES_CACHE_TTL', type: 'integer', min: 0 },
+};
+
+const PROFILE_KEYS = new Set<string>(['consensusApiUrl', 'consensusRPCUrl', 'webappApiUrl', 'natsUrl', 'natsWebSocketUrl', 'chainId', 'databaseUrl']);
+
+/**
+ * Config file used when STRUCTS_MCP_CONFIG is unset
+ */
+const DEFAULT_CONFIG_FILES = ['./structs-mcp.yaml', './structs-mcp.yml'];
+
+/**
+ * Parse one raw value according to its spec
+ *
+ * @returns Parsed value, or an error describing what was expected
+ */
+function parseValue(raw: unknown, spec: FieldSpec): { value?: unknown; error?: string } {
+  switch (spec.type) {
+    case 'boolean': {
+      if (typeof raw === 'boolean') return { value: raw };
+      const text = String(raw).trim().toLowerCase();
+      if (['true', '1', 'yes'].includes(text)) return { value: true };
+      if (['false', '0', 'no'].includes(text)) return { value: false };
+      return { error: 'expected true or false' };
+    }
+    case 'integer': {
+      const text = String(raw).trim();
+      const value = Number(text);
+      const outOfRange = (spec.min !== undefined && value < spec.min) || (spec.max !== undefined && value > spec.max);
+      if (text === '' || !Number.isInteger(value) || outOfRange) {
+        if (spec.max !== undefined) {
+          return { error: `expected an integer from ${spec.min} to ${spec.max}` };
+        }
+        return { error: spec.min !== undefined ? `expected an integer of at least ${spec.min}` : 'expected an integer' };
+      }
+      return { value };
+    }
+    case 'json': {
+      // Structured values come as-is from the config file, as JSON text from the environment
+      if (typeof raw !== 'string') return { value: raw };
+      try {
+        return { value: JSON.parse(raw) };
+      } catch {
+        return { error: 'expected JSON' };
+      }
+    }
+    case 'url': {
+      const text = String(raw).trim();
+      try {
+        new URL(text);
+        return { value: text };
+      } catch {
+        return { error: 'expected a URL (e.g. http://localhost:1317)' };
+      }
+    }
+    default: {
+      const text = String(raw).trim();
+      if (spec.values && !spec.values.includes(text)) {
+        return { error: `expected one of ${spec.values.join(', ')}` };
+      }
+      return { value: text };
+    }
+  }
+}
+
+/**
+ * Read a dotted path from a plain object
+ */
+function getPath(source: Record<string, unknown> | undefined, path: string): unknown {
+  let value: unknown = source;
+  for (const key of path.split('.')) {
+    if (!value || typeof value !== 'object') return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+/**
+ * Collect dotted paths of every leaf in a plain object
+ */
+function listPaths(source: Record<string, unknown>, prefix = ''): string[] {
+  return Object.entries(source).flatMap(([key, value]) =>
+    value && typeof value === 'object' && !Array.isArray(value)
+      ? listPaths(value as Record<string, unknown>, `${prefix}${key}.`)
+      : [`${prefix}${key}`]
+  );
+}
+
+/**
+ * Read and parse the YAML config file
+ */
+function readConfigFile(
+  env: NodeJS.ProcessEnv,
+  errors: string[]
+): { path?: string; data: Record<string, unknown> } {
+  const explicitPath = env.STRUCTS_MCP_CONFIG;
+  const path = explicitPath || DEFAULT_CONFIG_FILES.find((candidate) => existsSync(candidate));
+  if (!path) {
+    return { data: {} };
+  }
+  if (!existsSync(path)) {
+    errors.push(`STRUCTS_MCP_CONFIG: config file not found: ${path}`);
+    return { path, data: {} };
+  }
+
+  try {
+    const data = YAML.parse(readFileSync(path, 'utf8')) ?? {};
+    if (typeof data !== 'object' || Array.isArray(data)) {
+      errors.push(`${path}: expected a mapping of settings`);
+      return { path, data: {} };
+    }
+    return { path, data };
+  } catch (error) {
+    errors.push(`${path}: ${error instanceof Error ? error.message : String(error)}`);
+    return { path, data: {} };
+  }
+}
+
+/**
+ * Build the configuration from defaults, profile, config file and environment
+ *
+ * @param env - Environment variables
+ * @returns Configuration and any validation errors (invalid settings keep their default)
+ */
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): { config: Config; errors: string[]; configFile?: string } {
+  const errors: string[] = [];
+  const result: Config = structuredClone(DEFAULTS);
+  const file = readConfigFile(env, errors);
+  const { profile: fileProfile, profiles: fileProfiles, ...fileSettings } = file.data;
+
+  // Unknown keys are almost always typos
+  for (const path of listPaths(fileSettings)) {
+    if (!FIELDS[path]) {
+      errors.push(`${file.path}: unknown setting "${path}"`);
+    }
+  }
+
+  // Profile: the environment or the file picks one of the file's profiles or a built-in one
+  const profileFromEnv = Boolean(env.STRUCTS_MCP_PROFILE);
+  const profileName = env.STRUCTS_MCP_PROFILE || (typeof fileProfile === 'string' ? fileProfile : undefined);
+  const customProfiles = (fileProfiles && typeof fileProfiles === 'object' ? fileProfiles : {}) as Record<string, NetworkProfile>;
+  let profile: NetworkProfile = {};
+  if (profileName) {
+    const found = customProfiles[profileName] ?? NETWORK_PROFILES[profileName];
+    if (found) {
+      profile = found;
+      result.profile = profileName;
+      for (const key of Object.keys(profile)) {
+        if (!PROFILE_KEYS.has(key)) {
+          errors.push(`profile "${profileName}": unknown setting "${key}" (allowed: ${Array.from(PROFILE_KEYS).join(', ')})`);
+        }
+      }
+    } else {
+      const available = Array.from(new Set([...Object.keys(NETWORK_PROFILES), ...Object.keys(customProfiles)]));
+      errors.push(`STRUCTS_MCP_PROFILE: unknown profile "${profileName}" (available: ${available.join(', ')})`);
+    }
+  }
+
+  for (const [path, spec] of Object.entries(FIELDS)) {
+    let raw: unknown;
+    let source: string | undefined;
+    const inProfile = PROFILE_KEYS.has(path) && profile[path as keyof NetworkProfile] !== undefined;
+    if (env[spec.env] !== undefined && env[spec.env] !== '') {
+      raw = env[spec.env];
+      source = spec.env;
+    } else if (inProfile && profileFromEnv) {
+      raw = profile[path as keyof NetworkProfile];
+      source = `profile "${profileName}" ${path}`;
+    } else if (getPath(fileSettings, path) !== undefined) {
+      raw = getPath(fileSettings, path);
+      source = `${file.path} ${path}`;
+    } else if (inProfile) {
+      raw = profile[path as keyof NetworkProfile];
+      source = `profile "${profileName}" ${path}`;
+    }
+    if (source === undefined) {
+      continue;
+    }
+
+    const parsed = parseValue(raw, spec);
+    if (parsed.error) {
+      errors.push(`${source}: ${parsed.error}, got "${String(raw)}"`);
+      continue;
+    }
+    const keys = path.split('.');
+    const last = keys.pop()!;
+    const target = keys.reduce<Record<string, unknown>>((obj, key) => obj[key] as Record<string, unknown>, result as unknown as Record<string, unknown>);
+    target[last] = parsed.value;
+  }
+
+  return { config: result, errors, configFile: file.path };
+}
+
+const loaded = loadConfig();
+
+/**
+ * Active configuration
+ */
+export const config = loaded.config;
+
+/**
+ * Path of the config file that was loaded, if any
+ */
+export const configFile = loaded.configFile;
+
+/**
+ * Problems found while loading the configuration (empty when valid)
+ */
+export function getConfigErrors(): string[] {
+  return [...loaded.errors];
+}
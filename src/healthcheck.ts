@@ -0,0 +1,42 @@
+/**
+ * Container Health Check
+ *
+ * Probes `/healthz` when the resolved configuration (environment, config file
+ * and profile) serves HTTP, so a transport set in the config file counts too.
+ * With stdio there is no port to probe and the check passes.
+ *
+ * Usage: node dist/healthcheck.js (exits 0 when healthy, 1 otherwise)
+ *
+ * @module healthcheck
+ */
+
+import { config } from './config.js';
+
+/**
+ * Host to probe: wildcard listen addresses are reached over loopback
+ */
+function probeHost(host: string): string {
+  if (host === '0.0.0.0' || host === '') {
+    return '127.0.0.1';
+  }
+  if (host === '::') {
+    return '[::1]';
+  }
+  return host.includes(':') ? `[${host}]` : host;
+}
+
+async function main(): Promise<number> {
+  if (config.transport !== 'http' && config.transport !== 'sse') {
+    return 0;
+  }
+  try {
+    const response = await fetch(`http://${probeHost(config.httpHost)}:${config.httpPort}/healthz`, {
+      signal: AbortSignal.timeout(2000),
+    });
+    return response.ok ? 0 : 1;
+  } catch {
+    return 1;
+  }
+}
+
+main().then((code) => process.exit(code));
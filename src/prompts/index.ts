@@ -30,7 +30,7 @@ Summarize concisely with actionable priorities: Survival > Security > Economy >
     description: 'One tick of the async game loop: Dashboard → Assess → Plan → Preflight → Execute → Verify. References v0.15.0 intelligence tools.',
     getMessage: () => `Run one tick of the Structs async game loop (v0.15.0 / structstestnet-111):
 
-1. **Dashboard** — Call structs_player_dashboard to get full state in one call. Check in-progress operations.
+1. **Dashboard** — Call structs_player_dashboard to get full state in one call. On later ticks pass the previous snapshot_token to get only what changed. Check in-progress operations.
 2. **Assess** — Power margin (capacity - load), exposed ore, threats, opportunities (see structs_state_assessment).
 3. **Plan** — Decide actions. Think in pipelines: what should be initiated now so it's ready later? One TX per account at a time; wait ~6s between TXs.
 4. **Preflight** — Before each action, call structs_preflight_check to verify the action will succeed (checks permissions, resources, entity state).
@@ -12,6 +12,9 @@ import path from 'path';
 import { parseResourceURI, uriToFilePath } from '../utils/uri.js';
 import { scanAllResources, getResourceMimeType } from './scanner.js';
 import type { Resource } from '@modelcontextprotocol/sdk/types.js';
+import { createLogger } from '../utils/logger.js';
+
+const log = createLogger('resources');
 
 /**
  * Extended Resource type with text content
@@ -22,8 +25,10 @@ interface ResourceWithText extends Resource {
 
 /**
  * Resource cache (in-memory)
+ *
+ * Entries are invalidated by the compendium watcher when their file changes.
  */
-const resourceCache = new Map<string, { content: string; mimeType: string; timestamp: number }>();
+const resourceCache = new Map<string, { content: string; mimeType: string; filePath: string; timestamp: number }>();
 
 /**
  * Get resource from cache or file system
@@ -86,6 +91,7 @@ export async function getResource(
     resourceCache.set(uri, {
       content,
       mimeType,
+      filePath: path.resolve(resolvedPath),
       timestamp: Date.now(),
     });
     
@@ -95,7 +101,7 @@ export async function getResource(
       text: content,
     } as ResourceWithText;
   } catch (error) {
-    console.error(`Error reading resource ${uri}:`, error);
+    log.error('Error reading resource', { uri, error });
     return null;
   }
 }
@@ -137,6 +143,24 @@ export function clearCache(): void {
   resourceCache.clear();
 }
 
+/**
+ * Invalidate cached resources backed by a changed file or directory
+ *
+ * @param changedPath - File or directory that changed
+ * @returns URIs whose cache entries were removed
+ */
+export function invalidateResourcePath(changedPath: string): string[] {
+  const target = path.resolve(changedPath);
+  const removed: string[] = [];
+  for (const [uri, entry] of resourceCache.entries()) {
+    if (entry.filePath === target || entry.filePath.startsWith(target + path.sep)) {
+      resourceCache.delete(uri);
+      removed.push(uri);
+    }
+  }
+  return removed;
+}
+
 /**
  * Get cache statistics
  */
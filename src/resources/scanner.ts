@@ -10,6 +10,9 @@ import { readdir, stat } from 'fs/promises';
 import { join } from 'path';
 import { existsSync } from 'fs';
 import { parseResourceURI } from '../utils/uri.js';
+import { createLogger } from '../utils/logger.js';
+
+const log = createLogger('resources');
 
 /**
  * Category to directory mapping (aligns with structs-ai layout)
@@ -84,7 +87,7 @@ async function scanDirectory(
     // Directory might have been deleted or become inaccessible
     // Log only unexpected errors (not ENOENT)
     if (error instanceof Error && (error as NodeJS.ErrnoException).code !== 'ENOENT') {
-      console.error(`Error scanning directory ${dirPath}:`, error);
+      log.error('Error scanning directory', { path: dirPath, error });
     }
   }
   
@@ -117,7 +120,7 @@ async function scanGuides(aiDocsPath: string): Promise<string[]> {
       }
     }
   } catch (error) {
-    console.error(`Error scanning guides:`, error);
+    log.error('Error scanning guides', { error });
   }
   
   return resources;
@@ -134,7 +137,7 @@ export async function scanAllResources(aiDocsPath: string): Promise<string[]> {
   
   // Check if base directory exists
   if (!existsSync(aiDocsPath)) {
-    console.error(`AI docs path does not exist: ${aiDocsPath}`);
+    log.warn('AI docs path does not exist', { path: aiDocsPath });
     return allResources;
   }
   
@@ -0,0 +1,228 @@
+/**
+ * Game State Resources
+ *
+ * Live entity state exposed as MCP resource templates
+ * (`structs://state/{entity}/{id}`), resolved through the query tools.
+ * Clients can attach entity state as context and subscribe to it; a poller
+ * re-reads subscribed state resources (right away for entities an event just
+ * touched) and sends `resources/updated` when the entity changes.
+ *
+ * @module resources/state
+ */
+
+import { createHash } from 'crypto';
+import type { ResourceTemplate, TextResourceContents } from '@modelcontextprotocol/sdk/types.js';
+import { queryPlayer, queryPlanet, queryStruct, queryGuild } from '../tools/query.js';
+import { getSubscribedUris, notifyResourcesUpdated } from './subscriptions.js';
+import { onEntitiesInvalidated } from '../utils/query-cache.js';
+import { createLogger } from '../utils/logger.js';
+
+const log = createLogger('resources');
+
+/**
+ * Query function per state entity type
+ */
+const STATE_QUERIES: Record<string, (id: string) => Promise<{ timestamp: string; error?: string } & Record<string, unknown>>> = {
+  player: queryPlayer,
+  planet: queryPlanet,
+  struct: queryStruct,
+  guild: queryGuild,
+};
+
+/**
+ * Resource templates served by `resources/templates/list`
+ */
+export const STATE_RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: 'structs://state/player/{id}',
+    name: 'Player state',
+    description: 'Live player state from the consensus API (e.g. structs://state/player/1-11)',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'structs://state/planet/{id}',
+    name: 'Planet state',
+    description: 'Live planet state from the consensus API (e.g. structs://state/planet/2-1)',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'structs://state/struct/{id}',
+    name: 'Struct state',
+    description: 'Live struct state from the consensus API (e.g. structs://state/struct/5-1)',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'structs://state/guild/{id}',
+    name: 'Guild state',
+    description: 'Live guild state from the consensus API (e.g. structs://state/guild/0-1)',
+    mimeType: 'application/json',
+  },
+];
+
+/**
+ * Parse a state resource URI
+ *
+ * @param uri - Resource URI (e.g. "structs://state/player/1-11")
+ * @returns Entity type and ID, or null if not a state URI
+ */
+export function parseStateUri(uri: string): { entityType: string; id: string } | null {
+  const match = uri.split('#')[0].match(/^structs:\/\/state\/([a-z_]+)\/([^/]+)$/);
+  if (!match || !STATE_QUERIES[match[1]]) {
+    return null;
+  }
+  return { entityType: match[1], id: decodeURIComponent(match[2]) };
+}
+
+/**
+ * Whether a URI is a state resource URI
+ */
+export function isStateUri(uri: string): boolean {
+  return uri.startsWith('structs://state/');
+}
+
+/**
+ * Read a state resource
+ *
+ * @param uri - State resource URI
+ * @returns Resource contents, or null if the URI doesn't match a template
+ * @throws Error if the entity query fails (invalid ID, not found, API down)
+ */
+export async function getStateResource(uri: string): Promise<TextResourceContents | null> {
+  const parsed = parseStateUri(uri);
+  if (!parsed) {
+    return null;
+  }
+
+  const result = await STATE_QUERIES[parsed.entityType](parsed.id);
+  if (result.error) {
+    throw new Error(`Failed to read ${uri}: ${result.error}`);
+  }
+
+  return {
+    uri,
+    mimeType: 'application/json',
+    text: JSON.stringify(result, null, 2),
+  };
+}
+
+/**
+ * Hash of the entity data (ignores the response timestamp)
+ */
+function hashState(contents: TextResourceContents): string {
+  const { timestamp: _timestamp, ...data } = JSON.parse(contents.text);
+  return createHash('sha256').update(JSON.stringify(data)).digest('hex');
+}
+
+/**
+ * Running state poller
+ */
+export interface StatePoller {
+  /** Poll once (also used by the interval) */
+  poll(): Promise<string[]>;
+  /** Re-read the subscribed state resources of these entities now */
+  refresh(ids: Iterable<string>): Promise<string[]>;
+  stop(): void;
+}
+
+/**
+ * Start polling subscribed state resources for changes
+ *
+ * The first read of a newly subscribed URI records a baseline; later reads
+ * that differ trigger `notifications/resources/updated`. Entities whose
+ * cached state is invalidated by an event are re-read right away instead of
+ * on the next interval. Action targets are not: their transaction is not
+ * committed yet, so a re-read would put the old state back in the query
+ * cache; the commit's event or the next interval picks them up.
+ *
+ * @param intervalMs - Poll interval in milliseconds
+ * @returns Poller handle
+ */
+export function startStatePoller(intervalMs: number): StatePoller {
+  const lastHashes = new Map<string, string>();
+  let polling = false;
+
+  /**
+   * Read URIs, and notify subscribers of the ones that changed
+   */
+  const check = async (uris: string[]): Promise<string[]> => {
+    const changed: string[] = [];
+    for (const uri of uris) {
+      try {
+        const contents = await getStateResource(uri);
+        if (!contents) {
+          continue;
+        }
+        const hash = hashState(contents);
+        const previous = lastHashes.get(uri);
+        lastHashes.set(uri, hash);
+        if (previous !== undefined && previous !== hash) {
+          changed.push(uri);
+        }
+      } catch (error) {
+        log.debug('State resource poll failed', { uri, error });
+      }
+    }
+
+    if (changed.length > 0) {
+      log.debug('State resources changed', { uris: changed });
+      await notifyResourcesUpdated(changed);
+    }
+    return changed;
+  };
+
+  const poll = async (): Promise<string[]> => {
+    if (polling) {
+      return [];
+    }
+    polling = true;
+    try {
+      const subscribed = Array.from(getSubscribedUris()).filter(isStateUri);
+
+      // Forget URIs nobody is subscribed to any more
+      for (const uri of lastHashes.keys()) {
+        if (!subscribed.includes(uri)) {
+          lastHashes.delete(uri);
+        }
+      }
+
+      return await check(subscribed);
+    } finally {
+      polling = false;
+    }
+  };
+
+  const refresh = async (ids: Iterable<string>): Promise<string[]> => {
+    const targets = new Set(ids);
+    const uris = Array.from(getSubscribedUris()).filter((uri) => {
+      const parsed = parseStateUri(uri);
+      return parsed !== null && targets.has(parsed.id);
+    });
+    return uris.length > 0 ? check(uris) : [];
+  };
+
+  const timer = setInterval(() => {
+    poll().catch((error) => {
+      log.error('Error polling state resources', { error });
+    });
+  }, intervalMs);
+  // Don't keep the process alive just for the poller
+  timer.unref();
+
+  const stopListening = onEntitiesInvalidated((ids, { pending }) => {
+    if (pending) {
+      return;
+    }
+    refresh(ids).catch((error) => {
+      log.debug('Error refreshing state resources', { error });
+    });
+  });
+
+  return {
+    poll,
+    refresh,
+    stop: () => {
+      clearInterval(timer);
+      stopListening();
+    },
+  };
+}
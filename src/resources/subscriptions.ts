@@ -0,0 +1,110 @@
+/**
+ * Resource Subscriptions
+ *
+ * Tracks which connected clients subscribed to which resource URIs
+ * (`resources/subscribe`) and sends `notifications/resources/updated` and
+ * `notifications/resources/list_changed` to them.
+ *
+ * Each MCP server instance (one per stateful HTTP session, or the single
+ * stdio/stateless server) registers itself here when it is created.
+ *
+ * @module resources/subscriptions
+ */
+
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { createLogger } from '../utils/logger.js';
+
+const log = createLogger('resources');
+
+/**
+ * Subscribed URIs per connected server
+ */
+const subscriptions = new Map<Server, Set<string>>();
+
+/**
+ * Strip the fragment from a URI (subscriptions are per document)
+ */
+function normalizeUri(uri: string): string {
+  return uri.split('#')[0];
+}
+
+/**
+ * Register subscribe/unsubscribe handlers on a server
+ *
+ * The server must declare `resources: { subscribe: true }`. It is removed
+ * from the registry when it closes.
+ *
+ * @param server - MCP server
+ */
+export function registerResourceSubscriptions(server: Server): void {
+  const uris = new Set<string>();
+  subscriptions.set(server, uris);
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    uris.add(normalizeUri(request.params.uri));
+    log.debug('Resource subscribed', { uri: request.params.uri });
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    uris.delete(normalizeUri(request.params.uri));
+    return {};
+  });
+
+  const previousOnClose = server.onclose;
+  server.onclose = () => {
+    subscriptions.delete(server);
+    previousOnClose?.();
+  };
+}
+
+/**
+ * Get every URI that at least one client is subscribed to
+ */
+export function getSubscribedUris(): Set<string> {
+  const all = new Set<string>();
+  for (const uris of subscriptions.values()) {
+    uris.forEach((uri) => all.add(uri));
+  }
+  return all;
+}
+
+/**
+ * Notify subscribed clients that resources changed
+ *
+ * @param uris - Changed resource URIs
+ * @returns Number of notifications sent
+ */
+export async function notifyResourcesUpdated(uris: Iterable<string>): Promise<number> {
+  const changed = new Set(Array.from(uris, normalizeUri));
+  const sends: Promise<void>[] = [];
+  for (const [server, subscribed] of subscriptions.entries()) {
+    for (const uri of changed) {
+      if (subscribed.has(uri)) {
+        sends.push(server.sendResourceUpdated({ uri }));
+      }
+    }
+  }
+  await Promise.all(
+    sends.map((send) =>
+      send.catch((error) => {
+        log.debug('Failed to send resource update', { error });
+      })
+    )
+  );
+  return sends.length;
+}
+
+/**
+ * Notify all connected clients that the resource list changed
+ */
+export async function notifyResourceListChanged(): Promise<void> {
+  await Promise.all(
+    Array.from(subscriptions.keys(), (server) =>
+      server.sendResourceListChanged().catch((error) => {
+        log.debug('Failed to send resource list change', { error });
+      })
+    )
+  );
+}
@@ -0,0 +1,111 @@
+/**
+ * Compendium Watcher
+ *
+ * Watches the AI docs directory with chokidar. When files change, cached
+ * resources are invalidated and subscribed clients are notified; when files
+ * are added or removed, all clients get `resources/list_changed`.
+ *
+ * @module resources/watcher
+ */
+
+import path from 'path';
+import chokidar from 'chokidar';
+import { invalidateResourcePath } from './index.js';
+import { notifyResourcesUpdated, notifyResourceListChanged } from './subscriptions.js';
+import { filePathToUri } from '../utils/uri.js';
+import { createLogger } from '../utils/logger.js';
+
+const log = createLogger('compendium-watcher');
+
+type WatchEvent = 'add' | 'change' | 'unlink' | 'addDir' | 'unlinkDir';
+
+/**
+ * Running watcher
+ */
+export interface CompendiumWatcher {
+  close(): Promise<void>;
+}
+
+/**
+ * Start watching the compendium
+ *
+ * Events are batched for `debounceMs` so a `git pull` produces one round of
+ * notifications rather than one per file.
+ *
+ * @param aiDocsPath - AI docs directory
+ * @param options - Polling (for bind mounts that don't emit fs events) and debounce
+ * @returns Watcher handle
+ */
+export function watchCompendium(
+  aiDocsPath: string,
+  options: { usePolling?: boolean; debounceMs?: number } = {}
+): CompendiumWatcher {
+  const debounceMs = options.debounceMs ?? 250;
+  const pending = new Map<string, WatchEvent>();
+  let timer: NodeJS.Timeout | null = null;
+
+  const flush = async () => {
+    timer = null;
+    const events = Array.from(pending.entries());
+    pending.clear();
+
+    let listChanged = false;
+    const updatedUris = new Set<string>();
+    for (const [changedPath, event] of events) {
+      if (event !== 'change') {
+        listChanged = true;
+      }
+      invalidateResourcePath(changedPath).forEach((uri) => updatedUris.add(uri));
+      if (event === 'add' || event === 'change' || event === 'unlink') {
+        const uri = filePathToUri(changedPath, aiDocsPath);
+        if (uri) {
+          updatedUris.add(uri);
+        }
+      }
+    }
+
+    log.info('Compendium changed', { paths: events.length, resources: updatedUris.size, list_changed: listChanged });
+    const notified = await notifyResourcesUpdated(updatedUris);
+    if (listChanged) {
+      await notifyResourceListChanged();
+    }
+    if (notified > 0) {
+      log.debug('Sent resource update notifications', { notifications: notified });
+    }
+  };
+
+  const watcher = chokidar.watch(aiDocsPath, {
+    ignoreInitial: true,
+    // Git metadata churns on every pull and is never served as a resource
+    ignored: (watchedPath: string) => watchedPath.split(path.sep).includes('.git'),
+    usePolling: options.usePolling ?? false,
+    awaitWriteFinish: { stabilityThreshold: 200, pollInterval: 50 },
+  });
+
+  watcher.on('all', (event, changedPath) => {
+    pending.set(changedPath, event as WatchEvent);
+    if (!timer) {
+      timer = setTimeout(() => {
+        flush().catch((error) => {
+          log.error('Error handling compendium change', { error });
+        });
+      }, debounceMs);
+    }
+  });
+
+  watcher.on('error', (error) => {
+    log.error('Compendium watcher error', { error });
+  });
+
+  log.info('Watching compendium for changes', { path: aiDocsPath, polling: options.usePolling ?? false });
+
+  return {
+    close: async () => {
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+      await watcher.close();
+    },
+  };
+}
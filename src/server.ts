@@ -13,27 +13,49 @@ import { createMcpExpressApp } from "@modelcontextprotocol/sdk/server/express.js
 import {
   ListResourcesRequestSchema,
   ReadResourceRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
   CallToolRequestSchema,
   ListPromptsRequestSchema,
   GetPromptRequestSchema,
+  CompleteRequestSchema,
+  isInitializeRequest,
 } from "@modelcontextprotocol/sdk/types.js";
+import type { Response } from "express";
 import { getResource, listResources, getResourceMimeType } from "./resources/index.js";
 import { listPrompts, getPrompt } from "./prompts/index.js";
-import { config } from "./config.js";
+import { completeArgument } from "./completions/index.js";
+import { registerResourceSubscriptions } from "./resources/subscriptions.js";
+import { watchCompendium, type CompendiumWatcher } from "./resources/watcher.js";
+import { STATE_RESOURCE_TEMPLATES, isStateUri, getStateResource, startStatePoller, type StatePoller } from "./resources/state.js";
+import { config, configFile, getConfigErrors } from "./config.js";
 import { ensureCompendiumPresent } from "./utils/compendium.js";
 // Tool definitions and handlers are now modular
 import { getAllToolDefinitions } from "./tools/definitions/index.js";
 import { getToolHandler } from "./tools/handlers/index.js";
+import { HttpSessionManager } from "./utils/http-sessions.js";
+import { closeEventStream } from "./utils/event-stream.js";
+import { getAlertEngine, type AlertEngine } from "./tools/alerts.js";
+import { loadApiKeys, createAuthMiddleware, checkToolAccess, filterToolsForAuth } from "./utils/auth.js";
+import { createPermissionError } from "./utils/errors.js";
+import { recordToolCall, renderPrometheusMetrics } from "./utils/metrics.js";
+import { getHealthReport, healthReportToGauges } from "./utils/health.js";
+import { logger, attachMcpLogging, createRequestId, createRequestLogSink, runWithLogContext } from "./utils/logger.js";
+import { runWithRequestContext, type ProgressUpdate } from "./utils/request-context.js";
 
 /**
- * Initialize and start the MCP server
+ * Create an MCP server instance with all handlers registered
+ *
+ * Stdio and stateless HTTP use a single instance; stateful HTTP creates one
+ * per session.
+ *
+ * @param aiDocsPath - Path to the Structs Compendium
+ * @param canPush - Whether the transport can send notifications outside a
+ *   response (false for stateless HTTP with JSON responses), so resource
+ *   subscriptions and list changes are offered
+ * @returns Configured server (not yet connected to a transport)
  */
-async function main() {
-  console.error("🚀 Starting Structs MCP Server...");
-  console.error(`   Version: 0.1.0`);
-  console.error(`   Transport: ${config.transport}`);
-  
+function createServer(aiDocsPath: string, canPush = true): Server {
   const server = new Server(
     {
       name: "structs-mcp",
@@ -41,26 +63,25 @@ async function main() {
     },
     {
       capabilities: {
-        resources: {},
+        resources: canPush ? { subscribe: true, listChanged: true } : {},
         tools: {},
         prompts: {},
+        completions: {},
+        logging: {},
       },
     }
   );
-  console.error("✅ MCP Server instance created");
 
-  // Get AI docs path from environment or use default
-  const aiDocsPath = process.env.AI_DOCS_PATH || config.aiDocsPath;
-  console.error(`📁 AI Docs Path: ${aiDocsPath}`);
-
-  // Ensure the Structs Compendium is present at the AI docs path.
-  // If the directory is missing or empty, this will automatically
-  // clone the default repository (or the one specified via
-  // STRUCTS_MCP_COMPENDIUM_REPO).
-  await ensureCompendiumPresent(aiDocsPath);
+  // Forward log entries to the client once it sets a level (logging/setLevel)
+  // With API keys, clients are separate tenants: background entries (alerts,
+  // jobs) may name another tenant's players, so only the requester's reach them
+  const logSink = attachMcpLogging(server, { background: !config.authKeysFile });
 
   // Phase 1: Resource Server
-  console.error("📚 Setting up resource handlers...");
+  if (canPush) {
+    registerResourceSubscriptions(server);
+  }
+
   server.setRequestHandler(ListResourcesRequestSchema, async () => {
     const resources = await listResources(aiDocsPath);
     return {
@@ -72,25 +93,36 @@ async function main() {
     };
   });
 
+  // Live game state (structs://state/{entity}/{id})
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return { resourceTemplates: STATE_RESOURCE_TEMPLATES };
+  });
+
   server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    if (isStateUri(request.params.uri)) {
+      const state = await getStateResource(request.params.uri);
+      if (!state) {
+        throw new Error(`Resource not found: ${request.params.uri}`);
+      }
+      return { contents: [state] };
+    }
+
     const resource = await getResource(request.params.uri, aiDocsPath);
     if (!resource) {
       throw new Error(`Resource not found: ${request.params.uri}`);
     }
     return resource;
   });
-  console.error("✅ Resource handlers registered");
 
   // Phase 2: Validation Tools + Phase 3: Query & Action Tools
-  console.error("🔧 Setting up tool handlers...");
-  server.setRequestHandler(ListToolsRequestSchema, async () => {
+  // Authenticated HTTP clients only see and call the tools their key's scopes allow
+  server.setRequestHandler(ListToolsRequestSchema, async (request, extra) => {
     return {
-      tools: getAllToolDefinitions(),
+      tools: filterToolsForAuth(getAllToolDefinitions(), extra.authInfo),
     };
   });
-  console.error("✅ Tool definitions registered");
 
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
     const { name, arguments: args } = request.params;
 
     // Get handler from registry
@@ -99,9 +131,56 @@ async function main() {
       throw new Error(`Unknown tool: ${name}`);
     }
 
-    return await handler(args);
+    const access = checkToolAccess(name, args, extra.authInfo);
+    if (!access.allowed) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(createPermissionError(access.reason || 'Access denied', { tool: name }), null, 2),
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    // Everything logged while this call runs carries its correlation ID
+    const context = {
+      request_id: createRequestId(),
+      tool: name,
+      sink: createRequestLogSink(logSink, extra.sendNotification),
+    };
+    // Long-running tools report progress when asked and stop when cancelled
+    const progressToken = request.params._meta?.progressToken;
+    const requestContext = {
+      signal: extra.signal,
+      // Event subscriptions and other per-client state belong to the key or session
+      owner: extra.authInfo?.clientId ?? extra.sessionId,
+      onProgress:
+        progressToken !== undefined
+          ? (update: ProgressUpdate) => {
+              extra
+                .sendNotification({ method: 'notifications/progress', params: { progressToken, ...update } })
+                .catch((error) => logger.debug('Failed to send progress notification', { error }));
+            }
+          : undefined,
+    };
+    return runWithLogContext(context, async () => {
+      const start = Date.now();
+      logger.debug('Tool call started', { client_id: extra.authInfo?.clientId, session_id: extra.sessionId });
+      try {
+        const result = await runWithRequestContext(requestContext, () => handler(args));
+        const isError = 'isError' in result && result.isError === true;
+        recordToolCall(name, Date.now() - start, isError);
+        logger.info('Tool call completed', { duration_ms: Date.now() - start, is_error: isError });
+        return result;
+      } catch (error) {
+        recordToolCall(name, Date.now() - start, true);
+        logger.error('Tool call failed', { duration_ms: Date.now() - start, error });
+        throw error;
+      }
+    });
   });
-  console.error("✅ Tool call handler registered");
 
   // Prompts (structs.ai workflows)
   server.setRequestHandler(ListPromptsRequestSchema, async () => {
@@ -115,44 +194,93 @@ async function main() {
     }
     return result;
   });
-  console.error("✅ Prompt handlers registered");
+
+  // Argument completion for prompt arguments and resource template variables
+  server.setRequestHandler(CompleteRequestSchema, async (request) => {
+    return { completion: await completeArgument(request.params.ref, request.params.argument) };
+  });
 
   // Phase 3: API Integration Tools - ✅ COMPLETE
   // Phase 4: Calculation Tools - ✅ COMPLETE
 
+  return server;
+}
+
+/**
+ * Send a JSON-RPC error response for a request that never reached a transport
+ */
+function sendJsonRpcError(res: Response, httpStatus: number, code: number, message: string): void {
+  res.status(httpStatus).json({
+    jsonrpc: '2.0',
+    error: { code, message },
+    id: null,
+  });
+}
+
+// Stateful HTTP sessions (only set when MCP_HTTP_SESSION_MODE=stateful)
+let httpSessions: HttpSessionManager | null = null;
+
+// Compendium file watcher (unless COMPENDIUM_WATCH=false)
+let compendiumWatcher: CompendiumWatcher | null = null;
+
+// Re-reads subscribed structs://state/... resources
+let statePoller: StatePoller | null = null;
+
+// Checks alert rules for the watched players (ALERT_PLAYERS)
+let alertEngine: AlertEngine | null = null;
+
+/**
+ * Initialize and start the MCP server
+ */
+async function main() {
+  const configErrors = getConfigErrors();
+  if (configErrors.length > 0) {
+    logger.log('critical', 'Invalid configuration', { errors: configErrors, config_file: configFile });
+    process.exit(1);
+  }
+  logger.info('Starting Structs MCP Server', {
+    version: '0.1.0',
+    transport: config.transport,
+    profile: config.profile,
+    chain_id: config.chainId,
+    consensus_api_url: config.consensusApiUrl,
+    config_file: configFile,
+  });
+
+  // AI docs path (AI_DOCS_PATH, config file or default)
+  const aiDocsPath = config.aiDocsPath;
+  logger.info('AI docs path', { path: aiDocsPath });
+
+  // Ensure the Structs Compendium is present at the AI docs path.
+  // If the directory is missing or empty, this will automatically
+  // clone the default repository (or the one specified via
+  // STRUCTS_MCP_COMPENDIUM_REPO).
+  await ensureCompendiumPresent(aiDocsPath);
+
+  if (config.compendiumWatch) {
+    compendiumWatcher = watchCompendium(aiDocsPath, { usePolling: config.compendiumWatchPolling });
+  }
+  statePoller = startStatePoller(config.stateResourcePollInterval);
+  alertEngine = getAlertEngine();
+  alertEngine.start();
+
+  logger.info('Resource, tool and prompt handlers ready');
+
   // Choose transport based on configuration
-  console.error(`\n🌐 Initializing transport: ${config.transport}...`);
+  logger.info('Initializing transport', { transport: config.transport });
   if (config.transport === 'http' || config.transport === 'sse') {
     // HTTP/SSE transport for Cursor and other HTTP-based clients
     // Use createMcpExpressApp for proper setup with body parsing
-    console.error("   Creating Express app with MCP configuration...");
     const allowedHosts = config.httpHost === '0.0.0.0' ? ['localhost', '127.0.0.1'] : undefined;
     const app = createMcpExpressApp({
       host: config.httpHost,
       allowedHosts: allowedHosts,
     });
-    console.error("   ✅ Express app created with DNS rebinding protection");
-    
-    // Create a single transport that handles all sessions
-    // Use stateless mode (sessionIdGenerator: undefined) to avoid session initialization requirements
-    // Enable JSON responses for better client compatibility (Cursor, etc.)
-    console.error("   Creating StreamableHTTPServerTransport (stateless mode, JSON responses enabled)...");
-    const transport = new StreamableHTTPServerTransport({
-      sessionIdGenerator: undefined,  // Stateless mode - no session ID required
-      enableJsonResponse: true  // Return JSON instead of SSE for better client compatibility
-    });
-    console.error("   ✅ Transport created");
-    
-    // Connect server to transport once (this will start the transport internally)
-    console.error("   Connecting server to transport...");
-    await server.connect(transport);
-    console.error("   ✅ Server connected to transport");
+    logger.debug('Express app created with DNS rebinding protection', { allowed_hosts: allowedHosts });
     
     // Handle all MCP requests (GET, POST, DELETE)
     // The transport expects req.body to be parsed for POST requests
     // createMcpExpressApp already sets up express.json() middleware
-    console.error("   Setting up /mcp route handler...");
-    
     // Add middleware to normalize Accept headers for better client compatibility
     // This ensures clients that don't send proper Accept headers still work
     app.all('/mcp', (req, res, next) => {
@@ -187,49 +315,154 @@ async function main() {
       
       next();
     });
-    
-    app.all('/mcp', async (req, res, next) => {
-      try {
-        // For POST requests, pass the parsed body (req.body) to handleRequest
-        await transport.handleRequest(req, res, req.body);
-      } catch (error) {
-        console.error('Error handling MCP request:', error);
-        if (!res.headersSent) {
-          res.status(500).json({ error: 'Internal server error' });
+
+    // Authentication (API keys with per-key scopes)
+    if (config.authKeysFile) {
+      const keys = loadApiKeys(config.authKeysFile);
+      app.use('/mcp', createAuthMiddleware(keys));
+      logger.info('API key authentication enabled', { keys: keys.length, file: config.authKeysFile });
+    } else if (config.danger) {
+      logger.warn('HTTP transport is unauthenticated and DANGER=true. Anyone who can reach this port can submit transactions. Set MCP_AUTH_KEYS_FILE.');
+    }
+
+    if (config.httpSessionMode === 'stateful') {
+      // Stateful mode: one server + transport per client session, SSE streams
+      // with an event store so clients can resume with Last-Event-ID
+      logger.info('Using stateful HTTP sessions', { idle_timeout_ms: config.httpSessionIdleTimeout });
+      const sessions = new HttpSessionManager(() => createServer(aiDocsPath), {
+        idleTimeoutMs: config.httpSessionIdleTimeout,
+        maxEventsPerSession: config.httpEventStoreMaxEvents,
+      });
+      sessions.startSweeper();
+      httpSessions = sessions;
+
+      app.all('/mcp', async (req, res) => {
+        try {
+          const sessionId = req.headers['mcp-session-id'];
+          if (typeof sessionId === 'string') {
+            const session = sessions.get(sessionId);
+            if (!session) {
+              // Unknown or expired session: clients must re-initialize
+              sendJsonRpcError(res, 404, -32001, 'Session not found');
+              return;
+            }
+            if (session.client_id !== req.auth?.clientId) {
+              // Sessions are bound to the API key that opened them
+              sendJsonRpcError(res, 403, -32001, 'Session belongs to a different API key');
+              return;
+            }
+            // GET (stream/resume), POST and DELETE all go to the session's transport
+            await sessions.handleRequest(session, req, res, req.body);
+            return;
+          }
+
+          if (req.method === 'POST' && isInitializeRequest(req.body)) {
+            await sessions.open(req, res, req.body, req.auth?.clientId);
+            return;
+          }
+
+          sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+        } catch (error) {
+          logger.error('Error handling MCP request', { method: req.method, error });
+          if (!res.headersSent) {
+            res.status(500).json({ error: 'Internal server error' });
+          }
+        }
+      });
+    } else {
+      // Create a single transport that handles all sessions
+      // Use stateless mode (sessionIdGenerator: undefined) to avoid session initialization requirements
+      // Enable JSON responses for better client compatibility (Cursor, etc.)
+      const server = createServer(aiDocsPath, false);
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: undefined,  // Stateless mode - no session ID required
+        enableJsonResponse: true  // Return JSON instead of SSE for better client compatibility
+      });
+
+      // Connect server to transport once (this will start the transport internally)
+      await server.connect(transport);
+      logger.info('Using stateless HTTP transport (JSON responses enabled)');
+
+      app.all('/mcp', async (req, res) => {
+        try {
+          // For POST requests, pass the parsed body (req.body) to handleRequest
+          await transport.handleRequest(req, res, req.body);
+        } catch (error) {
+          logger.error('Error handling MCP request', { method: req.method, error });
+          if (!res.headersSent) {
+            res.status(500).json({ error: 'Internal server error' });
+          }
         }
+      });
+    }
+
+    // Operational endpoints (outside /mcp, so not behind API key auth)
+    app.get('/healthz', (_req, res) => {
+      // Liveness: the process is up and serving HTTP
+      res.json({ status: 'ok', uptime_seconds: Math.round(process.uptime()) });
+    });
+
+    app.get('/readyz', async (_req, res) => {
+      const report = await getHealthReport(aiDocsPath);
+      res.status(report.ready ? 200 : 503).json(report);
+    });
+
+    app.get('/metrics', async (_req, res) => {
+      const report = await getHealthReport(aiDocsPath);
+      const gauges = healthReportToGauges(report);
+      if (httpSessions) {
+        gauges.push({ name: 'structs_mcp_http_sessions', help: 'Active stateful HTTP sessions', value: httpSessions.size });
       }
+      res.setHeader('Content-Type', 'text/plain; version=0.0.4; charset=utf-8');
+      res.send(renderPrometheusMetrics(gauges));
     });
-    
+
     app.listen(config.httpPort, config.httpHost, () => {
-      console.error(`\n✅ MCP Server running on http://${config.httpHost}:${config.httpPort}/mcp`);
-      console.error(`   Ready to accept connections`);
+      logger.info('MCP Server running', {
+        url: `http://${config.httpHost}:${config.httpPort}/mcp`,
+        health_endpoints: ['/healthz', '/readyz', '/metrics'],
+      });
     });
   } else {
     // stdio transport (default)
-    console.error("   Using stdio transport...");
+    const server = createServer(aiDocsPath);
     const transport = new StdioServerTransport();
     await server.connect(transport);
-    console.error("   ✅ Server connected to stdio transport");
-    console.error("\n✅ MCP Server ready (stdio mode)");
+    // The watcher would otherwise keep the process alive after the client goes away
+    process.stdin.on('end', () => {
+      compendiumWatcher?.close().catch(() => {});
+      closeEventStream().catch(() => {});
+    });
+    logger.info('MCP Server ready (stdio mode)');
   }
 }
 
 // Start the server
 main().catch((error) => {
-  console.error('Fatal error starting server:', error);
+  logger.log('critical', 'Fatal error starting server', { error, stack: error instanceof Error ? error.stack : undefined });
   process.exit(1);
 });
 
 // Graceful shutdown
 process.on('SIGINT', async () => {
-  console.error('\n🛑 Shutting down...');
+  logger.info('Shutting down', { signal: 'SIGINT' });
+  await httpSessions?.closeAll();
+  await compendiumWatcher?.close();
+  statePoller?.stop();
+  alertEngine?.stop();
+  await closeEventStream();
   const { closeDatabasePool } = await import('./utils/database.js');
   await closeDatabasePool();
   process.exit(0);
 });
 
 process.on('SIGTERM', async () => {
-  console.error('\n🛑 Shutting down...');
+  logger.info('Shutting down', { signal: 'SIGTERM' });
+  await httpSessions?.closeAll();
+  await compendiumWatcher?.close();
+  statePoller?.stop();
+  alertEngine?.stop();
+  await closeEventStream();
   const { closeDatabasePool } = await import('./utils/database.js');
   await closeDatabasePool();
   process.exit(0);
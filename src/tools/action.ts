@@ -7,6 +7,7 @@
  */
 
 import { query, isDangerEnabled, getDangerErrorResponse } from '../utils/database.js';
+import { invalidateActionTargets, invalidateEntities } from '../utils/query-cache.js';
 
 /**
  * Submit transaction using signer.tx_* functions
@@ -488,6 +489,9 @@ export async function submitTransaction(
       }
     }
 
+    // Cached state of everything the action touches is now stale
+    invalidateActionTargets(player_id, args);
+
     return {
       transaction_hash: transactionHash,
       transaction_id: transactionId,
@@ -546,6 +550,7 @@ export async function createPlayer(
     }
 
     const roleId = result.rows[0].role_id;
+    invalidateEntities([guild_id], { pending: true });
 
     // Check role status (it may take time to generate)
     const roleResult = await query(
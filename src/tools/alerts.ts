@@ -0,0 +1,780 @@
+/**
+ * Alerts
+ *
+ * A rules engine over game state and events. Each rule watches one source:
+ *
+ * - `player`: the watched players' state, read every `alerts.interval` ms
+ *   (halted, load, capacity, load_ratio, ore, ...)
+ * - `event`: events from the NATS event stream (subject, category, the
+ *   entity IDs it names, payload under `data`)
+ * - `job`: proof-of-work jobs (status, ready, blocks_remaining, ...)
+ *
+ * A rule matches when all its conditions hold. Player and job rules fire
+ * once when they start matching and are resolved when they stop; event rules
+ * fire for every matching event. Fired alerts are logged under the `alerts`
+ * logger, so clients that set a log level receive them as
+ * `notifications/message`, and kept for `structs_alerts_list`.
+ *
+ * Subjects and condition values may name the watched player's entities:
+ * `{player_id}`, `{planet_id}`, `{fleet_id}` and `{struct_ids}` (the structs
+ * on its planet and in its fleet).
+ *
+ * @module tools/alerts
+ */
+
+import { config } from '../config.js';
+import { queryPlayer, queryPlanet, queryFleet } from './query.js';
+import { normalizePlayer, normalizePlanet, normalizeFleet } from './models.js';
+import { getEventStream, subjectMatches, type EventStream, type StreamEvent } from '../utils/event-stream.js';
+import { createLogger, isLevelEnabled, type LogLevel } from '../utils/logger.js';
+import { getEntityTypeFromId } from '../types/references.js';
+import type { JobStatus } from '../utils/process-manager.js';
+import type { AmbitSlots } from '../types/entities.js';
+
+const log = createLogger('alerts');
+
+/**
+ * What a rule watches
+ */
+export type AlertSource = 'player' | 'event' | 'job';
+
+/**
+ * Comparison in a condition
+ */
+export type AlertOperator = '=' | '!=' | '>' | '>=' | '<' | '<=' | 'in' | 'not_in' | 'contains' | 'not_contains' | 'matches';
+
+/**
+ * One condition: `field` (a dotted path into the facts) compared with `value`
+ */
+export interface AlertCondition {
+  field: string;
+  op: AlertOperator;
+  value?: unknown;
+}
+
+/**
+ * Alert rule
+ */
+export interface AlertRule {
+  id: string;
+  source: AlertSource;
+  description?: string;
+  /** Event rules: subject pattern (NATS wildcards and placeholders) */
+  subject?: string;
+  /** Conditions that must all hold */
+  when: AlertCondition[];
+  severity: LogLevel;
+  /** Message; `{field}` is replaced with the matched fact */
+  message: string;
+  /** Event rules: minimum ms between alerts for the same entity */
+  cooldown?: number;
+  enabled: boolean;
+}
+
+/**
+ * A fired alert
+ */
+export interface Alert {
+  alert_id: number;
+  rule_id: string;
+  severity: LogLevel;
+  message: string;
+  player_id?: string;
+  entity_id?: string;
+  /** Facts the rule matched on */
+  facts: Record<string, unknown>;
+  fired_at: string;
+  /** Player and job rules: the condition still holds */
+  active: boolean;
+  resolved_at?: string;
+}
+
+/**
+ * Which alerts to list
+ */
+export interface AlertListFilter {
+  /** Only alerts after this `alert_id` (oldest first); otherwise the most recent */
+  since?: number;
+  active_only?: boolean;
+  /** Minimum severity */
+  severity?: LogLevel;
+  rule_id?: string;
+  player_id?: string;
+  limit?: number;
+}
+
+/**
+ * Engine settings (defaults come from `config.alerts`)
+ */
+export interface AlertEngineOptions {
+  /** Players to watch; none turns the engine off */
+  players: string[];
+  rules: AlertRule[];
+  /** How often player and job rules are checked (ms) */
+  interval: number;
+  /** Alerts kept for listing */
+  historySize: number;
+  /** Event stream for event rules (default: the shared one) */
+  stream?: EventStream;
+  /** Proof-of-work jobs (default: the process manager's) */
+  getJobs?: () => JobStatus[] | Promise<JobStatus[]>;
+}
+
+/**
+ * Alert engine
+ */
+export interface AlertEngine {
+  /** Start checking rules (no-op without watched players) */
+  start(): void;
+  stop(): void;
+  isRunning(): boolean;
+  /** Check player and job rules now */
+  evaluate(): Promise<Alert[]>;
+  /** Check event rules against one event */
+  handleEvent(event: StreamEvent): Alert[];
+  list(filter?: AlertListFilter): { alerts: Alert[]; next_cursor: number; has_more: boolean };
+  getRules(): AlertRule[];
+  getPlayers(): string[];
+}
+
+/**
+ * structs_alerts_list result
+ */
+export interface AlertListResult {
+  /** The engine is running (players are watched) */
+  enabled: boolean;
+  watching: string[];
+  alerts: Alert[];
+  /** `since` for the next call */
+  next_cursor: number;
+  has_more: boolean;
+  rules: Array<Pick<AlertRule, 'id' | 'source' | 'severity' | 'enabled' | 'description'>>;
+  /** Configured rules that were skipped */
+  rule_errors: string[];
+  message?: string;
+  timestamp: string;
+}
+
+/**
+ * A watched player's entities, for placeholders
+ */
+interface PlayerContext {
+  player_id: string;
+  planet_id?: string;
+  fleet_id?: string;
+  struct_ids: string[];
+}
+
+const SOURCES: readonly AlertSource[] = ['player', 'event', 'job'];
+const OPERATORS: readonly AlertOperator[] = ['=', '!=', '>', '>=', '<', '<=', 'in', 'not_in', 'contains', 'not_contains', 'matches'];
+const SEVERITIES: readonly LogLevel[] = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'];
+
+/**
+ * Built-in rules (override or disable them by id in `alerts.rules`)
+ */
+export const DEFAULT_ALERT_RULES: readonly AlertRule[] = [
+  {
+    id: 'player_halted',
+    source: 'player',
+    description: 'The player is halted (load exceeds capacity; its structs are offline)',
+    when: [{ field: 'halted', op: '=', value: true }],
+    severity: 'critical',
+    message: 'Player {player_id} is halted: load {load} W exceeds capacity {capacity} W',
+    enabled: true,
+  },
+  {
+    id: 'load_high',
+    source: 'player',
+    description: 'Load is above 90% of capacity',
+    when: [{ field: 'load_ratio', op: '>', value: 0.9 }],
+    severity: 'warning',
+    message: 'Player {player_id} load is {load} of {capacity} W ({load_ratio} of capacity)',
+    enabled: true,
+  },
+  {
+    id: 'ore_high',
+    source: 'player',
+    description: 'Unrefined ore is above 10 (it can be raided until refined)',
+    when: [{ field: 'ore', op: '>', value: 10 }],
+    severity: 'notice',
+    message: 'Player {player_id} holds {ore} unrefined ore',
+    enabled: true,
+  },
+  {
+    id: 'enemy_fleet_arrived',
+    source: 'event',
+    description: 'Another player\'s fleet arrived at the player\'s planet',
+    subject: 'structs.planet.{planet_id}',
+    when: [
+      { field: 'category', op: 'matches', value: 'arriv' },
+      { field: 'fleet_ids', op: 'not_contains', value: '{fleet_id}' },
+    ],
+    severity: 'alert',
+    message: 'Fleet {fleet_ids} arrived at planet {planet_id}',
+    enabled: true,
+  },
+  {
+    id: 'struct_damaged',
+    source: 'event',
+    description: 'One of the player\'s structs took damage',
+    subject: 'structs.struct.>',
+    when: [
+      { field: 'entity_id', op: 'in', value: '{struct_ids}' },
+      { field: 'category', op: 'matches', value: 'damage|health|destroy' },
+    ],
+    severity: 'error',
+    message: 'Struct {entity_id} took damage ({category})',
+    cooldown: 60000,
+    enabled: true,
+  },
+  {
+    id: 'pow_ready',
+    source: 'job',
+    description: 'A proof-of-work job reached its target difficulty',
+    when: [{ field: 'ready', op: '=', value: true }],
+    severity: 'notice',
+    message: 'Proof-of-work job {job_id} ({action_type} {entity_id}) reached its target difficulty',
+    enabled: true,
+  },
+];
+
+/**
+ * Read a dotted path
+ */
+function getField(facts: Record<string, unknown>, path: string): unknown {
+  let value: unknown = facts;
+  for (const key of path.split('.')) {
+    if (!value || typeof value !== 'object') return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+/**
+ * Fill `{name}` placeholders
+ *
+ * A value that is exactly one placeholder becomes the named value itself
+ * (which may be an array, or undefined); in longer strings every
+ * placeholder must be known.
+ */
+function expand(template: unknown, values: Record<string, unknown>): unknown {
+  if (typeof template !== 'string') {
+    return template;
+  }
+  const whole = template.match(/^\{(\w+)\}$/);
+  if (whole) {
+    return values[whole[1]];
+  }
+  let missing = false;
+  const text = template.replace(/\{(\w+)\}/g, (_, name: string) => {
+    if (values[name] === undefined) {
+      missing = true;
+      return '';
+    }
+    return String(values[name]);
+  });
+  return missing ? undefined : text;
+}
+
+function equals(a: unknown, b: unknown): boolean {
+  if (a === undefined || a === null || b === undefined || b === null) {
+    return a === b;
+  }
+  const [x, y] = [Number(a), Number(b)];
+  if (typeof a !== 'boolean' && typeof b !== 'boolean' && String(a).trim() !== '' && !isNaN(x) && !isNaN(y)) {
+    return x === y;
+  }
+  return String(a) === String(b);
+}
+
+function compare(actual: unknown, op: AlertOperator, expected: unknown): boolean {
+  switch (op) {
+    case '=': return equals(actual, expected);
+    case '!=': return !equals(actual, expected);
+    case '>': case '>=': case '<': case '<=': {
+      if (actual === undefined || actual === null || expected === undefined || expected === null) return false;
+      const [x, y] = [Number(actual), Number(expected)];
+      if (isNaN(x) || isNaN(y)) return false;
+      return op === '>' ? x > y : op === '>=' ? x >= y : op === '<' ? x < y : x <= y;
+    }
+    case 'in': return Array.isArray(expected) && expected.some((item) => equals(actual, item));
+    case 'not_in': return !Array.isArray(expected) || !expected.some((item) => equals(actual, item));
+    case 'contains':
+      return Array.isArray(actual) ? actual.some((item) => equals(item, expected)) : expected !== undefined && String(actual ?? '').includes(String(expected));
+    case 'not_contains':
+      return !compare(actual, 'contains', expected);
+    case 'matches': return new RegExp(String(expected), 'i').test(String(actual ?? ''));
+  }
+}
+
+/**
+ * Whether every condition of a rule holds
+ */
+function matches(rule: AlertRule, facts: Record<string, unknown>, values: Record<string, unknown>): boolean {
+  return rule.when.every((condition) => compare(getField(facts, condition.field), condition.op, expand(condition.value, values)));
+}
+
+function render(template: string, values: Record<string, unknown>): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = values[name];
+    if (value === undefined || value === null) return placeholder;
+    return Array.isArray(value) ? value.join(', ') : String(value);
+  });
+}
+
+/**
+ * Check one rule definition
+ *
+ * @returns Error messages (empty when valid)
+ */
+function validateRule(rule: AlertRule): string[] {
+  const errors: string[] = [];
+  if (!SOURCES.includes(rule.source)) {
+    errors.push(`source must be one of ${SOURCES.join(', ')}`);
+  }
+  if (!SEVERITIES.includes(rule.severity)) {
+    errors.push(`severity must be one of ${SEVERITIES.join(', ')}`);
+  }
+  if (!Array.isArray(rule.when) || rule.when.length === 0) {
+    errors.push('when must list at least one condition');
+  } else {
+    rule.when.forEach((condition, index) => {
+      if (!condition || typeof condition.field !== 'string' || !OPERATORS.includes(condition.op)) {
+        errors.push(`when[${index}] needs a field and an op (${OPERATORS.join(', ')})`);
+      } else if (condition.op === 'matches') {
+        try {
+          new RegExp(String(condition.value));
+        } catch {
+          errors.push(`when[${index}] has an invalid pattern: ${String(condition.value)}`);
+        }
+      }
+    });
+  }
+  if (rule.subject !== undefined && (rule.source !== 'event' || typeof rule.subject !== 'string')) {
+    errors.push('subject only applies to event rules');
+  }
+  if (rule.cooldown !== undefined && (!Number.isInteger(rule.cooldown) || rule.cooldown < 0)) {
+    errors.push('cooldown must be a non-negative integer (ms)');
+  }
+  return errors;
+}
+
+/**
+ * Merge configured rules into the built-in ones
+ *
+ * A configured rule with a built-in rule's id overrides its settings
+ * (e.g. `{ id: 'ore_high', when: [...] }` or `{ id: 'load_high', enabled: false }`);
+ * other ids add rules. Invalid rules are skipped.
+ *
+ * @param configured - Rules from `alerts.rules`
+ * @param defaults - Built-in rules
+ * @returns Rules in effect and errors for the skipped ones
+ */
+export function parseAlertRules(
+  configured: unknown,
+  defaults: readonly AlertRule[] = DEFAULT_ALERT_RULES
+): { rules: AlertRule[]; errors: string[] } {
+  const rules = new Map(defaults.map((rule) => [rule.id, rule]));
+  const errors: string[] = [];
+  if (!Array.isArray(configured)) {
+    if (configured !== undefined && configured !== null) {
+      errors.push('alerts.rules: expected a list of rules');
+    }
+    return { rules: [...rules.values()], errors };
+  }
+
+  configured.forEach((entry, index) => {
+    if (!entry || typeof entry !== 'object' || typeof (entry as AlertRule).id !== 'string' || !(entry as AlertRule).id) {
+      errors.push(`alerts.rules[${index}]: expected a rule with an id`);
+      return;
+    }
+    const override = entry as Partial<AlertRule> & { id: string };
+    const rule: AlertRule = {
+      severity: 'warning',
+      message: `Alert ${override.id}`,
+      enabled: true,
+      ...rules.get(override.id),
+      ...override,
+    } as AlertRule;
+    const ruleErrors = validateRule(rule);
+    if (ruleErrors.length > 0) {
+      errors.push(...ruleErrors.map((error) => `alerts.rules[${index}] (${override.id}): ${error}`));
+      return;
+    }
+    rules.set(rule.id, rule);
+  });
+
+  return { rules: [...rules.values()], errors };
+}
+
+/**
+ * Facts for player rules
+ */
+function playerFacts(player: ReturnType<typeof normalizePlayer>, context: PlayerContext): Record<string, unknown> | undefined {
+  if (!player) {
+    return undefined;
+  }
+  const load = player.grid?.load?.value;
+  const capacity = player.grid?.capacity?.value;
+  let loadRatio: number | undefined;
+  if (load !== undefined && capacity !== undefined) {
+    loadRatio = capacity > 0 ? Math.round((load / capacity) * 1000) / 1000 : (load > 0 ? Number.MAX_SAFE_INTEGER : 0);
+  }
+  return {
+    player_id: player.id,
+    halted: player.halted,
+    load,
+    capacity,
+    load_ratio: loadRatio,
+    ore: player.grid?.ore?.value,
+    connection_count: player.grid?.connection_count,
+    guild_id: player.guild_id,
+    planet_id: player.planet_id,
+    fleet_id: player.fleet_id,
+    struct_count: context.struct_ids.length,
+  };
+}
+
+/**
+ * Facts for event rules
+ */
+function eventFacts(event: StreamEvent): Record<string, unknown> {
+  const byType = (type: string) => event.entity_ids.filter((id) => getEntityTypeFromId(id) === type);
+  const data = event.data && typeof event.data === 'object' ? event.data as Record<string, unknown> : {};
+  const category = data.category ?? data.type ?? data.event;
+  return {
+    cursor: event.cursor,
+    subject: event.subject,
+    entity_type: event.entity_type,
+    entity_id: event.entity_id,
+    category: typeof category === 'string' ? category : undefined,
+    player_ids: byType('player'),
+    planet_ids: byType('planet'),
+    fleet_ids: byType('fleet'),
+    struct_ids: byType('struct'),
+    data: event.data,
+  };
+}
+
+/**
+ * Facts for job rules
+ */
+function jobFacts(job: JobStatus, sawWaiting: boolean): Record<string, unknown> {
+  return {
+    job_id: job.job_id,
+    status: job.status,
+    action_type: job.job_data?.action_type,
+    entity_id: job.job_data?.entity_id,
+    player_id: job.job_data?.player_id,
+    waiting: job.status === 'waiting',
+    blocks_remaining: job.waiting_info?.blocks_remaining,
+    // Done waiting for its target difficulty (and hashing), or finished
+    ready: job.status === 'completed' || (job.status === 'running' && sawWaiting),
+    error: job.error,
+  };
+}
+
+function slotIds(slots: AmbitSlots | undefined): string[] {
+  return slots ? [...slots.space, ...slots.air, ...slots.land, ...slots.water] : [];
+}
+
+/**
+ * Read a watched player's state and entities
+ */
+async function loadPlayer(playerId: string): Promise<{ player: ReturnType<typeof normalizePlayer>; context: PlayerContext } | undefined> {
+  const result = await queryPlayer(playerId);
+  const player = normalizePlayer(result.player);
+  if (result.error || !player) {
+    log.debug('Could not read watched player', { player_id: playerId, error: result.error });
+    return undefined;
+  }
+  const [planet, fleet] = await Promise.all([
+    player.planet_id ? queryPlanet(player.planet_id).then((r) => normalizePlanet(r.planet)) : undefined,
+    player.fleet_id ? queryFleet(player.fleet_id).then((r) => normalizeFleet(r.fleet)) : undefined,
+  ]);
+  return {
+    player,
+    context: {
+      player_id: playerId,
+      planet_id: player.planet_id,
+      fleet_id: player.fleet_id,
+      struct_ids: [...new Set([...slotIds(planet?.slots), ...slotIds(fleet?.slots)])],
+    },
+  };
+}
+
+async function getProcessManagerJobs(): Promise<JobStatus[]> {
+  const { getProcessManager } = await import('../utils/process-manager.js');
+  return getProcessManager().getAllJobs();
+}
+
+/**
+ * Create an alert engine
+ *
+ * @param options - Engine settings
+ * @returns Alert engine (not yet started)
+ */
+export function createAlertEngine(options: AlertEngineOptions): AlertEngine {
+  const history: Alert[] = [];
+  const active = new Map<string, Alert>(); // by rule and player/job
+  const cooldownUntil = new Map<string, number>(); // event rules in cooldown, by rule and entity
+  const contexts = new Map<string, PlayerContext>();
+  const sawWaiting = new Set<string>();
+  const enabledRules = () => options.rules.filter((rule) => rule.enabled);
+
+  let nextAlertId = 1;
+  let timer: NodeJS.Timeout | undefined;
+  let removeListener: (() => void) | undefined;
+  let evaluating = false;
+
+  function fire(rule: AlertRule, facts: Record<string, unknown>, values: Record<string, unknown>, stateful: boolean): Alert {
+    const alert: Alert = {
+      alert_id: nextAlertId++,
+      rule_id: rule.id,
+      severity: rule.severity,
+      message: render(rule.message, { ...values, ...facts }),
+      player_id: (values.player_id ?? facts.player_id) as string | undefined,
+      entity_id: (facts.entity_id ?? facts.job_id ?? facts.player_id) as string | undefined,
+      facts,
+      fired_at: new Date().toISOString(),
+      active: stateful,
+    };
+    history.push(alert);
+    if (history.length > options.historySize) {
+      history.shift();
+    }
+    log.log(rule.severity, alert.message, { alert_id: alert.alert_id, rule_id: rule.id, player_id: alert.player_id, entity_id: alert.entity_id });
+    return alert;
+  }
+
+  /**
+   * Fire a state rule that started matching, resolve one that stopped
+   */
+  function track(key: string, rule: AlertRule, matched: boolean, facts: Record<string, unknown>, values: Record<string, unknown>, fired: Alert[]): void {
+    const current = active.get(key);
+    if (matched && !current) {
+      const alert = fire(rule, facts, values, true);
+      active.set(key, alert);
+      fired.push(alert);
+    } else if (!matched && current) {
+      resolve(key, current);
+    }
+  }
+
+  function resolve(key: string, alert: Alert): void {
+    alert.active = false;
+    alert.resolved_at = new Date().toISOString();
+    active.delete(key);
+    log.info('Alert resolved', { alert_id: alert.alert_id, rule_id: alert.rule_id, entity_id: alert.entity_id });
+  }
+
+  async function evaluate(): Promise<Alert[]> {
+    if (evaluating) {
+      return [];
+    }
+    evaluating = true;
+    const fired: Alert[] = [];
+    try {
+      const rules = enabledRules();
+      const playerRules = rules.filter((rule) => rule.source === 'player');
+      const jobRules = rules.filter((rule) => rule.source === 'job');
+
+      for (const playerId of options.players) {
+        const loaded = await loadPlayer(playerId);
+        if (!loaded) {
+          continue; // keep the last state; don't resolve on a failed read
+        }
+        contexts.set(playerId, loaded.context);
+        const facts = playerFacts(loaded.player, loaded.context);
+        for (const rule of playerRules) {
+          track(`${rule.id}|${playerId}`, rule, facts !== undefined && matches(rule, facts, { ...loaded.context }), facts ?? {}, { ...loaded.context }, fired);
+        }
+      }
+
+      if (jobRules.length > 0) {
+        const jobs = await (options.getJobs ?? getProcessManagerJobs)();
+        const seen = new Set<string>();
+        for (const job of jobs) {
+          seen.add(job.job_id);
+          if (job.status === 'waiting') {
+            sawWaiting.add(job.job_id);
+          }
+          const facts = jobFacts(job, sawWaiting.has(job.job_id));
+          for (const rule of jobRules) {
+            track(`${rule.id}|${job.job_id}`, rule, matches(rule, facts, facts), facts, facts, fired);
+          }
+        }
+        // Jobs that were cleaned up
+        for (const [key, alert] of active) {
+          if (jobRules.some((rule) => rule.id === alert.rule_id) && !seen.has(String(alert.facts.job_id))) {
+            resolve(key, alert);
+          }
+        }
+        sawWaiting.forEach((jobId) => { if (!seen.has(jobId)) sawWaiting.delete(jobId); });
+      }
+    } catch (error) {
+      log.warn('Alert evaluation failed', { error });
+    } finally {
+      evaluating = false;
+    }
+    return fired;
+  }
+
+  function handleEvent(event: StreamEvent): Alert[] {
+    const fired: Alert[] = [];
+    const facts = eventFacts(event);
+    const now = Date.now();
+    // Drop cooldowns that ran out, so keys for one-off entities don't pile up
+    for (const [key, until] of cooldownUntil) {
+      if (until <= now) {
+        cooldownUntil.delete(key);
+      }
+    }
+    for (const rule of enabledRules().filter((candidate) => candidate.source === 'event')) {
+      for (const context of contexts.values()) {
+        const values: Record<string, unknown> = { ...context };
+        const subject = rule.subject === undefined ? undefined : expand(rule.subject, values);
+        if (rule.subject !== undefined && (subject === undefined || !subjectMatches(String(subject), event.subject))) {
+          continue;
+        }
+        if (!matches(rule, facts, values)) {
+          continue;
+        }
+        const key = `${rule.id}|${context.player_id}|${event.entity_id ?? event.subject}`;
+        if (cooldownUntil.has(key)) {
+          continue;
+        }
+        if (rule.cooldown) {
+          cooldownUntil.set(key, now + rule.cooldown);
+        }
+        fired.push(fire(rule, facts, values, false));
+      }
+    }
+    return fired;
+  }
+
+  return {
+    start() {
+      if (timer || options.players.length === 0) {
+        return;
+      }
+      log.info('Watching for alerts', { players: options.players, rules: enabledRules().map((rule) => rule.id) });
+      // Event rules need the players' entities; the first evaluation reads them
+      const first = evaluate();
+      timer = setInterval(() => { void evaluate(); }, options.interval);
+      timer.unref();
+      if (enabledRules().some((rule) => rule.source === 'event')) {
+        const stream = options.stream ?? getEventStream();
+        removeListener = stream.onEvent(handleEvent);
+        void first.finally(() => stream.start());
+      }
+    },
+
+    stop() {
+      if (timer) {
+        clearInterval(timer);
+        timer = undefined;
+      }
+      removeListener?.();
+      removeListener = undefined;
+    },
+
+    isRunning: () => timer !== undefined,
+    evaluate,
+    handleEvent,
+
+    list(filter = {}) {
+      const limit = filter.limit ?? 50;
+      const selected = history.filter((alert) =>
+        (filter.since === undefined || alert.alert_id > filter.since)
+        && (!filter.active_only || alert.active)
+        && (!filter.severity || isLevelEnabled(alert.severity, filter.severity))
+        && (!filter.rule_id || alert.rule_id === filter.rule_id)
+        && (!filter.player_id || alert.player_id === filter.player_id)
+      );
+      const alerts = filter.since === undefined ? selected.slice(-limit) : selected.slice(0, limit);
+      const hasMore = filter.since !== undefined && selected.length > limit;
+      const latest = history.length > 0 ? history[history.length - 1].alert_id : 0;
+      return {
+        alerts,
+        next_cursor: hasMore ? alerts[alerts.length - 1].alert_id : Math.max(filter.since ?? 0, latest),
+        has_more: hasMore,
+      };
+    },
+
+    getRules: () => [...options.rules],
+    getPlayers: () => [...options.players],
+  };
+}
+
+let engine: AlertEngine | undefined;
+let ruleErrors: string[] = [];
+
+/**
+ * Get the shared alert engine (configured from `config.alerts`)
+ */
+export function getAlertEngine(): AlertEngine {
+  if (!engine) {
+    const parsed = parseAlertRules(config.alerts.rules);
+    ruleErrors = parsed.errors;
+    if (ruleErrors.length > 0) {
+      log.warn('Skipped invalid alert rules', { errors: ruleErrors });
+    }
+    engine = createAlertEngine({
+      players: config.alerts.players.split(',').map((id) => id.trim()).filter(Boolean),
+      rules: parsed.rules,
+      interval: config.alerts.interval,
+      historySize: config.alerts.historySize,
+    });
+  }
+  return engine;
+}
+
+/**
+ * List fired alerts (structs_alerts_list)
+ *
+ * @param args - `since`, `active_only`, `severity`, `rule_id`, `player_id`, `limit`, `refresh`
+ * @returns Alerts, the cursor to list from next, the rules in effect and the watched players
+ * @throws Error on invalid arguments
+ */
+export async function listAlerts(args: {
+  since?: unknown;
+  active_only?: unknown;
+  severity?: unknown;
+  rule_id?: unknown;
+  player_id?: unknown;
+  limit?: unknown;
+  refresh?: unknown;
+}): Promise<AlertListResult> {
+  const since = args.since === undefined || args.since === null ? undefined : Number(args.since);
+  if (since !== undefined && (!Number.isSafeInteger(since) || since < 0)) {
+    throw new Error(`Invalid since: ${args.since}. Must be an alert_id (non-negative integer)`);
+  }
+  const severity = args.severity === undefined || args.severity === null ? undefined : String(args.severity);
+  if (severity !== undefined && !SEVERITIES.includes(severity as LogLevel)) {
+    throw new Error(`Invalid severity: "${severity}". Use one of ${SEVERITIES.join(', ')}`);
+  }
+
+  const alertEngine = getAlertEngine();
+  if (args.refresh === true && alertEngine.isRunning()) {
+    await alertEngine.evaluate();
+  }
+  const result = alertEngine.list({
+    since,
+    active_only: args.active_only === true,
+    severity: severity as LogLevel | undefined,
+    rule_id: typeof args.rule_id === 'string' ? args.rule_id : undefined,
+    player_id: typeof args.player_id === 'string' ? args.player_id : undefined,
+    limit: Math.min(Math.max(Number(args.limit ?? 50) || 50, 1), 500),
+  });
+
+  return {
+    enabled: alertEngine.isRunning(),
+    watching: alertEngine.getPlayers(),
+    ...result,
+    rules: alertEngine.getRules().map(({ id, source, severity: ruleSeverity, enabled, description }) => ({ id, source, severity: ruleSeverity, enabled, description })),
+    rule_errors: ruleErrors,
+    message: alertEngine.getPlayers().length === 0 ? 'No players are watched; set ALERT_PLAYERS (alerts.players) to turn alerts on' : undefined,
+    timestamp: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,111 @@
+/**
+ * Attribute Types
+ *
+ * Grid, struct and planet attributes are stored on chain under an attribute
+ * ID of `{attributeTypeCode}-{objectId}` (e.g. grid capacity of player 1-11
+ * is `2-1-11`). These tables map the attribute type names used by the query
+ * tools to their codes.
+ *
+ * @module tools/attributes
+ */
+
+/**
+ * Attribute families
+ */
+export type AttributeKind = 'grid' | 'struct' | 'planet';
+
+/**
+ * Attribute type codes by name, per family
+ */
+export const ATTRIBUTE_TYPES: Record<AttributeKind, Record<string, number>> = {
+  grid: {
+    ore: 0,
+    fuel: 1,
+    capacity: 2,
+    load: 3,
+    structsLoad: 4,
+    power: 5,
+    connectionCapacity: 6,
+    connectionCount: 7,
+    allocationPointerStart: 8,
+    allocationPointerEnd: 9,
+    proxyNonce: 10,
+    lastAction: 11,
+    nonce: 12,
+    ready: 13,
+    checkpointBlock: 14,
+  },
+  struct: {
+    health: 0,
+    status: 1,
+    blockStartBuild: 2,
+    blockStartOreMine: 3,
+    blockStartOreRefine: 4,
+    protectedStructIndex: 5,
+  },
+  planet: {
+    planetaryShield: 0,
+    repairNetworkQuantity: 1,
+    defensiveCannonQuantity: 2,
+    coordinatedGlobalShieldNetworkQuantity: 3,
+    lowOrbitBallisticsInterceptorNetworkQuantity: 4,
+    advancedLowOrbitBallisticsInterceptorNetworkQuantity: 5,
+    lowOrbitBallisticsInterceptorNetworkSuccessRateNumerator: 6,
+    lowOrbitBallisticsInterceptorNetworkSuccessRateDenominator: 7,
+    orbitalJammingStationQuantity: 8,
+    advancedOrbitalJammingStationQuantity: 9,
+    blockStartRaid: 10,
+  },
+};
+
+/**
+ * Grid attributes `structs_query_grid` returns when no type is given
+ */
+export const GRID_SUMMARY_TYPES = ['capacity', 'load', 'structsLoad', 'power', 'connectionCapacity', 'connectionCount'];
+
+/**
+ * Resolve an attribute type name or numeric code
+ *
+ * @param kind - Attribute family
+ * @param attributeType - Type name (e.g. "capacity") or code (e.g. 2 or "2")
+ * @returns Type name and code, or an error message
+ */
+export function resolveAttributeType(
+  kind: AttributeKind,
+  attributeType: string | number | undefined
+): { name: string; code: number; error?: undefined } | { error: string } {
+  const types = ATTRIBUTE_TYPES[kind];
+  const value = String(attributeType ?? '').trim();
+  if (/^\d+$/.test(value)) {
+    const code = Number(value);
+    const name = Object.keys(types).find((candidate) => types[candidate] === code);
+    return { name: name ?? value, code };
+  }
+  const name = Object.keys(types).find((candidate) => candidate.toLowerCase() === value.toLowerCase());
+  if (!name) {
+    return { error: `Unknown ${kind} attribute type: "${value}". Use a type code or one of: ${Object.keys(types).join(', ')}` };
+  }
+  return { name, code: types[name] };
+}
+
+/**
+ * Build an attribute ID
+ *
+ * @param code - Attribute type code
+ * @param objectId - Object the attribute belongs to (e.g. "1-11")
+ * @returns Attribute ID (e.g. "2-1-11")
+ */
+export function getAttributeId(code: number, objectId: string): string {
+  return `${code}-${objectId}`;
+}
+
+/**
+ * Object ID of an attribute ID
+ *
+ * @param attributeId - Attribute ID (e.g. "2-1-11")
+ * @returns Object ID (e.g. "1-11"), or undefined if the ID has no type prefix
+ */
+export function getAttributeObjectId(attributeId: string): string | undefined {
+  const match = attributeId.match(/^\d+-(.+)$/);
+  return match ? match[1] : undefined;
+}
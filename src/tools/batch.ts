@@ -0,0 +1,137 @@
+/**
+ * Batch Queries
+ *
+ * Fetches a mixed list of entities in one tool call. Each ID is routed to its
+ * entity query by type prefix (`1-11` -> player, `5-42` -> struct, ...), and
+ * lookups run concurrently up to `config.batch.concurrency`. One entity
+ * failing doesn't fail the batch: it is reported under `errors` instead.
+ *
+ * @module tools/batch
+ */
+
+import { config } from '../config.js';
+import { getEntityTypeFromId, type EntityType } from '../types/references.js';
+import { reportProgress, throwIfCancelled } from '../utils/request-context.js';
+import {
+  queryGuild,
+  queryPlayer,
+  queryPlanet,
+  queryReactor,
+  querySubstation,
+  queryStruct,
+  queryAllocation,
+  queryInfusion,
+  queryAddress,
+  queryFleet,
+  queryProvider,
+  queryAgreement,
+} from './query.js';
+
+/**
+ * Entity query result: the entity under its type name, plus height and error
+ */
+type EntityQueryResult = { height?: number; error?: string } & Record<string, unknown>;
+
+/**
+ * Query function per entity type (results hold the entity under the type name)
+ */
+const ENTITY_QUERIES: Record<EntityType, (id: string, atHeight?: number) => Promise<EntityQueryResult>> = {
+  guild: queryGuild,
+  player: queryPlayer,
+  planet: queryPlanet,
+  reactor: queryReactor,
+  substation: querySubstation,
+  struct: queryStruct,
+  allocation: queryAllocation,
+  infusion: queryInfusion,
+  address: queryAddress,
+  fleet: queryFleet,
+  provider: queryProvider,
+  agreement: queryAgreement,
+};
+
+/**
+ * Query one entity, whatever its type
+ *
+ * @param entityId - Entity ID (e.g., "1-11", "5-42")
+ * @param atHeight - Optional block height to read historical state at
+ * @returns Entity type and data, or an error
+ */
+export async function queryEntity(entityId: string, atHeight?: number): Promise<{
+  entity_type?: EntityType;
+  entity: unknown;
+  height?: number;
+  error?: string;
+}> {
+  const entityType = getEntityTypeFromId(entityId);
+  if (!entityType) {
+    return { entity: null, error: `Invalid entity ID: ${entityId}. Expected {type}-{index} with a type from 0 to 11 (e.g., "1-11", "5-42")` };
+  }
+
+  const result = await ENTITY_QUERIES[entityType](entityId, atHeight);
+  return {
+    entity_type: entityType,
+    entity: result[entityType] ?? null,
+    ...(result.height !== undefined ? { height: result.height } : {}),
+    ...(result.error ? { error: result.error } : {}),
+  };
+}
+
+/**
+ * Query many entities at once
+ *
+ * @param entityIds - Entity IDs of any types (duplicates are fetched once)
+ * @param concurrency - Optional: lookups in flight at once (capped at `config.batch.concurrency`)
+ * @param atHeight - Optional block height; every entity is read at this height
+ * @returns Entities by ID and errors by ID
+ */
+export async function queryBatch(entityIds: string[], concurrency?: number, atHeight?: number): Promise<{
+  entities: Record<string, unknown>;
+  errors: Record<string, string>;
+  height?: number;
+  timestamp: string;
+  error?: string;
+}> {
+  const ids = [...new Set((Array.isArray(entityIds) ? entityIds : []).map((id) => String(id).trim()))];
+  if (ids.length === 0 || ids.length > config.batch.maxIds) {
+    return {
+      entities: {},
+      errors: {},
+      timestamp: new Date().toISOString(),
+      error: ids.length === 0
+        ? 'ids is required: a list of entity IDs (e.g., ["5-1", "2-1"])'
+        : `Too many IDs: ${ids.length} (at most ${config.batch.maxIds} per batch)`,
+    };
+  }
+
+  const entities: Record<string, unknown> = {};
+  const errors: Record<string, string> = {};
+  const limit = Math.max(1, Math.min(Math.floor(concurrency ?? config.batch.concurrency), config.batch.concurrency));
+  let next = 0;
+  let done = 0;
+
+  // Each worker takes the next ID until none are left
+  const worker = async () => {
+    while (next < ids.length) {
+      throwIfCancelled();
+      const id = ids[next++];
+      const result = await queryEntity(id, atHeight);
+      if (result.error) {
+        errors[id] = result.error;
+      } else {
+        entities[id] = result.entity;
+      }
+      done++;
+      reportProgress(done, ids.length, `Fetched ${id}`);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, ids.length) }, worker));
+
+  // Keep the requested order
+  return {
+    entities: Object.fromEntries(ids.filter((id) => id in entities).map((id) => [id, entities[id]])),
+    errors: Object.fromEntries(ids.filter((id) => id in errors).map((id) => [id, errors[id]])),
+    ...(atHeight !== undefined ? { height: atHeight } : {}),
+    timestamp: new Date().toISOString(),
+  };
+}
@@ -7,6 +7,7 @@
  */
 
 import { getResource } from '../resources/index.js';
+import { getAbortSignal, reportProgress } from '../utils/request-context.js';
 
 /**
  * Generator type and conversion rate mapping
@@ -416,7 +417,7 @@ export async function calculateTradeValue(
 
   // Default market rate (1:1 for alpha_matter)
   // Actual market rates would come from game state
-  let marketRate = 1.0;
+  const marketRate = 1.0;
 
   // Load market data if available
   try {
@@ -459,7 +460,10 @@ export async function calculateTradeValue(
  * 4. Automatically submits the transaction when complete
  * 
  * The function returns immediately with a job ID, allowing the MCP server
- * to continue processing other requests without blocking.
+ * to continue processing other requests without blocking. With `wait`, it
+ * returns when the job finishes instead, reporting the worker's `waiting`
+ * and `difficulty_update` messages as progress; cancelling the call kills
+ * the worker.
  * 
  * @param args - Calculation arguments including player_id for transaction submission
  * @param aiDocsPath - Path to /ai directory
@@ -473,13 +477,16 @@ export async function calculateProofOfWork(
     max_iterations?: number;
     block_start?: number; // Optional: if not provided, will be queried from view.work
     player_id: string; // Required: player ID for transaction submission
+    wait?: boolean; // Optional: wait for the job to finish
   },
   aiDocsPath: string
 ): Promise<{
   job_id: string;
-  status: 'queued';
+  status: 'queued' | 'completed' | 'failed';
   message: string;
   note?: string;
+  result?: unknown;
+  error?: string;
 }> {
   const { 
     action_type, 
@@ -556,6 +563,27 @@ export async function calculateProofOfWork(
     ai_docs_path: aiDocsPath,
   });
 
+  if (args.wait) {
+    let updates = 0;
+    const finalStatus = await processManager.waitForJob(jobResult.job_id, {
+      signal: getAbortSignal(),
+      onUpdate: (_jobStatus, update) => {
+        if (update?.status === 'waiting' || update?.status === 'ready' || update?.status === 'difficulty_update') {
+          reportProgress(++updates, undefined, typeof update.message === 'string' ? update.message : undefined);
+        }
+      },
+    });
+    return {
+      job_id: jobResult.job_id,
+      status: finalStatus.status === 'completed' ? 'completed' : 'failed',
+      message: finalStatus.status === 'completed'
+        ? 'Proof-of-work job completed. See result for the submitted transaction.'
+        : `Proof-of-work job failed: ${finalStatus.error ?? 'unknown error'}`,
+      result: finalStatus.result,
+      error: finalStatus.error,
+    };
+  }
+
   return {
     job_id: jobResult.job_id,
     status: 'queued',
@@ -0,0 +1,176 @@
+/**
+ * Chain Status
+ *
+ * Where the chain is and how fast it moves: current height and its source,
+ * average block time, node sync state, the server's endpoints, and
+ * conversions between block heights and wall-clock times.
+ *
+ * @module tools/chain-status
+ */
+
+import { config } from '../config.js';
+import { getConsensusClient } from '../utils/consensus-client.js';
+import {
+  getBlockHeight,
+  getBlockTime,
+  blockToTime,
+  timeToBlock,
+  parseClockTime,
+  type BlockHeightSource,
+  type BlockTime,
+  type BlockTimeConversion,
+} from '../utils/block-clock.js';
+
+interface NodeStatus {
+  reachable: boolean;
+  /** Catching up with the network */
+  syncing?: boolean;
+  /** Chain ID the node reports */
+  network?: string;
+  moniker?: string;
+  app_version?: string;
+  error?: string;
+}
+
+export interface ChainStatus {
+  chain_id: string;
+  height?: number;
+  height_source?: BlockHeightSource;
+  block_time: BlockTime;
+  node: NodeStatus;
+  endpoints: {
+    consensus_api: string;
+    consensus_rpc?: string;
+    webapp_api?: string;
+    nats?: string;
+    nats_websocket?: string;
+    /** Database URL without credentials, or null if none is configured */
+    database: string | null;
+    profile?: string;
+  };
+  /** When the requested block was or will be produced */
+  block?: BlockTimeConversion;
+  /** Which block is produced at the requested time */
+  at_time?: BlockTimeConversion;
+  warnings: string[];
+  errors: string[];
+  timestamp: string;
+}
+
+const NODE_INFO_PATH = '/cosmos/base/tendermint/v1beta1/node_info';
+const SYNCING_PATH = '/cosmos/base/tendermint/v1beta1/syncing';
+
+/**
+ * Drop the user and password from a URL
+ */
+function withoutCredentials(url: string | undefined): string | undefined {
+  if (!url) {
+    return url;
+  }
+  try {
+    const parsed = new URL(url);
+    parsed.username = '';
+    parsed.password = '';
+    return parsed.toString();
+  } catch {
+    return url.replace(/\/\/[^@/]*@/, '//');
+  }
+}
+
+/**
+ * Read the node's identity and sync state
+ */
+async function getNodeStatus(): Promise<NodeStatus> {
+  const client = getConsensusClient();
+  const [nodeInfo, syncing] = await Promise.allSettled([
+    client.get(NODE_INFO_PATH, { timeout: 5000 }),
+    client.get(SYNCING_PATH, { timeout: 5000 }),
+  ]);
+  if (nodeInfo.status === 'rejected' && syncing.status === 'rejected') {
+    const reason = nodeInfo.reason;
+    return { reachable: false, error: reason instanceof Error ? reason.message : String(reason) };
+  }
+  const info = nodeInfo.status === 'fulfilled' ? nodeInfo.value.data : undefined;
+  const isSyncing = syncing.status === 'fulfilled' ? syncing.value.data?.syncing : undefined;
+  return {
+    reachable: true,
+    syncing: typeof isSyncing === 'boolean' ? isSyncing : undefined,
+    network: info?.default_node_info?.network,
+    moniker: info?.default_node_info?.moniker,
+    app_version: info?.application_version?.version,
+  };
+}
+
+/**
+ * Get the chain status, optionally converting a block height or time
+ *
+ * @param block - Optional block height to get the (estimated) time of
+ * @param time - Optional time (ISO 8601 or "HH:MM" UTC) to get the (estimated) block of
+ * @returns Chain status (failed reads are listed in `errors`)
+ * @throws Error on an invalid block height or time
+ */
+export async function getChainStatus(block?: number, time?: string): Promise<ChainStatus> {
+  if (block !== undefined && (!Number.isSafeInteger(block) || block < 1)) {
+    throw new Error(`Invalid block: ${block}. Must be a positive integer`);
+  }
+  const targetTime = time !== undefined ? parseClockTime(time) : undefined;
+
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const [heightResult, blockTime, node] = await Promise.all([
+    getBlockHeight().catch((error: unknown) => {
+      errors.push(error instanceof Error ? error.message : String(error));
+      return undefined;
+    }),
+    getBlockTime(),
+    getNodeStatus(),
+  ]);
+
+  if (blockTime.source === 'default') {
+    warnings.push(`Block time could not be measured; assuming ${blockTime.average_ms} ms`);
+  }
+  if (heightResult && heightResult.source !== 'database' && heightResult.source !== 'api') {
+    warnings.push(`Height is estimated (${heightResult.source}); the database and consensus API are unreachable`);
+  }
+  if (node.syncing) {
+    warnings.push('The node is still syncing; its height and state lag behind the network');
+  }
+  if (node.network && node.network !== config.chainId) {
+    warnings.push(`The node is on chain ${node.network}, but the server is configured for ${config.chainId}`);
+  }
+
+  // Conversions need a current height
+  const current = heightResult ?? (blockTime.latest_height !== undefined
+    ? { height: blockTime.latest_height, source: 'api' as const, observed_at: Date.now() }
+    : undefined);
+  let blockConversion: BlockTimeConversion | undefined;
+  let timeConversion: BlockTimeConversion | undefined;
+  if (current) {
+    blockConversion = block !== undefined ? await blockToTime(block, current, blockTime) : undefined;
+    timeConversion = targetTime !== undefined ? timeToBlock(targetTime, current, blockTime) : undefined;
+  } else if (block !== undefined || targetTime !== undefined) {
+    errors.push('Cannot convert between blocks and times without a current height');
+  }
+
+  return {
+    chain_id: config.chainId,
+    height: heightResult?.height,
+    height_source: heightResult?.source,
+    block_time: blockTime,
+    node,
+    endpoints: {
+      consensus_api: config.consensusApiUrl,
+      consensus_rpc: config.consensusRPCUrl,
+      webapp_api: config.webappApiUrl,
+      nats: config.natsUrl,
+      nats_websocket: config.natsWebSocketUrl,
+      database: withoutCredentials(config.databaseUrl) ?? null,
+      profile: config.profile,
+    },
+    block: blockConversion,
+    at_time: timeConversion,
+    warnings,
+    errors,
+    timestamp: new Date().toISOString(),
+  };
+}
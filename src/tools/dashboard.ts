@@ -1,15 +1,39 @@
 /**
- * Player Dashboard
+ * Player and Guild Dashboards
  *
- * Composite state view that replaces 5-10 individual query calls.
- * One tool call returns: player state, structs, fleets, power, and in-progress ops.
+ * Composite state views that replace 5-10 individual query calls.
+ * The player dashboard returns one player's state, structs, fleets, power,
+ * and in-progress ops; the guild dashboard returns the same per member,
+ * plus the guild's bank, substations and allocations, with members in
+ * trouble listed first.
+ *
+ * Every player dashboard is kept server-side as a snapshot (LRU with
+ * `config.dashboard.snapshotTTL`) under an opaque `snapshot_token`. Passing
+ * the token back returns only what changed since that snapshot.
  *
  * @module tools/dashboard
  */
 
-import { queryPlayer, queryFleet, listStructs, listAllocations } from './query.js';
-import axios from 'axios';
+import { randomBytes } from 'crypto';
+import { isDeepStrictEqual } from 'util';
+import { LRUCache } from 'lru-cache';
 import { config } from '../config.js';
+import { getConsensusClient } from '../utils/consensus-client.js';
+import { getEntityTypeFromId } from '../types/references.js';
+import type { JobStatus } from '../utils/process-manager.js';
+import { queryPlayer, queryFleet, queryGuild, listPlayers, listStructs, listStructTypes, listAllocations } from './query.js';
+import { queryBatch } from './batch.js';
+import { validateEntityId } from './validation.js';
+import {
+  normalizePlayer,
+  normalizeStruct,
+  normalizeStructType,
+  normalizeFleet,
+  normalizeGuild,
+  normalizeSubstation,
+  normalizeAllocation,
+} from './models.js';
+import type { Allocation, Coin, Guild, Player, Struct } from '../types/entities.js';
 
 interface StructSummary {
   id: string;
@@ -58,79 +82,143 @@ export interface PlayerDashboard {
     total_fleets: number;
     total_allocations: number;
   };
+  /** Block height the dashboard was read at (only with atHeight) */
+  height?: number;
+  /** Pass back on the next call to get only the changes (with `errors`, the token passed in, if still kept) */
+  snapshot_token?: string;
+  /** The snapshot_token passed in was unknown, expired or for another player */
+  snapshot_expired?: boolean;
   timestamp: string;
   errors: string[];
 }
 
-function extractField(obj: unknown, field: string): unknown {
-  if (obj && typeof obj === 'object' && field in obj) {
-    return (obj as Record<string, unknown>)[field];
-  }
-  return undefined;
+/**
+ * A field's value in the snapshot and now (a missing side was unset)
+ */
+interface FieldChange {
+  from?: unknown;
+  to?: unknown;
+}
+
+/**
+ * What changed since a snapshot
+ */
+export interface PlayerDashboardDelta {
+  player: { id: string };
+  /** Timestamp of the snapshot the changes are relative to */
+  since: string;
+  /** True when nothing changed */
+  unchanged: boolean;
+  changes: {
+    player: Record<string, FieldChange>;
+    power: Record<string, FieldChange>;
+    structs: {
+      added: StructSummary[];
+      removed: StructSummary[];
+      changed: { id: string; changes: Record<string, FieldChange> }[];
+    };
+    fleets: {
+      added: FleetSummary[];
+      removed: FleetSummary[];
+      /** Fleets whose planet changed */
+      moved: { id: string; changes: Record<string, FieldChange> }[];
+      /** Fleets whose station status or structs changed */
+      changed: { id: string; changes: Record<string, FieldChange> }[];
+    };
+    operations: {
+      started: OperationInProgress[];
+      finished: OperationInProgress[];
+    };
+  };
+  summary: PlayerDashboard['summary'];
+  height?: number;
+  snapshot_token: string;
+  timestamp: string;
+  errors: string[];
 }
 
+// Players rarely own more; the list tools can page further
+const DASHBOARD_MAX_STRUCTS = 500;
+
 function toArray(val: unknown): unknown[] {
   if (Array.isArray(val)) return val;
   if (val && typeof val === 'object') return Object.values(val);
   return [];
 }
 
-export async function getPlayerDashboard(playerId: string): Promise<PlayerDashboard> {
+/**
+ * Build a player's dashboard
+ *
+ * @param playerId - Player ID (e.g., "1-11")
+ * @param atHeight - Optional block height; every query reads the state at this height
+ * @returns Dashboard (query failures are listed in `errors`)
+ */
+async function buildPlayerDashboard(playerId: string, atHeight?: number): Promise<PlayerDashboard> {
   const errors: string[] = [];
 
-  const apiBase = config.consensusApiUrl;
-
   const [playerResult, structsResult, allocResult] = await Promise.allSettled([
-    queryPlayer(playerId),
-    axios.get(`${apiBase}/structs/struct`, { params: { 'pagination.limit': '200' }, timeout: 15000 }).catch(() => null),
-    listAllocations(),
+    queryPlayer(playerId, atHeight),
+    listStructs(undefined, DASHBOARD_MAX_STRUCTS, { owner: playerId }, false, atHeight),
+    listAllocations(undefined, undefined, { owner: playerId }, false, atHeight),
   ]);
 
   // -- Player --
-  let playerData: Record<string, unknown> = {};
+  let player: Player | null = null;
   if (playerResult.status === 'fulfilled' && !playerResult.value.error) {
-    playerData = (playerResult.value.player as Record<string, unknown>) || {};
+    player = normalizePlayer(playerResult.value.player);
   } else {
     const err = playerResult.status === 'fulfilled' ? playerResult.value.error : String(playerResult.reason);
     errors.push(`Player query failed: ${err}`);
   }
 
-  const halted = playerData.halted === true || playerData.halted === 'true';
-  const guildId = playerData.guildId ?? playerData.guild_id;
-  const guildRank = playerData.guildRank ?? playerData.guild_rank;
-  const primaryAddress = playerData.primaryAddress ?? playerData.primary_address ?? playerData.address;
+  const halted = player?.halted ?? false;
 
   // -- Structs --
   let allStructs: unknown[] = [];
-  if (structsResult.status === 'fulfilled' && structsResult.value) {
-    const resp = structsResult.value as { data?: Record<string, unknown> };
-    const raw = resp.data?.Struct ?? resp.data?.structs ?? resp.data;
-    allStructs = toArray(raw);
+  if (structsResult.status === 'fulfilled' && !structsResult.value.error) {
+    allStructs = toArray(structsResult.value.structs);
+    // A partial list would diff as removed structs, so report it as an error
+    if (structsResult.value.pagination?.next_key) {
+      errors.push(`Struct list truncated at ${allStructs.length} structs; page further with structs_list_structs`);
+    }
   } else {
-    errors.push('Struct list query failed');
+    const err = structsResult.status === 'fulfilled' ? structsResult.value.error : String(structsResult.reason);
+    errors.push(`Struct list query failed: ${err}`);
   }
 
-  const playerIdIndex = playerId.split('-')[1];
   const myStructs: StructSummary[] = allStructs
-    .filter((s: any) => {
-      const owner = s?.owner ?? s?.creator ?? s?.playerId ?? s?.player_id;
-      return owner === playerId || String(owner) === String(playerIdIndex);
-    })
-    .map((s: any) => ({
-      id: s?.index ? `5-${s.index}` : s?.id ?? 'unknown',
-      type_id: Number(s?.structType ?? s?.struct_type ?? s?.type),
-      status: s?.status ?? (s?.activatedAt || s?.activated_at ? 'active' : 'built'),
-      planet_id: s?.planetId ?? s?.planet_id,
-      ambit: s?.operatingAmbit ?? s?.operating_ambit ?? s?.ambit,
+    .map(normalizeStruct)
+    .filter((s): s is Struct => s !== null)
+    .map((s) => ({
+      id: s.id || 'unknown',
+      type_id: s.type_id,
+      status: s.status,
+      planet_id: s.planet_id,
+      ambit: s.ambit,
     }));
 
-  const onlineStructs = myStructs.filter(s => s.status === 'active' || s.status === 'ACTIVE').length;
+  const onlineStructs = myStructs.filter(s => s.status === 'online' || s.status === 'active').length;
 
-  // -- Fleets: derive from player's command ships --
+  // -- Fleets: the player's fleet, else derived from their command ships --
   const fleets: FleetSummary[] = [];
   const fleetIds = new Set<string>();
+  if (player?.fleet_id) {
+    const fleetResult = await queryFleet(player.fleet_id, atHeight);
+    const fleet = fleetResult.error ? null : normalizeFleet(fleetResult.fleet);
+    if (fleet) {
+      fleetIds.add(fleet.id);
+      fleets.push({
+        id: fleet.id,
+        planet_id: fleet.planet_id ?? fleet.location_id,
+        on_station: fleet.status === 'on_station',
+        struct_ids: Object.values(fleet.slots).flat(),
+      });
+    } else {
+      errors.push(`Fleet query failed: ${fleetResult.error ?? 'unreadable fleet'}`);
+    }
+  }
   for (const s of myStructs) {
-    if (s.type_id === 1) {
+    if (s.type_id === 1 && !player?.fleet_id) {
       const fId = s.planet_id ? `fleet-on-${s.planet_id}` : 'unknown';
       if (!fleetIds.has(fId)) {
         fleetIds.add(fId);
@@ -146,16 +234,12 @@ export async function getPlayerDashboard(playerId: string): Promise<PlayerDashbo
   // -- Allocations --
   let allocCount = 0;
   if (allocResult.status === 'fulfilled' && !allocResult.value.error) {
-    const allAllocs = toArray(allocResult.value.allocations);
-    allocCount = allAllocs.filter((a: any) => {
-      const ctrl = a?.controller ?? a?.creator;
-      return ctrl === playerId || String(ctrl) === String(playerIdIndex);
-    }).length;
+    allocCount = toArray(allocResult.value.allocations).length;
   }
 
-  // -- Power (from player data) --
-  const capacity = Number(playerData.capacityTotal ?? playerData.capacity ?? 0);
-  const load = Number(playerData.loadTotal ?? playerData.load ?? 0);
+  // -- Power (from the player's grid) --
+  const capacity = player?.grid?.capacity?.value ?? 0;
+  const load = player?.grid?.load?.value ?? 0;
   const power: PowerSummary = {
     capacity: capacity || undefined,
     load: load || undefined,
@@ -166,7 +250,7 @@ export async function getPlayerDashboard(playerId: string): Promise<PlayerDashbo
   // -- Operations in progress (heuristic from struct state) --
   const ops: OperationInProgress[] = [];
   for (const s of myStructs) {
-    if (s.status === 'building' || s.status === 'BUILDING') {
+    if (s.status === 'building') {
       ops.push({ type: 'build', entity_id: s.id, detail: `Struct type ${s.type_id}` });
     }
   }
@@ -174,9 +258,9 @@ export async function getPlayerDashboard(playerId: string): Promise<PlayerDashbo
   return {
     player: {
       id: playerId,
-      address: primaryAddress as string | undefined,
-      guild_id: guildId as string | undefined,
-      guild_rank: guildRank !== undefined ? Number(guildRank) : undefined,
+      address: player?.primary_address,
+      guild_id: player?.guild_id,
+      guild_rank: player?.guild_rank,
       halted,
     },
     power,
@@ -189,6 +273,549 @@ export async function getPlayerDashboard(playerId: string): Promise<PlayerDashbo
       total_fleets: fleets.length,
       total_allocations: allocCount,
     },
+    ...(atHeight !== undefined ? { height: atHeight } : {}),
+    timestamp: new Date().toISOString(),
+    errors,
+  };
+}
+
+// -- Snapshots and deltas --
+
+interface DashboardSnapshot {
+  player_id: string;
+  dashboard: PlayerDashboard;
+}
+
+let snapshots: LRUCache<string, DashboardSnapshot> | undefined;
+
+function getSnapshots(): LRUCache<string, DashboardSnapshot> {
+  if (!snapshots) {
+    snapshots = new LRUCache<string, DashboardSnapshot>({ max: config.dashboard.maxSnapshots, ttl: config.dashboard.snapshotTTL });
+  }
+  return snapshots;
+}
+
+/**
+ * Drop every dashboard snapshot (tests)
+ */
+export function clearDashboardSnapshots(): void {
+  snapshots = undefined;
+}
+
+/**
+ * Fields whose values differ between two objects
+ */
+function changedFields<T extends object>(before: T | undefined, after: T | undefined, fields: (keyof T & string)[]): Record<string, FieldChange> {
+  const changes: Record<string, FieldChange> = {};
+  for (const field of fields) {
+    const from = before?.[field];
+    const to = after?.[field];
+    if (!isDeepStrictEqual(from, to)) {
+      changes[field] = { from, to };
+    }
+  }
+  return changes;
+}
+
+/**
+ * Split two lists of items with IDs into added, removed and changed ones
+ */
+function diffById<T extends { id: string }>(before: T[], after: T[], fields: (keyof T & string)[]) {
+  const previous = new Map(before.map((item) => [item.id, item]));
+  const current = new Map(after.map((item) => [item.id, item]));
+  return {
+    added: after.filter((item) => !previous.has(item.id)),
+    removed: before.filter((item) => !current.has(item.id)),
+    changed: after
+      .filter((item) => previous.has(item.id))
+      .map((item) => ({ id: item.id, changes: changedFields(previous.get(item.id), item, fields) }))
+      .filter((item) => Object.keys(item.changes).length > 0),
+  };
+}
+
+function operationKey(op: OperationInProgress): string {
+  return `${op.type}:${op.entity_id ?? ''}`;
+}
+
+/**
+ * Compare a dashboard with an earlier snapshot of it
+ *
+ * @param previous - Dashboard the snapshot holds
+ * @param current - Dashboard just read
+ * @returns What changed
+ */
+function diffDashboards(previous: PlayerDashboard, current: PlayerDashboard): PlayerDashboardDelta['changes'] {
+  const structs = diffById(previous.structs, current.structs, ['type_id', 'status', 'planet_id', 'ambit']);
+  const fleets = diffById(previous.fleets, current.fleets, ['on_station', 'struct_ids']);
+  const fleetsMoved = diffById(previous.fleets, current.fleets, ['planet_id']);
+  const previousOps = new Set(previous.operations_in_progress.map(operationKey));
+  const currentOps = new Set(current.operations_in_progress.map(operationKey));
+  return {
+    player: changedFields(previous.player, current.player, ['address', 'guild_id', 'guild_rank', 'halted']),
+    power: changedFields(previous.power, current.power, ['capacity', 'load', 'online', 'margin']),
+    structs,
+    fleets: { added: fleets.added, removed: fleets.removed, moved: fleetsMoved.changed, changed: fleets.changed },
+    operations: {
+      started: current.operations_in_progress.filter((op) => !previousOps.has(operationKey(op))),
+      finished: previous.operations_in_progress.filter((op) => !currentOps.has(operationKey(op))),
+    },
+  };
+}
+
+/**
+ * Get a player's dashboard, or what changed since an earlier one
+ *
+ * @param playerId - Player ID (e.g., "1-11")
+ * @param atHeight - Optional block height; every query reads the state at this height
+ * @param snapshotToken - Optional `snapshot_token` of an earlier dashboard of this player
+ * @returns The changes since that snapshot if it is still kept, else the full dashboard; both carry a new
+ *   `snapshot_token`. A dashboard read with errors is returned in full and not kept as a snapshot.
+ */
+export async function getPlayerDashboard(
+  playerId: string,
+  atHeight?: number,
+  snapshotToken?: string
+): Promise<PlayerDashboard | PlayerDashboardDelta> {
+  // Read the snapshot before storing the new one, which could evict it
+  const store = getSnapshots();
+  const found = snapshotToken ? store.get(snapshotToken) : undefined;
+  const previous = found?.player_id === playerId ? found : undefined;
+  const expired = snapshotToken !== undefined && !previous ? { snapshot_expired: true } : {};
+
+  const dashboard = await buildPlayerDashboard(playerId, atHeight);
+
+  // A failed query would show its structs or fleets as removed: don't diff or keep it, so the caller can retry
+  if (dashboard.errors.length > 0) {
+    return { ...dashboard, ...(previous ? { snapshot_token: snapshotToken } : {}), ...expired };
+  }
+
+  const token = `snap_${randomBytes(16).toString('base64url')}`;
+  store.set(token, { player_id: playerId, dashboard });
+  if (!previous) {
+    return { ...dashboard, snapshot_token: token, ...expired };
+  }
+
+  const changes = diffDashboards(previous.dashboard, dashboard);
+  const unchanged = Object.keys(changes.player).length === 0
+    && Object.keys(changes.power).length === 0
+    && [changes.structs, changes.fleets, changes.operations].every((group) => Object.values(group).every((list) => list.length === 0));
+  return {
+    player: { id: playerId },
+    since: previous.dashboard.timestamp,
+    unchanged,
+    changes,
+    summary: dashboard.summary,
+    ...(dashboard.height !== undefined ? { height: dashboard.height } : {}),
+    snapshot_token: token,
+    timestamp: dashboard.timestamp,
+    errors: dashboard.errors,
+  };
+}
+
+// -- Guild dashboard --
+
+/**
+ * Why a member needs attention
+ */
+interface MemberIssue {
+  type: 'halted' | 'low_power_margin' | 'ore_exposed' | 'unreadable';
+  detail: string;
+}
+
+interface GuildMemberSummary {
+  id: string;
+  address?: string;
+  guild_rank?: number;
+  /** "unknown" when the player could not be read */
+  status: 'online' | 'halted' | 'unknown';
+  power: PowerSummary;
+  /** Unrefined ore, which raiders can steal */
+  ore?: number;
+  /** Struct counts by type name (or type ID when the name is unknown) */
+  structs_by_type: Record<string, number>;
+  total_structs: number;
+  fleet?: {
+    id: string;
+    /** "on_station" or "away" */
+    status?: string;
+    planet_id?: string;
+    location_id?: string;
+  };
+  issues: MemberIssue[];
+}
+
+interface GuildBank {
+  /** Denom of the guild's bank tokens */
+  token_denom: string;
+  /** Tokens in circulation */
+  tokens_issued?: number;
+  /** Tokens held by the listed members */
+  member_holdings: number;
+  collateral_pool?: string;
+  /** Balances of the collateral pool */
+  collateral: Coin[];
+}
+
+interface GuildSubstationSummary {
+  id: string;
+  owner?: string;
+  capacity?: number;
+  load?: number;
+  connection_count?: number;
+}
+
+interface GuildAllocationSummary {
+  id: string;
+  type?: string;
+  source_id?: string;
+  destination_id?: string;
+  controller?: string;
+  capacity?: number;
+}
+
+export interface GuildDashboard {
+  /** Members with issues, most urgent first */
+  members_in_trouble: { player_id: string; issues: MemberIssue[] }[];
+  guild: {
+    id: string;
+    owner?: string;
+    endpoint?: string;
+    entry_rank?: number;
+    primary_reactor_id?: string;
+    entry_substation_id?: string;
+  };
+  bank: GuildBank;
+  /** Members with issues first, then by ID */
+  members: GuildMemberSummary[];
+  substations: GuildSubstationSummary[];
+  allocations: GuildAllocationSummary[];
+  operations_in_progress: (OperationInProgress & { player_id: string })[];
+  summary: {
+    total_members: number;
+    online_members: number;
+    halted_members: number;
+    members_in_trouble: number;
+    total_structs: number;
+    fleets_away: number;
+    total_substations: number;
+    total_allocations: number;
+  };
+  timestamp: string;
+  errors: string[];
+}
+
+// Load above this share of capacity leaves too little margin (same threshold as the load_high alert)
+const LOW_MARGIN_LOAD_RATIO = 0.9;
+
+// Struct list walk: page size, and pages read before giving up (as for filtered lists)
+const STRUCT_PAGE_SIZE = 100;
+const STRUCT_MAX_PAGES = 50;
+
+// Issue order in members_in_trouble: most urgent first
+const ISSUE_ORDER: MemberIssue['type'][] = ['halted', 'unreadable', 'low_power_margin', 'ore_exposed'];
+
+const SUPPLY_PATH = '/cosmos/bank/v1beta1/supply/by_denom';
+const BALANCES_PATH = '/cosmos/bank/v1beta1/balances';
+
+/**
+ * Denom of a guild's bank tokens
+ */
+function guildTokenDenom(guildId: string): string {
+  return `uguild.${guildId}`;
+}
+
+function toCoins(value: unknown): Coin[] {
+  return toArray(value)
+    .map((coin) => coin as { denom?: unknown; amount?: unknown })
+    .filter((coin) => typeof coin?.denom === 'string' && Number.isFinite(Number(coin.amount)))
+    .map((coin) => ({ denom: coin.denom as string, amount: Number(coin.amount) }));
+}
+
+/**
+ * Query entities through the batch lookup, in chunks of the batch size
+ *
+ * @returns Entities by ID; failures are added to errors
+ */
+async function queryAll(ids: string[], errors: string[]): Promise<Record<string, unknown>> {
+  const entities: Record<string, unknown> = {};
+  for (let start = 0; start < ids.length; start += config.batch.maxIds) {
+    const batch = await queryBatch(ids.slice(start, start + config.batch.maxIds));
+    Object.assign(entities, batch.entities);
+    for (const [id, error] of Object.entries(batch.errors)) {
+      errors.push(`Query of ${id} failed: ${error}`);
+    }
+  }
+  return entities;
+}
+
+/**
+ * Read the guild bank's token supply and collateral
+ */
+async function getGuildBank(guild: Guild | null, guildId: string, members: Player[], errors: string[]): Promise<GuildBank> {
+  const denom = guildTokenDenom(guildId);
+  const client = getConsensusClient();
+  const pool = guild?.bank_collateral_pool;
+  const [supply, balances] = await Promise.allSettled([
+    client.get(SUPPLY_PATH, { params: { denom } }),
+    pool ? client.get(`${BALANCES_PATH}/${encodeURIComponent(pool)}`) : Promise.resolve(undefined),
+  ]);
+
+  let tokensIssued: number | undefined;
+  if (supply.status === 'fulfilled') {
+    const amount = Number(supply.value.data?.amount?.amount);
+    tokensIssued = Number.isFinite(amount) ? amount : undefined;
+  } else {
+    errors.push(`Guild token supply query failed: ${supply.reason instanceof Error ? supply.reason.message : String(supply.reason)}`);
+  }
+  if (balances.status === 'rejected') {
+    errors.push(`Collateral pool query failed: ${balances.reason instanceof Error ? balances.reason.message : String(balances.reason)}`);
+  }
+
+  return {
+    token_denom: denom,
+    tokens_issued: tokensIssued,
+    member_holdings: members
+      .flatMap((member) => member.storage)
+      .filter((coin) => coin.denom === denom)
+      .reduce((sum, coin) => sum + coin.amount, 0),
+    collateral_pool: pool,
+    collateral: balances.status === 'fulfilled' ? toCoins(balances.value?.data?.balances) : [],
+  };
+}
+
+/**
+ * Walk the struct list once and group the members' structs by owner
+ *
+ * @returns Structs by member ID; a failed or truncated walk is added to errors
+ */
+async function listMemberStructs(memberIds: string[], errors: string[]): Promise<Map<string, Struct[]>> {
+  const structsByMember = new Map<string, Struct[]>(memberIds.map((id) => [id, []]));
+  let nextKey: string | undefined;
+  let pages = 0;
+  do {
+    const page = await listStructs(nextKey, STRUCT_PAGE_SIZE);
+    if (page.error) {
+      errors.push(`Struct list query failed: ${page.error}`);
+      return structsByMember;
+    }
+    for (const s of toArray(page.structs).map(normalizeStruct)) {
+      if (s?.owner) {
+        structsByMember.get(s.owner)?.push(s);
+      }
+    }
+    nextKey = page.pagination?.next_key || undefined;
+    pages++;
+  } while (nextKey && pages < STRUCT_MAX_PAGES);
+
+  if (nextKey) {
+    errors.push(`Struct list truncated after ${pages * STRUCT_PAGE_SIZE} structs; struct counts may be low`);
+  }
+  return structsByMember;
+}
+
+async function getProcessManagerJobs(): Promise<JobStatus[]> {
+  const { getProcessManager } = await import('../utils/process-manager.js');
+  return getProcessManager().getAllJobs();
+}
+
+/**
+ * Find what needs a coordinator's attention for one member
+ */
+function memberIssues(member: Player | null, power: PowerSummary, ore: number | undefined): MemberIssue[] {
+  if (!member) {
+    return [{ type: 'unreadable', detail: 'Player could not be read' }];
+  }
+  const issues: MemberIssue[] = [];
+  if (member.halted) {
+    issues.push({ type: 'halted', detail: `Halted: load ${power.load ?? 0} W exceeds capacity ${power.capacity ?? 0} W` });
+  } else if (power.capacity && power.load && power.load > power.capacity * LOW_MARGIN_LOAD_RATIO) {
+    issues.push({ type: 'low_power_margin', detail: `Load ${power.load} W is ${Math.round((power.load / power.capacity) * 100)}% of capacity ${power.capacity} W` });
+  }
+  if (ore && ore > 0) {
+    issues.push({ type: 'ore_exposed', detail: `${ore} unrefined ore can be stolen in a raid; refine it` });
+  }
+  return issues;
+}
+
+/**
+ * Build a guild's dashboard
+ *
+ * @param guildId - Guild ID (e.g., "0-1")
+ * @returns Dashboard (query failures are listed in `errors`)
+ * @throws Error on an invalid guild ID
+ */
+export async function getGuildDashboard(guildId: string): Promise<GuildDashboard> {
+  const validation = validateEntityId(guildId, 'guild');
+  if (!validation.valid) {
+    throw new Error(validation.error || `Invalid guild ID: ${guildId}`);
+  }
+  const errors: string[] = [];
+
+  const [guildResult, membersResult, typesResult] = await Promise.all([
+    queryGuild(guildId),
+    listPlayers(undefined, undefined, { guild_id: guildId }, true),
+    listStructTypes(undefined, undefined, undefined, true),
+  ]);
+
+  // -- Guild --
+  const guild = guildResult.error ? null : normalizeGuild(guildResult.guild);
+  if (guildResult.error) {
+    errors.push(`Guild query failed: ${guildResult.error}`);
+  }
+
+  // -- Members: list entries, then each player's full state --
+  const memberIds = toArray(membersResult.players)
+    .map(normalizePlayer)
+    .filter((player): player is Player => player !== null && player.id !== '')
+    .map((player) => player.id)
+    .sort();
+  if (membersResult.error) {
+    errors.push(`Member list query failed: ${membersResult.error}`);
+  } else if (membersResult.truncated) {
+    errors.push(`Member list truncated at ${memberIds.length} players`);
+  }
+  const players = await queryAll(memberIds, errors);
+  const members = new Map(memberIds.map((id) => [id, normalizePlayer(players[id])]));
+  const readMembers = [...members.values()].filter((member): member is Player => member !== null);
+
+  // -- Fleets and struct type names --
+  const fleetIds = readMembers.map((member) => member.fleet_id).filter((id): id is string => id !== undefined);
+  const fleets = await queryAll(fleetIds, errors);
+  const typeNames = new Map<number, string>();
+  for (const type of toArray(typesResult.struct_types)) {
+    const normalized = normalizeStructType(type);
+    if (normalized?.name) {
+      typeNames.set(normalized.type_id, normalized.name);
+    }
+  }
+
+  // -- Structs --
+  const structsByMember = await listMemberStructs(memberIds, errors);
+
+  // -- Allocations from the guild's reactor, and the substations they feed --
+  let allocations: Allocation[] = [];
+  if (guild?.primary_reactor_id) {
+    const result = await listAllocations(undefined, undefined, { source_id: guild.primary_reactor_id }, true);
+    if (result.error) {
+      errors.push(`Allocation list query failed: ${result.error}`);
+    }
+    allocations = toArray(result.allocations).map(normalizeAllocation).filter((a): a is Allocation => a !== null);
+  }
+  const substationIds = [...new Set([
+    ...(guild?.entry_substation_id ? [guild.entry_substation_id] : []),
+    ...allocations.map((a) => a.destination_id).filter((id): id is string => id !== undefined && getEntityTypeFromId(id) === 'substation'),
+  ])];
+  const substations = await queryAll(substationIds, errors);
+
+  const [bank, jobs] = await Promise.all([
+    getGuildBank(guild, guildId, readMembers, errors),
+    getProcessManagerJobs().catch(() => [] as JobStatus[]),
+  ]);
+
+  // -- Per-member summaries --
+  const ops: GuildDashboard['operations_in_progress'] = [];
+  const summaries: GuildMemberSummary[] = memberIds.map((id) => {
+    const member = members.get(id) ?? null;
+    const structs = structsByMember.get(id) ?? [];
+    const capacity = member?.grid?.capacity?.value ?? 0;
+    const load = member?.grid?.load?.value ?? 0;
+    const power: PowerSummary = {
+      capacity: capacity || undefined,
+      load: load || undefined,
+      online: member !== null && !member.halted,
+      margin: capacity && load ? capacity - load : undefined,
+    };
+    const ore = member?.grid?.ore?.value;
+
+    const structsByType: Record<string, number> = {};
+    for (const s of structs) {
+      const type = (s.type_id !== undefined ? typeNames.get(s.type_id) : undefined) ?? String(s.type_id ?? 'unknown');
+      structsByType[type] = (structsByType[type] ?? 0) + 1;
+      if (s.status === 'building') {
+        ops.push({ player_id: id, type: 'build', entity_id: s.id, detail: `Struct type ${type}` });
+      }
+    }
+
+    const fleet = member?.fleet_id ? normalizeFleet(fleets[member.fleet_id]) : null;
+    if (fleet?.status === 'away') {
+      ops.push({ player_id: id, type: 'fleet_away', entity_id: fleet.id, detail: `Away at ${fleet.location_id ?? 'an unknown location'}` });
+    }
+
+    return {
+      id,
+      address: member?.primary_address,
+      guild_rank: member?.guild_rank,
+      status: member ? (member.halted ? 'halted' : 'online') : 'unknown',
+      power,
+      ore,
+      structs_by_type: structsByType,
+      total_structs: structs.length,
+      fleet: fleet ? { id: fleet.id, status: fleet.status, planet_id: fleet.planet_id, location_id: fleet.location_id } : undefined,
+      issues: memberIssues(member, power, ore),
+    };
+  });
+
+  // -- Proof-of-work jobs of members --
+  for (const job of jobs) {
+    if (job.job_data && members.has(job.job_data.player_id) && job.status !== 'completed' && job.status !== 'failed') {
+      ops.push({
+        player_id: job.job_data.player_id,
+        type: job.job_data.action_type,
+        entity_id: job.job_data.entity_id,
+        detail: `Proof-of-work job ${job.job_id} (${job.status})`,
+      });
+    }
+  }
+
+  // Members in trouble first, most urgent issue first
+  const urgency = (member: GuildMemberSummary) => Math.min(...member.issues.map((issue) => ISSUE_ORDER.indexOf(issue.type)), ISSUE_ORDER.length);
+  summaries.sort((a, b) => urgency(a) - urgency(b) || a.id.localeCompare(b.id));
+  for (const member of summaries) {
+    member.issues.sort((a, b) => ISSUE_ORDER.indexOf(a.type) - ISSUE_ORDER.indexOf(b.type));
+  }
+  const inTrouble = summaries.filter((member) => member.issues.length > 0);
+
+  return {
+    members_in_trouble: inTrouble.map((member) => ({ player_id: member.id, issues: member.issues })),
+    guild: {
+      id: guildId,
+      owner: guild?.owner,
+      endpoint: guild?.endpoint,
+      entry_rank: guild?.entry_rank,
+      primary_reactor_id: guild?.primary_reactor_id,
+      entry_substation_id: guild?.entry_substation_id,
+    },
+    bank,
+    members: summaries,
+    substations: substationIds.map((id) => {
+      const substation = normalizeSubstation(substations[id]);
+      return {
+        id,
+        owner: substation?.owner,
+        capacity: substation?.grid?.capacity?.value,
+        load: substation?.grid?.load?.value,
+        connection_count: substation?.grid?.connection_count,
+      };
+    }),
+    allocations: allocations.map((a) => ({
+      id: a.id,
+      type: a.type,
+      source_id: a.source_id,
+      destination_id: a.destination_id,
+      controller: a.controller,
+      capacity: a.grid?.capacity?.value,
+    })),
+    operations_in_progress: ops,
+    summary: {
+      total_members: summaries.length,
+      online_members: summaries.filter((member) => member.status === 'online').length,
+      halted_members: summaries.filter((member) => member.status === 'halted').length,
+      members_in_trouble: inTrouble.length,
+      total_structs: summaries.reduce((sum, member) => sum + member.total_structs, 0),
+      fleets_away: summaries.filter((member) => member.fleet?.status === 'away').length,
+      total_substations: substationIds.length,
+      total_allocations: allocations.length,
+    },
     timestamp: new Date().toISOString(),
     errors,
   };
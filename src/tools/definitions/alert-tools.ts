@@ -0,0 +1,57 @@
+/**
+ * Alert Tool Definitions
+ *
+ * @module tools/definitions/alert-tools
+ */
+
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { alertListSchema } from './output-schemas.js';
+
+export const alertTools: Tool[] = [
+  {
+    name: 'structs_alerts_list',
+    description:
+      'List alerts fired by the alert rules for the watched players (ALERT_PLAYERS): halted player, load above 90% of capacity, unrefined ore to refine, an enemy fleet arriving at the planet, a struct taking damage, a proof-of-work job reaching its target difficulty, plus any rules from the config. Alerts are also sent as log notifications (logger "alerts") to clients that set a log level. Pass since=next_cursor to get only new alerts.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        since: {
+          type: 'integer',
+          minimum: 0,
+          description: 'Only alerts after this alert_id, oldest first (optional; default: the most recent alerts). Pass next_cursor from the previous call.',
+        },
+        active_only: {
+          type: 'boolean',
+          description: 'Only alerts whose condition still holds (default: false)',
+          default: false,
+        },
+        severity: {
+          type: 'string',
+          enum: ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'],
+          description: 'Minimum severity (optional)',
+        },
+        rule_id: {
+          type: 'string',
+          description: 'Only alerts from this rule (optional), e.g. "enemy_fleet_arrived"',
+        },
+        player_id: {
+          type: 'string',
+          description: 'Only alerts for this watched player (optional)',
+        },
+        limit: {
+          type: 'integer',
+          minimum: 1,
+          maximum: 500,
+          description: 'Maximum alerts to return (default: 50)',
+          default: 50,
+        },
+        refresh: {
+          type: 'boolean',
+          description: 'Check player and job rules now instead of waiting for the next interval (default: false)',
+          default: false,
+        },
+      },
+    },
+    outputSchema: alertListSchema,
+  },
+];
@@ -0,0 +1,61 @@
+/**
+ * Tool Annotations
+ *
+ * Behaviour hints (`readOnlyHint`, `destructiveHint`, `idempotentHint`)
+ * attached to every tool definition. Tools that submit transactions (the
+ * `actions` scope) are destructive and not idempotent. Tools that keep state
+ * on this server (event subscriptions) are not read-only or idempotent, but
+ * not destructive either; everything else only reads chain state or
+ * computes locally.
+ *
+ * @module tools/definitions/annotations
+ */
+
+import type { Tool, ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+import { getToolScope } from '../../utils/auth.js';
+
+/**
+ * Tools outside the `actions` scope that create state on this server
+ */
+const STATEFUL_TOOLS = new Set(['structs_events_subscribe']);
+
+/**
+ * Get the annotations for a tool
+ *
+ * @param toolName - Tool name
+ * @returns Behaviour hints
+ */
+export function getToolAnnotations(toolName: string): ToolAnnotations {
+  if (getToolScope(toolName) === 'actions') {
+    return {
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: false,
+    };
+  }
+  if (STATEFUL_TOOLS.has(toolName)) {
+    return {
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,
+    };
+  }
+  return {
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+  };
+}
+
+/**
+ * Add annotations to a tool definition (explicit annotations win)
+ *
+ * @param tool - Tool definition
+ * @returns Annotated tool definition
+ */
+export function annotateTool(tool: Tool): Tool {
+  return {
+    ...tool,
+    annotations: { ...getToolAnnotations(tool.name), ...tool.annotations },
+  };
+}
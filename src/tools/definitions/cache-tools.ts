@@ -0,0 +1,19 @@
+/**
+ * Cache Tool Definitions
+ *
+ * @module tools/definitions/cache-tools
+ */
+
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+
+export const cacheTools: Tool[] = [
+  {
+    name: 'structs_cache_stats',
+    description:
+      'Get statistics for the shared query cache: size, hits, misses, hit rate and invalidations, overall and per entity type, with each type\'s TTL. Chain queries are cached per entity type (struct types for an hour, players and structs for about one block) and invalidated when the server submits an action.',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+  },
+];
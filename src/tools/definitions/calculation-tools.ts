@@ -5,6 +5,7 @@
  */
 
 import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { jobStatusSchema } from './output-schemas.js';
 
 export const calculationTools: Tool[] = [
   {
@@ -116,6 +117,11 @@ export const calculationTools: Tool[] = [
           type: "string",
           description: "Your player ID (e.g., '1-11'). Required so the transaction can be submitted automatically.",
         },
+        wait: {
+          type: "boolean",
+          description: "Wait for the job to finish instead of returning a job ID at once (default: false). While waiting, worker status (waiting for blocks, difficulty drops) is reported as progress notifications if the request has a progressToken, and cancelling the request kills the job.",
+          default: false,
+        },
       },
       required: ["action_type", "entity_id", "player_id"],
     },
@@ -133,5 +139,6 @@ export const calculationTools: Tool[] = [
       },
       required: ["job_id"],
     },
+    outputSchema: jobStatusSchema,
   },
 ];
@@ -0,0 +1,31 @@
+/**
+ * Chain Tool Definitions
+ *
+ * @module tools/definitions/chain-tools
+ */
+
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { chainStatusSchema } from './output-schemas.js';
+
+export const chainTools: Tool[] = [
+  {
+    name: 'structs_chain_status',
+    description:
+      'Get the chain status: current block height and where it came from (database, API or estimate), the measured average block time, chain ID, node sync state and the server\'s configured endpoints. Also converts between blocks and times: pass block to get when that block was or will be produced, or time to get which block will be produced then and how many blocks away it is.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        block: {
+          type: 'integer',
+          minimum: 1,
+          description: 'Block height to convert to a time (optional), e.g. when a build at block_start + 10 can complete. Past blocks are read from the chain; future ones are estimated.',
+        },
+        time: {
+          type: 'string',
+          description: 'Time to convert to a block height (optional): ISO 8601 (e.g. "2026-01-01T14:00:00Z") or "HH:MM" for the next occurrence of that UTC time',
+        },
+      },
+    },
+    outputSchema: chainStatusSchema,
+  },
+];
@@ -5,6 +5,7 @@
  */
 
 import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { preparedCommandSchema } from './output-schemas.js';
 
 export const commandTools: Tool[] = [
   {
@@ -59,5 +60,6 @@ export const commandTools: Tool[] = [
       },
       required: ['action'],
     },
+    outputSchema: preparedCommandSchema,
   },
 ];
@@ -5,12 +5,13 @@
  */
 
 import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { playerDashboardSchema, guildDashboardSchema } from './output-schemas.js';
 
 export const dashboardTools: Tool[] = [
   {
     name: 'structs_player_dashboard',
     description:
-      'Get a complete overview of a player in one call: player state, power, all structs, fleets, allocations, and in-progress operations. Replaces 5-10 individual query calls. Use this first to understand the player\'s situation before planning actions.',
+      'Get a complete overview of a player in one call: player state, power, all structs, fleets, allocations, and in-progress operations. Replaces 5-10 individual query calls. Use this first to understand the player\'s situation before planning actions. Every response carries a snapshot_token; pass it back on the next call to get only what changed (structs added, removed or changed, fleets moved, power changes, operations started or finished).',
     inputSchema: {
       type: 'object',
       properties: {
@@ -18,8 +19,34 @@ export const dashboardTools: Tool[] = [
           type: 'string',
           description: 'Player ID in type-index format (e.g., "1-11")',
         },
+        at_height: {
+          type: 'integer',
+          minimum: 1,
+          description: 'Show the player as they were at this block height (optional, default: latest), e.g. when a raid started. The response reports the height.',
+        },
+        snapshot_token: {
+          type: 'string',
+          description: 'snapshot_token from an earlier call for this player (optional). Returns only the changes since then; if the snapshot has expired, the full dashboard is returned with snapshot_expired: true.',
+        },
       },
       required: ['player_id'],
     },
+    outputSchema: playerDashboardSchema,
+  },
+  {
+    name: 'structs_guild_dashboard',
+    description:
+      'Get a guild-wide overview in one call for guild coordinators: every member with online/halted status, power margin, struct counts by type, fleet location and in-progress operations, plus guild bank token figures and the substations and allocations fed by the guild\'s reactor. Members in trouble (halted, low power margin, unrefined ore exposed to raids) are listed first under members_in_trouble.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        guild_id: {
+          type: 'string',
+          description: 'Guild ID in type-index format (e.g., "0-1")',
+        },
+      },
+      required: ['guild_id'],
+    },
+    outputSchema: guildDashboardSchema,
   },
 ];
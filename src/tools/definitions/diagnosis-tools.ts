@@ -5,6 +5,7 @@
  */
 
 import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { errorDiagnosisSchema } from './output-schemas.js';
 
 export const diagnosisTools: Tool[] = [
   {
@@ -21,5 +22,6 @@ export const diagnosisTools: Tool[] = [
       },
       required: ['error_input'],
     },
+    outputSchema: errorDiagnosisSchema,
   },
 ];
@@ -0,0 +1,76 @@
+/**
+ * Event Tool Definitions
+ *
+ * @module tools/definitions/event-tools
+ */
+
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { eventSubscriptionSchema, eventPollSchema } from './output-schemas.js';
+
+const filterProperties = {
+  subject: {
+    type: 'string',
+    description: 'NATS subject pattern (optional): * matches one token, > the rest. E.g. "structs.planet.2-1" for one planet\'s activity, "structs.struct.>" for all struct events, "structs.block" for new blocks. Must fall within the subjects the server subscribes to (EVENTS_SUBJECTS)',
+  },
+  entity_id: {
+    type: 'string',
+    description: 'Only events naming this entity in their subject or payload (optional), e.g. your planet "2-1" or player "1-11"',
+  },
+};
+
+export const eventTools: Tool[] = [
+  {
+    name: 'structs_events_subscribe',
+    description:
+      'Subscribe to live game events streamed from NATS (planet activity such as raids and attacks, struct, fleet and player changes, new blocks). Filter by subject pattern and/or entity ID; with neither, receives every event. Returns a subscription_id to pass to structs_events_poll. Subscriptions expire after 30 minutes without a poll.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        ...filterProperties,
+        include_buffered: {
+          type: 'boolean',
+          description: 'Also receive the recent events already buffered, not just new ones (default: false)',
+          default: false,
+        },
+      },
+    },
+    outputSchema: eventSubscriptionSchema,
+  },
+  {
+    name: 'structs_events_poll',
+    description:
+      'Get events since a cursor. With subscription_id, returns the subscription\'s events since the last poll and advances it; without, returns buffered events matching subject/entity_id after cursor. Set wait_ms to wait for the next event when none are buffered. events_missed is true when older events were evicted from the buffer before they were read.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        subscription_id: {
+          type: 'string',
+          description: 'Subscription from structs_events_subscribe (optional)',
+        },
+        cursor: {
+          type: 'integer',
+          minimum: 0,
+          description: 'Return events after this cursor (optional; default: the subscription\'s position, or every buffered event). Pass next_cursor from the previous poll.',
+        },
+        limit: {
+          type: 'integer',
+          minimum: 1,
+          maximum: 500,
+          description: 'Maximum events to return (default: 100)',
+          default: 100,
+        },
+        wait_ms: {
+          type: 'integer',
+          minimum: 0,
+          maximum: 30000,
+          description: 'Wait up to this long for an event when none are buffered (default: 0, return immediately)',
+          default: 0,
+        },
+        ...filterProperties,
+      },
+    },
+    outputSchema: eventPollSchema,
+    // Advances the subscription's cursor
+    annotations: { idempotentHint: false },
+  },
+];
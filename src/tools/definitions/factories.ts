@@ -7,13 +7,57 @@
  */
 
 import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { LIST_FILTERS_BY_ENTITY, LIST_FILTER_SPECS } from '../list-filters.js';
+import { RESULT_FORMATS } from '../projection.js';
+
+/**
+ * `fields` and `format` properties shared by the query and list tools
+ */
+export const projectionProperties = {
+  fields: {
+    type: "array",
+    items: { type: "string" },
+    description: "Only return these fields (optional). Dotted paths relative to the entity, with * and [n] for arrays, e.g. ['Player.id', 'gridAttributes.ore'] for a player or ['id', 'owner'] for each item of a list. Start a path with '$.' to select from the whole response. Use this to keep responses small.",
+  },
+  format: {
+    type: "string",
+    enum: RESULT_FORMATS,
+    description: "'full' (default) returns the data as the chain reports it. 'compact' drops null values and merges attribute maps (e.g. gridAttributes) into their parent as dotted keys. 'normalized' returns the canonical entity model: snake_case keys, numbers as numbers, amounts as { value, unit } (field paths then use the model's keys, e.g. 'guild_id').",
+    default: "full",
+  },
+};
+
+/**
+ * `at_height` property shared by the query and list tools
+ */
+const atHeightProperty = {
+  at_height: {
+    type: "integer",
+    minimum: 1,
+    description: "Read the state as it was at this block height (optional, default: latest). The response reports the height it was answered at. Nodes that prune old state can only answer recent heights.",
+  },
+};
+
+/**
+ * Lookup arguments for query tools whose entity isn't addressed by a single
+ * `{entity}_id` (permissions, attributes, grid values)
+ */
+export interface QueryToolOptions {
+  /** Tool name (default: `structs_query_{entity}`) */
+  name?: string;
+  description?: string;
+  /** Properties that identify what to query; replace `{entity}_id` and `id` */
+  properties: Record<string, object>;
+  required: string[];
+}
 
 /**
  * Create a query tool definition for a single entity
  */
 export function createQueryTool(
   entityName: string,
-  entityIdPattern: string
+  entityIdPattern: string,
+  options?: QueryToolOptions
 ): Tool {
   const entityId = `${entityName.toLowerCase()}_id`;
   const descriptions: Record<string, string> = {
@@ -27,21 +71,27 @@ export function createQueryTool(
     Provider: "Get information about a provider",
     Agreement: "Get information about an agreement",
     Allocation: "Get information about an allocation. The controller field is a PlayerId (not address). The locked column has been removed.",
+    Infusion: "Get information about an infusion: alpha matter a player has infused into a reactor or generator, and the power and commission it earns",
+  };
+  const idProperties = options?.properties ?? {
+    [entityId]: {
+      type: "string",
+      description: `${entityName} ID in type-index format (e.g., '${entityIdPattern}'). Can also be passed as "id" for compatibility.`,
+    },
+    id: {
+      type: "string",
+      description: `Alias for ${entityId}. Entity ID in type-index format (e.g., '${entityIdPattern}'). Either this or ${entityId} must be provided.`,
+    },
   };
   return {
-    name: `structs_query_${entityName.toLowerCase()}`,
-    description: descriptions[entityName] || `Get information about a ${entityName.toLowerCase()}`,
+    name: options?.name ?? `structs_query_${entityName.toLowerCase()}`,
+    description: options?.description ?? descriptions[entityName] ?? `Get information about a ${entityName.toLowerCase()}`,
     inputSchema: {
       type: "object",
       properties: {
-        [entityId]: {
-          type: "string",
-          description: `${entityName} ID in type-index format (e.g., '${entityIdPattern}'). Can also be passed as "id" for compatibility.`,
-        },
-        id: {
-          type: "string",
-          description: `Alias for ${entityId}. Entity ID in type-index format (e.g., '${entityIdPattern}'). Either this or ${entityId} must be provided.`,
-        },
+        ...idProperties,
+        ...atHeightProperty,
+        ...projectionProperties,
         include_references: {
           anyOf: [
             { type: "boolean" },
@@ -82,20 +132,31 @@ export function createQueryTool(
         },
       },
       // Either entity-specific id (e.g. player_id) or generic id must be provided
-      required: [entityId],
+      required: options?.required ?? [entityId],
     },
   };
 }
 
 /**
- * Create a list tool definition with pagination
+ * List tool names that aren't `{entity}s`
+ */
+const LIST_TOOL_PLURALS: Record<string, string> = {
+  address: 'addresses',
+  grid: 'grid_attributes',
+};
+
+/**
+ * Create a list tool definition with pagination and the entity's filters
  */
 export function createListTool(
   entityName: string,
   description?: string
 ): Tool {
-  // Handle special case for struct_type -> struct_types
-  const pluralName = entityName === 'struct_type' ? 'struct_types' : entityName.toLowerCase() + 's';
+  const pluralName = LIST_TOOL_PLURALS[entityName] ?? entityName.toLowerCase() + 's';
+  const filterNames = LIST_FILTERS_BY_ENTITY[entityName] ?? [];
+  const filterProperties = Object.fromEntries(
+    filterNames.map((name) => [name, { type: "string", description: `${LIST_FILTER_SPECS[name].description} (optional).` }])
+  );
   return {
     name: `structs_list_${pluralName}`,
     description: description || `Get a list of all ${pluralName}. You can request more results using pagination.`,
@@ -108,8 +169,18 @@ export function createListTool(
         },
         pagination_limit: {
           type: "number",
-          description: "Maximum number of items to return per page (optional). Use this to control how many results you get at once.",
+          description: filterNames.length > 0
+            ? "Maximum number of items to return per page (optional). Use this to control how many results you get at once. With filters, the maximum number of matching items (default: 100)."
+            : "Maximum number of items to return per page (optional). Use this to control how many results you get at once.",
+        },
+        ...filterProperties,
+        fetch_all: {
+          type: "boolean",
+          description: "Fetch every page in one call instead of paging with pagination_key (optional, default: false). Stops at the server's item and size caps; the response then has truncated: true and a pagination.next_key to continue from. Combine with filters to get, e.g., all of a player's structs at once.",
+          default: false,
         },
+        ...atHeightProperty,
+        ...projectionProperties,
         include_references: {
           anyOf: [
             { type: "boolean" },
@@ -17,12 +17,17 @@ import { commandTools } from './command-tools.js';
 import { dashboardTools } from './dashboard-tools.js';
 import { preflightTools } from './preflight-tools.js';
 import { diagnosisTools } from './diagnosis-tools.js';
+import { cacheTools } from './cache-tools.js';
+import { chainTools } from './chain-tools.js';
+import { eventTools } from './event-tools.js';
+import { alertTools } from './alert-tools.js';
+import { annotateTool } from './annotations.js';
 
 // Cache for tool definitions
 let cachedToolDefinitions: Tool[] | null = null;
 
 /**
- * Get all tool definitions (cached)
+ * Get all tool definitions with annotations (cached)
  */
 export function getAllToolDefinitions(): Tool[] {
   if (!cachedToolDefinitions) {
@@ -37,7 +42,11 @@ export function getAllToolDefinitions(): Tool[] {
       ...dashboardTools,
       ...preflightTools,
       ...diagnosisTools,
-    ];
+      ...cacheTools,
+      ...chainTools,
+      ...eventTools,
+      ...alertTools,
+    ].map(annotateTool);
   }
   return cachedToolDefinitions;
 }
@@ -50,4 +59,4 @@ export function clearToolDefinitionsCache(): void {
 }
 
 // Re-export for convenience
-export { validationTools, queryTools, actionTools, calculationTools, workflowTools, gameplayTools, commandTools, dashboardTools, preflightTools, diagnosisTools };
+export { validationTools, queryTools, actionTools, calculationTools, workflowTools, gameplayTools, commandTools, dashboardTools, preflightTools, diagnosisTools, cacheTools, chainTools, eventTools, alertTools };
@@ -0,0 +1,603 @@
+/**
+ * Tool Output Schemas
+ *
+ * JSON Schemas for the `structuredContent` of the main composite tools.
+ * Clients validate results against these, so they list the fields every
+ * result carries and leave room for optional fields (`references`, new
+ * additions) via open objects.
+ *
+ * @module tools/definitions/output-schemas
+ */
+
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+
+type OutputSchema = NonNullable<Tool['outputSchema']>;
+
+const stringArray = { type: 'array', items: { type: 'string' } };
+
+const fieldChanges = { type: 'object', additionalProperties: { type: 'object', properties: { from: {}, to: {} } } };
+
+const changedItems = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      changes: fieldChanges,
+    },
+    required: ['id', 'changes'],
+  },
+};
+
+/**
+ * PlayerDashboard, or PlayerDashboardDelta when called with a snapshot_token (structs_player_dashboard)
+ */
+export const playerDashboardSchema: OutputSchema = {
+  type: 'object',
+  properties: {
+    player: {
+      type: 'object',
+      properties: {
+        id: { type: 'string' },
+        address: { type: 'string' },
+        guild_id: { type: 'string' },
+        guild_rank: { type: ['number', 'null'] },
+        halted: { type: 'boolean' },
+      },
+      required: ['id'],
+    },
+    power: {
+      type: 'object',
+      properties: {
+        capacity: { type: 'number' },
+        load: { type: 'number' },
+        online: { type: 'boolean' },
+        margin: { type: 'number' },
+      },
+      required: ['online'],
+    },
+    structs: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          // NaN (unknown struct type) serializes as null
+          type_id: { type: ['number', 'null'] },
+          type_name: { type: 'string' },
+          // Passed through from the chain response as-is
+          status: {},
+          planet_id: {},
+          ambit: {},
+        },
+        required: ['id'],
+      },
+    },
+    fleets: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          planet_id: { type: 'string' },
+          on_station: { type: 'boolean' },
+          struct_ids: stringArray,
+        },
+        required: ['id'],
+      },
+    },
+    operations_in_progress: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          type: { type: 'string' },
+          entity_id: { type: 'string' },
+          detail: { type: 'string' },
+        },
+        required: ['type'],
+      },
+    },
+    summary: {
+      type: 'object',
+      properties: {
+        total_structs: { type: 'number' },
+        online_structs: { type: 'number' },
+        total_fleets: { type: 'number' },
+        total_allocations: { type: 'number' },
+      },
+    },
+    height: { type: 'number' },
+    snapshot_token: { type: 'string' },
+    snapshot_expired: { type: 'boolean' },
+    // Delta responses
+    since: { type: 'string' },
+    unchanged: { type: 'boolean' },
+    changes: {
+      type: 'object',
+      properties: {
+        player: fieldChanges,
+        power: fieldChanges,
+        structs: {
+          type: 'object',
+          properties: {
+            added: { type: 'array' },
+            removed: { type: 'array' },
+            changed: changedItems,
+          },
+          required: ['added', 'removed', 'changed'],
+        },
+        fleets: {
+          type: 'object',
+          properties: {
+            added: { type: 'array' },
+            removed: { type: 'array' },
+            moved: changedItems,
+            changed: changedItems,
+          },
+          required: ['added', 'removed', 'moved', 'changed'],
+        },
+        operations: {
+          type: 'object',
+          properties: {
+            started: { type: 'array' },
+            finished: { type: 'array' },
+          },
+          required: ['started', 'finished'],
+        },
+      },
+      required: ['player', 'power', 'structs', 'fleets', 'operations'],
+    },
+    timestamp: { type: 'string' },
+    errors: stringArray,
+  },
+  required: ['player', 'summary', 'timestamp', 'errors'],
+  // Full dashboards carry the state, deltas the changes since the snapshot
+  anyOf: [
+    { required: ['power', 'structs', 'fleets', 'operations_in_progress'] },
+    { required: ['since', 'unchanged', 'changes', 'snapshot_token'] },
+  ],
+};
+
+/**
+ * GuildDashboard (structs_guild_dashboard)
+ */
+const memberIssuesSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      type: { type: 'string' },
+      detail: { type: 'string' },
+    },
+    required: ['type', 'detail'],
+  },
+};
+
+const coinArray = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      denom: { type: 'string' },
+      amount: { type: 'number' },
+    },
+    required: ['denom', 'amount'],
+  },
+};
+
+export const guildDashboardSchema: OutputSchema = {
+  type: 'object',
+  properties: {
+    members_in_trouble: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          player_id: { type: 'string' },
+          issues: memberIssuesSchema,
+        },
+        required: ['player_id', 'issues'],
+      },
+    },
+    guild: {
+      type: 'object',
+      properties: {
+        id: { type: 'string' },
+        owner: { type: 'string' },
+        endpoint: { type: 'string' },
+        entry_rank: { type: 'number' },
+        primary_reactor_id: { type: 'string' },
+        entry_substation_id: { type: 'string' },
+      },
+      required: ['id'],
+    },
+    bank: {
+      type: 'object',
+      properties: {
+        token_denom: { type: 'string' },
+        tokens_issued: { type: 'number' },
+        member_holdings: { type: 'number' },
+        collateral_pool: { type: 'string' },
+        collateral: coinArray,
+      },
+      required: ['token_denom', 'member_holdings', 'collateral'],
+    },
+    members: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          address: { type: 'string' },
+          guild_rank: { type: 'number' },
+          status: { type: 'string', enum: ['online', 'halted', 'unknown'] },
+          power: playerDashboardSchema.properties!.power,
+          ore: { type: 'number' },
+          structs_by_type: { type: 'object', additionalProperties: { type: 'number' } },
+          total_structs: { type: 'number' },
+          fleet: {
+            type: 'object',
+            properties: {
+              id: { type: 'string' },
+              status: { type: 'string' },
+              planet_id: { type: 'string' },
+              location_id: { type: 'string' },
+            },
+            required: ['id'],
+          },
+          issues: memberIssuesSchema,
+        },
+        required: ['id', 'status', 'power', 'structs_by_type', 'total_structs', 'issues'],
+      },
+    },
+    substations: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          owner: { type: 'string' },
+          capacity: { type: 'number' },
+          load: { type: 'number' },
+          connection_count: { type: 'number' },
+        },
+        required: ['id'],
+      },
+    },
+    allocations: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          type: { type: 'string' },
+          source_id: { type: 'string' },
+          destination_id: { type: 'string' },
+          controller: { type: 'string' },
+          capacity: { type: 'number' },
+        },
+        required: ['id'],
+      },
+    },
+    operations_in_progress: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          player_id: { type: 'string' },
+          type: { type: 'string' },
+          entity_id: { type: 'string' },
+          detail: { type: 'string' },
+        },
+        required: ['player_id', 'type'],
+      },
+    },
+    summary: {
+      type: 'object',
+      properties: {
+        total_members: { type: 'number' },
+        online_members: { type: 'number' },
+        halted_members: { type: 'number' },
+        members_in_trouble: { type: 'number' },
+        total_structs: { type: 'number' },
+        fleets_away: { type: 'number' },
+        total_substations: { type: 'number' },
+        total_allocations: { type: 'number' },
+      },
+    },
+    timestamp: { type: 'string' },
+    errors: stringArray,
+  },
+  required: ['members_in_trouble', 'guild', 'bank', 'members', 'substations', 'allocations', 'operations_in_progress', 'summary', 'timestamp', 'errors'],
+};
+
+/**
+ * PreflightResult (structs_preflight_check)
+ */
+export const preflightResultSchema: OutputSchema = {
+  type: 'object',
+  properties: {
+    feasible: { type: 'boolean' },
+    action: { type: 'string' },
+    blockers: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          type: { type: 'string' },
+          detail: { type: 'string' },
+          fix_hint: { type: 'string' },
+        },
+        required: ['type', 'detail'],
+      },
+    },
+    warnings: stringArray,
+    checks_performed: stringArray,
+  },
+  required: ['feasible', 'action', 'blockers', 'warnings', 'checks_performed'],
+};
+
+/**
+ * PreparedCommand, or the action list for `action: "list"` (structs_prepare_command)
+ */
+export const preparedCommandSchema: OutputSchema = {
+  type: 'object',
+  properties: {
+    command: { type: 'string' },
+    verify_command: { type: 'string' },
+    prerequisites: stringArray,
+    warnings: stringArray,
+    pattern: { type: 'string', enum: ['single', 'two_step', 'proof_of_work'] },
+    next_step: {
+      type: 'object',
+      properties: {
+        action: { type: 'string' },
+        description: { type: 'string' },
+        command_template: { type: 'string' },
+      },
+      required: ['action', 'description', 'command_template'],
+    },
+    actions: stringArray,
+  },
+  anyOf: [
+    { required: ['command', 'prerequisites', 'warnings', 'pattern'] },
+    { required: ['actions', 'deprecated'] },
+  ],
+};
+
+/**
+ * ErrorDiagnosis (structs_diagnose_error)
+ */
+export const errorDiagnosisSchema: OutputSchema = {
+  type: 'object',
+  properties: {
+    error_code: { type: 'number' },
+    error_name: { type: 'string' },
+    what_happened: { type: 'string' },
+    why: { type: 'string' },
+    fix: { type: 'string' },
+    fix_command: { type: 'string' },
+    related_docs: { type: 'string' },
+  },
+  required: ['error_name', 'what_happened', 'why', 'fix'],
+};
+
+/**
+ * JobStatus (structs_query_proof_of_work_status)
+ */
+export const jobStatusSchema: OutputSchema = {
+  type: 'object',
+  properties: {
+    job_id: { type: 'string' },
+    status: { type: 'string', enum: ['queued', 'running', 'waiting', 'completed', 'failed', 'not_found'] },
+    started_at: { type: 'string' },
+    completed_at: { type: 'string' },
+    error: { type: 'string' },
+    message: { type: 'string' },
+    waiting_info: {
+      type: 'object',
+      properties: {
+        current_age: { type: 'number' },
+        target_age: { type: 'number' },
+        blocks_remaining: { type: 'number' },
+      },
+    },
+    job_data: {
+      type: 'object',
+      properties: {
+        action_type: { type: 'string' },
+        entity_id: { type: 'string' },
+        target_id: { type: 'string' },
+        difficulty: { type: 'number' },
+        max_iterations: { type: 'number' },
+        block_start: { type: 'number' },
+        player_id: { type: 'string' },
+      },
+    },
+    difficulty_info: {
+      type: 'object',
+      properties: {
+        current_difficulty: { type: 'number' },
+        target_difficulty: { type: 'number' },
+        current_age: { type: 'number' },
+        difficulty_range: { type: 'number' },
+        max_iterations: { type: 'number' },
+      },
+    },
+  },
+  required: ['job_id', 'status'],
+};
+
+const blockTimeConversion = {
+  type: 'object',
+  properties: {
+    height: { type: 'number' },
+    time: { type: 'string' },
+    blocks_away: { type: 'number' },
+    seconds_away: { type: 'number' },
+    estimated: { type: 'boolean' },
+  },
+  required: ['height', 'time', 'blocks_away', 'seconds_away', 'estimated'],
+};
+
+/**
+ * ChainStatus (structs_chain_status)
+ */
+export const chainStatusSchema: OutputSchema = {
+  type: 'object',
+  properties: {
+    chain_id: { type: 'string' },
+    height: { type: 'number' },
+    height_source: { type: 'string' },
+    block_time: {
+      type: 'object',
+      properties: {
+        average_ms: { type: 'number' },
+        source: { type: 'string' },
+        window: { type: 'number' },
+        latest_height: { type: 'number' },
+        latest_time: { type: 'string' },
+      },
+      required: ['average_ms', 'source'],
+    },
+    node: {
+      type: 'object',
+      properties: {
+        reachable: { type: 'boolean' },
+        syncing: { type: 'boolean' },
+        network: { type: 'string' },
+      },
+      required: ['reachable'],
+    },
+    endpoints: {
+      type: 'object',
+      properties: {
+        consensus_api: { type: 'string' },
+        database: { type: ['string', 'null'] },
+      },
+      required: ['consensus_api'],
+    },
+    block: blockTimeConversion,
+    at_time: blockTimeConversion,
+    warnings: stringArray,
+    errors: stringArray,
+    timestamp: { type: 'string' },
+  },
+  required: ['chain_id', 'block_time', 'node', 'endpoints', 'warnings', 'errors', 'timestamp'],
+};
+
+const eventStreamStatus = {
+  type: 'object',
+  properties: {
+    state: { type: 'string' },
+    servers: { type: 'string' },
+    subjects: stringArray,
+    reconnects: { type: 'number' },
+    last_error: { type: 'string' },
+    buffered_events: { type: 'number' },
+    latest_cursor: { type: 'number' },
+  },
+  required: ['state', 'latest_cursor'],
+};
+
+/**
+ * SubscribeResult (structs_events_subscribe)
+ */
+export const eventSubscriptionSchema: OutputSchema = {
+  type: 'object',
+  properties: {
+    subscription: {
+      type: 'object',
+      properties: {
+        subscription_id: { type: 'string' },
+        filter: { type: 'object' },
+        cursor: { type: 'number' },
+        created_at: { type: 'string' },
+      },
+      required: ['subscription_id', 'filter', 'cursor'],
+    },
+    stream: eventStreamStatus,
+    timestamp: { type: 'string' },
+  },
+  required: ['subscription', 'stream', 'timestamp'],
+};
+
+/**
+ * PollEventsResult (structs_events_poll)
+ */
+export const eventPollSchema: OutputSchema = {
+  type: 'object',
+  properties: {
+    subscription_id: { type: 'string' },
+    events: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          cursor: { type: 'number' },
+          subject: { type: 'string' },
+          entity_type: { type: 'string' },
+          entity_id: { type: 'string' },
+          entity_ids: stringArray,
+          received_at: { type: 'string' },
+        },
+        required: ['cursor', 'subject', 'entity_ids', 'received_at'],
+      },
+    },
+    next_cursor: { type: 'number' },
+    has_more: { type: 'boolean' },
+    events_missed: { type: 'boolean' },
+    stream: eventStreamStatus,
+    timestamp: { type: 'string' },
+  },
+  required: ['events', 'next_cursor', 'has_more', 'events_missed', 'stream', 'timestamp'],
+};
+
+/**
+ * AlertListResult (structs_alerts_list)
+ */
+export const alertListSchema: OutputSchema = {
+  type: 'object',
+  properties: {
+    enabled: { type: 'boolean' },
+    watching: stringArray,
+    alerts: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          alert_id: { type: 'number' },
+          rule_id: { type: 'string' },
+          severity: { type: 'string' },
+          message: { type: 'string' },
+          player_id: { type: 'string' },
+          entity_id: { type: 'string' },
+          facts: { type: 'object' },
+          fired_at: { type: 'string' },
+          active: { type: 'boolean' },
+          resolved_at: { type: 'string' },
+        },
+        required: ['alert_id', 'rule_id', 'severity', 'message', 'fired_at', 'active'],
+      },
+    },
+    next_cursor: { type: 'number' },
+    has_more: { type: 'boolean' },
+    rules: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          source: { type: 'string' },
+          severity: { type: 'string' },
+          enabled: { type: 'boolean' },
+        },
+        required: ['id', 'source', 'severity', 'enabled'],
+      },
+    },
+    rule_errors: stringArray,
+    timestamp: { type: 'string' },
+  },
+  required: ['enabled', 'watching', 'alerts', 'next_cursor', 'has_more', 'rules', 'rule_errors', 'timestamp'],
+};
@@ -5,6 +5,7 @@
  */
 
 import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { preflightResultSchema } from './output-schemas.js';
 
 export const preflightTools: Tool[] = [
   {
@@ -38,5 +39,6 @@ export const preflightTools: Tool[] = [
       },
       required: ['action', 'player_id'],
     },
+    outputSchema: preflightResultSchema,
   },
 ];
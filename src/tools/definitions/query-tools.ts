@@ -5,7 +5,18 @@
  */
 
 import type { Tool } from '@modelcontextprotocol/sdk/types.js';
-import { createQueryTool, createListTool } from './factories.js';
+import { createQueryTool, createListTool, projectionProperties } from './factories.js';
+import { ATTRIBUTE_TYPES, GRID_SUMMARY_TYPES } from '../attributes.js';
+
+/**
+ * `attribute_type` argument of the attribute query tools
+ */
+function attributeTypeProperty(kind: keyof typeof ATTRIBUTE_TYPES, example: string) {
+  return {
+    type: "string",
+    description: `Attribute type name (e.g., '${example}') or numeric type code. Names: ${Object.keys(ATTRIBUTE_TYPES[kind]).join(', ')}.`,
+  };
+}
 
 export const queryTools: Tool[] = [
   // List tools
@@ -18,6 +29,13 @@ export const queryTools: Tool[] = [
   createListTool('agreement', 'Get a list of all agreements. You can request more results using pagination.'),
   createListTool('substation', 'Get a list of all substations. You can request more results using pagination.'),
   createListTool('allocation', 'Get a list of all allocations. You can request more results using pagination.'),
+  createListTool('infusion', 'Get a list of all infusions (alpha matter infused into reactors and generators). You can request more results using pagination.'),
+  createListTool('address', 'Get a list of all registered addresses and the players they act for. You can request more results using pagination.'),
+  createListTool('permission', 'Get a list of permissions players hold on objects (permission ID {object_id}@{player_id}, value is a bitmask). Filter by object_id or player_id.'),
+  createListTool('guild_rank_permission', 'Get a list of guild rank permissions: permission bitmasks granted on objects to guild members at or below a rank. Filter by object_id or guild_id.'),
+  createListTool('struct_attribute', 'Get a list of struct attributes (health, status, operation start blocks, ...). Filter by object_id to get one struct\'s attributes.'),
+  createListTool('planet_attribute', 'Get a list of planet attributes (shields, defenses, raid start block, ...). Filter by object_id to get one planet\'s attributes.'),
+  createListTool('grid', 'Get a list of grid attributes (ore, fuel, power capacity, load, connections, ...). Filter by object_id to get one object\'s grid values.'),
 
   // Query tools - descriptions will be updated in factory function
   createQueryTool('Player', '1-11'),
@@ -30,6 +48,102 @@ export const queryTools: Tool[] = [
   createQueryTool('Provider', '10-1'),
   createQueryTool('Agreement', '11-1'),
   createQueryTool('Allocation', '6-1'),
+  createQueryTool('Infusion', '7-1'),
+  createQueryTool('Address', '8-1', {
+    description: "Get a registered address: the player it acts for and its permission bitmask (what the address may do on the player's behalf)",
+    properties: {
+      address: {
+        type: "string",
+        description: "Account address (e.g., 'structs1...') or address ID (e.g., '8-1')",
+      },
+    },
+    required: ["address"],
+  }),
+  createQueryTool('Permission', '0-1@1-11', {
+    description: "Get the permission bitmask a player holds on an object (guild, planet, struct, ...). Permissions of an address are on structs_query_address; rank-based guild permissions are on structs_query_guild_rank_permission.",
+    properties: {
+      object_id: {
+        type: "string",
+        description: "Object the permission is on (e.g., '0-1' for a guild, '5-1' for a struct)",
+      },
+      player_id: {
+        type: "string",
+        description: "Player holding the permission (e.g., '1-11')",
+      },
+    },
+    required: ["object_id", "player_id"],
+  }),
+  createQueryTool('GuildRankPermission', '5-1', {
+    name: "structs_query_guild_rank_permission",
+    description: "Get the guild rank permissions set on an object: which permission bitmasks guild members at or below each rank get on it (lower rank = more privileged)",
+    properties: {
+      object_id: {
+        type: "string",
+        description: "Object the permissions are on (e.g., '5-1')",
+      },
+      guild_id: {
+        type: "string",
+        description: "Only this guild's ranks (optional, e.g., '0-1')",
+      },
+    },
+    required: ["object_id"],
+  }),
+  createQueryTool('StructAttribute', '5-1', {
+    name: "structs_query_struct_attribute",
+    description: "Get one attribute of a struct (e.g., health, or the block an operation started at)",
+    properties: {
+      struct_id: {
+        type: "string",
+        description: "Struct ID (e.g., '5-1')",
+      },
+      attribute_type: attributeTypeProperty('struct', 'health'),
+    },
+    required: ["struct_id", "attribute_type"],
+  }),
+  createQueryTool('PlanetAttribute', '2-1', {
+    name: "structs_query_planet_attribute",
+    description: "Get one attribute of a planet (e.g., planetary shield, defense quantities, or the block a raid started at)",
+    properties: {
+      planet_id: {
+        type: "string",
+        description: "Planet ID (e.g., '2-1')",
+      },
+      attribute_type: attributeTypeProperty('planet', 'planetaryShield'),
+    },
+    required: ["planet_id", "attribute_type"],
+  }),
+  createQueryTool('Grid', '1-11', {
+    description: "Get grid values of an object: power capacity, load and connections by default, or one attribute (ore, fuel, ...). Works for players, reactors, substations, structs and allocations.",
+    properties: {
+      object_id: {
+        type: "string",
+        description: "Object ID (e.g., '1-11' for a player, '4-1' for a substation)",
+      },
+      attribute_type: {
+        ...attributeTypeProperty('grid', 'capacity'),
+        description: `Only this grid attribute (optional; default: ${GRID_SUMMARY_TYPES.join(', ')}). Name or numeric type code. Names: ${Object.keys(ATTRIBUTE_TYPES.grid).join(', ')}.`,
+      },
+    },
+    required: ["object_id"],
+  }),
+  createQueryTool('Batch', '5-1', {
+    name: "structs_query_batch",
+    description: "Get several entities of any types in one call (e.g., a player, its planet and its structs). Returns entities and errors keyed by ID; one failed lookup doesn't fail the rest. Field paths are relative to the ID-keyed entities, so start them with '*.' (e.g., '*.id', '*.Player.guildId').",
+    properties: {
+      ids: {
+        type: "array",
+        items: { type: "string" },
+        minItems: 1,
+        description: "Entity IDs in type-index format (e.g., ['1-11', '2-1', '5-1'])",
+      },
+      concurrency: {
+        type: "integer",
+        minimum: 1,
+        description: "Lookups in flight at once (optional; default and maximum: BATCH_CONCURRENCY, 8)",
+      },
+    },
+    required: ["ids"],
+  }),
 
   // Special query tools
   {
@@ -46,6 +160,7 @@ export const queryTools: Tool[] = [
           type: "string",
           description: "Filter by category (queries, transactions, etc.)",
         },
+        ...projectionProperties,
       },
     },
   },
@@ -71,6 +186,7 @@ export const queryTools: Tool[] = [
           type: "string",
           description: "Only show activity before this time (ISO timestamp)",
         },
+        ...projectionProperties,
       },
       required: ["planet_id"],
     },
@@ -90,6 +206,7 @@ export const queryTools: Tool[] = [
           description: "Same as the action_type you would use for completing this action (e.g., 'struct_build_complete' for finishing a build)",
           enum: ["struct_build_complete", "planet_raid_complete", "ore_miner_complete", "ore_refinery_complete"],
         },
+        ...projectionProperties,
       },
       required: ["entity_id", "action_type"],
     },
@@ -25,6 +25,11 @@ export const workflowTools: Tool[] = [
           type: "object",
           description: "Parameters for the workflow. For struct_build: {struct_type_id, operate_ambit, slot}. For planet_raid: {fleet_id, destination_planet_id}. See structs_workflow_get_steps for details.",
         },
+        wait: {
+          type: "boolean",
+          description: "Wait for the workflow to finish instead of returning a workflow ID at once (default: false). While waiting, each step is reported as a progress notification if the request has a progressToken, and cancelling the request stops the workflow.",
+          default: false,
+        },
       },
       required: ["workflow_type", "player_id", "parameters"],
     },
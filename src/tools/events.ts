@@ -0,0 +1,101 @@
+/**
+ * Event Tools
+ *
+ * structs_events_subscribe and structs_events_poll: subscribe to game events
+ * (raids, attacks, builds, blocks) streamed from NATS, then poll for the
+ * events received since the last poll.
+ *
+ * @module tools/events
+ */
+
+import { getEventStream, type EventFilter, type EventSubscription, type PollResult, type StreamStatus } from '../utils/event-stream.js';
+import { getAbortSignal, getRequestOwner } from '../utils/request-context.js';
+import { isValidEntityId } from '../types/references.js';
+
+export interface SubscribeResult {
+  subscription: EventSubscription;
+  stream: StreamStatus;
+  timestamp: string;
+}
+
+export interface PollEventsResult extends PollResult {
+  subscription_id?: string;
+  stream: StreamStatus;
+  timestamp: string;
+}
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 500;
+const MAX_WAIT_MS = 30000;
+
+/**
+ * Read the subject and entity filter from tool arguments
+ */
+function readFilter(args: { subject?: unknown; entity_id?: unknown }): EventFilter {
+  const filter: EventFilter = {};
+  if (args.subject !== undefined && args.subject !== null && args.subject !== '') {
+    filter.subject = String(args.subject).trim();
+  }
+  if (args.entity_id !== undefined && args.entity_id !== null && args.entity_id !== '') {
+    const entityId = String(args.entity_id).trim();
+    if (!isValidEntityId(entityId)) {
+      throw new Error(`Invalid entity ID: "${entityId}". Expected format "type-index" (e.g. "2-1")`);
+    }
+    filter.entity_id = entityId;
+  }
+  return filter;
+}
+
+/**
+ * Subscribe to events matching a subject pattern and/or entity
+ *
+ * @param args - `subject`, `entity_id`, `include_buffered`
+ * @returns The subscription (poll it with its `subscription_id`) and stream status
+ * @throws Error on an invalid filter or when the subscription limit is reached
+ */
+export function subscribeEvents(args: { subject?: unknown; entity_id?: unknown; include_buffered?: unknown }): SubscribeResult {
+  const stream = getEventStream();
+  const subscription = stream.subscribe(readFilter(args), args.include_buffered === true, getRequestOwner());
+  return { subscription, stream: stream.getStatus(), timestamp: new Date().toISOString() };
+}
+
+/**
+ * Poll for events after a cursor
+ *
+ * With a `subscription_id`, reads that subscription's filter and advances its
+ * cursor; without one, reads the buffered events matching `subject` /
+ * `entity_id` after `cursor` (default: all buffered).
+ *
+ * @param args - `subscription_id`, `cursor`, `limit`, `wait_ms`, `subject`, `entity_id`
+ * @returns Events (oldest first), the cursor to poll from next, and stream status
+ * @throws Error on invalid arguments or an unknown subscription
+ */
+export async function pollEvents(args: {
+  subscription_id?: unknown;
+  cursor?: unknown;
+  limit?: unknown;
+  wait_ms?: unknown;
+  subject?: unknown;
+  entity_id?: unknown;
+}): Promise<PollEventsResult> {
+  const cursor = args.cursor === undefined || args.cursor === null ? undefined : Number(args.cursor);
+  if (cursor !== undefined && (!Number.isSafeInteger(cursor) || cursor < 0)) {
+    throw new Error(`Invalid cursor: ${args.cursor}. Must be a non-negative integer`);
+  }
+  const limit = Math.min(Math.max(Number(args.limit ?? DEFAULT_LIMIT) || DEFAULT_LIMIT, 1), MAX_LIMIT);
+  const waitMs = Math.min(Math.max(Number(args.wait_ms ?? 0) || 0, 0), MAX_WAIT_MS);
+  const pollOptions = { cursor, limit, waitMs, signal: getAbortSignal(), owner: getRequestOwner() };
+
+  const stream = getEventStream();
+  const subscriptionId = typeof args.subscription_id === 'string' && args.subscription_id ? args.subscription_id : undefined;
+  const result = subscriptionId
+    ? await stream.poll(subscriptionId, pollOptions)
+    : await stream.pollFilter(readFilter(args), pollOptions);
+
+  return {
+    subscription_id: subscriptionId,
+    ...result,
+    stream: stream.getStatus(),
+    timestamp: new Date().toISOString(),
+  };
+}
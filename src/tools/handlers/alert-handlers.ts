@@ -0,0 +1,12 @@
+/**
+ * Alert Handlers
+ *
+ * @module tools/handlers/alert-handlers
+ */
+
+import { createHandler } from './wrapper.js';
+import { listAlerts } from '../alerts.js';
+
+export const alertHandlers = new Map([
+  ['structs_alerts_list', createHandler(async (args) => listAlerts(args ?? {}))],
+]);
@@ -0,0 +1,12 @@
+/**
+ * Cache Handlers
+ *
+ * @module tools/handlers/cache-handlers
+ */
+
+import { createHandler } from './wrapper.js';
+import { getQueryCacheStats } from '../../utils/query-cache.js';
+
+export const cacheHandlers = new Map([
+  ['structs_cache_stats', createHandler(async () => getQueryCacheStats())],
+]);
@@ -64,6 +64,7 @@ export const calculationHandlers = new Map([
         max_iterations: args?.max_iterations as number | undefined,
         block_start: args?.block_start as number | undefined,
         player_id: args?.player_id as string,
+        wait: args?.wait === true,
       },
       aiDocsPath
     )
@@ -0,0 +1,17 @@
+/**
+ * Chain Handlers
+ *
+ * @module tools/handlers/chain-handlers
+ */
+
+import { createHandler } from './wrapper.js';
+import { getChainStatus } from '../chain-status.js';
+
+export const chainHandlers = new Map([
+  ['structs_chain_status', createHandler(
+    async (args) => getChainStatus(
+      args?.block === undefined || args?.block === null ? undefined : Number(args.block),
+      args?.time === undefined || args?.time === null ? undefined : String(args.time)
+    )
+  )],
+]);
@@ -5,7 +5,7 @@
  */
 
 import { createHandler } from './wrapper.js';
-import { getPlayerDashboard } from '../dashboard.js';
+import { getPlayerDashboard, getGuildDashboard } from '../dashboard.js';
 
 export const dashboardHandlers = new Map([
   ['structs_player_dashboard', createHandler(
@@ -14,7 +14,18 @@ export const dashboardHandlers = new Map([
       if (!playerId) {
         throw new Error('player_id is required');
       }
-      return getPlayerDashboard(playerId);
+      const atHeight = args?.at_height === undefined || args?.at_height === null ? undefined : Number(args.at_height);
+      const snapshotToken = typeof args?.snapshot_token === 'string' && args.snapshot_token ? args.snapshot_token : undefined;
+      return getPlayerDashboard(playerId, atHeight, snapshotToken);
+    }
+  )],
+  ['structs_guild_dashboard', createHandler(
+    async (args) => {
+      const guildId = (args?.guild_id ?? args?.id) as string;
+      if (!guildId) {
+        throw new Error('guild_id is required');
+      }
+      return getGuildDashboard(guildId);
     }
   )],
 ]);
@@ -0,0 +1,13 @@
+/**
+ * Event Handlers
+ *
+ * @module tools/handlers/event-handlers
+ */
+
+import { createHandler } from './wrapper.js';
+import { subscribeEvents, pollEvents } from '../events.js';
+
+export const eventHandlers = new Map([
+  ['structs_events_subscribe', createHandler(async (args) => subscribeEvents(args ?? {}))],
+  ['structs_events_poll', createHandler(async (args) => pollEvents(args ?? {}))],
+]);
@@ -15,6 +15,11 @@ import { errorLookupHandlers } from './error-lookup-handlers.js';
 import { commandHandlers } from './command-handlers.js';
 import { dashboardHandlers } from './dashboard-handlers.js';
 import { preflightHandlers } from './preflight-handlers.js';
+import { cacheHandlers } from './cache-handlers.js';
+import { chainHandlers } from './chain-handlers.js';
+import { eventHandlers } from './event-handlers.js';
+import { alertHandlers } from './alert-handlers.js';
+import { toToolResponse } from './wrapper.js';
 
 // Combine all handlers into a single map
 const allHandlers = new Map([
@@ -27,6 +32,10 @@ const allHandlers = new Map([
   ...commandHandlers,
   ...dashboardHandlers,
   ...preflightHandlers,
+  ...cacheHandlers,
+  ...chainHandlers,
+  ...eventHandlers,
+  ...alertHandlers,
 ]);
 
 /**
@@ -46,28 +55,14 @@ export function getToolHandler(name: string) {
 
       const jobStatus = await processManager.getJobStatusWithDifficulty(jobId);
       if (!jobStatus) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify({
-                job_id: jobId,
-                status: 'not_found',
-                message: 'Job not found. It may have been cleaned up or never existed.',
-              }, null, 2),
-            },
-          ],
-        };
+        return toToolResponse({
+          job_id: jobId,
+          status: 'not_found',
+          message: 'Job not found. It may have been cleaned up or never existed.',
+        });
       }
 
-      return {
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify(jobStatus, null, 2),
-          },
-        ],
-      };
+      return toToolResponse(jobStatus);
     };
   }
 
@@ -85,4 +80,8 @@ export {
   commandHandlers,
   dashboardHandlers,
   preflightHandlers,
+  cacheHandlers,
+  chainHandlers,
+  eventHandlers,
+  alertHandlers,
 };
@@ -27,92 +27,173 @@ import {
   queryProvider,
   queryAgreement,
   queryAllocation,
+  queryInfusion,
+  queryAddress,
+  queryPermission,
+  queryGuildRankPermissions,
+  queryStructAttribute,
+  queryPlanetAttribute,
+  queryGrid,
+  listInfusions,
+  listAddresses,
+  listPermissions,
+  listGuildRankPermissions,
+  listStructAttributes,
+  listPlanetAttributes,
+  listGridAttributes,
 } from '../query.js';
+import { queryBatch } from '../batch.js';
 import { createHandler } from './wrapper.js';
+import { getListFilters } from '../list-filters.js';
 import { config } from '../../config.js';
 
 const aiDocsPath = config.aiDocsPath;
 
+/**
+ * Read the optional at_height argument
+ */
+function atHeight(args: any): number | undefined {
+  return args?.at_height === undefined || args?.at_height === null ? undefined : Number(args.at_height);
+}
+
 export const queryHandlers = new Map([
   // List handlers (marked as list tools for primary references only)
   ['structs_list_players', createHandler(
-    (args) => listPlayers(args?.pagination_key, args?.pagination_limit),
+    (args) => listPlayers(args?.pagination_key, args?.pagination_limit, getListFilters('player', args), args?.fetch_all === true, atHeight(args)),
     { isListTool: true }
   )],
   ['structs_list_planets', createHandler(
-    (args) => listPlanets(args?.pagination_key, args?.pagination_limit),
+    (args) => listPlanets(args?.pagination_key, args?.pagination_limit, getListFilters('planet', args), args?.fetch_all === true, atHeight(args)),
     { isListTool: true }
   )],
   ['structs_list_structs', createHandler(
-    (args) => listStructs(args?.pagination_key, args?.pagination_limit),
+    (args) => listStructs(args?.pagination_key, args?.pagination_limit, getListFilters('struct', args), args?.fetch_all === true, atHeight(args)),
     { isListTool: true }
   )],
   ['structs_list_struct_types', createHandler(
-    (args) => listStructTypes(args?.pagination_key, args?.pagination_limit),
+    (args) => listStructTypes(args?.pagination_key, args?.pagination_limit, undefined, args?.fetch_all === true, atHeight(args)),
     { isListTool: true }
   )],
   ['structs_list_guilds', createHandler(
-    (args) => listGuilds(args?.pagination_key, args?.pagination_limit),
+    (args) => listGuilds(args?.pagination_key, args?.pagination_limit, getListFilters('guild', args), args?.fetch_all === true, atHeight(args)),
     { isListTool: true }
   )],
   ['structs_list_providers', createHandler(
-    (args) => listProviders(args?.pagination_key, args?.pagination_limit),
+    (args) => listProviders(args?.pagination_key, args?.pagination_limit, getListFilters('provider', args), args?.fetch_all === true, atHeight(args)),
     { isListTool: true }
   )],
   ['structs_list_agreements', createHandler(
-    (args) => listAgreements(args?.pagination_key, args?.pagination_limit),
+    (args) => listAgreements(args?.pagination_key, args?.pagination_limit, getListFilters('agreement', args), args?.fetch_all === true, atHeight(args)),
     { isListTool: true }
   )],
   ['structs_list_substations', createHandler(
-    (args) => listSubstations(args?.pagination_key, args?.pagination_limit),
+    (args) => listSubstations(args?.pagination_key, args?.pagination_limit, getListFilters('substation', args), args?.fetch_all === true, atHeight(args)),
     { isListTool: true }
   )],
   ['structs_list_allocations', createHandler(
-    (args) => listAllocations(args?.pagination_key, args?.pagination_limit),
+    (args) => listAllocations(args?.pagination_key, args?.pagination_limit, getListFilters('allocation', args), args?.fetch_all === true, atHeight(args)),
+    { isListTool: true }
+  )],
+  ['structs_list_infusions', createHandler(
+    (args) => listInfusions(args?.pagination_key, args?.pagination_limit, getListFilters('infusion', args), args?.fetch_all === true, atHeight(args)),
+    { isListTool: true }
+  )],
+  ['structs_list_addresses', createHandler(
+    (args) => listAddresses(args?.pagination_key, args?.pagination_limit, getListFilters('address', args), args?.fetch_all === true, atHeight(args)),
+    { isListTool: true }
+  )],
+  ['structs_list_permissions', createHandler(
+    (args) => listPermissions(args?.pagination_key, args?.pagination_limit, getListFilters('permission', args), args?.fetch_all === true, atHeight(args)),
+    { isListTool: true }
+  )],
+  ['structs_list_guild_rank_permissions', createHandler(
+    (args) => listGuildRankPermissions(args?.pagination_key, args?.pagination_limit, getListFilters('guild_rank_permission', args), args?.fetch_all === true, atHeight(args)),
+    { isListTool: true }
+  )],
+  ['structs_list_struct_attributes', createHandler(
+    (args) => listStructAttributes(args?.pagination_key, args?.pagination_limit, getListFilters('struct_attribute', args), args?.fetch_all === true, atHeight(args)),
+    { isListTool: true }
+  )],
+  ['structs_list_planet_attributes', createHandler(
+    (args) => listPlanetAttributes(args?.pagination_key, args?.pagination_limit, getListFilters('planet_attribute', args), args?.fetch_all === true, atHeight(args)),
+    { isListTool: true }
+  )],
+  ['structs_list_grid_attributes', createHandler(
+    (args) => listGridAttributes(args?.pagination_key, args?.pagination_limit, getListFilters('grid', args), args?.fetch_all === true, atHeight(args)),
     { isListTool: true }
   )],
 
   // Query handlers: accept entity-specific id (e.g. player_id) or generic "id" for compatibility
   ['structs_query_player', createHandler(
-    (args) => queryPlayer((args?.player_id ?? args?.id) as string),
+    (args) => queryPlayer((args?.player_id ?? args?.id) as string, atHeight(args)),
     { extractExcludeId: (args) => (args?.player_id ?? args?.id) as string }
   )],
   ['structs_query_planet', createHandler(
-    (args) => queryPlanet((args?.planet_id ?? args?.id) as string),
+    (args) => queryPlanet((args?.planet_id ?? args?.id) as string, atHeight(args)),
     { extractExcludeId: (args) => (args?.planet_id ?? args?.id) as string }
   )],
   ['structs_query_guild', createHandler(
-    (args) => queryGuild((args?.guild_id ?? args?.id) as string),
+    (args) => queryGuild((args?.guild_id ?? args?.id) as string, atHeight(args)),
     { extractExcludeId: (args) => (args?.guild_id ?? args?.id) as string }
   )],
   ['structs_query_fleet', createHandler(
-    (args) => queryFleet((args?.fleet_id ?? args?.id) as string),
+    (args) => queryFleet((args?.fleet_id ?? args?.id) as string, atHeight(args)),
     { extractExcludeId: (args) => (args?.fleet_id ?? args?.id) as string }
   )],
   ['structs_query_struct', createHandler(
-    (args) => queryStruct((args?.struct_id ?? args?.id) as string),
+    (args) => queryStruct((args?.struct_id ?? args?.id) as string, atHeight(args)),
     { extractExcludeId: (args) => (args?.struct_id ?? args?.id) as string }
   )],
   ['structs_query_reactor', createHandler(
-    (args) => queryReactor((args?.reactor_id ?? args?.id) as string),
+    (args) => queryReactor((args?.reactor_id ?? args?.id) as string, atHeight(args)),
     { extractExcludeId: (args) => (args?.reactor_id ?? args?.id) as string }
   )],
   ['structs_query_substation', createHandler(
-    (args) => querySubstation((args?.substation_id ?? args?.id) as string),
+    (args) => querySubstation((args?.substation_id ?? args?.id) as string, atHeight(args)),
     { extractExcludeId: (args) => (args?.substation_id ?? args?.id) as string }
   )],
   ['structs_query_provider', createHandler(
-    (args) => queryProvider((args?.provider_id ?? args?.id) as string),
+    (args) => queryProvider((args?.provider_id ?? args?.id) as string, atHeight(args)),
     { extractExcludeId: (args) => (args?.provider_id ?? args?.id) as string }
   )],
   ['structs_query_agreement', createHandler(
-    (args) => queryAgreement((args?.agreement_id ?? args?.id) as string),
+    (args) => queryAgreement((args?.agreement_id ?? args?.id) as string, atHeight(args)),
     { extractExcludeId: (args) => (args?.agreement_id ?? args?.id) as string }
   )],
   ['structs_query_allocation', createHandler(
-    (args) => queryAllocation((args?.allocation_id ?? args?.id) as string),
+    (args) => queryAllocation((args?.allocation_id ?? args?.id) as string, atHeight(args)),
     { extractExcludeId: (args) => (args?.allocation_id ?? args?.id) as string }
   )],
+  ['structs_query_infusion', createHandler(
+    (args) => queryInfusion((args?.infusion_id ?? args?.id) as string, atHeight(args)),
+    { extractExcludeId: (args) => (args?.infusion_id ?? args?.id) as string }
+  )],
+  ['structs_query_address', createHandler(
+    (args) => queryAddress(args?.address as string, atHeight(args)),
+    { extractExcludeId: (args) => args?.address as string }
+  )],
+  ['structs_query_permission', createHandler(
+    (args) => queryPermission(args?.object_id as string, args?.player_id as string, atHeight(args))
+  )],
+  ['structs_query_guild_rank_permission', createHandler(
+    (args) => queryGuildRankPermissions(args?.object_id as string, args?.guild_id as string | undefined, atHeight(args))
+  )],
+  ['structs_query_struct_attribute', createHandler(
+    (args) => queryStructAttribute(args?.struct_id as string, args?.attribute_type as string, atHeight(args)),
+    { extractExcludeId: (args) => args?.struct_id as string }
+  )],
+  ['structs_query_planet_attribute', createHandler(
+    (args) => queryPlanetAttribute(args?.planet_id as string, args?.attribute_type as string, atHeight(args)),
+    { extractExcludeId: (args) => args?.planet_id as string }
+  )],
+  ['structs_query_grid', createHandler(
+    (args) => queryGrid(args?.object_id as string, args?.attribute_type as string | undefined, atHeight(args)),
+    { extractExcludeId: (args) => args?.object_id as string }
+  )],
+  ['structs_query_batch', createHandler(
+    (args) => queryBatch(args?.ids as string[], args?.concurrency as number | undefined, atHeight(args)),
+    { extractExcludeId: (args) => (Array.isArray(args?.ids) ? args.ids : []) as string[] }
+  )],
   ['structs_query_endpoints', createHandler(
     (args) => queryEndpoints(args?.entity_type as string | undefined, args?.category as string | undefined, aiDocsPath)
   )],
@@ -17,6 +17,7 @@ export const workflowHandlers = new Map([
         workflow_type: args?.workflow_type as string,
         player_id: args?.player_id as string,
         parameters: args?.parameters as Record<string, unknown>,
+        wait: args?.wait === true,
       },
       aiDocsPath
     )
@@ -13,6 +13,44 @@ import {
 } from '../../utils/references.js';
 import type { ReferenceOptions } from '../../types/references.js';
 import { createStructuredError } from '../../utils/errors.js';
+import { isConsensusError, toApiError } from '../../utils/consensus-client.js';
+import { recordEntityIds } from '../../utils/recent-ids.js';
+import { shapeResult } from '../projection.js';
+
+/**
+ * Tool call result with the JSON text block and, for object results, the
+ * same value as `structuredContent`
+ */
+export type ToolResponse = {
+  content: Array<{
+    type: string;
+    text: string;
+  }>;
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+};
+
+/**
+ * Format a handler result as a tool response
+ *
+ * @param result - Handler result
+ * @returns Text content plus structuredContent when the result is a plain object
+ */
+export function toToolResponse(result: unknown): ToolResponse {
+  const response: ToolResponse = {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(result, null, 2),
+      },
+    ],
+  };
+  if (result !== null && typeof result === 'object' && !Array.isArray(result)) {
+    // Round-trip so structuredContent matches the text (drops undefined, NaN -> null)
+    response.structuredContent = JSON.parse(response.content[0].text);
+  }
+  return response;
+}
 
 /**
  * Create a standardized handler with error handling and optional references support
@@ -21,31 +59,24 @@ export function createHandler<T>(
   handlerFn: (args: any) => Promise<T>,
   options?: {
     isListTool?: boolean; // True for list tools (use primary references only by default)
-    extractExcludeId?: (args: any) => string | undefined; // Function to extract entity ID to exclude (self-reference)
+    extractExcludeId?: (args: any) => string | string[] | undefined; // Function to extract entity ID(s) to exclude (self-reference)
   }
-): (args: any) => Promise<{
-  content: Array<{
-    type: string;
-    text: string;
-  }>;
-  isError?: boolean;
-}> {
+): (args: any) => Promise<ToolResponse> {
   return async (args: any) => {
     try {
-      const result = await handlerFn(args);
-      
+      const fullResult = await handlerFn(args);
+
+      // Remember IDs for argument completion
+      recordEntityIds(fullResult);
+
+      // Apply fields/format first, so references follow the projected result
+      const result = shapeResult(fullResult, args);
+
       // Check if references should be included
       const includeReferences = args?.include_references;
       if (!includeReferences || includeReferences === false) {
         // No references requested, return as-is
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(result, null, 2),
-            },
-          ],
-        };
+        return toToolResponse(result);
       }
 
       // Extract reference options
@@ -73,14 +104,17 @@ export function createHandler<T>(
         reference_query_timeout: args?.reference_query_timeout,
       };
 
-      // Extract entity ID to exclude (self-reference)
+      // Extract entity ID(s) to exclude (self-reference)
       const excludeId = options?.extractExcludeId ? options.extractExcludeId(args) : undefined;
+      const excludeIds = Array.isArray(excludeId) ? excludeId : [];
 
-      // Extract entity IDs from result
+      // Extract entity IDs from result (IDs already in the result count as collected)
       const entityIdsByType = extractEntityIds(
         result,
-        excludeId,
-        referenceOptions
+        Array.isArray(excludeId) ? undefined : excludeId,
+        referenceOptions,
+        '',
+        new Set(excludeIds)
       );
 
       // Resolve references
@@ -92,17 +126,10 @@ export function createHandler<T>(
         references
       );
 
-      return {
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify(resultWithReferences, null, 2),
-          },
-        ],
-      };
+      return toToolResponse(resultWithReferences);
     } catch (error) {
       // Create structured error response matching tool-specifications.md
-      const structuredError = createStructuredError(error);
+      const structuredError = isConsensusError(error) ? toApiError(error) : createStructuredError(error);
       return {
         content: [
           {
@@ -0,0 +1,205 @@
+/**
+ * List Filters
+ *
+ * Filters for the `structs_list_*` tools. The consensus API lists every
+ * entity on chain, so apart from the few filters with a dedicated endpoint
+ * (`SERVER_SIDE_FILTERS`) filtering happens while the list is paged through:
+ * each item is matched against the fields that hold the filtered value,
+ * whichever naming (camelCase or snake_case) the API used. Permissions and
+ * attributes only carry composite IDs (`{objectId}@{playerId}`,
+ * `{type}-{objectId}`), so their object and player are read from those.
+ *
+ * @module tools/list-filters
+ */
+
+import { getAttributeObjectId } from './attributes.js';
+
+/**
+ * Filter names (also the tool argument names)
+ */
+export type ListFilterName =
+  | 'owner'
+  | 'planet_id'
+  | 'struct_type_id'
+  | 'ambit'
+  | 'status'
+  | 'guild_id'
+  | 'source_id'
+  | 'destination_id'
+  | 'object_id'
+  | 'player_id';
+
+/**
+ * Filter values by name
+ */
+export type ListFilters = Partial<Record<ListFilterName, string>>;
+
+/**
+ * How a filter matches an item
+ */
+interface FilterSpec {
+  /** Item fields that may hold the value, in order of preference */
+  fields: string[];
+  /** Compare case-insensitively (enum-like values) */
+  ignoreCase?: boolean;
+  /** Read the value from the item when none of the fields is set */
+  derive?: (item: Record<string, unknown>) => unknown;
+  description: string;
+}
+
+/**
+ * Read the object or player part of a permission or attribute ID
+ */
+function compositeIdPart(item: Record<string, unknown>, part: 'object' | 'player'): string | undefined {
+  const permissionId = item.permissionId ?? item.permission_id;
+  if (typeof permissionId === 'string' && permissionId.includes('@')) {
+    const [objectId, playerId] = permissionId.split('@');
+    return part === 'object' ? objectId : playerId;
+  }
+  const attributeId = item.attributeId ?? item.attribute_id;
+  if (part === 'object' && typeof attributeId === 'string') {
+    return getAttributeObjectId(attributeId);
+  }
+  return undefined;
+}
+
+/**
+ * Filter specs
+ */
+export const LIST_FILTER_SPECS: Record<ListFilterName, FilterSpec> = {
+  owner: {
+    fields: ['owner', 'controller', 'playerId', 'player_id'],
+    description: 'Only entities owned (or, for allocations, controlled) by this player ID (e.g., "1-11")',
+  },
+  planet_id: {
+    fields: ['planetId', 'planet_id', 'locationId', 'location_id'],
+    description: 'Only entities on this planet (e.g., "2-1")',
+  },
+  struct_type_id: {
+    fields: ['type', 'structType', 'struct_type', 'structTypeId', 'struct_type_id'],
+    description: 'Only structs of this struct type ID (e.g., "14")',
+  },
+  ambit: {
+    fields: ['operatingAmbit', 'operating_ambit', 'ambit'],
+    ignoreCase: true,
+    description: 'Only entities operating in this ambit (space, air, land, water)',
+  },
+  status: {
+    fields: ['status'],
+    ignoreCase: true,
+    description: 'Only entities with this status (e.g., "active")',
+  },
+  guild_id: {
+    fields: ['guildId', 'guild_id'],
+    description: 'Only entities in this guild (e.g., "0-1")',
+  },
+  source_id: {
+    fields: ['sourceObjectId', 'source_object_id', 'sourceId', 'source_id'],
+    description: 'Only allocations from this source (reactor, struct or substation ID, e.g., "3-1")',
+  },
+  destination_id: {
+    fields: ['destinationId', 'destination_id'],
+    description: 'Only infusions into this reactor or generator struct (e.g., "3-1")',
+  },
+  object_id: {
+    fields: ['objectId', 'object_id'],
+    derive: (item) => compositeIdPart(item, 'object'),
+    description: 'Only entries for this object (e.g., "5-1" for a struct, "1-11" for a player)',
+  },
+  player_id: {
+    fields: ['playerId', 'player_id'],
+    derive: (item) => compositeIdPart(item, 'player'),
+    description: 'Only permissions held by this player (e.g., "1-11")',
+  },
+};
+
+/**
+ * Filters each list tool accepts, by entity type
+ */
+export const LIST_FILTERS_BY_ENTITY: Record<string, ListFilterName[]> = {
+  player: ['guild_id', 'planet_id'],
+  planet: ['owner', 'status'],
+  struct: ['owner', 'planet_id', 'struct_type_id', 'ambit', 'status'],
+  struct_type: [],
+  guild: ['owner'],
+  provider: ['owner'],
+  agreement: ['owner'],
+  substation: ['owner'],
+  allocation: ['owner', 'source_id'],
+  infusion: ['owner', 'destination_id'],
+  address: ['owner'],
+  permission: ['object_id', 'player_id'],
+  guild_rank_permission: ['object_id', 'guild_id'],
+  struct_attribute: ['object_id'],
+  planet_attribute: ['object_id'],
+  grid: ['object_id'],
+};
+
+/**
+ * Filters the consensus API can apply itself: entity type -> filter -> path
+ */
+export const SERVER_SIDE_FILTERS: Record<string, Partial<Record<ListFilterName, (value: string) => string>>> = {
+  planet: {
+    owner: (playerId) => `/structs/planet_by_player/${encodeURIComponent(playerId)}`,
+  },
+  allocation: {
+    source_id: (sourceId) => `/structs/allocation_by_source/${encodeURIComponent(sourceId)}`,
+  },
+  infusion: {
+    destination_id: (destinationId) => `/structs/infusion_by_destination/${encodeURIComponent(destinationId)}`,
+  },
+  address: {
+    owner: (playerId) => `/structs/address_by_player/${encodeURIComponent(playerId)}`,
+  },
+  permission: {
+    object_id: (objectId) => `/structs/permission/object/${encodeURIComponent(objectId)}`,
+    player_id: (playerId) => `/structs/permission/player/${encodeURIComponent(playerId)}`,
+  },
+  guild_rank_permission: {
+    object_id: (objectId) => `/structs/guild_rank_permission/by_object/${encodeURIComponent(objectId)}`,
+  },
+};
+
+/**
+ * Read the filters a list tool accepts from its arguments
+ *
+ * @param entityType - Entity type of the list tool
+ * @param args - Tool arguments
+ * @returns Filters that were set, or undefined if none
+ */
+export function getListFilters(entityType: string, args: Record<string, unknown> | undefined): ListFilters | undefined {
+  const filters: ListFilters = {};
+  for (const name of LIST_FILTERS_BY_ENTITY[entityType] ?? []) {
+    const value = args?.[name];
+    if (value !== undefined && value !== null && value !== '') {
+      filters[name] = String(value).trim();
+    }
+  }
+  return Object.keys(filters).length > 0 ? filters : undefined;
+}
+
+/**
+ * Check whether an item matches every filter
+ *
+ * An item without any of a filter's fields does not match it.
+ *
+ * @param item - List item from the consensus API
+ * @param filters - Filters to apply
+ * @returns True if the item matches
+ */
+export function matchesListFilters(item: unknown, filters: ListFilters): boolean {
+  if (!item || typeof item !== 'object') {
+    return false;
+  }
+  const record = item as Record<string, unknown>;
+  return Object.entries(filters).every(([name, expected]) => {
+    const spec = LIST_FILTER_SPECS[name as ListFilterName];
+    const field = spec.fields.find((candidate) => record[candidate] !== undefined && record[candidate] !== null);
+    const value = field ? record[field] : spec.derive?.(record);
+    if (value === undefined || value === null || expected === undefined) {
+      return false;
+    }
+    const actual = String(value);
+    return spec.ignoreCase ? actual.toLowerCase() === expected.toLowerCase() : actual === expected;
+  });
+}
@@ -0,0 +1,605 @@
+/**
+ * Entity Models
+ *
+ * Normalizers from the consensus API's raw entity shapes to the canonical
+ * models in `types/entities`. Each accepts a query envelope
+ * (`{ Player, gridAttributes, halted }`) or a bare list item, reads every
+ * field under its camelCase or snake_case name, and converts numeric strings
+ * to numbers and amounts to unit-annotated quantities. Fields the API didn't
+ * send are left out rather than guessed.
+ *
+ * @module tools/models
+ */
+
+import { getEntityTypeFromId, ENTITY_TYPE_CODE_MAP, type EntityType } from '../types/references.js';
+import type {
+  Agreement,
+  Allocation,
+  Ambit,
+  AmbitSlots,
+  Coin,
+  EntityModels,
+  Fleet,
+  GridState,
+  Guild,
+  ModelType,
+  Planet,
+  Player,
+  Provider,
+  Quantity,
+  Reactor,
+  Struct,
+  StructStatus,
+  StructType,
+  Substation,
+  Unit,
+} from '../types/entities.js';
+
+type Raw = Record<string, unknown>;
+
+const AMBITS: Ambit[] = ['space', 'air', 'land', 'water'];
+
+/**
+ * Ambit bits of a struct type's `possibleAmbit` mask
+ */
+const AMBIT_FLAGS: Record<Ambit, number> = {
+  water: 2,
+  land: 4,
+  air: 8,
+  space: 16,
+};
+
+/**
+ * Bits of a struct's `status` attribute
+ */
+const STRUCT_STATUS_FLAGS = {
+  materialized: 1,
+  built: 2,
+  online: 4,
+  destroyed: 32,
+};
+
+function isRecord(value: unknown): value is Raw {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function snakeCase(name: string): string {
+  return name.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase();
+}
+
+/**
+ * Read the first set field, trying each name in camelCase and snake_case
+ */
+function read(source: Raw | undefined, ...names: string[]): unknown {
+  if (!source) {
+    return undefined;
+  }
+  for (const name of names) {
+    for (const key of [name, snakeCase(name)]) {
+      const value = source[key];
+      if (value !== undefined && value !== null && value !== '') {
+        return value;
+      }
+    }
+  }
+  return undefined;
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : undefined;
+  }
+  if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) {
+    return Number(value);
+  }
+  return undefined;
+}
+
+function toBoolean(value: unknown): boolean | undefined {
+  if (typeof value === 'boolean') {
+    return value;
+  }
+  if (value === 'true' || value === 'false') {
+    return value === 'true';
+  }
+  return undefined;
+}
+
+function toId(value: unknown): string | undefined {
+  if (typeof value === 'string') {
+    return value;
+  }
+  return typeof value === 'number' ? String(value) : undefined;
+}
+
+function toIds(value: unknown): string[] {
+  return Array.isArray(value) ? value.map(toId).filter((id): id is string => id !== undefined && id !== '') : [];
+}
+
+function toQuantity(value: unknown, unit: Unit): Quantity | undefined {
+  const amount = toNumber(value);
+  return amount === undefined ? undefined : { value: amount, unit };
+}
+
+function toCoin(value: unknown): Coin | undefined {
+  const amount = isRecord(value) ? toNumber(value.amount) : undefined;
+  return amount !== undefined && typeof (value as Raw).denom === 'string' ? { denom: (value as Raw).denom as string, amount } : undefined;
+}
+
+function toAmbit(value: unknown): Ambit | undefined {
+  const ambit = typeof value === 'string' ? value.toLowerCase() : undefined;
+  return AMBITS.includes(ambit as Ambit) ? ambit as Ambit : undefined;
+}
+
+/**
+ * snake_case an enum-like string ("onStation" -> "on_station", "ACTIVE" -> "active")
+ */
+function toEnum(value: unknown): string | undefined {
+  return typeof value === 'string' ? snakeCase(value).toLowerCase() : undefined;
+}
+
+/**
+ * Drop unset fields, so models only carry what the API sent
+ */
+function defined<T extends object>(model: T): T {
+  return Object.fromEntries(Object.entries(model).filter(([, value]) => value !== undefined)) as T;
+}
+
+/**
+ * Split a query envelope into the entity and the envelope
+ *
+ * @returns The entity (or the item itself) and the object holding attribute maps
+ */
+function unwrap(raw: Raw, envelopeKey: string): { entity: Raw; envelope: Raw } {
+  const entity = raw[envelopeKey] ?? raw[snakeCase(envelopeKey)];
+  return isRecord(entity) ? { entity, envelope: raw } : { entity: raw, envelope: raw };
+}
+
+/**
+ * Entity ID from `id`, or from `index` and the type code
+ */
+function entityId(entity: Raw, entityType?: EntityType): string {
+  const id = toId(read(entity, 'id'));
+  if (id) {
+    return id;
+  }
+  const index = toNumber(read(entity, 'index'));
+  return index !== undefined && entityType ? `${ENTITY_TYPE_CODE_MAP[entityType]}-${index}` : '';
+}
+
+function ambitSlots(entity: Raw): AmbitSlots {
+  return {
+    space: toIds(read(entity, 'space')),
+    air: toIds(read(entity, 'air')),
+    land: toIds(read(entity, 'land')),
+    water: toIds(read(entity, 'water')),
+  };
+}
+
+/**
+ * Planet or fleet of a location
+ */
+function locatedIn(entity: Raw, locationType: string | undefined, locationId: string | undefined, target: 'planet' | 'fleet'): string | undefined {
+  const direct = toId(read(entity, `${target}Id`));
+  if (direct) {
+    return direct;
+  }
+  if (locationId && (locationType === target || getEntityTypeFromId(locationId) === target)) {
+    return locationId;
+  }
+  return undefined;
+}
+
+/**
+ * Normalize a grid attribute map
+ *
+ * @param envelope - Object holding `gridAttributes`
+ * @returns Grid values, or undefined if there is no grid attribute map
+ */
+export function normalizeGrid(envelope: Raw | undefined): GridState | undefined {
+  const grid = read(envelope, 'gridAttributes');
+  if (!isRecord(grid)) {
+    return undefined;
+  }
+  return defined({
+    ore: toQuantity(read(grid, 'ore'), 'ore'),
+    fuel: toQuantity(read(grid, 'fuel'), 'ualpha'),
+    capacity: toQuantity(read(grid, 'capacity'), 'watt'),
+    load: toQuantity(read(grid, 'load'), 'watt'),
+    structs_load: toQuantity(read(grid, 'structsLoad'), 'watt'),
+    power: toQuantity(read(grid, 'power'), 'watt'),
+    connection_capacity: toQuantity(read(grid, 'connectionCapacity'), 'watt'),
+    connection_count: toNumber(read(grid, 'connectionCount')),
+    last_action_block: toNumber(read(grid, 'lastAction')),
+    checkpoint_block: toNumber(read(grid, 'checkpointBlock')),
+  });
+}
+
+/**
+ * Decode a struct status (flag bits or a status name)
+ */
+function structStatus(value: unknown): StructStatus | undefined {
+  const flags = toNumber(value);
+  if (flags === undefined) {
+    return toEnum(value);
+  }
+  if (flags & STRUCT_STATUS_FLAGS.destroyed) return 'destroyed';
+  if (flags & STRUCT_STATUS_FLAGS.online) return 'online';
+  if (flags & STRUCT_STATUS_FLAGS.built) return 'built';
+  if (flags & STRUCT_STATUS_FLAGS.materialized) return 'building';
+  return undefined;
+}
+
+/**
+ * Normalize a player
+ *
+ * @param raw - Query envelope (`{ Player, gridAttributes, halted }`) or list item
+ * @returns Player, or null if raw isn't an object
+ */
+export function normalizePlayer(raw: unknown): Player | null {
+  if (!isRecord(raw)) {
+    return null;
+  }
+  const { entity, envelope } = unwrap(raw, 'Player');
+  return defined({
+    id: entityId(entity, 'player'),
+    index: toNumber(read(entity, 'index')),
+    guild_id: toId(read(entity, 'guildId')),
+    guild_rank: toNumber(read(entity, 'guildRank') ?? read(envelope, 'guildRank')),
+    substation_id: toId(read(entity, 'substationId')),
+    planet_id: toId(read(entity, 'planetId')),
+    fleet_id: toId(read(entity, 'fleetId')),
+    primary_address: toId(read(entity, 'primaryAddress', 'address')),
+    creator: toId(read(entity, 'creator')),
+    halted: toBoolean(read(envelope, 'halted') ?? read(entity, 'halted')) ?? false,
+    storage: (Array.isArray(read(entity, 'storage')) ? read(entity, 'storage') as unknown[] : [])
+      .map(toCoin)
+      .filter((coin): coin is Coin => coin !== undefined),
+    grid: normalizeGrid(envelope),
+  });
+}
+
+/**
+ * Normalize a struct
+ *
+ * @param raw - Query envelope (`{ Struct, structAttributes, gridAttributes }`) or list item
+ * @returns Struct, or null if raw isn't an object
+ */
+export function normalizeStruct(raw: unknown): Struct | null {
+  if (!isRecord(raw)) {
+    return null;
+  }
+  const { entity, envelope } = unwrap(raw, 'Struct');
+  const attributes = isRecord(read(envelope, 'structAttributes')) ? read(envelope, 'structAttributes') as Raw : undefined;
+  const locationType = toEnum(read(entity, 'locationType'));
+  const locationId = toId(read(entity, 'locationId'));
+  return defined({
+    id: entityId(entity, 'struct'),
+    index: toNumber(read(entity, 'index')),
+    type_id: toNumber(read(entity, 'type', 'structType', 'structTypeId')),
+    owner: toId(read(entity, 'owner')),
+    creator: toId(read(entity, 'creator')),
+    location_type: locationType,
+    location_id: locationId,
+    planet_id: locatedIn(entity, locationType, locationId, 'planet'),
+    fleet_id: locatedIn(entity, locationType, locationId, 'fleet'),
+    ambit: toAmbit(read(entity, 'operatingAmbit', 'ambit')),
+    slot: toNumber(read(entity, 'slot')),
+    status: structStatus(read(entity, 'status') ?? read(attributes, 'status')),
+    health: toNumber(read(entity, 'health') ?? read(attributes, 'health')),
+    build_start_block: toNumber(read(attributes, 'blockStartBuild')),
+    ore_mine_start_block: toNumber(read(attributes, 'blockStartOreMine')),
+    ore_refine_start_block: toNumber(read(attributes, 'blockStartOreRefine')),
+    grid: normalizeGrid(envelope),
+  });
+}
+
+/**
+ * Normalize a struct type
+ *
+ * @param raw - Query envelope (`{ StructType }`) or list item
+ * @returns Struct type, or null if raw isn't an object
+ */
+export function normalizeStructType(raw: unknown): StructType | null {
+  if (!isRecord(raw)) {
+    return null;
+  }
+  const { entity } = unwrap(raw, 'StructType');
+  const typeId = toNumber(read(entity, 'id', 'index')) ?? 0;
+  const possibleAmbit = read(entity, 'possibleAmbit', 'possibleAmbits');
+  const flags = toNumber(possibleAmbit);
+  return defined({
+    id: String(typeId),
+    type_id: typeId,
+    name: toId(read(entity, 'name', 'type')),
+    category: toEnum(read(entity, 'category')),
+    build_limit: toNumber(read(entity, 'buildLimit')),
+    build_difficulty: toNumber(read(entity, 'buildDifficulty')),
+    build_draw: toQuantity(read(entity, 'buildDraw'), 'watt'),
+    passive_draw: toQuantity(read(entity, 'passiveDraw'), 'watt'),
+    max_health: toNumber(read(entity, 'maxHealth')),
+    possible_ambits: flags !== undefined
+      ? AMBITS.filter((ambit) => flags & AMBIT_FLAGS[ambit])
+      : (Array.isArray(possibleAmbit) ? possibleAmbit : [possibleAmbit]).map(toAmbit).filter((ambit): ambit is Ambit => ambit !== undefined),
+    movable: toBoolean(read(entity, 'movable')),
+  });
+}
+
+/**
+ * Normalize a planet
+ *
+ * @param raw - Query envelope (`{ Planet, planetAttributes, gridAttributes }`) or list item
+ * @returns Planet, or null if raw isn't an object
+ */
+export function normalizePlanet(raw: unknown): Planet | null {
+  if (!isRecord(raw)) {
+    return null;
+  }
+  const { entity, envelope } = unwrap(raw, 'Planet');
+  const planetAttributes = read(envelope, 'planetAttributes');
+  const attributes: Record<string, number> = {};
+  if (isRecord(planetAttributes)) {
+    for (const [name, value] of Object.entries(planetAttributes)) {
+      const number = toNumber(value);
+      if (number !== undefined) {
+        attributes[snakeCase(name)] = number;
+      }
+    }
+  }
+  return defined({
+    id: entityId(entity, 'planet'),
+    owner: toId(read(entity, 'owner')),
+    creator: toId(read(entity, 'creator')),
+    status: toEnum(read(entity, 'status')),
+    max_ore: toQuantity(read(entity, 'maxOre'), 'ore'),
+    slots: ambitSlots(entity),
+    attributes,
+    grid: normalizeGrid(envelope),
+  });
+}
+
+/**
+ * Normalize a fleet
+ *
+ * @param raw - Query envelope (`{ Fleet }`) or list item
+ * @returns Fleet, or null if raw isn't an object
+ */
+export function normalizeFleet(raw: unknown): Fleet | null {
+  if (!isRecord(raw)) {
+    return null;
+  }
+  const { entity } = unwrap(raw, 'Fleet');
+  const locationType = toEnum(read(entity, 'locationType'));
+  const locationId = toId(read(entity, 'locationId'));
+  return defined({
+    id: entityId(entity, 'fleet'),
+    owner: toId(read(entity, 'owner')),
+    status: toEnum(read(entity, 'status')),
+    location_type: locationType,
+    location_id: locationId,
+    planet_id: locatedIn(entity, locationType, locationId, 'planet'),
+    command_struct_id: toId(read(entity, 'commandStruct', 'commandStructId')),
+    slots: ambitSlots(entity),
+  });
+}
+
+/**
+ * Normalize a guild
+ *
+ * @param raw - Query envelope (`{ Guild, gridAttributes }`) or list item
+ * @returns Guild, or null if raw isn't an object
+ */
+export function normalizeGuild(raw: unknown): Guild | null {
+  if (!isRecord(raw)) {
+    return null;
+  }
+  const { entity, envelope } = unwrap(raw, 'Guild');
+  return defined({
+    id: entityId(entity, 'guild'),
+    index: toNumber(read(entity, 'index')),
+    owner: toId(read(entity, 'owner')),
+    creator: toId(read(entity, 'creator')),
+    endpoint: toId(read(entity, 'endpoint')),
+    entry_rank: toNumber(read(entity, 'entryRank')),
+    join_infusion_minimum: toQuantity(read(entity, 'joinInfusionMinimum'), 'ualpha'),
+    primary_reactor_id: toId(read(entity, 'primaryReactorId')),
+    entry_substation_id: toId(read(entity, 'entrySubstationId')),
+    bank_collateral_pool: toId(read(entity, 'bankCollateralPool')),
+    grid: normalizeGrid(envelope),
+  });
+}
+
+/**
+ * Normalize a reactor
+ *
+ * @param raw - Query envelope (`{ Reactor, gridAttributes }`) or list item
+ * @returns Reactor, or null if raw isn't an object
+ */
+export function normalizeReactor(raw: unknown): Reactor | null {
+  if (!isRecord(raw)) {
+    return null;
+  }
+  const { entity, envelope } = unwrap(raw, 'Reactor');
+  return defined({
+    id: entityId(entity, 'reactor'),
+    owner: toId(read(entity, 'owner')),
+    guild_id: toId(read(entity, 'guildId')),
+    validator: toId(read(entity, 'validator')),
+    default_commission: toNumber(read(entity, 'defaultCommission')),
+    grid: normalizeGrid(envelope),
+  });
+}
+
+/**
+ * Normalize a substation
+ *
+ * @param raw - Query envelope (`{ Substation, gridAttributes }`) or list item
+ * @returns Substation, or null if raw isn't an object
+ */
+export function normalizeSubstation(raw: unknown): Substation | null {
+  if (!isRecord(raw)) {
+    return null;
+  }
+  const { entity, envelope } = unwrap(raw, 'Substation');
+  return defined({
+    id: entityId(entity, 'substation'),
+    owner: toId(read(entity, 'owner')),
+    creator: toId(read(entity, 'creator')),
+    grid: normalizeGrid(envelope),
+  });
+}
+
+/**
+ * Normalize a provider
+ *
+ * @param raw - Query envelope (`{ Provider }`) or list item
+ * @returns Provider, or null if raw isn't an object
+ */
+export function normalizeProvider(raw: unknown): Provider | null {
+  if (!isRecord(raw)) {
+    return null;
+  }
+  const { entity } = unwrap(raw, 'Provider');
+  return defined({
+    id: entityId(entity, 'provider'),
+    owner: toId(read(entity, 'owner')),
+    substation_id: toId(read(entity, 'substationId')),
+    rate: toCoin(read(entity, 'rate')),
+    access_policy: toEnum(read(entity, 'accessPolicy')),
+    capacity_minimum: toQuantity(read(entity, 'capacityMinimum'), 'watt'),
+    capacity_maximum: toQuantity(read(entity, 'capacityMaximum'), 'watt'),
+    duration_minimum: toQuantity(read(entity, 'durationMinimum'), 'block'),
+    duration_maximum: toQuantity(read(entity, 'durationMaximum'), 'block'),
+    provider_cancellation_penalty: toNumber(read(entity, 'providerCancellationPenalty')),
+    consumer_cancellation_penalty: toNumber(read(entity, 'consumerCancellationPenalty')),
+  });
+}
+
+/**
+ * Normalize an agreement
+ *
+ * @param raw - Query envelope (`{ Agreement }`) or list item
+ * @returns Agreement, or null if raw isn't an object
+ */
+export function normalizeAgreement(raw: unknown): Agreement | null {
+  if (!isRecord(raw)) {
+    return null;
+  }
+  const { entity } = unwrap(raw, 'Agreement');
+  return defined({
+    id: entityId(entity, 'agreement'),
+    owner: toId(read(entity, 'owner')),
+    provider_id: toId(read(entity, 'providerId')),
+    allocation_id: toId(read(entity, 'allocationId')),
+    capacity: toQuantity(read(entity, 'capacity'), 'watt'),
+    start_block: toNumber(read(entity, 'startBlock')),
+    end_block: toNumber(read(entity, 'endBlock')),
+  });
+}
+
+/**
+ * Normalize an allocation
+ *
+ * @param raw - Query envelope (`{ Allocation, gridAttributes }`) or list item
+ * @returns Allocation, or null if raw isn't an object
+ */
+export function normalizeAllocation(raw: unknown): Allocation | null {
+  if (!isRecord(raw)) {
+    return null;
+  }
+  const { entity, envelope } = unwrap(raw, 'Allocation');
+  return defined({
+    id: entityId(entity, 'allocation'),
+    type: toEnum(read(entity, 'type')),
+    source_id: toId(read(entity, 'sourceObjectId', 'sourceId')),
+    destination_id: toId(read(entity, 'destinationId')),
+    controller: toId(read(entity, 'controller')),
+    creator: toId(read(entity, 'creator')),
+    grid: normalizeGrid(envelope),
+  });
+}
+
+/**
+ * Normalizer per model type
+ */
+const NORMALIZERS: { [T in ModelType]: (raw: unknown) => EntityModels[T] | null } = {
+  player: normalizePlayer,
+  struct: normalizeStruct,
+  struct_type: normalizeStructType,
+  planet: normalizePlanet,
+  fleet: normalizeFleet,
+  guild: normalizeGuild,
+  reactor: normalizeReactor,
+  substation: normalizeSubstation,
+  provider: normalizeProvider,
+  agreement: normalizeAgreement,
+  allocation: normalizeAllocation,
+};
+
+/**
+ * Normalize an entity of any model type
+ *
+ * @param modelType - Model type (e.g. "player", "struct_type")
+ * @param raw - Raw entity from the consensus API
+ * @returns Canonical model, or null if raw isn't an object
+ */
+export function normalizeEntity<T extends ModelType>(modelType: T, raw: unknown): EntityModels[T] | null {
+  return NORMALIZERS[modelType](raw) as EntityModels[T] | null;
+}
+
+/**
+ * Check whether an entity type has a model
+ *
+ * @param type - Entity type
+ * @returns True if `normalizeEntity` accepts it
+ */
+export function hasModel(type: string): type is ModelType {
+  return type in NORMALIZERS;
+}
+
+/**
+ * Model type of each query and list result key
+ */
+const PAYLOAD_MODELS: Record<string, ModelType> = {
+  player: 'player',
+  players: 'player',
+  struct: 'struct',
+  structs: 'struct',
+  struct_types: 'struct_type',
+  planet: 'planet',
+  planets: 'planet',
+  fleet: 'fleet',
+  guild: 'guild',
+  guilds: 'guild',
+  reactor: 'reactor',
+  substation: 'substation',
+  substations: 'substation',
+  provider: 'provider',
+  providers: 'provider',
+  agreement: 'agreement',
+  agreements: 'agreement',
+  allocation: 'allocation',
+  allocations: 'allocation',
+};
+
+/**
+ * Normalize one payload of a query or list result
+ *
+ * @param key - Result key (e.g. "player", "structs", or "entities" for batches)
+ * @param value - Payload (entity, list of entities, or entities by ID)
+ * @returns Normalized payload, or the value unchanged if the key has no model
+ */
+export function normalizePayload(key: string, value: unknown): unknown {
+  // Batch results: entities by ID, typed by their ID prefix
+  if (key === 'entities' && isRecord(value)) {
+    return Object.fromEntries(Object.entries(value).map(([id, entity]) => {
+      const type = getEntityTypeFromId(id);
+      return [id, type && hasModel(type) ? normalizeEntity(type, entity) : entity];
+    }));
+  }
+  const modelType = PAYLOAD_MODELS[key];
+  if (!modelType) {
+    return value;
+  }
+  return Array.isArray(value) ? value.map((item) => normalizeEntity(modelType, item)) : normalizeEntity(modelType, value);
+}
@@ -9,6 +9,8 @@
 
 import { queryPlayer, queryStruct, queryFleet } from './query.js';
 import { validateEntityId } from './validation.js';
+import { normalizePlayer, normalizeStruct, normalizeFleet } from './models.js';
+import type { Fleet, Player, Struct } from '../types/entities.js';
 
 interface Blocker {
   type: 'permission' | 'resource' | 'state' | 'target' | 'prerequisite';
@@ -24,17 +26,16 @@ export interface PreflightResult {
   checks_performed: string[];
 }
 
-async function checkPlayerOnline(playerId: string): Promise<{ online: boolean; blocker?: Blocker; playerData?: Record<string, unknown> }> {
+async function checkPlayerOnline(playerId: string): Promise<{ online: boolean; blocker?: Blocker; playerData?: Player }> {
   const result = await queryPlayer(playerId);
-  if (result.error || !result.player) {
+  const p = normalizePlayer(result.player);
+  if (result.error || !p) {
     return {
       online: false,
       blocker: { type: 'state', detail: `Player ${playerId} not found or query failed: ${result.error}`, fix_hint: 'Verify the player ID is correct.' },
     };
   }
-  const p = result.player as Record<string, unknown>;
-  const halted = p.halted === true || p.halted === 'true';
-  if (halted) {
+  if (p.halted) {
     return {
       online: false,
       blocker: { type: 'state', detail: `Player ${playerId} is halted (offline).`, fix_hint: 'Check power: if load > capacity, deactivate structs or increase power allocation.' },
@@ -44,26 +45,28 @@ async function checkPlayerOnline(playerId: string): Promise<{ online: boolean; b
   return { online: true, playerData: p };
 }
 
-async function checkStructExists(structId: string): Promise<{ exists: boolean; structData?: Record<string, unknown>; blocker?: Blocker }> {
+async function checkStructExists(structId: string): Promise<{ exists: boolean; structData?: Struct; blocker?: Blocker }> {
   const result = await queryStruct(structId);
-  if (result.error || !result.struct) {
+  const structData = normalizeStruct(result.struct);
+  if (result.error || !structData) {
     return {
       exists: false,
       blocker: { type: 'target', detail: `Struct ${structId} not found: ${result.error || 'unknown'}`, fix_hint: 'Verify the struct ID is correct.' },
     };
   }
-  return { exists: true, structData: result.struct as Record<string, unknown> };
+  return { exists: true, structData };
 }
 
-async function checkFleetExists(fleetId: string): Promise<{ exists: boolean; fleetData?: Record<string, unknown>; blocker?: Blocker }> {
+async function checkFleetExists(fleetId: string): Promise<{ exists: boolean; fleetData?: Fleet; blocker?: Blocker }> {
   const result = await queryFleet(fleetId);
-  if (result.error || !result.fleet) {
+  const fleetData = normalizeFleet(result.fleet);
+  if (result.error || !fleetData) {
     return {
       exists: false,
       blocker: { type: 'target', detail: `Fleet ${fleetId} not found: ${result.error || 'unknown'}` },
     };
   }
-  return { exists: true, fleetData: result.fleet as Record<string, unknown> };
+  return { exists: true, fleetData };
 }
 
 export async function preflightCheck(
@@ -0,0 +1,252 @@
+/**
+ * Result Projection
+ *
+ * `fields` and `format` arguments of the `structs_query_*` and
+ * `structs_list_*` tools, applied to handler results before references are
+ * extracted (so only the kept fields produce references).
+ *
+ * Field paths are JSONPath-lite: dotted keys with `*` wildcards and
+ * `[n]` / `[*]` / `['key']` brackets, optionally prefixed with `$.`.
+ * Arrays are transparent, so `id` selects the `id` of every item of a list.
+ * Paths are relative to the entity payload (e.g. `Player.id` on
+ * `structs_query_player`, `id` on `structs_list_structs`); a path whose
+ * first key is a result key, or that starts with `$.`, is relative to the
+ * result root instead. The envelope (`error`, `timestamp`, `pagination`, ...)
+ * is always kept.
+ *
+ * `format: 'compact'` drops null values and merges attribute maps
+ * (`gridAttributes`, ...) into their parent as dotted keys.
+ * `format: 'normalized'` converts entities to their canonical models
+ * (`tools/models`) before fields are selected.
+ *
+ * @module tools/projection
+ */
+
+import { normalizePayload } from './models.js';
+
+/**
+ * Output formats
+ */
+export type ResultFormat = 'full' | 'compact' | 'normalized';
+
+export const RESULT_FORMATS: ResultFormat[] = ['full', 'compact', 'normalized'];
+
+/**
+ * Result keys that are never projected or compacted
+ */
+const ENVELOPE_KEYS = new Set(['error', 'errors', 'timestamp', 'height', 'pagination', 'truncated', 'filter', 'details']);
+
+/**
+ * Node of a field path tree
+ */
+interface PathNode {
+  /** Keep the whole value here */
+  leaf: boolean;
+  children: Map<string, PathNode>;
+}
+
+function createNode(leaf = false): PathNode {
+  return { leaf, children: new Map() };
+}
+
+function isIndexKey(key: string): boolean {
+  return key === '*' || /^\d+$/.test(key);
+}
+
+/**
+ * Split a field path into keys
+ *
+ * @param path - Field path (e.g. `structs[*].id`, `$.player.Player['id']`)
+ * @returns Keys, `*` for wildcards
+ * @throws Error if the path is empty or malformed
+ */
+export function parseFieldPath(path: string): string[] {
+  const trimmed = path.trim().replace(/^\$(?=\.|\[|$)/, '');
+  const keys: string[] = [];
+  const pattern = /\.?([^.[\]]+)|\[(\*|\d*)\]|\['([^']*)'\]|\["([^"]*)"\]/y;
+  let match: RegExpExecArray | null;
+  while (pattern.lastIndex < trimmed.length && (match = pattern.exec(trimmed)) !== null) {
+    const key = match[1] ?? match[3] ?? match[4] ?? (match[2] === '' ? '*' : match[2]);
+    keys.push(key.trim());
+  }
+  if (pattern.lastIndex < trimmed.length || keys.length === 0 || keys.some((key) => key === '')) {
+    throw new Error(`Invalid field path: "${path}"`);
+  }
+  return keys;
+}
+
+function insertPath(root: PathNode, keys: string[]): void {
+  let node = root;
+  for (const key of keys) {
+    if (node.leaf) {
+      return;
+    }
+    let child = node.children.get(key);
+    if (!child) {
+      child = createNode();
+      node.children.set(key, child);
+    }
+    node = child;
+  }
+  node.leaf = true;
+  node.children.clear();
+}
+
+function projectValue(value: unknown, node: PathNode): unknown {
+  if (node.leaf) {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    const indexed = [...node.children.keys()].some(isIndexKey);
+    return value.flatMap((item, index) => {
+      const child = indexed ? node.children.get(String(index)) ?? node.children.get('*') : node;
+      if (!child) {
+        return [];
+      }
+      // Items without any selected field stay as {} so list positions line up
+      const kept = projectValue(item, child);
+      return kept !== undefined ? [kept] : item !== null && typeof item === 'object' ? [{}] : [];
+    });
+  }
+  if (value === null || typeof value !== 'object') {
+    return undefined;
+  }
+  const projected: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    const child = node.children.get(key) ?? node.children.get('*');
+    if (child) {
+      const kept = projectValue(item, child);
+      if (kept !== undefined) {
+        projected[key] = kept;
+      }
+    }
+  }
+  return Object.keys(projected).length > 0 ? projected : undefined;
+}
+
+/**
+ * Keep only the given fields of a result
+ *
+ * @param result - Handler result
+ * @param fields - Field paths
+ * @returns Result with the envelope and the selected fields
+ */
+export function projectFields(result: Record<string, unknown>, fields: string[]): Record<string, unknown> {
+  const root = createNode();
+  for (const key of ENVELOPE_KEYS) {
+    root.children.set(key, createNode(true));
+  }
+  const payloadKeys = Object.keys(result).filter((key) => !ENVELOPE_KEYS.has(key));
+
+  for (const field of fields) {
+    const keys = parseFieldPath(field);
+    if (field.trim().startsWith('$') || payloadKeys.includes(keys[0])) {
+      insertPath(root, keys);
+    } else {
+      for (const payloadKey of payloadKeys) {
+        insertPath(root, [payloadKey, ...keys]);
+      }
+    }
+  }
+
+  const projected = projectValue(result, root) as Record<string, unknown> | undefined;
+  const shaped = projected ?? {};
+  // Keep payload keys that matched nothing, so an empty match reads as empty
+  for (const key of payloadKeys) {
+    if (!(key in shaped)) {
+      shaped[key] = Array.isArray(result[key]) ? [] : null;
+    }
+  }
+  return shaped;
+}
+
+function flattenInto(target: Record<string, unknown>, prefix: string, value: Record<string, unknown>): void {
+  for (const [key, item] of Object.entries(value)) {
+    if (item === null || item === undefined) {
+      continue;
+    }
+    if (typeof item === 'object' && !Array.isArray(item)) {
+      flattenInto(target, `${prefix}.${key}`, item as Record<string, unknown>);
+    } else {
+      target[`${prefix}.${key}`] = compactValue(item);
+    }
+  }
+}
+
+/**
+ * Drop nulls and merge attribute maps into their parent
+ *
+ * @param value - Value to compact
+ * @returns Compacted copy
+ */
+export function compactValue(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.filter((item) => item !== null && item !== undefined).map(compactValue);
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  const compacted: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    if (item === null || item === undefined) {
+      continue;
+    }
+    if (/attributes$/i.test(key) && typeof item === 'object' && !Array.isArray(item)) {
+      flattenInto(compacted, key, item as Record<string, unknown>);
+    } else {
+      compacted[key] = compactValue(item);
+    }
+  }
+  return compacted;
+}
+
+/**
+ * Read the `fields` argument (array or comma-separated string)
+ *
+ * @param value - Argument value
+ * @returns Field paths, or undefined if none were given
+ */
+export function getFieldsArgument(value: unknown): string[] | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  const fields = (Array.isArray(value) ? value : String(value).split(','))
+    .map((field) => String(field).trim())
+    .filter((field) => field !== '');
+  return fields.length > 0 ? fields : undefined;
+}
+
+/**
+ * Apply the `fields` and `format` arguments to a handler result
+ *
+ * @param result - Handler result
+ * @param args - Tool arguments
+ * @returns Shaped result (the result itself if neither argument is set)
+ * @throws Error on an unknown format or malformed field path
+ */
+export function shapeResult<T>(result: T, args: Record<string, unknown> | undefined): T | Record<string, unknown> {
+  const fields = getFieldsArgument(args?.fields);
+  const format = args?.format ?? 'full';
+  if (!RESULT_FORMATS.includes(format as ResultFormat)) {
+    throw new Error(`Invalid format: "${String(format)}". Must be one of: ${RESULT_FORMATS.join(', ')}`);
+  }
+  if ((!fields && format === 'full') || result === null || typeof result !== 'object' || Array.isArray(result)) {
+    return result;
+  }
+
+  let shaped = result as Record<string, unknown>;
+  if (format === 'normalized') {
+    shaped = Object.fromEntries(
+      Object.entries(shaped).map(([key, value]) => [key, ENVELOPE_KEYS.has(key) ? value : normalizePayload(key, value)])
+    );
+  }
+  if (fields) {
+    shaped = projectFields(shaped, fields);
+  }
+  if (format === 'compact') {
+    shaped = Object.fromEntries(
+      Object.entries(shaped).map(([key, value]) => [key, ENVELOPE_KEYS.has(key) ? value : compactValue(value)])
+    );
+  }
+  return shaped;
+}
@@ -6,21 +6,242 @@
  * @module tools/query
  */
 
-import axios, { AxiosError } from 'axios';
 import { validateEntityId } from './validation.js';
 import { config } from '../config.js';
 import { query as executeQuery, isDangerEnabled, getDangerErrorResponse } from '../utils/database.js';
 import { getAllToolMetadata } from '../utils/tool-metadata.js';
 import { getAllToolDefinitions } from './definitions/index.js';
+import { getConsensusClient, isConsensusError, type ConsensusResponse } from '../utils/consensus-client.js';
+import { cachedQuery, type CachedEntityType } from '../utils/query-cache.js';
+import { reportProgress, throwIfCancelled } from '../utils/request-context.js';
+import {
+  matchesListFilters,
+  SERVER_SIDE_FILTERS,
+  type ListFilterName,
+  type ListFilters,
+} from './list-filters.js';
+import { GRID_SUMMARY_TYPES, getAttributeId, resolveAttributeType, type AttributeKind } from './attributes.js';
 
 /**
- * Get API configuration from config
+ * Pagination of a list response
  */
-function getAPIConfig() {
-  return {
-    consensusRPCUrl: config.consensusApiUrl,
-    webappApiUrl: config.webappApiUrl,
+interface ListPagination {
+  next_key: string | null;
+  total?: string;
+}
+
+/**
+ * How a filtered list was produced
+ */
+export interface ListFilterSummary {
+  applied: ListFilters;
+  /** Filters applied by a dedicated consensus API endpoint */
+  server_side: ListFilterName[];
+  /** Items read from the consensus API */
+  scanned: number;
+  matched: number;
+  pages: number;
+}
+
+// Page walking for filtered and fetch_all lists
+const LIST_PAGE_SIZE = 100;
+const FILTER_DEFAULT_LIMIT = 100;
+const FILTER_MAX_PAGES = 50;
+
+// Cosmos REST: request state at a height, and the height a response is from
+const BLOCK_HEIGHT_HEADER = 'x-cosmos-block-height';
+
+/**
+ * Error message for a failed query
+ *
+ * @param error - Caught error
+ * @param prefix - Prefix for errors that did not come from the consensus API
+ * @returns Consensus client message (e.g. "API error: 404 Not Found") or prefixed message
+ */
+function describeError(error: unknown, prefix: string): string {
+  if (isConsensusError(error)) {
+    return error.message;
+  }
+  return `${prefix}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+}
+
+/**
+ * GET a consensus API path through the query cache
+ *
+ * @param entityType - Entity type (selects the cache TTL)
+ * @param path - API path
+ * @param id - Entity ID for single-entity queries
+ * @param params - Query parameters (pagination)
+ * @param atHeight - Optional block height to read historical state at
+ * @returns Consensus API response
+ */
+function getCached(
+  entityType: CachedEntityType,
+  path: string,
+  id?: string,
+  params?: Record<string, string>,
+  atHeight?: number
+) {
+  if (atHeight !== undefined && (!Number.isSafeInteger(atHeight) || atHeight < 1)) {
+    throw new Error(`Invalid at_height: ${atHeight} (must be a positive block height)`);
+  }
+  const search = params && Object.keys(params).length > 0 ? `?${new URLSearchParams(params)}` : '';
+  const headers = atHeight !== undefined ? { [BLOCK_HEIGHT_HEADER]: String(atHeight) } : undefined;
+  return cachedQuery(entityType, id, `${path}${search}${atHeight !== undefined ? `@${atHeight}` : ''}`, () =>
+    getConsensusClient().get(path, { params, headers })
+  );
+}
+
+/**
+ * Height a pinned query was answered at
+ *
+ * @param response - Consensus API response
+ * @param atHeight - Requested height, if any
+ * @returns `{ height }` for pinned queries (the node's reported height, else the requested one), or {}
+ */
+function pinnedHeight(response: ConsensusResponse<unknown>, atHeight?: number): { height?: number } {
+  if (atHeight === undefined) {
+    return {};
+  }
+  const reported = Number(response.headers[BLOCK_HEIGHT_HEADER]);
+  return { height: Number.isSafeInteger(reported) && reported > 0 ? reported : atHeight };
+}
+
+/**
+ * Build pagination query parameters
+ */
+function pageParams(paginationKey?: string, paginationLimit?: number): Record<string, string> {
+  const params: Record<string, string> = {};
+  if (paginationKey) {
+    params['pagination.key'] = paginationKey;
+  }
+  if (paginationLimit) {
+    params['pagination.limit'] = paginationLimit.toString();
+  }
+  return params;
+}
+
+/**
+ * List entities of one type, optionally filtered or fetched in full
+ *
+ * Without filters or `fetchAll` this returns one page as the API does.
+ * Otherwise it walks pages from `paginationKey`:
+ *
+ * - Filters use a dedicated endpoint when one exists (falling back to the
+ *   full list if the node lacks it) and keep matching items only
+ * - Filtered walks stop after `paginationLimit` matches (default 100) or
+ *   FILTER_MAX_PAGES pages
+ * - `fetchAll` walks until the list ends or the next page would pass
+ *   `config.lists.fetchAllMaxItems` items or `fetchAllMaxBytes` bytes of
+ *   JSON, and reports `truncated`
+ *
+ * Pages are returned whole, so `pagination.next_key` continues exactly where
+ * the result stops. (If the very first page is over a cap, the items that fit
+ * are returned and `next_key` re-reads that page.)
+ *
+ * @param entityType - Entity type (`/structs/{entityType}`)
+ * @param itemsField - Field holding the items in API responses (e.g. "Struct")
+ * @param paginationKey - Optional pagination key
+ * @param paginationLimit - Optional page size (or match limit, with filters)
+ * @param filters - Optional filters
+ * @param fetchAll - Walk every page, up to the configured caps
+ * @param atHeight - Optional block height; every page is read at this height
+ * @returns Items, pagination, what a filter scanned, whether fetchAll was truncated and the pinned height
+ */
+async function listEntities(
+  entityType: CachedEntityType,
+  itemsField: string,
+  paginationKey?: string,
+  paginationLimit?: number,
+  filters?: ListFilters,
+  fetchAll = false,
+  atHeight?: number
+): Promise<{ items: unknown; pagination?: ListPagination; filter?: ListFilterSummary; truncated?: boolean; height?: number }> {
+  const path = `/structs/${entityType}`;
+  const readItems = (data: any) => data[itemsField] || data[`${entityType}s`] || data;
+
+  if (!filters && !fetchAll) {
+    const response = await getCached(entityType, path, undefined, pageParams(paginationKey, paginationLimit), atHeight);
+    return { items: readItems(response.data), pagination: response.data.pagination, ...pinnedHeight(response, atHeight) };
+  }
+
+  const maxItems = fetchAll ? config.lists.fetchAllMaxItems : paginationLimit ?? FILTER_DEFAULT_LIMIT;
+  const maxBytes = fetchAll ? config.lists.fetchAllMaxBytes : Infinity;
+  const maxPages = fetchAll ? Infinity : FILTER_MAX_PAGES;
+  const pageSize = filters ? LIST_PAGE_SIZE : Math.min(LIST_PAGE_SIZE, maxItems);
+  const sizeOf = (item: unknown) => Buffer.byteLength(JSON.stringify(item) ?? '');
+
+  const walk = async (listPath: string, remaining: ListFilters | undefined, serverSide: ListFilterName[]) => {
+    const results: unknown[] = [];
+    let bytes = 0;
+    let nextKey: string | null = paginationKey ?? null;
+    let total: string | undefined;
+    let scanned = 0;
+    let pages = 0;
+    let truncated = false;
+    let height: number | undefined;
+    do {
+      throwIfCancelled();
+      const pageKey = nextKey;
+      const response = await getCached(entityType, listPath, undefined, pageParams(pageKey ?? undefined, pageSize), atHeight);
+      height ??= pinnedHeight(response, atHeight).height;
+      const raw = readItems(response.data);
+      const items: unknown[] = Array.isArray(raw) ? raw : [];
+      total ??= response.data.pagination?.total;
+      nextKey = response.data.pagination?.next_key || null;
+      scanned += items.length;
+      pages++;
+
+      const pageResults = remaining ? items.filter((item) => matchesListFilters(item, remaining)) : items;
+      const pageBytes = fetchAll ? pageResults.reduce<number>((sum, item) => sum + sizeOf(item), 0) : 0;
+      if (fetchAll && (results.length + pageResults.length > maxItems || bytes + pageBytes > maxBytes)) {
+        truncated = true;
+        if (results.length === 0) {
+          for (const item of pageResults) {
+            const size = sizeOf(item);
+            if (results.length + 1 > maxItems || bytes + size > maxBytes) break;
+            results.push(item);
+            bytes += size;
+          }
+        }
+        nextKey = pageKey;
+        break;
+      }
+      results.push(...pageResults);
+      bytes += pageBytes;
+      reportProgress(pages, undefined, remaining
+        ? `Scanned ${scanned} ${entityType} entries, ${results.length} matched`
+        : `Fetched ${results.length} ${entityType} entries`);
+    } while (nextKey && results.length < maxItems && pages < maxPages);
+
+    return {
+      items: results,
+      pagination: { next_key: nextKey, ...(!remaining && total !== undefined ? { total } : {}) },
+      ...(filters ? { filter: { applied: filters, server_side: serverSide, scanned, matched: results.length, pages } } : {}),
+      ...(fetchAll ? { truncated: truncated || nextKey !== null } : {}),
+      ...(height !== undefined ? { height } : {}),
+    };
   };
+
+  if (!filters) {
+    return walk(path, undefined, []);
+  }
+
+  const serverSideFilter = Object.entries(SERVER_SIDE_FILTERS[entityType] ?? {})
+    .find(([name]) => filters[name as ListFilterName] !== undefined);
+  if (serverSideFilter) {
+    const [name, buildPath] = serverSideFilter as [ListFilterName, (value: string) => string];
+    const { [name]: value, ...remaining } = filters;
+    try {
+      return await walk(buildPath(value!), remaining, [name]);
+    } catch (error) {
+      // Older nodes don't serve every query endpoint
+      if (!isConsensusError(error) || (error.status !== 404 && error.status !== 501)) {
+        throw error;
+      }
+    }
+  }
+  return walk(path, filters, []);
 }
 
 /**
@@ -28,55 +249,42 @@ function getAPIConfig() {
  * 
  * @param paginationKey - Optional pagination key
  * @param paginationLimit - Optional page size limit
+ * @param filters - Optional filters, applied while paging through the list (paginationLimit then limits the matches)
+ * @param fetchAll - Optional: walk every page, up to the configured item/byte caps
+ * @param atHeight - Optional block height to read historical state at
  * @returns List of players with pagination
  */
 export async function listPlayers(
   paginationKey?: string,
-  paginationLimit?: number
+  paginationLimit?: number,
+  filters?: ListFilters,
+  fetchAll?: boolean,
+  atHeight?: number
 ): Promise<{
   players: unknown;
-  pagination?: {
-    next_key: string | null;
-    total: string;
-  };
+  pagination?: ListPagination;
+  filter?: ListFilterSummary;
+  truncated?: boolean;
+  height?: number;
   timestamp: string;
   error?: string;
 }> {
   try {
-    const apiConfig = getAPIConfig();
-    const url = `${apiConfig.consensusRPCUrl}/structs/player`;
-    
-    const params: Record<string, string> = {};
-    if (paginationKey) {
-      params['pagination.key'] = paginationKey;
-    }
-    if (paginationLimit) {
-      params['pagination.limit'] = paginationLimit.toString();
-    }
-
-    const response = await axios.get(url, {
-      params,
-      timeout: 10000,
-    });
+    const page = await listEntities('player', 'Player', paginationKey, paginationLimit, filters, fetchAll, atHeight);
 
     return {
-      players: response.data.Player || response.data.players || response.data,
-      pagination: response.data.pagination,
+      players: page.items,
+      pagination: page.pagination,
+      ...(page.filter ? { filter: page.filter } : {}),
+      ...(page.truncated !== undefined ? { truncated: page.truncated } : {}),
+      ...(page.height !== undefined ? { height: page.height } : {}),
       timestamp: new Date().toISOString(),
     };
   } catch (error) {
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError;
-      return {
-        players: null,
-        timestamp: new Date().toISOString(),
-        error: `API error: ${axiosError.response?.status} ${axiosError.response?.statusText || axiosError.message}`,
-      };
-    }
     return {
       players: null,
       timestamp: new Date().toISOString(),
-      error: `Error listing players: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      error: describeError(error, 'Error listing players'),
     };
   }
 }
@@ -85,10 +293,12 @@ export async function listPlayers(
  * Query player state from consensus API
  * 
  * @param playerId - Player ID (e.g., "1-11")
+ * @param atHeight - Optional block height to read historical state at
  * @returns Player data
  */
-export async function queryPlayer(playerId: string): Promise<{
+export async function queryPlayer(playerId: string, atHeight?: number): Promise<{
   player: unknown;
+  height?: number;
   timestamp: string;
   error?: string;
 }> {
@@ -103,30 +313,18 @@ export async function queryPlayer(playerId: string): Promise<{
       };
     }
 
-    const apiConfig = getAPIConfig();
-    const url = `${apiConfig.consensusRPCUrl}/structs/player/${playerId}`;
-
-    const response = await axios.get(url, {
-      timeout: 10000,
-    });
+    const response = await getCached('player', `/structs/player/${playerId}`, playerId, undefined, atHeight);
 
     return {
       player: response.data,
+      ...pinnedHeight(response, atHeight),
       timestamp: new Date().toISOString(),
     };
   } catch (error) {
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError;
-      return {
-        player: null,
-        timestamp: new Date().toISOString(),
-        error: `API error: ${axiosError.response?.status} ${axiosError.response?.statusText || axiosError.message}`,
-      };
-    }
     return {
       player: null,
       timestamp: new Date().toISOString(),
-      error: `Error querying player: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      error: describeError(error, 'Error querying player'),
     };
   }
 }
@@ -135,10 +333,12 @@ export async function queryPlayer(playerId: string): Promise<{
  * Query planet state from consensus API
  * 
  * @param planetId - Planet ID (e.g., "2-1")
+ * @param atHeight - Optional block height to read historical state at
  * @returns Planet data
  */
-export async function queryPlanet(planetId: string): Promise<{
+export async function queryPlanet(planetId: string, atHeight?: number): Promise<{
   planet: unknown;
+  height?: number;
   timestamp: string;
   error?: string;
 }> {
@@ -153,30 +353,18 @@ export async function queryPlanet(planetId: string): Promise<{
       };
     }
 
-    const apiConfig = getAPIConfig();
-    const url = `${apiConfig.consensusRPCUrl}/structs/planet/${planetId}`;
-
-    const response = await axios.get(url, {
-      timeout: 10000,
-    });
+    const response = await getCached('planet', `/structs/planet/${planetId}`, planetId, undefined, atHeight);
 
     return {
       planet: response.data,
+      ...pinnedHeight(response, atHeight),
       timestamp: new Date().toISOString(),
     };
   } catch (error) {
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError;
-      return {
-        planet: null,
-        timestamp: new Date().toISOString(),
-        error: `API error: ${axiosError.response?.status} ${axiosError.response?.statusText || axiosError.message}`,
-      };
-    }
     return {
       planet: null,
       timestamp: new Date().toISOString(),
-      error: `Error querying planet: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      error: describeError(error, 'Error querying planet'),
     };
   }
 }
@@ -185,10 +373,12 @@ export async function queryPlanet(planetId: string): Promise<{
  * Query guild state from consensus API
  * 
  * @param guildId - Guild ID (e.g., "0-1")
+ * @param atHeight - Optional block height to read historical state at
  * @returns Guild data
  */
-export async function queryGuild(guildId: string): Promise<{
+export async function queryGuild(guildId: string, atHeight?: number): Promise<{
   guild: unknown;
+  height?: number;
   timestamp: string;
   error?: string;
 }> {
@@ -203,30 +393,18 @@ export async function queryGuild(guildId: string): Promise<{
       };
     }
 
-    const apiConfig = getAPIConfig();
-    const url = `${apiConfig.consensusRPCUrl}/structs/guild/${guildId}`;
-
-    const response = await axios.get(url, {
-      timeout: 10000,
-    });
+    const response = await getCached('guild', `/structs/guild/${guildId}`, guildId, undefined, atHeight);
 
     return {
       guild: response.data,
+      ...pinnedHeight(response, atHeight),
       timestamp: new Date().toISOString(),
     };
   } catch (error) {
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError;
-      return {
-        guild: null,
-        timestamp: new Date().toISOString(),
-        error: `API error: ${axiosError.response?.status} ${axiosError.response?.statusText || axiosError.message}`,
-      };
-    }
     return {
       guild: null,
       timestamp: new Date().toISOString(),
-      error: `Error querying guild: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      error: describeError(error, 'Error querying guild'),
     };
   }
 }
@@ -359,55 +537,42 @@ export async function queryEndpoints(
  * 
  * @param paginationKey - Optional pagination key
  * @param paginationLimit - Optional page size limit
+ * @param filters - Optional filters, applied while paging through the list (paginationLimit then limits the matches)
+ * @param fetchAll - Optional: walk every page, up to the configured item/byte caps
+ * @param atHeight - Optional block height to read historical state at
  * @returns List of planets with pagination
  */
 export async function listPlanets(
   paginationKey?: string,
-  paginationLimit?: number
+  paginationLimit?: number,
+  filters?: ListFilters,
+  fetchAll?: boolean,
+  atHeight?: number
 ): Promise<{
   planets: unknown;
-  pagination?: {
-    next_key: string | null;
-    total: string;
-  };
+  pagination?: ListPagination;
+  filter?: ListFilterSummary;
+  truncated?: boolean;
+  height?: number;
   timestamp: string;
   error?: string;
 }> {
   try {
-    const apiConfig = getAPIConfig();
-    const url = `${apiConfig.consensusRPCUrl}/structs/planet`;
-    
-    const params: Record<string, string> = {};
-    if (paginationKey) {
-      params['pagination.key'] = paginationKey;
-    }
-    if (paginationLimit) {
-      params['pagination.limit'] = paginationLimit.toString();
-    }
-
-    const response = await axios.get(url, {
-      params,
-      timeout: 10000,
-    });
+    const page = await listEntities('planet', 'Planet', paginationKey, paginationLimit, filters, fetchAll, atHeight);
 
     return {
-      planets: response.data.Planet || response.data.planets || response.data,
-      pagination: response.data.pagination,
+      planets: page.items,
+      pagination: page.pagination,
+      ...(page.filter ? { filter: page.filter } : {}),
+      ...(page.truncated !== undefined ? { truncated: page.truncated } : {}),
+      ...(page.height !== undefined ? { height: page.height } : {}),
       timestamp: new Date().toISOString(),
     };
   } catch (error) {
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError;
-      return {
-        planets: null,
-        timestamp: new Date().toISOString(),
-        error: `API error: ${axiosError.response?.status} ${axiosError.response?.statusText || axiosError.message}`,
-      };
-    }
     return {
       planets: null,
       timestamp: new Date().toISOString(),
-      error: `Error listing planets: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      error: describeError(error, 'Error listing planets'),
     };
   }
 }
@@ -417,55 +582,42 @@ export async function listPlanets(
  * 
  * @param paginationKey - Optional pagination key
  * @param paginationLimit - Optional page size limit
+ * @param filters - Optional filters, applied while paging through the list (paginationLimit then limits the matches)
+ * @param fetchAll - Optional: walk every page, up to the configured item/byte caps
+ * @param atHeight - Optional block height to read historical state at
  * @returns List of structs with pagination
  */
 export async function listStructs(
   paginationKey?: string,
-  paginationLimit?: number
+  paginationLimit?: number,
+  filters?: ListFilters,
+  fetchAll?: boolean,
+  atHeight?: number
 ): Promise<{
   structs: unknown;
-  pagination?: {
-    next_key: string | null;
-    total: string;
-  };
+  pagination?: ListPagination;
+  filter?: ListFilterSummary;
+  truncated?: boolean;
+  height?: number;
   timestamp: string;
   error?: string;
 }> {
   try {
-    const apiConfig = getAPIConfig();
-    const url = `${apiConfig.consensusRPCUrl}/structs/struct`;
-    
-    const params: Record<string, string> = {};
-    if (paginationKey) {
-      params['pagination.key'] = paginationKey;
-    }
-    if (paginationLimit) {
-      params['pagination.limit'] = paginationLimit.toString();
-    }
-
-    const response = await axios.get(url, {
-      params,
-      timeout: 10000,
-    });
+    const page = await listEntities('struct', 'Struct', paginationKey, paginationLimit, filters, fetchAll, atHeight);
 
     return {
-      structs: response.data.Struct || response.data.structs || response.data,
-      pagination: response.data.pagination,
+      structs: page.items,
+      pagination: page.pagination,
+      ...(page.filter ? { filter: page.filter } : {}),
+      ...(page.truncated !== undefined ? { truncated: page.truncated } : {}),
+      ...(page.height !== undefined ? { height: page.height } : {}),
       timestamp: new Date().toISOString(),
     };
   } catch (error) {
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError;
-      return {
-        structs: null,
-        timestamp: new Date().toISOString(),
-        error: `API error: ${axiosError.response?.status} ${axiosError.response?.statusText || axiosError.message}`,
-      };
-    }
     return {
       structs: null,
       timestamp: new Date().toISOString(),
-      error: `Error listing structs: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      error: describeError(error, 'Error listing structs'),
     };
   }
 }
@@ -475,55 +627,42 @@ export async function listStructs(
  * 
  * @param paginationKey - Optional pagination key
  * @param paginationLimit - Optional page size limit
+ * @param filters - Optional filters, applied while paging through the list (paginationLimit then limits the matches)
+ * @param fetchAll - Optional: walk every page, up to the configured item/byte caps
+ * @param atHeight - Optional block height to read historical state at
  * @returns List of struct types with pagination
  */
 export async function listStructTypes(
   paginationKey?: string,
-  paginationLimit?: number
+  paginationLimit?: number,
+  filters?: ListFilters,
+  fetchAll?: boolean,
+  atHeight?: number
 ): Promise<{
   struct_types: unknown;
-  pagination?: {
-    next_key: string | null;
-    total: string;
-  };
+  pagination?: ListPagination;
+  filter?: ListFilterSummary;
+  truncated?: boolean;
+  height?: number;
   timestamp: string;
   error?: string;
 }> {
   try {
-    const apiConfig = getAPIConfig();
-    const url = `${apiConfig.consensusRPCUrl}/structs/struct_type`;
-    
-    const params: Record<string, string> = {};
-    if (paginationKey) {
-      params['pagination.key'] = paginationKey;
-    }
-    if (paginationLimit) {
-      params['pagination.limit'] = paginationLimit.toString();
-    }
-
-    const response = await axios.get(url, {
-      params,
-      timeout: 10000,
-    });
+    const page = await listEntities('struct_type', 'StructType', paginationKey, paginationLimit, filters, fetchAll, atHeight);
 
     return {
-      struct_types: response.data.StructType || response.data.struct_types || response.data,
-      pagination: response.data.pagination,
+      struct_types: page.items,
+      pagination: page.pagination,
+      ...(page.filter ? { filter: page.filter } : {}),
+      ...(page.truncated !== undefined ? { truncated: page.truncated } : {}),
+      ...(page.height !== undefined ? { height: page.height } : {}),
       timestamp: new Date().toISOString(),
     };
   } catch (error) {
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError;
-      return {
-        struct_types: null,
-        timestamp: new Date().toISOString(),
-        error: `API error: ${axiosError.response?.status} ${axiosError.response?.statusText || axiosError.message}`,
-      };
-    }
     return {
       struct_types: null,
       timestamp: new Date().toISOString(),
-      error: `Error listing struct types: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      error: describeError(error, 'Error listing struct types'),
     };
   }
 }
@@ -533,55 +672,42 @@ export async function listStructTypes(
  * 
  * @param paginationKey - Optional pagination key
  * @param paginationLimit - Optional page size limit
+ * @param filters - Optional filters, applied while paging through the list (paginationLimit then limits the matches)
+ * @param fetchAll - Optional: walk every page, up to the configured item/byte caps
+ * @param atHeight - Optional block height to read historical state at
  * @returns List of guilds with pagination
  */
 export async function listGuilds(
   paginationKey?: string,
-  paginationLimit?: number
+  paginationLimit?: number,
+  filters?: ListFilters,
+  fetchAll?: boolean,
+  atHeight?: number
 ): Promise<{
   guilds: unknown;
-  pagination?: {
-    next_key: string | null;
-    total: string;
-  };
+  pagination?: ListPagination;
+  filter?: ListFilterSummary;
+  truncated?: boolean;
+  height?: number;
   timestamp: string;
   error?: string;
 }> {
   try {
-    const apiConfig = getAPIConfig();
-    const url = `${apiConfig.consensusRPCUrl}/structs/guild`;
-    
-    const params: Record<string, string> = {};
-    if (paginationKey) {
-      params['pagination.key'] = paginationKey;
-    }
-    if (paginationLimit) {
-      params['pagination.limit'] = paginationLimit.toString();
-    }
-
-    const response = await axios.get(url, {
-      params,
-      timeout: 10000,
-    });
+    const page = await listEntities('guild', 'Guild', paginationKey, paginationLimit, filters, fetchAll, atHeight);
 
     return {
-      guilds: response.data.Guild || response.data.guilds || response.data,
-      pagination: response.data.pagination,
+      guilds: page.items,
+      pagination: page.pagination,
+      ...(page.filter ? { filter: page.filter } : {}),
+      ...(page.truncated !== undefined ? { truncated: page.truncated } : {}),
+      ...(page.height !== undefined ? { height: page.height } : {}),
       timestamp: new Date().toISOString(),
     };
   } catch (error) {
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError;
-      return {
-        guilds: null,
-        timestamp: new Date().toISOString(),
-        error: `API error: ${axiosError.response?.status} ${axiosError.response?.statusText || axiosError.message}`,
-      };
-    }
     return {
       guilds: null,
       timestamp: new Date().toISOString(),
-      error: `Error listing guilds: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      error: describeError(error, 'Error listing guilds'),
     };
   }
 }
@@ -591,55 +717,42 @@ export async function listGuilds(
  * 
  * @param paginationKey - Optional pagination key
  * @param paginationLimit - Optional page size limit
+ * @param filters - Optional filters, applied while paging through the list (paginationLimit then limits the matches)
+ * @param fetchAll - Optional: walk every page, up to the configured item/byte caps
+ * @param atHeight - Optional block height to read historical state at
  * @returns List of providers with pagination
  */
 export async function listProviders(
   paginationKey?: string,
-  paginationLimit?: number
+  paginationLimit?: number,
+  filters?: ListFilters,
+  fetchAll?: boolean,
+  atHeight?: number
 ): Promise<{
   providers: unknown;
-  pagination?: {
-    next_key: string | null;
-    total: string;
-  };
+  pagination?: ListPagination;
+  filter?: ListFilterSummary;
+  truncated?: boolean;
+  height?: number;
   timestamp: string;
   error?: string;
 }> {
   try {
-    const apiConfig = getAPIConfig();
-    const url = `${apiConfig.consensusRPCUrl}/structs/provider`;
-    
-    const params: Record<string, string> = {};
-    if (paginationKey) {
-      params['pagination.key'] = paginationKey;
-    }
-    if (paginationLimit) {
-      params['pagination.limit'] = paginationLimit.toString();
-    }
-
-    const response = await axios.get(url, {
-      params,
-      timeout: 10000,
-    });
+    const page = await listEntities('provider', 'Provider', paginationKey, paginationLimit, filters, fetchAll, atHeight);
 
     return {
-      providers: response.data.Provider || response.data.providers || response.data,
-      pagination: response.data.pagination,
+      providers: page.items,
+      pagination: page.pagination,
+      ...(page.filter ? { filter: page.filter } : {}),
+      ...(page.truncated !== undefined ? { truncated: page.truncated } : {}),
+      ...(page.height !== undefined ? { height: page.height } : {}),
       timestamp: new Date().toISOString(),
     };
   } catch (error) {
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError;
-      return {
-        providers: null,
-        timestamp: new Date().toISOString(),
-        error: `API error: ${axiosError.response?.status} ${axiosError.response?.statusText || axiosError.message}`,
-      };
-    }
     return {
       providers: null,
       timestamp: new Date().toISOString(),
-      error: `Error listing providers: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      error: describeError(error, 'Error listing providers'),
     };
   }
 }
@@ -649,55 +762,42 @@ export async function listProviders(
  * 
  * @param paginationKey - Optional pagination key
  * @param paginationLimit - Optional page size limit
+ * @param filters - Optional filters, applied while paging through the list (paginationLimit then limits the matches)
+ * @param fetchAll - Optional: walk every page, up to the configured item/byte caps
+ * @param atHeight - Optional block height to read historical state at
  * @returns List of agreements with pagination
  */
 export async function listAgreements(
   paginationKey?: string,
-  paginationLimit?: number
+  paginationLimit?: number,
+  filters?: ListFilters,
+  fetchAll?: boolean,
+  atHeight?: number
 ): Promise<{
   agreements: unknown;
-  pagination?: {
-    next_key: string | null;
-    total: string;
-  };
+  pagination?: ListPagination;
+  filter?: ListFilterSummary;
+  truncated?: boolean;
+  height?: number;
   timestamp: string;
   error?: string;
 }> {
   try {
-    const apiConfig = getAPIConfig();
-    const url = `${apiConfig.consensusRPCUrl}/structs/agreement`;
-    
-    const params: Record<string, string> = {};
-    if (paginationKey) {
-      params['pagination.key'] = paginationKey;
-    }
-    if (paginationLimit) {
-      params['pagination.limit'] = paginationLimit.toString();
-    }
-
-    const response = await axios.get(url, {
-      params,
-      timeout: 10000,
-    });
+    const page = await listEntities('agreement', 'Agreement', paginationKey, paginationLimit, filters, fetchAll, atHeight);
 
     return {
-      agreements: response.data.Agreement || response.data.agreements || response.data,
-      pagination: response.data.pagination,
+      agreements: page.items,
+      pagination: page.pagination,
+      ...(page.filter ? { filter: page.filter } : {}),
+      ...(page.truncated !== undefined ? { truncated: page.truncated } : {}),
+      ...(page.height !== undefined ? { height: page.height } : {}),
       timestamp: new Date().toISOString(),
     };
   } catch (error) {
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError;
-      return {
-        agreements: null,
-        timestamp: new Date().toISOString(),
-        error: `API error: ${axiosError.response?.status} ${axiosError.response?.statusText || axiosError.message}`,
-      };
-    }
     return {
       agreements: null,
       timestamp: new Date().toISOString(),
-      error: `Error listing agreements: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      error: describeError(error, 'Error listing agreements'),
     };
   }
 }
@@ -707,55 +807,42 @@ export async function listAgreements(
  * 
  * @param paginationKey - Optional pagination key
  * @param paginationLimit - Optional page size limit
+ * @param filters - Optional filters, applied while paging through the list (paginationLimit then limits the matches)
+ * @param fetchAll - Optional: walk every page, up to the configured item/byte caps
+ * @param atHeight - Optional block height to read historical state at
  * @returns List of substations with pagination
  */
 export async function listSubstations(
   paginationKey?: string,
-  paginationLimit?: number
+  paginationLimit?: number,
+  filters?: ListFilters,
+  fetchAll?: boolean,
+  atHeight?: number
 ): Promise<{
   substations: unknown;
-  pagination?: {
-    next_key: string | null;
-    total: string;
-  };
+  pagination?: ListPagination;
+  filter?: ListFilterSummary;
+  truncated?: boolean;
+  height?: number;
   timestamp: string;
   error?: string;
 }> {
   try {
-    const apiConfig = getAPIConfig();
-    const url = `${apiConfig.consensusRPCUrl}/structs/substation`;
-    
-    const params: Record<string, string> = {};
-    if (paginationKey) {
-      params['pagination.key'] = paginationKey;
-    }
-    if (paginationLimit) {
-      params['pagination.limit'] = paginationLimit.toString();
-    }
-
-    const response = await axios.get(url, {
-      params,
-      timeout: 10000,
-    });
+    const page = await listEntities('substation', 'Substation', paginationKey, paginationLimit, filters, fetchAll, atHeight);
 
     return {
-      substations: response.data.Substation || response.data.substations || response.data,
-      pagination: response.data.pagination,
+      substations: page.items,
+      pagination: page.pagination,
+      ...(page.filter ? { filter: page.filter } : {}),
+      ...(page.truncated !== undefined ? { truncated: page.truncated } : {}),
+      ...(page.height !== undefined ? { height: page.height } : {}),
       timestamp: new Date().toISOString(),
     };
   } catch (error) {
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError;
-      return {
-        substations: null,
-        timestamp: new Date().toISOString(),
-        error: `API error: ${axiosError.response?.status} ${axiosError.response?.statusText || axiosError.message}`,
-      };
-    }
     return {
       substations: null,
       timestamp: new Date().toISOString(),
-      error: `Error listing substations: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      error: describeError(error, 'Error listing substations'),
     };
   }
 }
@@ -765,167 +852,469 @@ export async function listSubstations(
  * 
  * @param paginationKey - Optional pagination key
  * @param paginationLimit - Optional page size limit
+ * @param filters - Optional filters, applied while paging through the list (paginationLimit then limits the matches)
+ * @param fetchAll - Optional: walk every page, up to the configured item/byte caps
+ * @param atHeight - Optional block height to read historical state at
  * @returns List of allocations with pagination
  */
 export async function listAllocations(
   paginationKey?: string,
-  paginationLimit?: number
+  paginationLimit?: number,
+  filters?: ListFilters,
+  fetchAll?: boolean,
+  atHeight?: number
 ): Promise<{
   allocations: unknown;
-  pagination?: {
-    next_key: string | null;
-    total: string;
-  };
+  pagination?: ListPagination;
+  filter?: ListFilterSummary;
+  truncated?: boolean;
+  height?: number;
   timestamp: string;
   error?: string;
 }> {
   try {
-    const apiConfig = getAPIConfig();
-    const url = `${apiConfig.consensusRPCUrl}/structs/allocation`;
-    
-    const params: Record<string, string> = {};
-    if (paginationKey) {
-      params['pagination.key'] = paginationKey;
-    }
-    if (paginationLimit) {
-      params['pagination.limit'] = paginationLimit.toString();
-    }
-
-    const response = await axios.get(url, {
-      params,
-      timeout: 10000,
-    });
+    const page = await listEntities('allocation', 'Allocation', paginationKey, paginationLimit, filters, fetchAll, atHeight);
 
     return {
-      allocations: response.data.Allocation || response.data.allocations || response.data,
-      pagination: response.data.pagination,
+      allocations: page.items,
+      pagination: page.pagination,
+      ...(page.filter ? { filter: page.filter } : {}),
+      ...(page.truncated !== undefined ? { truncated: page.truncated } : {}),
+      ...(page.height !== undefined ? { height: page.height } : {}),
       timestamp: new Date().toISOString(),
     };
   } catch (error) {
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError;
-      return {
-        allocations: null,
-        timestamp: new Date().toISOString(),
-        error: `API error: ${axiosError.response?.status} ${axiosError.response?.statusText || axiosError.message}`,
-      };
-    }
     return {
       allocations: null,
       timestamp: new Date().toISOString(),
-      error: `Error listing allocations: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      error: describeError(error, 'Error listing allocations'),
     };
   }
 }
 
 /**
- * Query planet activity log from database
+ * List all infusions from consensus API
  * 
- * @param planetId - Planet ID (e.g., "2-1")
- * @param limit - Optional limit for number of entries (default: 100)
- * @param startTime - Optional start time (ISO timestamp)
- * @param endTime - Optional end time (ISO timestamp)
- * @returns Planet activity log entries
+ * @param paginationKey - Optional pagination key
+ * @param paginationLimit - Optional page size limit
+ * @param filters - Optional filters, applied while paging through the list (paginationLimit then limits the matches)
+ * @param fetchAll - Optional: walk every page, up to the configured item/byte caps
+ * @param atHeight - Optional block height to read historical state at
+ * @returns List of infusions with pagination
  */
-export async function queryPlanetActivity(
-  planetId: string,
-  limit?: number,
-  startTime?: string,
-  endTime?: string
+export async function listInfusions(
+  paginationKey?: string,
+  paginationLimit?: number,
+  filters?: ListFilters,
+  fetchAll?: boolean,
+  atHeight?: number
 ): Promise<{
-  activities: Array<{
-    time: string;
-    seq: number;
-    planet_id: string;
-    category: string;
-    detail: unknown;
-  }>;
+  infusions: unknown;
+  pagination?: ListPagination;
+  filter?: ListFilterSummary;
+  truncated?: boolean;
+  height?: number;
   timestamp: string;
   error?: string;
-  details?: {
-    tool: string;
-    required: string;
-  };
 }> {
   try {
-    // Validate entity ID
-    const validation = validateEntityId(planetId, 'planet');
-    if (!validation.valid) {
-      return {
-        activities: [],
-        timestamp: new Date().toISOString(),
-        error: validation.error || 'Invalid planet ID',
-      };
-    }
-
-    // Check DANGER mode (planet activity requires database access)
-    if (!isDangerEnabled()) {
-      const errorResponse = getDangerErrorResponse(
-        'structs_query_planet_activity',
-        'database queries'
-      );
-      return {
-        activities: [],
-        timestamp: new Date().toISOString(),
-        ...errorResponse,
-      };
-    }
-
-    // Check if database is available
-    if (!config.databaseUrl) {
-      return {
-        activities: [],
-        timestamp: new Date().toISOString(),
-        error: 'DATABASE_URL is required for planet activity queries',
-      };
-    }
-
-    // Build query
-    let queryText = `
-      SELECT 
-        time,
-        seq,
-        planet_id,
-        category,
-        detail
-      FROM structs.planet_activity
-      WHERE planet_id = $1
-    `;
-    const params: any[] = [planetId];
-
-    // Add time filters
-    if (startTime) {
-      queryText += ` AND time >= $${params.length + 1}`;
-      params.push(startTime);
-    }
-    if (endTime) {
-      queryText += ` AND time <= $${params.length + 1}`;
-      params.push(endTime);
-    }
-
-    // Order by time descending (most recent first)
-    queryText += ` ORDER BY time DESC, seq DESC`;
-
-    // Add limit
-    const queryLimit = limit || 100;
-    queryText += ` LIMIT $${params.length + 1}`;
-    params.push(queryLimit);
-
-    const result = await executeQuery(queryText, params);
+    const page = await listEntities('infusion', 'Infusion', paginationKey, paginationLimit, filters, fetchAll, atHeight);
 
     return {
-      activities: result.rows.map((row) => ({
-        time: row.time instanceof Date ? row.time.toISOString() : row.time,
-        seq: row.seq,
-        planet_id: row.planet_id,
-        category: row.category,
-        detail: row.detail, // JSONB field
-      })),
+      infusions: page.items,
+      pagination: page.pagination,
+      ...(page.filter ? { filter: page.filter } : {}),
+      ...(page.truncated !== undefined ? { truncated: page.truncated } : {}),
+      ...(page.height !== undefined ? { height: page.height } : {}),
       timestamp: new Date().toISOString(),
     };
   } catch (error) {
     return {
-      activities: [],
+      infusions: null,
+      timestamp: new Date().toISOString(),
+      error: describeError(error, 'Error listing infusions'),
+    };
+  }
+}
+
+/**
+ * List all addresses from consensus API
+ * 
+ * @param paginationKey - Optional pagination key
+ * @param paginationLimit - Optional page size limit
+ * @param filters - Optional filters, applied while paging through the list (paginationLimit then limits the matches)
+ * @param fetchAll - Optional: walk every page, up to the configured item/byte caps
+ * @param atHeight - Optional block height to read historical state at
+ * @returns List of addresses with pagination
+ */
+export async function listAddresses(
+  paginationKey?: string,
+  paginationLimit?: number,
+  filters?: ListFilters,
+  fetchAll?: boolean,
+  atHeight?: number
+): Promise<{
+  addresses: unknown;
+  pagination?: ListPagination;
+  filter?: ListFilterSummary;
+  truncated?: boolean;
+  height?: number;
+  timestamp: string;
+  error?: string;
+}> {
+  try {
+    const page = await listEntities('address', 'Address', paginationKey, paginationLimit, filters, fetchAll, atHeight);
+
+    return {
+      addresses: page.items,
+      pagination: page.pagination,
+      ...(page.filter ? { filter: page.filter } : {}),
+      ...(page.truncated !== undefined ? { truncated: page.truncated } : {}),
+      ...(page.height !== undefined ? { height: page.height } : {}),
+      timestamp: new Date().toISOString(),
+    };
+  } catch (error) {
+    return {
+      addresses: null,
+      timestamp: new Date().toISOString(),
+      error: describeError(error, 'Error listing addresses'),
+    };
+  }
+}
+
+/**
+ * List all permissions from consensus API
+ * 
+ * @param paginationKey - Optional pagination key
+ * @param paginationLimit - Optional page size limit
+ * @param filters - Optional filters, applied while paging through the list (paginationLimit then limits the matches)
+ * @param fetchAll - Optional: walk every page, up to the configured item/byte caps
+ * @param atHeight - Optional block height to read historical state at
+ * @returns List of permissions with pagination
+ */
+export async function listPermissions(
+  paginationKey?: string,
+  paginationLimit?: number,
+  filters?: ListFilters,
+  fetchAll?: boolean,
+  atHeight?: number
+): Promise<{
+  permissions: unknown;
+  pagination?: ListPagination;
+  filter?: ListFilterSummary;
+  truncated?: boolean;
+  height?: number;
+  timestamp: string;
+  error?: string;
+}> {
+  try {
+    const page = await listEntities('permission', 'Permission', paginationKey, paginationLimit, filters, fetchAll, atHeight);
+
+    return {
+      permissions: page.items,
+      pagination: page.pagination,
+      ...(page.filter ? { filter: page.filter } : {}),
+      ...(page.truncated !== undefined ? { truncated: page.truncated } : {}),
+      ...(page.height !== undefined ? { height: page.height } : {}),
+      timestamp: new Date().toISOString(),
+    };
+  } catch (error) {
+    return {
+      permissions: null,
+      timestamp: new Date().toISOString(),
+      error: describeError(error, 'Error listing permissions'),
+    };
+  }
+}
+
+/**
+ * List all guild rank permissions from consensus API
+ * 
+ * @param paginationKey - Optional pagination key
+ * @param paginationLimit - Optional page size limit
+ * @param filters - Optional filters, applied while paging through the list (paginationLimit then limits the matches)
+ * @param fetchAll - Optional: walk every page, up to the configured item/byte caps
+ * @param atHeight - Optional block height to read historical state at
+ * @returns List of guild rank permissions with pagination
+ */
+export async function listGuildRankPermissions(
+  paginationKey?: string,
+  paginationLimit?: number,
+  filters?: ListFilters,
+  fetchAll?: boolean,
+  atHeight?: number
+): Promise<{
+  guild_rank_permissions: unknown;
+  pagination?: ListPagination;
+  filter?: ListFilterSummary;
+  truncated?: boolean;
+  height?: number;
+  timestamp: string;
+  error?: string;
+}> {
+  try {
+    const page = await listEntities('guild_rank_permission', 'GuildRankPermission', paginationKey, paginationLimit, filters, fetchAll, atHeight);
+
+    return {
+      guild_rank_permissions: page.items,
+      pagination: page.pagination,
+      ...(page.filter ? { filter: page.filter } : {}),
+      ...(page.truncated !== undefined ? { truncated: page.truncated } : {}),
+      ...(page.height !== undefined ? { height: page.height } : {}),
+      timestamp: new Date().toISOString(),
+    };
+  } catch (error) {
+    return {
+      guild_rank_permissions: null,
+      timestamp: new Date().toISOString(),
+      error: describeError(error, 'Error listing guild rank permissions'),
+    };
+  }
+}
+
+/**
+ * List all struct attributes from consensus API
+ * 
+ * @param paginationKey - Optional pagination key
+ * @param paginationLimit - Optional page size limit
+ * @param filters - Optional filters, applied while paging through the list (paginationLimit then limits the matches)
+ * @param fetchAll - Optional: walk every page, up to the configured item/byte caps
+ * @param atHeight - Optional block height to read historical state at
+ * @returns List of struct attributes with pagination
+ */
+export async function listStructAttributes(
+  paginationKey?: string,
+  paginationLimit?: number,
+  filters?: ListFilters,
+  fetchAll?: boolean,
+  atHeight?: number
+): Promise<{
+  struct_attributes: unknown;
+  pagination?: ListPagination;
+  filter?: ListFilterSummary;
+  truncated?: boolean;
+  height?: number;
+  timestamp: string;
+  error?: string;
+}> {
+  try {
+    const page = await listEntities('struct_attribute', 'StructAttributes', paginationKey, paginationLimit, filters, fetchAll, atHeight);
+
+    return {
+      struct_attributes: page.items,
+      pagination: page.pagination,
+      ...(page.filter ? { filter: page.filter } : {}),
+      ...(page.truncated !== undefined ? { truncated: page.truncated } : {}),
+      ...(page.height !== undefined ? { height: page.height } : {}),
+      timestamp: new Date().toISOString(),
+    };
+  } catch (error) {
+    return {
+      struct_attributes: null,
+      timestamp: new Date().toISOString(),
+      error: describeError(error, 'Error listing struct attributes'),
+    };
+  }
+}
+
+/**
+ * List all planet attributes from consensus API
+ * 
+ * @param paginationKey - Optional pagination key
+ * @param paginationLimit - Optional page size limit
+ * @param filters - Optional filters, applied while paging through the list (paginationLimit then limits the matches)
+ * @param fetchAll - Optional: walk every page, up to the configured item/byte caps
+ * @param atHeight - Optional block height to read historical state at
+ * @returns List of planet attributes with pagination
+ */
+export async function listPlanetAttributes(
+  paginationKey?: string,
+  paginationLimit?: number,
+  filters?: ListFilters,
+  fetchAll?: boolean,
+  atHeight?: number
+): Promise<{
+  planet_attributes: unknown;
+  pagination?: ListPagination;
+  filter?: ListFilterSummary;
+  truncated?: boolean;
+  height?: number;
+  timestamp: string;
+  error?: string;
+}> {
+  try {
+    const page = await listEntities('planet_attribute', 'PlanetAttributes', paginationKey, paginationLimit, filters, fetchAll, atHeight);
+
+    return {
+      planet_attributes: page.items,
+      pagination: page.pagination,
+      ...(page.filter ? { filter: page.filter } : {}),
+      ...(page.truncated !== undefined ? { truncated: page.truncated } : {}),
+      ...(page.height !== undefined ? { height: page.height } : {}),
+      timestamp: new Date().toISOString(),
+    };
+  } catch (error) {
+    return {
+      planet_attributes: null,
+      timestamp: new Date().toISOString(),
+      error: describeError(error, 'Error listing planet attributes'),
+    };
+  }
+}
+
+/**
+ * List all grid attributes from consensus API
+ * 
+ * @param paginationKey - Optional pagination key
+ * @param paginationLimit - Optional page size limit
+ * @param filters - Optional filters, applied while paging through the list (paginationLimit then limits the matches)
+ * @param fetchAll - Optional: walk every page, up to the configured item/byte caps
+ * @param atHeight - Optional block height to read historical state at
+ * @returns List of grid attributes with pagination
+ */
+export async function listGridAttributes(
+  paginationKey?: string,
+  paginationLimit?: number,
+  filters?: ListFilters,
+  fetchAll?: boolean,
+  atHeight?: number
+): Promise<{
+  grid_attributes: unknown;
+  pagination?: ListPagination;
+  filter?: ListFilterSummary;
+  truncated?: boolean;
+  height?: number;
+  timestamp: string;
+  error?: string;
+}> {
+  try {
+    const page = await listEntities('grid', 'GridAttributes', paginationKey, paginationLimit, filters, fetchAll, atHeight);
+
+    return {
+      grid_attributes: page.items,
+      pagination: page.pagination,
+      ...(page.filter ? { filter: page.filter } : {}),
+      ...(page.truncated !== undefined ? { truncated: page.truncated } : {}),
+      ...(page.height !== undefined ? { height: page.height } : {}),
+      timestamp: new Date().toISOString(),
+    };
+  } catch (error) {
+    return {
+      grid_attributes: null,
+      timestamp: new Date().toISOString(),
+      error: describeError(error, 'Error listing grid attributes'),
+    };
+  }
+}
+
+/**
+ * Query planet activity log from database
+ * 
+ * @param planetId - Planet ID (e.g., "2-1")
+ * @param limit - Optional limit for number of entries (default: 100)
+ * @param startTime - Optional start time (ISO timestamp)
+ * @param endTime - Optional end time (ISO timestamp)
+ * @returns Planet activity log entries
+ */
+export async function queryPlanetActivity(
+  planetId: string,
+  limit?: number,
+  startTime?: string,
+  endTime?: string
+): Promise<{
+  activities: Array<{
+    time: string;
+    seq: number;
+    planet_id: string;
+    category: string;
+    detail: unknown;
+  }>;
+  timestamp: string;
+  error?: string;
+  details?: {
+    tool: string;
+    required: string;
+  };
+}> {
+  try {
+    // Validate entity ID
+    const validation = validateEntityId(planetId, 'planet');
+    if (!validation.valid) {
+      return {
+        activities: [],
+        timestamp: new Date().toISOString(),
+        error: validation.error || 'Invalid planet ID',
+      };
+    }
+
+    // Check DANGER mode (planet activity requires database access)
+    if (!isDangerEnabled()) {
+      const errorResponse = getDangerErrorResponse(
+        'structs_query_planet_activity',
+        'database queries'
+      );
+      return {
+        activities: [],
+        timestamp: new Date().toISOString(),
+        ...errorResponse,
+      };
+    }
+
+    // Check if database is available
+    if (!config.databaseUrl) {
+      return {
+        activities: [],
+        timestamp: new Date().toISOString(),
+        error: 'DATABASE_URL is required for planet activity queries',
+      };
+    }
+
+    // Build query
+    let queryText = `
+      SELECT 
+        time,
+        seq,
+        planet_id,
+        category,
+        detail
+      FROM structs.planet_activity
+      WHERE planet_id = $1
+    `;
+    const params: any[] = [planetId];
+
+    // Add time filters
+    if (startTime) {
+      queryText += ` AND time >= $${params.length + 1}`;
+      params.push(startTime);
+    }
+    if (endTime) {
+      queryText += ` AND time <= $${params.length + 1}`;
+      params.push(endTime);
+    }
+
+    // Order by time descending (most recent first)
+    queryText += ` ORDER BY time DESC, seq DESC`;
+
+    // Add limit
+    const queryLimit = limit || 100;
+    queryText += ` LIMIT $${params.length + 1}`;
+    params.push(queryLimit);
+
+    const result = await executeQuery(queryText, params);
+
+    return {
+      activities: result.rows.map((row) => ({
+        time: row.time instanceof Date ? row.time.toISOString() : row.time,
+        seq: row.seq,
+        planet_id: row.planet_id,
+        category: row.category,
+        detail: row.detail, // JSONB field
+      })),
+      timestamp: new Date().toISOString(),
+    };
+  } catch (error) {
+    return {
+      activities: [],
       timestamp: new Date().toISOString(),
       error: `Error querying planet activity: ${error instanceof Error ? error.message : 'Unknown error'}`,
     };
@@ -936,10 +1325,12 @@ export async function queryPlanetActivity(
  * Query fleet state from consensus API
  * 
  * @param fleetId - Fleet ID (e.g., "3-1")
+ * @param atHeight - Optional block height to read historical state at
  * @returns Fleet data
  */
-export async function queryFleet(fleetId: string): Promise<{
+export async function queryFleet(fleetId: string, atHeight?: number): Promise<{
   fleet: unknown;
+  height?: number;
   timestamp: string;
   error?: string;
 }> {
@@ -954,30 +1345,18 @@ export async function queryFleet(fleetId: string): Promise<{
       };
     }
 
-    const apiConfig = getAPIConfig();
-    const url = `${apiConfig.consensusRPCUrl}/structs/fleet/${fleetId}`;
-
-    const response = await axios.get(url, {
-      timeout: 10000,
-    });
+    const response = await getCached('fleet', `/structs/fleet/${fleetId}`, fleetId, undefined, atHeight);
 
     return {
       fleet: response.data,
+      ...pinnedHeight(response, atHeight),
       timestamp: new Date().toISOString(),
     };
   } catch (error) {
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError;
-      return {
-        fleet: null,
-        timestamp: new Date().toISOString(),
-        error: `API error: ${axiosError.response?.status} ${axiosError.response?.statusText || axiosError.message}`,
-      };
-    }
     return {
       fleet: null,
       timestamp: new Date().toISOString(),
-      error: `Error querying fleet: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      error: describeError(error, 'Error querying fleet'),
     };
   }
 }
@@ -986,10 +1365,12 @@ export async function queryFleet(fleetId: string): Promise<{
  * Query struct state from consensus API
  * 
  * @param structId - Struct ID (e.g., "5-1")
+ * @param atHeight - Optional block height to read historical state at
  * @returns Struct data
  */
-export async function queryStruct(structId: string): Promise<{
+export async function queryStruct(structId: string, atHeight?: number): Promise<{
   struct: unknown;
+  height?: number;
   timestamp: string;
   error?: string;
 }> {
@@ -1004,30 +1385,18 @@ export async function queryStruct(structId: string): Promise<{
       };
     }
 
-    const apiConfig = getAPIConfig();
-    const url = `${apiConfig.consensusRPCUrl}/structs/struct/${structId}`;
-
-    const response = await axios.get(url, {
-      timeout: 10000,
-    });
+    const response = await getCached('struct', `/structs/struct/${structId}`, structId, undefined, atHeight);
 
     return {
       struct: response.data,
+      ...pinnedHeight(response, atHeight),
       timestamp: new Date().toISOString(),
     };
   } catch (error) {
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError;
-      return {
-        struct: null,
-        timestamp: new Date().toISOString(),
-        error: `API error: ${axiosError.response?.status} ${axiosError.response?.statusText || axiosError.message}`,
-      };
-    }
     return {
       struct: null,
       timestamp: new Date().toISOString(),
-      error: `Error querying struct: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      error: describeError(error, 'Error querying struct'),
     };
   }
 }
@@ -1036,10 +1405,12 @@ export async function queryStruct(structId: string): Promise<{
  * Query reactor state from consensus API
  * 
  * @param reactorId - Reactor ID (e.g., "4-1")
+ * @param atHeight - Optional block height to read historical state at
  * @returns Reactor data
  */
-export async function queryReactor(reactorId: string): Promise<{
+export async function queryReactor(reactorId: string, atHeight?: number): Promise<{
   reactor: unknown;
+  height?: number;
   timestamp: string;
   error?: string;
 }> {
@@ -1054,30 +1425,18 @@ export async function queryReactor(reactorId: string): Promise<{
       };
     }
 
-    const apiConfig = getAPIConfig();
-    const url = `${apiConfig.consensusRPCUrl}/structs/reactor/${reactorId}`;
-
-    const response = await axios.get(url, {
-      timeout: 10000,
-    });
+    const response = await getCached('reactor', `/structs/reactor/${reactorId}`, reactorId, undefined, atHeight);
 
     return {
       reactor: response.data,
+      ...pinnedHeight(response, atHeight),
       timestamp: new Date().toISOString(),
     };
   } catch (error) {
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError;
-      return {
-        reactor: null,
-        timestamp: new Date().toISOString(),
-        error: `API error: ${axiosError.response?.status} ${axiosError.response?.statusText || axiosError.message}`,
-      };
-    }
     return {
       reactor: null,
       timestamp: new Date().toISOString(),
-      error: `Error querying reactor: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      error: describeError(error, 'Error querying reactor'),
     };
   }
 }
@@ -1086,10 +1445,12 @@ export async function queryReactor(reactorId: string): Promise<{
  * Query substation state from consensus API
  * 
  * @param substationId - Substation ID (e.g., "6-1")
+ * @param atHeight - Optional block height to read historical state at
  * @returns Substation data
  */
-export async function querySubstation(substationId: string): Promise<{
+export async function querySubstation(substationId: string, atHeight?: number): Promise<{
   substation: unknown;
+  height?: number;
   timestamp: string;
   error?: string;
 }> {
@@ -1104,30 +1465,18 @@ export async function querySubstation(substationId: string): Promise<{
       };
     }
 
-    const apiConfig = getAPIConfig();
-    const url = `${apiConfig.consensusRPCUrl}/structs/substation/${substationId}`;
-
-    const response = await axios.get(url, {
-      timeout: 10000,
-    });
+    const response = await getCached('substation', `/structs/substation/${substationId}`, substationId, undefined, atHeight);
 
     return {
       substation: response.data,
+      ...pinnedHeight(response, atHeight),
       timestamp: new Date().toISOString(),
     };
   } catch (error) {
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError;
-      return {
-        substation: null,
-        timestamp: new Date().toISOString(),
-        error: `API error: ${axiosError.response?.status} ${axiosError.response?.statusText || axiosError.message}`,
-      };
-    }
     return {
       substation: null,
       timestamp: new Date().toISOString(),
-      error: `Error querying substation: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      error: describeError(error, 'Error querying substation'),
     };
   }
 }
@@ -1136,10 +1485,12 @@ export async function querySubstation(substationId: string): Promise<{
  * Query provider state from consensus API
  * 
  * @param providerId - Provider ID (e.g., "7-1")
+ * @param atHeight - Optional block height to read historical state at
  * @returns Provider data
  */
-export async function queryProvider(providerId: string): Promise<{
+export async function queryProvider(providerId: string, atHeight?: number): Promise<{
   provider: unknown;
+  height?: number;
   timestamp: string;
   error?: string;
 }> {
@@ -1154,30 +1505,18 @@ export async function queryProvider(providerId: string): Promise<{
       };
     }
 
-    const apiConfig = getAPIConfig();
-    const url = `${apiConfig.consensusRPCUrl}/structs/provider/${providerId}`;
-
-    const response = await axios.get(url, {
-      timeout: 10000,
-    });
+    const response = await getCached('provider', `/structs/provider/${providerId}`, providerId, undefined, atHeight);
 
     return {
       provider: response.data,
+      ...pinnedHeight(response, atHeight),
       timestamp: new Date().toISOString(),
     };
   } catch (error) {
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError;
-      return {
-        provider: null,
-        timestamp: new Date().toISOString(),
-        error: `API error: ${axiosError.response?.status} ${axiosError.response?.statusText || axiosError.message}`,
-      };
-    }
     return {
       provider: null,
       timestamp: new Date().toISOString(),
-      error: `Error querying provider: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      error: describeError(error, 'Error querying provider'),
     };
   }
 }
@@ -1186,10 +1525,12 @@ export async function queryProvider(providerId: string): Promise<{
  * Query agreement state from consensus API
  * 
  * @param agreementId - Agreement ID (e.g., "8-1")
+ * @param atHeight - Optional block height to read historical state at
  * @returns Agreement data
  */
-export async function queryAgreement(agreementId: string): Promise<{
+export async function queryAgreement(agreementId: string, atHeight?: number): Promise<{
   agreement: unknown;
+  height?: number;
   timestamp: string;
   error?: string;
 }> {
@@ -1204,30 +1545,18 @@ export async function queryAgreement(agreementId: string): Promise<{
       };
     }
 
-    const apiConfig = getAPIConfig();
-    const url = `${apiConfig.consensusRPCUrl}/structs/agreement/${agreementId}`;
-
-    const response = await axios.get(url, {
-      timeout: 10000,
-    });
+    const response = await getCached('agreement', `/structs/agreement/${agreementId}`, agreementId, undefined, atHeight);
 
     return {
       agreement: response.data,
+      ...pinnedHeight(response, atHeight),
       timestamp: new Date().toISOString(),
     };
   } catch (error) {
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError;
-      return {
-        agreement: null,
-        timestamp: new Date().toISOString(),
-        error: `API error: ${axiosError.response?.status} ${axiosError.response?.statusText || axiosError.message}`,
-      };
-    }
     return {
       agreement: null,
       timestamp: new Date().toISOString(),
-      error: `Error querying agreement: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      error: describeError(error, 'Error querying agreement'),
     };
   }
 }
@@ -1236,10 +1565,12 @@ export async function queryAgreement(agreementId: string): Promise<{
  * Query allocation state from consensus API
  * 
  * @param allocationId - Allocation ID (e.g., "9-1")
+ * @param atHeight - Optional block height to read historical state at
  * @returns Allocation data
  */
-export async function queryAllocation(allocationId: string): Promise<{
+export async function queryAllocation(allocationId: string, atHeight?: number): Promise<{
   allocation: unknown;
+  height?: number;
   timestamp: string;
   error?: string;
 }> {
@@ -1254,30 +1585,370 @@ export async function queryAllocation(allocationId: string): Promise<{
       };
     }
 
-    const apiConfig = getAPIConfig();
-    const url = `${apiConfig.consensusRPCUrl}/structs/allocation/${allocationId}`;
-
-    const response = await axios.get(url, {
-      timeout: 10000,
-    });
+    const response = await getCached('allocation', `/structs/allocation/${allocationId}`, allocationId, undefined, atHeight);
 
     return {
       allocation: response.data,
+      ...pinnedHeight(response, atHeight),
       timestamp: new Date().toISOString(),
     };
   } catch (error) {
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError;
+    return {
+      allocation: null,
+      timestamp: new Date().toISOString(),
+      error: describeError(error, 'Error querying allocation'),
+    };
+  }
+}
+
+/**
+ * Query infusion state from consensus API
+ * 
+ * @param infusionId - Infusion ID (e.g., "7-1")
+ * @param atHeight - Optional block height to read historical state at
+ * @returns Infusion data
+ */
+export async function queryInfusion(infusionId: string, atHeight?: number): Promise<{
+  infusion: unknown;
+  height?: number;
+  timestamp: string;
+  error?: string;
+}> {
+  try {
+    // Validate entity ID
+    const validation = validateEntityId(infusionId, 'infusion');
+    if (!validation.valid) {
       return {
-        allocation: null,
+        infusion: null,
         timestamp: new Date().toISOString(),
-        error: `API error: ${axiosError.response?.status} ${axiosError.response?.statusText || axiosError.message}`,
+        error: validation.error || 'Invalid infusion ID',
       };
     }
+
+    const response = await getCached('infusion', `/structs/infusion/${infusionId}`, infusionId, undefined, atHeight);
+
     return {
-      allocation: null,
+      infusion: response.data,
+      ...pinnedHeight(response, atHeight),
+      timestamp: new Date().toISOString(),
+    };
+  } catch (error) {
+    return {
+      infusion: null,
+      timestamp: new Date().toISOString(),
+      error: describeError(error, 'Error querying infusion'),
+    };
+  }
+}
+
+/**
+ * Bech32 account address (e.g., "structs1...")
+ */
+const ADDRESS_REGEX = /^[a-z][a-z0-9]*1[02-9ac-hj-np-z]{38,}$/;
+
+/**
+ * Query a registered address from consensus API
+ *
+ * The address record names the player the address acts for and the
+ * address's permission bitmask.
+ *
+ * @param address - Account address (e.g., "structs1...") or address ID (e.g., "8-1")
+ * @param atHeight - Optional block height to read historical state at
+ * @returns Address data
+ */
+export async function queryAddress(address: string, atHeight?: number): Promise<{
+  address: unknown;
+  height?: number;
+  timestamp: string;
+  error?: string;
+}> {
+  try {
+    const trimmed = typeof address === 'string' ? address.trim() : '';
+    if (!ADDRESS_REGEX.test(trimmed)) {
+      const validation = validateEntityId(trimmed, 'address');
+      if (!validation.valid) {
+        return {
+          address: null,
+          timestamp: new Date().toISOString(),
+          error: `Invalid address: expected an account address (e.g., "structs1...") or address ID (e.g., "8-1"). Got: ${address}`,
+        };
+      }
+    }
+
+    const response = await getCached('address', `/structs/address/${trimmed}`, trimmed, undefined, atHeight);
+
+    return {
+      address: response.data,
+      ...pinnedHeight(response, atHeight),
+      timestamp: new Date().toISOString(),
+    };
+  } catch (error) {
+    return {
+      address: null,
+      timestamp: new Date().toISOString(),
+      error: describeError(error, 'Error querying address'),
+    };
+  }
+}
+
+/**
+ * Query the permission bitmask a player holds on an object
+ *
+ * @param objectId - Object the permission is on (e.g., "0-1" for a guild, "5-1" for a struct)
+ * @param playerId - Player holding the permission (e.g., "1-11")
+ * @param atHeight - Optional block height to read historical state at
+ * @returns Permission data (permission ID `{objectId}@{playerId}`)
+ */
+export async function queryPermission(objectId: string, playerId: string, atHeight?: number): Promise<{
+  permission: unknown;
+  height?: number;
+  timestamp: string;
+  error?: string;
+}> {
+  try {
+    const objectValidation = validateEntityId(objectId);
+    const playerValidation = validateEntityId(playerId, 'player');
+    if (!objectValidation.valid || !playerValidation.valid) {
+      return {
+        permission: null,
+        timestamp: new Date().toISOString(),
+        error: objectValidation.error || playerValidation.error || 'Invalid permission ID',
+      };
+    }
+
+    const permissionId = `${objectValidation.format}@${playerValidation.format}`;
+    const response = await getCached('permission', `/structs/permission/${permissionId}`, objectValidation.format, undefined, atHeight);
+
+    return {
+      permission: response.data,
+      ...pinnedHeight(response, atHeight),
+      timestamp: new Date().toISOString(),
+    };
+  } catch (error) {
+    return {
+      permission: null,
+      timestamp: new Date().toISOString(),
+      error: describeError(error, 'Error querying permission'),
+    };
+  }
+}
+
+/**
+ * Query the guild rank permissions set on an object
+ *
+ * @param objectId - Object the permissions are on (e.g., "5-1")
+ * @param guildId - Optional guild, to only read that guild's ranks (e.g., "0-1")
+ * @param atHeight - Optional block height to read historical state at
+ * @returns Guild rank permissions (rank thresholds and bitmasks)
+ */
+export async function queryGuildRankPermissions(objectId: string, guildId?: string, atHeight?: number): Promise<{
+  guild_rank_permissions: unknown;
+  height?: number;
+  timestamp: string;
+  error?: string;
+}> {
+  try {
+    const objectValidation = validateEntityId(objectId);
+    const guildValidation = guildId ? validateEntityId(guildId, 'guild') : undefined;
+    if (!objectValidation.valid || (guildValidation && !guildValidation.valid)) {
+      return {
+        guild_rank_permissions: null,
+        timestamp: new Date().toISOString(),
+        error: objectValidation.error || guildValidation?.error || 'Invalid object ID',
+      };
+    }
+
+    const path = guildValidation
+      ? `/structs/guild_rank_permission/by_object_and_guild/${objectValidation.format}/${guildValidation.format}`
+      : `/structs/guild_rank_permission/by_object/${objectValidation.format}`;
+    const response = await getCached('guild_rank_permission', path, objectValidation.format, undefined, atHeight);
+
+    return {
+      guild_rank_permissions: response.data,
+      ...pinnedHeight(response, atHeight),
+      timestamp: new Date().toISOString(),
+    };
+  } catch (error) {
+    return {
+      guild_rank_permissions: null,
+      timestamp: new Date().toISOString(),
+      error: describeError(error, 'Error querying guild rank permissions'),
+    };
+  }
+}
+
+/**
+ * Where each attribute family lives on the consensus API
+ */
+const ATTRIBUTE_SOURCES: Record<AttributeKind, { entityType: CachedEntityType; path: string; objectType?: string }> = {
+  grid: { entityType: 'grid', path: '/structs/grid' },
+  struct: { entityType: 'struct_attribute', path: '/structs/struct_attribute', objectType: 'struct' },
+  planet: { entityType: 'planet_attribute', path: '/structs/planet_attribute', objectType: 'planet' },
+};
+
+/**
+ * Read one attribute value
+ *
+ * @returns The value (numbers stay strings, as the chain reports uint64s), or null if the attribute is unset
+ */
+async function getAttributeValue(kind: AttributeKind, objectId: string, code: number, atHeight?: number): Promise<{
+  attribute_id: string;
+  value: unknown;
+  height?: number;
+}> {
+  const source = ATTRIBUTE_SOURCES[kind];
+  const attributeId = getAttributeId(code, objectId);
+  try {
+    const response = await getCached(source.entityType, `${source.path}/${attributeId}`, objectId, undefined, atHeight);
+    const data = response.data ?? {};
+    // `{ value }` or wrapped, e.g. `{ gridAttribute: { attributeId, value } }`
+    const record = 'value' in data ? data : Object.values(data).find((item) => item && typeof item === 'object' && 'value' in item);
+    return { attribute_id: attributeId, value: (record as { value?: unknown } | undefined)?.value ?? null, ...pinnedHeight(response, atHeight) };
+  } catch (error) {
+    // Attributes that were never set are not stored
+    if (isConsensusError(error) && error.status === 404) {
+      return { attribute_id: attributeId, value: null, ...(atHeight !== undefined ? { height: atHeight } : {}) };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Query one attribute of an object
+ *
+ * @param kind - Attribute family
+ * @param objectId - Object ID
+ * @param attributeType - Attribute type name or code
+ * @param atHeight - Optional block height
+ * @returns Attribute ID, object, type and value
+ */
+async function queryAttribute(kind: AttributeKind, objectId: string, attributeType: string | number, atHeight?: number): Promise<{
+  attribute: { attribute_id: string; object_id: string; attribute_type: string; value: unknown } | null;
+  height?: number;
+  error?: string;
+}> {
+  const validation = validateEntityId(objectId, ATTRIBUTE_SOURCES[kind].objectType);
+  if (!validation.valid) {
+    return { attribute: null, error: validation.error || 'Invalid object ID' };
+  }
+  const type = resolveAttributeType(kind, attributeType);
+  if (type.error !== undefined) {
+    return { attribute: null, error: type.error };
+  }
+
+  const { attribute_id, value, height } = await getAttributeValue(kind, validation.format!, type.code, atHeight);
+  return {
+    attribute: { attribute_id, object_id: validation.format!, attribute_type: type.name, value },
+    ...(height !== undefined ? { height } : {}),
+  };
+}
+
+/**
+ * Query a struct attribute from consensus API
+ *
+ * @param structId - Struct ID (e.g., "5-1")
+ * @param attributeType - Attribute type name (e.g., "health") or code
+ * @param atHeight - Optional block height to read historical state at
+ * @returns Struct attribute
+ */
+export async function queryStructAttribute(structId: string, attributeType: string | number, atHeight?: number): Promise<{
+  struct_attribute: unknown;
+  height?: number;
+  timestamp: string;
+  error?: string;
+}> {
+  try {
+    const { attribute, ...rest } = await queryAttribute('struct', structId, attributeType, atHeight);
+    return { struct_attribute: attribute, ...rest, timestamp: new Date().toISOString() };
+  } catch (error) {
+    return {
+      struct_attribute: null,
+      timestamp: new Date().toISOString(),
+      error: describeError(error, 'Error querying struct attribute'),
+    };
+  }
+}
+
+/**
+ * Query a planet attribute from consensus API
+ *
+ * @param planetId - Planet ID (e.g., "2-1")
+ * @param attributeType - Attribute type name (e.g., "planetaryShield") or code
+ * @param atHeight - Optional block height to read historical state at
+ * @returns Planet attribute
+ */
+export async function queryPlanetAttribute(planetId: string, attributeType: string | number, atHeight?: number): Promise<{
+  planet_attribute: unknown;
+  height?: number;
+  timestamp: string;
+  error?: string;
+}> {
+  try {
+    const { attribute, ...rest } = await queryAttribute('planet', planetId, attributeType, atHeight);
+    return { planet_attribute: attribute, ...rest, timestamp: new Date().toISOString() };
+  } catch (error) {
+    return {
+      planet_attribute: null,
+      timestamp: new Date().toISOString(),
+      error: describeError(error, 'Error querying planet attribute'),
+    };
+  }
+}
+
+/**
+ * Query grid values (power capacity, load, ...) of an object
+ *
+ * Without an attribute type, reads the power summary (`GRID_SUMMARY_TYPES`).
+ *
+ * @param objectId - Object ID (player, reactor, substation, struct, ...)
+ * @param attributeType - Optional grid attribute type name (e.g., "capacity") or code
+ * @param atHeight - Optional block height to read historical state at
+ * @returns Grid values by attribute type
+ */
+export async function queryGrid(objectId: string, attributeType?: string | number, atHeight?: number): Promise<{
+  grid: { object_id: string; attributes: Record<string, unknown> } | null;
+  height?: number;
+  timestamp: string;
+  error?: string;
+}> {
+  try {
+    const validation = validateEntityId(objectId);
+    if (!validation.valid) {
+      return {
+        grid: null,
+        timestamp: new Date().toISOString(),
+        error: validation.error || 'Invalid object ID',
+      };
+    }
+
+    const types = attributeType !== undefined && attributeType !== '' ? [attributeType] : GRID_SUMMARY_TYPES;
+    const resolved = types.map((type) => resolveAttributeType('grid', type));
+    const unknown = resolved.find((type) => type.error !== undefined);
+    if (unknown?.error !== undefined) {
+      return { grid: null, timestamp: new Date().toISOString(), error: unknown.error };
+    }
+
+    const values = await Promise.all(
+      resolved.map(async (type) => {
+        const { name, code } = type as { name: string; code: number };
+        return [name, await getAttributeValue('grid', validation.format!, code, atHeight)] as const;
+      })
+    );
+    const height = values.find(([, value]) => value.height !== undefined)?.[1].height;
+
+    return {
+      grid: {
+        object_id: validation.format!,
+        attributes: Object.fromEntries(values.map(([name, value]) => [name, value.value])),
+      },
+      ...(height !== undefined ? { height } : {}),
+      timestamp: new Date().toISOString(),
+    };
+  } catch (error) {
+    return {
+      grid: null,
       timestamp: new Date().toISOString(),
-      error: `Error querying allocation: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      error: describeError(error, 'Error querying grid'),
     };
   }
 }
@@ -9,6 +9,10 @@
 import { submitTransaction } from './action.js';
 import { queryStruct, queryFleet } from './query.js';
 import { calculateProofOfWork } from './calculation.js';
+import { createLogger } from '../utils/logger.js';
+import { getAbortSignal, reportProgress, runDetached, sleep, throwIfCancelled } from '../utils/request-context.js';
+
+const log = createLogger('workflow');
 
 /**
  * Workflow step status
@@ -225,6 +229,10 @@ const WORKFLOW_DEFINITIONS: Record<string, WorkflowDefinition> = {
 /**
  * Execute a workflow
  * 
+ * By default the workflow runs in the background and the call returns at
+ * once. With `wait`, the call returns when the workflow finishes, reporting
+ * each step as progress; cancelling the call stops the workflow.
+ * 
  * @param args - Workflow execution arguments
  * @param aiDocsPath - Path to /ai directory
  * @returns Workflow execution result
@@ -234,16 +242,19 @@ export async function executeWorkflow(
     workflow_type: string;
     player_id: string;
     parameters: Record<string, unknown>;
+    wait?: boolean;
   },
   aiDocsPath: string
 ): Promise<{
   workflow_id: string;
-  status: 'queued';
+  status: WorkflowExecution['status'];
   message: string;
   workflow_type: string;
   estimated_time?: number;
+  steps?: WorkflowStep[];
+  error?: string;
 }> {
-  const { workflow_type, player_id, parameters } = args;
+  const { workflow_type, player_id, parameters, wait } = args;
 
   // Get workflow definition
   const workflowDef = WORKFLOW_DEFINITIONS[workflow_type];
@@ -273,12 +284,25 @@ export async function executeWorkflow(
 
   // Store workflow execution in memory
   workflowStorage.set(workflowId, execution);
+
+  if (wait) {
+    await processWorkflow(execution, parameters, aiDocsPath);
+    return {
+      workflow_id: workflowId,
+      status: execution.status,
+      message: `Workflow ${workflow_type} ${execution.status}`,
+      workflow_type,
+      steps: execution.steps,
+      error: execution.error,
+    };
+  }
   
-  // Start workflow execution in background
+  // Start workflow execution in background, outside this request's
+  // cancellation and progress
   // Note: This is a simplified implementation - a full implementation would
   // execute steps sequentially with proper state checking and waiting
-  processWorkflow(execution, parameters, aiDocsPath).catch((error) => {
-    console.error(`Workflow ${workflowId} failed:`, error);
+  runDetached(() => processWorkflow(execution, parameters, aiDocsPath)).catch((error) => {
+    log.error('Workflow failed', { workflow_id: workflowId, error });
     execution.status = 'failed';
     execution.error = error instanceof Error ? error.message : 'Unknown error';
   });
@@ -301,6 +325,8 @@ async function processWorkflow(
   aiDocsPath: string
 ): Promise<void> {
   execution.status = 'running';
+  const workflowLog = log.child({ workflow_id: execution.workflow_id, workflow_type: execution.workflow_type });
+  workflowLog.info('Workflow started', { player_id: execution.player_id });
 
   const workflowDef = WORKFLOW_DEFINITIONS[execution.workflow_type];
   if (!workflowDef) {
@@ -310,15 +336,19 @@ async function processWorkflow(
   }
 
   try {
-    for (const stepDef of workflowDef.steps) {
+    for (const [index, stepDef] of workflowDef.steps.entries()) {
       execution.current_step = stepDef.step_id;
       const step = execution.steps.find((s) => s.step_id === stepDef.step_id);
       if (!step) continue;
 
       step.status = 'in_progress';
       step.started_at = new Date().toISOString();
+      workflowLog.debug('Workflow step started', { step_id: step.step_id, action_type: stepDef.action_type });
+      reportProgress(index, workflowDef.steps.length, `Step ${index + 1}/${workflowDef.steps.length}: ${step.name}`);
 
       try {
+        throwIfCancelled();
+
         // Execute step based on action type
         if (stepDef.action_type === 'wait') {
           // Wait step - poll entity state
@@ -487,20 +517,25 @@ async function processWorkflow(
 
         step.status = 'completed';
         step.completed_at = new Date().toISOString();
+        workflowLog.debug('Workflow step completed', { step_id: step.step_id });
       } catch (error) {
         step.status = 'failed';
         step.error = error instanceof Error ? error.message : 'Unknown error';
-        execution.status = 'failed';
+        execution.status = getAbortSignal()?.aborted ? 'cancelled' : 'failed';
         execution.error = step.error;
+        workflowLog.warn('Workflow step failed', { step_id: step.step_id, error: step.error });
         return;
       }
     }
 
     execution.status = 'completed';
     execution.completed_at = new Date().toISOString();
+    workflowLog.info('Workflow completed');
+    reportProgress(workflowDef.steps.length, workflowDef.steps.length, 'Workflow completed');
   } catch (error) {
     execution.status = 'failed';
     execution.error = error instanceof Error ? error.message : 'Unknown error';
+    workflowLog.error('Workflow failed', { error: execution.error });
   }
 }
 
@@ -562,7 +597,7 @@ async function findNewStructId(
     
     return undefined;
   } catch (error) {
-    console.error('Error finding new struct ID:', error);
+    log.warn('Error finding new struct ID', { player_id: playerId, error });
     return undefined;
   }
 }
@@ -594,7 +629,8 @@ async function waitForEntityState(
       // Struct doesn't exist yet, continue waiting
     }
     
-    await new Promise((resolve) => setTimeout(resolve, intervalMs));
+    // Wakes early (and throws) if the request is cancelled
+    await sleep(intervalMs);
   }
   
   throw new Error(`Timeout waiting for struct ${entityId} to be created`);
@@ -701,3 +737,11 @@ export async function getWorkflowSteps(workflowType: string): Promise<{
   };
 }
 
+/**
+ * List available workflow types
+ *
+ * @returns Workflow type names, sorted
+ */
+export function listWorkflowTypes(): string[] {
+  return Object.keys(WORKFLOW_DEFINITIONS).sort();
+}
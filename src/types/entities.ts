@@ -0,0 +1,240 @@
+/**
+ * Entity Model Types
+ *
+ * Canonical shapes of the game entities, as produced by the normalizers in
+ * `tools/models`. The consensus API answers in several shapes (query
+ * envelopes like `{ Player, gridAttributes }`, bare list items, camelCase or
+ * snake_case keys, numbers as strings); these are the one form the tools
+ * build on. Keys are snake_case, IDs are strings, amounts are
+ * unit-annotated `Quantity` values and block heights are plain numbers.
+ *
+ * @module types/entities
+ */
+
+/**
+ * Units of chain amounts
+ * - `ualpha`: micrograms of Alpha Matter (1,000,000 = 1 gram)
+ * - `ore`: units of ore
+ * - `watt`: power (capacity, load, draw)
+ * - `block`: a number of blocks (durations, not heights)
+ */
+export type Unit = 'ualpha' | 'ore' | 'watt' | 'block';
+
+/**
+ * A unit-annotated amount
+ */
+export interface Quantity {
+  value: number;
+  unit: Unit;
+}
+
+/**
+ * A token balance (the denom is its unit, e.g. "ualpha")
+ */
+export interface Coin {
+  denom: string;
+  amount: number;
+}
+
+/**
+ * Ambits a struct can operate in
+ */
+export type Ambit = 'space' | 'air' | 'land' | 'water';
+
+/**
+ * Struct lifecycle status (decoded from the chain's status flags)
+ */
+export type StructStatus = 'building' | 'built' | 'online' | 'destroyed' | (string & {});
+
+/**
+ * Struct IDs in each ambit's slots of a planet or fleet
+ */
+export interface AmbitSlots {
+  space: string[];
+  air: string[];
+  land: string[];
+  water: string[];
+}
+
+/**
+ * Grid values of a player, planet, struct or other power object
+ */
+export interface GridState {
+  ore?: Quantity;
+  fuel?: Quantity;
+  capacity?: Quantity;
+  load?: Quantity;
+  structs_load?: Quantity;
+  power?: Quantity;
+  connection_capacity?: Quantity;
+  connection_count?: number;
+  last_action_block?: number;
+  checkpoint_block?: number;
+}
+
+export interface Player {
+  id: string;
+  index?: number;
+  guild_id?: string;
+  /** Rank within the guild (lower = more privileged) */
+  guild_rank?: number;
+  substation_id?: string;
+  planet_id?: string;
+  fleet_id?: string;
+  primary_address?: string;
+  creator?: string;
+  /** Offline: load exceeds capacity */
+  halted: boolean;
+  storage: Coin[];
+  grid?: GridState;
+}
+
+export interface Struct {
+  id: string;
+  index?: number;
+  type_id?: number;
+  owner?: string;
+  creator?: string;
+  location_type?: string;
+  location_id?: string;
+  /** Planet the struct is on, when it is located on a planet */
+  planet_id?: string;
+  /** Fleet the struct is in, when it is located in a fleet */
+  fleet_id?: string;
+  ambit?: Ambit;
+  slot?: number;
+  status?: StructStatus;
+  health?: number;
+  build_start_block?: number;
+  ore_mine_start_block?: number;
+  ore_refine_start_block?: number;
+  grid?: GridState;
+}
+
+export interface StructType {
+  id: string;
+  type_id: number;
+  name?: string;
+  category?: string;
+  build_limit?: number;
+  build_difficulty?: number;
+  build_draw?: Quantity;
+  passive_draw?: Quantity;
+  max_health?: number;
+  possible_ambits: Ambit[];
+  movable?: boolean;
+}
+
+export interface Planet {
+  id: string;
+  owner?: string;
+  creator?: string;
+  status?: string;
+  max_ore?: Quantity;
+  slots: AmbitSlots;
+  /** Planet attributes (shields, defenses, ...) by snake_case name */
+  attributes: Record<string, number>;
+  grid?: GridState;
+}
+
+export interface Fleet {
+  id: string;
+  owner?: string;
+  /** "on_station" or "away" */
+  status?: string;
+  location_type?: string;
+  location_id?: string;
+  planet_id?: string;
+  command_struct_id?: string;
+  slots: AmbitSlots;
+}
+
+export interface Guild {
+  id: string;
+  index?: number;
+  owner?: string;
+  creator?: string;
+  endpoint?: string;
+  /** Rank assigned to new members */
+  entry_rank?: number;
+  join_infusion_minimum?: Quantity;
+  primary_reactor_id?: string;
+  entry_substation_id?: string;
+  /** Address holding the collateral behind the guild's bank tokens */
+  bank_collateral_pool?: string;
+  grid?: GridState;
+}
+
+export interface Reactor {
+  id: string;
+  owner?: string;
+  guild_id?: string;
+  validator?: string;
+  /** Commission as a fraction (0.05 = 5%) */
+  default_commission?: number;
+  grid?: GridState;
+}
+
+export interface Substation {
+  id: string;
+  owner?: string;
+  creator?: string;
+  grid?: GridState;
+}
+
+export interface Provider {
+  id: string;
+  owner?: string;
+  substation_id?: string;
+  rate?: Coin;
+  access_policy?: string;
+  capacity_minimum?: Quantity;
+  capacity_maximum?: Quantity;
+  duration_minimum?: Quantity;
+  duration_maximum?: Quantity;
+  provider_cancellation_penalty?: number;
+  consumer_cancellation_penalty?: number;
+}
+
+export interface Agreement {
+  id: string;
+  owner?: string;
+  provider_id?: string;
+  allocation_id?: string;
+  capacity?: Quantity;
+  start_block?: number;
+  end_block?: number;
+}
+
+export interface Allocation {
+  id: string;
+  type?: string;
+  source_id?: string;
+  destination_id?: string;
+  /** Player controlling the allocation */
+  controller?: string;
+  creator?: string;
+  grid?: GridState;
+}
+
+/**
+ * Model of each entity type
+ */
+export interface EntityModels {
+  player: Player;
+  struct: Struct;
+  struct_type: StructType;
+  planet: Planet;
+  fleet: Fleet;
+  guild: Guild;
+  reactor: Reactor;
+  substation: Substation;
+  provider: Provider;
+  agreement: Agreement;
+  allocation: Allocation;
+}
+
+/**
+ * Entity types with a model
+ */
+export type ModelType = keyof EntityModels;
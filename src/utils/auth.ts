@@ -0,0 +1,260 @@
+/**
+ * HTTP Authentication and Tool Scopes
+ *
+ * API-key / bearer-token authentication for the HTTP transport. Keys are
+ * loaded from a local file (JSON or YAML) and each key carries scopes that
+ * decide which tools it may list and call:
+ *
+ * - `read`: query, list, dashboard, preflight, validation and other read-only tools
+ * - `calculate`: calculation tools that do not submit transactions
+ * - `actions`: tools that submit transactions, optionally limited to `player_ids`
+ * - `*`: everything
+ *
+ * @module utils/auth
+ */
+
+import { readFileSync } from 'fs';
+import { createHash, timingSafeEqual } from 'crypto';
+import YAML from 'yaml';
+import type { Request, Response, NextFunction, RequestHandler } from 'express';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+
+declare module 'express-serve-static-core' {
+  interface Request {
+    /** Set by the auth middleware; the MCP transport forwards it as `extra.authInfo` */
+    auth?: AuthInfo;
+  }
+}
+
+/**
+ * Tool scopes
+ */
+export type ToolScope = 'read' | 'calculate' | 'actions';
+
+/**
+ * API key entry as written in the keys file
+ */
+export interface ApiKeyEntry {
+  name: string;
+  /** Plaintext key */
+  key?: string;
+  /** Hex-encoded SHA-256 of the key (preferred over plaintext) */
+  key_sha256?: string;
+  scopes: Array<ToolScope | '*'>;
+  /** Player IDs this key may act for (actions scope only). Omit to allow any player. */
+  player_ids?: string[];
+}
+
+/**
+ * Tools that submit transactions even though their name doesn't say so
+ */
+const ACTION_TOOLS = new Set([
+  'structs_workflow_execute',
+  'structs_calculate_proof_of_work', // Submits the completion transaction when the hash is found
+]);
+
+/**
+ * Determine the scope required to call a tool
+ *
+ * @param toolName - Tool name
+ * @returns Required scope
+ */
+export function getToolScope(toolName: string): ToolScope {
+  if (toolName.startsWith('structs_action_') || ACTION_TOOLS.has(toolName)) {
+    return 'actions';
+  }
+  if (toolName.startsWith('structs_calculate_')) {
+    return 'calculate';
+  }
+  return 'read';
+}
+
+/**
+ * Check whether an authenticated client may call a tool
+ *
+ * @param toolName - Tool name
+ * @param args - Tool arguments (used for player ID restrictions)
+ * @param authInfo - Auth info from the request, or undefined when auth is disabled
+ * @returns Allowed flag and a reason when denied
+ */
+export function checkToolAccess(
+  toolName: string,
+  args: Record<string, unknown> | undefined,
+  authInfo?: AuthInfo
+): { allowed: boolean; reason?: string } {
+  // No auth configured (stdio, or HTTP without a keys file)
+  if (!authInfo) {
+    return { allowed: true };
+  }
+
+  const scope = getToolScope(toolName);
+  const scopes = authInfo.scopes;
+  if (!scopes.includes('*') && !scopes.includes(scope)) {
+    return {
+      allowed: false,
+      reason: `API key "${authInfo.clientId}" lacks the "${scope}" scope required by ${toolName}`,
+    };
+  }
+
+  if (scope === 'actions') {
+    const playerIds = authInfo.extra?.player_ids as string[] | undefined;
+    if (playerIds && playerIds.length > 0) {
+      const playerId = args?.player_id as string | undefined;
+      if (!playerId || !playerIds.includes(playerId)) {
+        return {
+          allowed: false,
+          reason: `API key "${authInfo.clientId}" may only act for players: ${playerIds.join(', ')}`,
+        };
+      }
+    }
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Filter tool definitions down to those the client may call
+ */
+export function filterToolsForAuth(tools: Tool[], authInfo?: AuthInfo): Tool[] {
+  if (!authInfo) {
+    return tools;
+  }
+  const scopes = authInfo.scopes;
+  return tools.filter((tool) => scopes.includes('*') || scopes.includes(getToolScope(tool.name)));
+}
+
+/**
+ * Load API keys from a JSON or YAML file
+ *
+ * Expected shape: `{ keys: ApiKeyEntry[] }`. Names and keys must be unique.
+ *
+ * @param filePath - Path to the keys file
+ * @returns Validated key entries
+ * @throws Error if the file can't be parsed or an entry is invalid
+ */
+export function loadApiKeys(filePath: string): ApiKeyEntry[] {
+  const raw = readFileSync(filePath, 'utf8');
+  let parsed: { keys?: unknown };
+  try {
+    // YAML is a superset of JSON, so one parser handles both formats
+    parsed = YAML.parse(raw) as { keys?: unknown };
+  } catch (error) {
+    throw new Error(`Invalid API keys file ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!parsed || !Array.isArray(parsed.keys)) {
+    throw new Error(`Invalid API keys file ${filePath}: expected a top-level "keys" array`);
+  }
+
+  const validScopes = new Set(['read', 'calculate', 'actions', '*']);
+  const names = new Set<string>();
+  const hashes = new Set<string>();
+  return parsed.keys.map((entry: any, index: number) => {
+    const name = entry?.name || `key-${index + 1}`;
+    if (!entry?.key && !entry?.key_sha256) {
+      throw new Error(`Invalid API key "${name}": either key or key_sha256 is required`);
+    }
+    if (!Array.isArray(entry.scopes) || entry.scopes.length === 0) {
+      throw new Error(`Invalid API key "${name}": scopes must be a non-empty array`);
+    }
+    for (const scope of entry.scopes) {
+      if (!validScopes.has(scope)) {
+        throw new Error(`Invalid API key "${name}": unknown scope "${scope}" (valid: read, calculate, actions, *)`);
+      }
+    }
+    if (entry.player_ids !== undefined && !Array.isArray(entry.player_ids)) {
+      throw new Error(`Invalid API key "${name}": player_ids must be an array`);
+    }
+    // A key matching two entries would get whichever scopes come first
+    const hash = entry.key !== undefined
+      ? createHash('sha256').update(String(entry.key)).digest('hex')
+      : String(entry.key_sha256).toLowerCase();
+    if (names.has(name)) {
+      throw new Error(`Invalid API key "${name}": duplicate name`);
+    }
+    if (hashes.has(hash)) {
+      throw new Error(`Invalid API key "${name}": same key as an earlier entry`);
+    }
+    names.add(name);
+    hashes.add(hash);
+    return {
+      name,
+      key: entry.key !== undefined ? String(entry.key) : undefined,
+      key_sha256: entry.key_sha256 ? String(entry.key_sha256).toLowerCase() : undefined,
+      scopes: entry.scopes,
+      player_ids: entry.player_ids?.map(String),
+    } as ApiKeyEntry;
+  });
+}
+
+/**
+ * Find the key entry matching a presented token
+ *
+ * @param keys - Configured keys
+ * @param token - Token from the request
+ * @returns Matching entry or undefined
+ */
+export function findApiKey(keys: ApiKeyEntry[], token: string): ApiKeyEntry | undefined {
+  const tokenHash = createHash('sha256').update(token).digest();
+  for (const entry of keys) {
+    // Compare fixed-length digests so timing doesn't leak key length or prefix
+    const expected = entry.key_sha256
+      ? Buffer.from(entry.key_sha256, 'hex')
+      : createHash('sha256').update(entry.key || '').digest();
+    if (expected.length === tokenHash.length && timingSafeEqual(expected, tokenHash)) {
+      return entry;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Extract a token from `Authorization: Bearer <token>` or `X-API-Key: <token>`
+ */
+function extractToken(req: Request): string | undefined {
+  const authorization = req.headers.authorization;
+  if (authorization) {
+    const match = authorization.match(/^Bearer\s+(.+)$/i);
+    if (match) {
+      return match[1].trim();
+    }
+  }
+  const apiKey = req.headers['x-api-key'];
+  if (typeof apiKey === 'string' && apiKey.trim()) {
+    return apiKey.trim();
+  }
+  return undefined;
+}
+
+/**
+ * Create Express middleware that authenticates requests against the keys
+ *
+ * On success `req.auth` is set; the MCP transport passes it on to request
+ * handlers as `extra.authInfo`.
+ *
+ * @param keys - Configured keys
+ * @returns Express middleware
+ */
+export function createAuthMiddleware(keys: ApiKeyEntry[]): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const token = extractToken(req);
+    const entry = token ? findApiKey(keys, token) : undefined;
+    if (!token || !entry) {
+      res.setHeader('WWW-Authenticate', 'Bearer realm="structs-mcp"');
+      res.status(401).json({
+        jsonrpc: '2.0',
+        error: { code: -32001, message: token ? 'Invalid API key' : 'Missing API key (use Authorization: Bearer <key> or X-API-Key)' },
+        id: null,
+      });
+      return;
+    }
+
+    req.auth = {
+      token,
+      clientId: entry.name,
+      scopes: entry.scopes,
+      extra: entry.player_ids ? { player_ids: entry.player_ids } : undefined,
+    };
+    next();
+  };
+}
@@ -0,0 +1,296 @@
+/**
+ * Block Clock
+ *
+ * Current block height, average block time, and conversions between block
+ * heights and wall-clock times.
+ *
+ * The height comes from the indexer's `structs.current_block` table (when a
+ * database is configured), then the consensus API, and when both fail is
+ * estimated from the last known height and the time since (blocks pass
+ * about every 5 seconds). The block time is measured from the headers of
+ * the latest block and the one `BLOCK_TIME_WINDOW` blocks earlier.
+ *
+ * @module utils/block-clock
+ */
+
+import { config } from '../config.js';
+import { query } from './database.js';
+import { getConsensusClient } from './consensus-client.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('block-clock');
+
+/**
+ * Where a block height came from
+ */
+export type BlockHeightSource = 'database' | 'api' | 'estimate' | 'stale_cache';
+
+/**
+ * A block height reading
+ */
+export interface BlockHeightReading {
+  height: number;
+  source: BlockHeightSource;
+  /** When the height was read (ms since epoch) */
+  observed_at: number;
+}
+
+/**
+ * Average block time
+ */
+export interface BlockTime {
+  average_ms: number;
+  /** 'measured' from block headers, or the 'default' when the node can't be read */
+  source: 'measured' | 'default';
+  /** Blocks the average was measured over */
+  window?: number;
+  latest_height?: number;
+  /** Time of the latest block (ISO 8601) */
+  latest_time?: string;
+}
+
+/**
+ * A block height and the (actual or estimated) time it was or will be produced
+ */
+export interface BlockTimeConversion {
+  height: number;
+  time: string;
+  /** Blocks from the current height (negative: in the past) */
+  blocks_away: number;
+  /** Seconds from now (negative: in the past) */
+  seconds_away: number;
+  /** False when the time was read from the block header */
+  estimated: boolean;
+}
+
+export const DEFAULT_BLOCK_TIME_MS = 5000; // Blocks pass every ~5 seconds
+const BLOCK_TIME_WINDOW = 100;
+const BLOCK_HEIGHT_CACHE_MS = 10000; // Cache for 10 seconds
+const BLOCK_TIME_CACHE_MS = 60000;
+const BLOCKS_PATH = '/cosmos/base/tendermint/v1beta1/blocks';
+
+let cachedReading: BlockHeightReading | null = null;
+let lastKnownReading: BlockHeightReading | null = null;
+let cachedBlockTime: { value: BlockTime; at: number } | null = null;
+
+function remember(height: number, source: BlockHeightSource, now: number): BlockHeightReading {
+  cachedReading = { height, source, observed_at: now };
+  lastKnownReading = cachedReading;
+  return cachedReading;
+}
+
+/**
+ * Get the current block height and where it came from
+ *
+ * It's okay for this value to be a little stale: proof-of-work difficulty
+ * only changes every few blocks.
+ *
+ * @returns Height reading
+ * @throws Error if no source answered and no height was ever read
+ */
+export async function getBlockHeight(): Promise<BlockHeightReading> {
+  const now = Date.now();
+
+  // Return cached value if still fresh
+  if (cachedReading !== null && (now - cachedReading.observed_at) < BLOCK_HEIGHT_CACHE_MS) {
+    return cachedReading;
+  }
+
+  // Primary: structs.current_block (chain (PK), height, updated_at); latest row of any chain
+  if (config.databaseUrl) {
+    try {
+      const result = await query(
+        'SELECT height FROM structs.current_block ORDER BY updated_at DESC LIMIT 1',
+        []
+      );
+      const height = Number(result.rows[0]?.height);
+      if (!isNaN(height) && height > 0) {
+        return remember(height, 'database', now);
+      }
+    } catch (dbError) {
+      log.warn('Block height database query failed', { error: dbError });
+    }
+  }
+
+  // Fallback: consensus API
+  try {
+    const response = await getConsensusClient().get('/structs/blockheight', {
+      timeout: 5000, // Shorter timeout for fallback
+    });
+    // Response format may vary, try different possible fields
+    const raw = response.data?.blockheight ?? response.data?.blockHeight ?? response.data?.block_height ?? response.data?.height ?? response.data;
+    const height = typeof raw === 'number' ? raw : parseInt(String(raw), 10);
+    if (isNaN(height)) {
+      throw new Error('Could not parse block height from API response');
+    }
+    if (height > 0) {
+      return remember(height, 'api', now);
+    }
+  } catch (apiError) {
+    // Estimate from the last known height and the time elapsed since
+    if (lastKnownReading !== null) {
+      const blocksElapsed = Math.floor((now - lastKnownReading.observed_at) / DEFAULT_BLOCK_TIME_MS);
+      const estimatedHeight = lastKnownReading.height + blocksElapsed;
+      log.warn('Using estimated block height', {
+        block_height: estimatedHeight,
+        last_known: lastKnownReading.height,
+        blocks_estimated: blocksElapsed,
+        error: apiError,
+      });
+      return { height: estimatedHeight, source: blocksElapsed > 0 ? 'estimate' : 'stale_cache', observed_at: now };
+    }
+  }
+
+  throw new Error('Failed to get block height from database (structs.current_block) or API, and no cached/estimated value available');
+}
+
+/**
+ * Get the current block height
+ *
+ * @returns Current block height
+ * @throws Error if no source answered and no height was ever read
+ */
+export async function getCurrentBlockHeight(): Promise<number> {
+  return (await getBlockHeight()).height;
+}
+
+/**
+ * Read a block header's height and time
+ */
+async function getBlockHeader(height: number | 'latest'): Promise<{ height: number; time: number }> {
+  const response = await getConsensusClient().get(`${BLOCKS_PATH}/${height}`, { timeout: 5000 });
+  const header = response.data?.block?.header ?? response.data?.sdk_block?.header;
+  const time = Date.parse(header?.time);
+  if (!header || isNaN(time)) {
+    throw new Error(`Block ${height} has no header time`);
+  }
+  return { height: Number(header.height), time };
+}
+
+/**
+ * Measure the average block time
+ *
+ * @returns Average block time (the 5 second default when the node's blocks can't be read)
+ */
+export async function getBlockTime(): Promise<BlockTime> {
+  if (cachedBlockTime && Date.now() - cachedBlockTime.at < BLOCK_TIME_CACHE_MS) {
+    return cachedBlockTime.value;
+  }
+  try {
+    const latest = await getBlockHeader('latest');
+    const window = Math.min(BLOCK_TIME_WINDOW, latest.height - 1);
+    const earlier = window > 0 ? await getBlockHeader(latest.height - window) : latest;
+    const value: BlockTime = {
+      average_ms: window > 0 ? Math.round((latest.time - earlier.time) / window) : DEFAULT_BLOCK_TIME_MS,
+      source: window > 0 ? 'measured' : 'default',
+      window: window > 0 ? window : undefined,
+      latest_height: latest.height,
+      latest_time: new Date(latest.time).toISOString(),
+    };
+    cachedBlockTime = { value, at: Date.now() };
+    return value;
+  } catch (error) {
+    log.debug('Could not measure block time', { error });
+    return { average_ms: DEFAULT_BLOCK_TIME_MS, source: 'default' };
+  }
+}
+
+/**
+ * When a block was or will be produced
+ *
+ * Past blocks are read from their header; future ones are estimated from
+ * the latest block and the average block time.
+ *
+ * @param height - Block height
+ * @param current - Current height
+ * @param blockTime - Average block time
+ * @returns Block time conversion
+ */
+export async function blockToTime(height: number, current: BlockHeightReading, blockTime: BlockTime): Promise<BlockTimeConversion> {
+  const now = Date.now();
+  if (height <= (blockTime.latest_height ?? current.height)) {
+    try {
+      const header = await getBlockHeader(height);
+      return {
+        height,
+        time: new Date(header.time).toISOString(),
+        blocks_away: height - current.height,
+        seconds_away: Math.round((header.time - now) / 1000),
+        estimated: false,
+      };
+    } catch {
+      // Pruned or unreachable: estimate below
+    }
+  }
+  const [baseHeight, baseTime] = blockTime.latest_height !== undefined && blockTime.latest_time
+    ? [blockTime.latest_height, Date.parse(blockTime.latest_time)]
+    : [current.height, current.observed_at];
+  const time = baseTime + (height - baseHeight) * blockTime.average_ms;
+  return {
+    height,
+    time: new Date(time).toISOString(),
+    blocks_away: height - current.height,
+    seconds_away: Math.round((time - now) / 1000),
+    estimated: true,
+  };
+}
+
+/**
+ * Parse a time: ISO 8601, or "HH:MM[:SS]" for the next occurrence of that UTC time of day
+ *
+ * @param value - Time
+ * @param now - Reference time (ms since epoch)
+ * @returns Time in ms since epoch
+ * @throws Error if the value isn't a time
+ */
+export function parseClockTime(value: string, now: number = Date.now()): number {
+  const timeOfDay = value.trim().match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?$/);
+  if (timeOfDay) {
+    const [hours, minutes, seconds] = [Number(timeOfDay[1]), Number(timeOfDay[2]), Number(timeOfDay[3] ?? 0)];
+    if (hours > 23 || minutes > 59 || seconds > 59) {
+      throw new Error(`Invalid time: "${value}"`);
+    }
+    const date = new Date(now);
+    date.setUTCHours(hours, minutes, seconds, 0);
+    if (date.getTime() <= now) {
+      date.setUTCDate(date.getUTCDate() + 1);
+    }
+    return date.getTime();
+  }
+  const time = Date.parse(value);
+  if (isNaN(time)) {
+    throw new Error(`Invalid time: "${value}". Use ISO 8601 (e.g. "2026-01-01T14:00:00Z") or "HH:MM" (UTC)`);
+  }
+  return time;
+}
+
+/**
+ * Which block is produced at a time
+ *
+ * @param time - Time in ms since epoch
+ * @param current - Current height
+ * @param blockTime - Average block time
+ * @returns Estimated first block at or after the time
+ */
+export function timeToBlock(time: number, current: BlockHeightReading, blockTime: BlockTime): BlockTimeConversion {
+  const [baseHeight, baseTime] = blockTime.latest_height !== undefined && blockTime.latest_time
+    ? [blockTime.latest_height, Date.parse(blockTime.latest_time)]
+    : [current.height, current.observed_at];
+  const height = baseHeight + Math.ceil((time - baseTime) / blockTime.average_ms);
+  return {
+    height,
+    time: new Date(time).toISOString(),
+    blocks_away: height - current.height,
+    seconds_away: Math.round((time - Date.now()) / 1000),
+    estimated: true,
+  };
+}
+
+/**
+ * Forget cached heights and block times (useful for testing)
+ */
+export function resetBlockClock(): void {
+  cachedReading = null;
+  lastKnownReading = null;
+  cachedBlockTime = null;
+}
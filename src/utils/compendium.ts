@@ -19,6 +19,9 @@ import { existsSync } from 'fs';
 import { mkdir, readdir, rm } from 'fs/promises';
 import path from 'path';
 import { spawn } from 'child_process';
+import { createLogger } from './logger.js';
+
+const log = createLogger('compendium');
 
 /**
  * Determine if a directory exists and has at least one entry.
@@ -38,6 +41,20 @@ async function directoryExistsAndNonEmpty(dir: string): Promise<boolean> {
   }
 }
 
+/**
+ * Check whether the compendium directory exists and has content.
+ *
+ * @param aiDocsPath - AI docs directory
+ * @returns true if the compendium is present
+ */
+export async function isCompendiumPresent(aiDocsPath: string): Promise<boolean> {
+  try {
+    return await directoryExistsAndNonEmpty(aiDocsPath);
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Run `git clone` using spawn to avoid shell escaping issues.
  *
@@ -91,12 +108,10 @@ export async function ensureCompendiumPresent(aiDocsPath: string): Promise<void>
     return;
   }
 
-  console.error(
-    `📦 Structs Compendium not found at ${targetDir} (directory missing or empty).`
-  );
-  console.error(
-    `   Cloning from ${repoUrl}...`
-  );
+  log.info('Structs Compendium not found (directory missing or empty), cloning', {
+    path: targetDir,
+    repository: repoUrl,
+  });
 
   // Ensure parent directory exists
   const parentDir = path.dirname(targetDir);
@@ -112,12 +127,13 @@ export async function ensureCompendiumPresent(aiDocsPath: string): Promise<void>
 
   try {
     await runGitClone(repoUrl, targetDir);
-    console.error(`✅ Structs Compendium cloned to ${targetDir}`);
+    log.info('Structs Compendium cloned', { path: targetDir });
   } catch (error) {
-    console.error('❌ Failed to clone Structs Compendium repository.');
-    console.error('   Please ensure that `git` is installed and accessible in PATH.');
-    console.error(`   Target directory: ${targetDir}`);
-    console.error(`   Repository URL: ${repoUrl}`);
+    log.error('Failed to clone Structs Compendium repository. Please ensure that `git` is installed and accessible in PATH.', {
+      path: targetDir,
+      repository: repoUrl,
+      error,
+    });
     throw error;
   }
 }
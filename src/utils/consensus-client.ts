@@ -0,0 +1,350 @@
+/**
+ * Consensus API Client
+ *
+ * The one HTTP client for reads against the consensus (Cosmos REST) API.
+ * Every request gets:
+ *
+ * - A timeout per attempt (`consensus.timeout`, overridable per call)
+ * - Retries with exponential backoff on 5xx responses (except 501) and timeouts
+ * - A circuit breaker: after `consensus.breakerThreshold` consecutive
+ *   failures, requests fail fast for `consensus.breakerReset` ms; then one
+ *   trial request decides whether the node is back
+ * - De-duplication: identical GETs already in flight share one request, which
+ *   is aborted only when every caller waiting for it has been cancelled
+ *
+ * Failures are thrown as errors with a `code` (`API_<status>`, `API_TIMEOUT`,
+ * `API_UNAVAILABLE` or `API_CIRCUIT_OPEN`) that `toApiError()` maps to the
+ * structured `createApiError()` format.
+ *
+ * @module utils/consensus-client
+ */
+
+import axios, { type AxiosAdapter } from 'axios';
+import { config } from '../config.js';
+import { createApiError, type StructuredError } from './errors.js';
+import { createLogger } from './logger.js';
+import { getAbortSignal, runWithRequestContext, sleep, throwIfCancelled } from './request-context.js';
+
+const log = createLogger('consensus-client');
+
+/**
+ * Circuit breaker state
+ */
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+/**
+ * Client settings (defaults come from `config.consensus`)
+ */
+export interface ConsensusClientOptions {
+  baseUrl: string;
+  timeout: number;
+  retries: number;
+  retryDelay: number;
+  breakerThreshold: number;
+  breakerReset: number;
+  /** Axios adapter to send requests with (tests) */
+  adapter?: AxiosAdapter;
+}
+
+/**
+ * Options for one request
+ */
+export interface ConsensusRequestOptions {
+  params?: Record<string, string>;
+  headers?: Record<string, string>;
+  /** Timeout per attempt, in ms */
+  timeout?: number;
+}
+
+/**
+ * Successful response
+ */
+export interface ConsensusResponse<T> {
+  data: T;
+  status: number;
+  /** Response headers, lower-cased */
+  headers: Record<string, string>;
+}
+
+/**
+ * Failed request
+ */
+export interface ConsensusRequestError extends Error {
+  /** `API_<status>`, `API_TIMEOUT`, `API_UNAVAILABLE` or `API_CIRCUIT_OPEN` */
+  code: string;
+  status?: number;
+  url: string;
+  attempts: number;
+}
+
+/**
+ * Consensus API client
+ */
+export interface ConsensusClient {
+  /**
+   * GET a path on the consensus API
+   *
+   * @param path - Path below the base URL (e.g. `/structs/player/1-11`)
+   * @param options - Query parameters, headers and timeout
+   * @returns Response data, status and headers
+   * @throws ConsensusRequestError on failure, or an Error if the request was cancelled
+   */
+  get<T = any>(path: string, options?: ConsensusRequestOptions): Promise<ConsensusResponse<T>>;
+  /** Current circuit breaker state */
+  getCircuitState(): CircuitState;
+}
+
+/**
+ * Check whether an error came from the consensus client
+ */
+export function isConsensusError(error: unknown): error is ConsensusRequestError {
+  return error instanceof Error && typeof (error as ConsensusRequestError).attempts === 'number';
+}
+
+/**
+ * Convert a consensus client error to the structured API error format
+ *
+ * @param error - Error thrown by the client
+ * @returns Structured error (`API_404`, `API_TIMEOUT`, ...)
+ */
+export function toApiError(error: ConsensusRequestError): StructuredError {
+  const structured = createApiError(error.message, error.code.replace(/^API_/, ''));
+  structured.error.details = {
+    ...structured.error.details,
+    url: error.url,
+    attempts: error.attempts,
+    ...(error.status !== undefined ? { status: error.status } : {}),
+  };
+  return structured;
+}
+
+function createRequestError(
+  message: string,
+  fields: { code: string; status?: number; url: string; attempts: number }
+): ConsensusRequestError {
+  return Object.assign(new Error(message), fields);
+}
+
+/**
+ * Classify a failed attempt
+ */
+function describeFailure(error: unknown, timeout: number): {
+  message: string;
+  code: string;
+  status?: number;
+  retryable: boolean;
+  nodeFailure: boolean;
+} {
+  if (axios.isAxiosError(error)) {
+    const status = error.response?.status;
+    if (status !== undefined) {
+      // 501: the node is fine but doesn't serve this endpoint
+      const serverError = status >= 500 && status !== 501;
+      return {
+        message: `API error: ${status} ${error.response?.statusText || error.message}`,
+        code: `API_${status}`,
+        status,
+        retryable: serverError,
+        nodeFailure: serverError,
+      };
+    }
+    if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+      return { message: `API error: no response within ${timeout}ms`, code: 'API_TIMEOUT', retryable: true, nodeFailure: true };
+    }
+    return { message: `API error: ${error.message}`, code: 'API_UNAVAILABLE', retryable: false, nodeFailure: true };
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return { message: `API error: ${message}`, code: 'API_UNAVAILABLE', retryable: false, nodeFailure: false };
+}
+
+/**
+ * Request shared by the callers waiting for it
+ */
+interface InFlightRequest {
+  promise: Promise<ConsensusResponse<any>>;
+  controller: AbortController;
+  waiters: number;
+}
+
+/**
+ * Wait for a promise, rejecting early if the signal aborts
+ *
+ * @param onCancel - Called when the signal aborts before the promise settles
+ */
+function withSignal<T>(promise: Promise<T>, signal: AbortSignal | undefined, onCancel?: () => void): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      reject(new Error('Request cancelled by client'));
+      onCancel?.();
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+function sortedEntries(record: Record<string, string> | undefined): Array<[string, string]> {
+  return Object.entries(record ?? {}).sort(([a], [b]) => a.localeCompare(b));
+}
+
+/**
+ * Create a consensus API client
+ *
+ * @param options - Base URL, timeout, retry and circuit breaker settings
+ * @returns Client with its own circuit breaker and in-flight request table
+ */
+export function createConsensusClient(options: ConsensusClientOptions): ConsensusClient {
+  const http = axios.create(options.adapter ? { adapter: options.adapter } : {});
+  const inFlight = new Map<string, InFlightRequest>();
+
+  let state: CircuitState = 'closed';
+  let consecutiveFailures = 0;
+  let openedAt = 0;
+  let trialInFlight = false;
+
+  /**
+   * Let an attempt through, or throw if the circuit is open
+   */
+  function acquire(url: string, attempts: number): void {
+    if (state === 'open' && Date.now() - openedAt >= options.breakerReset) {
+      state = 'half_open';
+    }
+    if (state === 'closed') {
+      return;
+    }
+    if (state === 'half_open' && !trialInFlight) {
+      trialInFlight = true;
+      return;
+    }
+    const retryIn = Math.max(0, Math.ceil((openedAt + options.breakerReset - Date.now()) / 1000));
+    throw createRequestError(
+      `API error: consensus API unavailable (circuit open after ${consecutiveFailures} consecutive failures, retrying in ${retryIn}s)`,
+      { code: 'API_CIRCUIT_OPEN', url, attempts }
+    );
+  }
+
+  function recordResult(url: string, nodeFailure: boolean): void {
+    trialInFlight = false;
+    if (!nodeFailure) {
+      if (state !== 'closed') {
+        log.info('Consensus API circuit closed', { url });
+      }
+      state = 'closed';
+      consecutiveFailures = 0;
+      return;
+    }
+    consecutiveFailures++;
+    if (state === 'half_open' || (state === 'closed' && consecutiveFailures >= options.breakerThreshold)) {
+      state = 'open';
+      openedAt = Date.now();
+      log.warn('Consensus API circuit opened', {
+        url,
+        consecutive_failures: consecutiveFailures,
+        reset_ms: options.breakerReset,
+      });
+    }
+  }
+
+  async function fetchWithRetry<T>(url: string, requestOptions: ConsensusRequestOptions): Promise<ConsensusResponse<T>> {
+    const timeout = requestOptions.timeout ?? options.timeout;
+    const signal = getAbortSignal();
+    for (let attempt = 1; ; attempt++) {
+      acquire(url, attempt - 1);
+      try {
+        const response = await http.get<T>(url, {
+          params: requestOptions.params,
+          headers: requestOptions.headers,
+          timeout,
+          signal,
+        });
+        recordResult(url, false);
+        const headers: Record<string, string> = {};
+        for (const [name, value] of Object.entries(response.headers ?? {})) {
+          if (value !== undefined && value !== null) {
+            headers[name.toLowerCase()] = String(value);
+          }
+        }
+        return { data: response.data, status: response.status, headers };
+      } catch (error) {
+        if (signal?.aborted) {
+          // Says nothing about the node, but frees the trial slot if this was the trial
+          trialInFlight = false;
+          throw new Error('Request cancelled by client');
+        }
+        const failure = describeFailure(error, timeout);
+        recordResult(url, failure.nodeFailure);
+        if (!failure.retryable || attempt > options.retries || state === 'open') {
+          const message = attempt > 1 ? `${failure.message} (after ${attempt} attempts)` : failure.message;
+          throw createRequestError(message, { code: failure.code, status: failure.status, url, attempts: attempt });
+        }
+        const delay = options.retryDelay * 2 ** (attempt - 1);
+        log.debug('Retrying consensus API request', { url, attempt, delay_ms: delay, error: failure.message });
+        await sleep(delay);
+      }
+    }
+  }
+
+  return {
+    async get<T = any>(path: string, requestOptions: ConsensusRequestOptions = {}): Promise<ConsensusResponse<T>> {
+      throwIfCancelled();
+      const url = `${options.baseUrl.replace(/\/+$/, '')}${path}`;
+      const key = JSON.stringify([
+        url,
+        sortedEntries(requestOptions.params),
+        sortedEntries(requestOptions.headers),
+        requestOptions.timeout,
+      ]);
+
+      let shared = inFlight.get(key);
+      if (!shared) {
+        // Runs under its own signal rather than any one caller's, since it is shared
+        const controller = new AbortController();
+        const promise = runWithRequestContext({ signal: controller.signal }, () => fetchWithRetry<T>(url, requestOptions));
+        const request: InFlightRequest = { promise, controller, waiters: 0 };
+        promise.finally(() => {
+          if (inFlight.get(key) === request) {
+            inFlight.delete(key);
+          }
+        }).catch(() => undefined);
+        inFlight.set(key, request);
+        shared = request;
+      }
+
+      const request = shared;
+      request.waiters++;
+      return withSignal(request.promise as Promise<ConsensusResponse<T>>, getAbortSignal(), () => {
+        // The last caller waiting for it was cancelled: stop the request
+        if (--request.waiters === 0) {
+          if (inFlight.get(key) === request) {
+            inFlight.delete(key);
+          }
+          request.controller.abort();
+        }
+      });
+    },
+
+    getCircuitState(): CircuitState {
+      if (state === 'open' && Date.now() - openedAt >= options.breakerReset) {
+        return 'half_open';
+      }
+      return state;
+    },
+  };
+}
+
+let client: ConsensusClient | undefined;
+
+/**
+ * Get the shared consensus API client (configured from `config`)
+ */
+export function getConsensusClient(): ConsensusClient {
+  if (!client) {
+    client = createConsensusClient({
+      baseUrl: config.consensusApiUrl,
+      ...config.consensus,
+    });
+  }
+  return client;
+}
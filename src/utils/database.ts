@@ -8,9 +8,12 @@
 
 import pg from 'pg';
 import { config } from '../config.js';
+import { createLogger } from './logger.js';
 
 const { Pool } = pg;
 
+const log = createLogger('database');
+
 let pool: pg.Pool | null = null;
 
 /**
@@ -43,7 +46,7 @@ export function getDatabasePool(): pg.Pool {
 
     // Handle pool errors
     pool.on('error', (err) => {
-      console.error('Unexpected error on idle database client', err);
+      log.error('Unexpected error on idle database client', { error: err });
     });
   }
 
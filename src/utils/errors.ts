@@ -262,3 +262,24 @@ export function createToolError(
   return error;
 }
 
+/**
+ * Create permission error (caller is authenticated but not allowed)
+ */
+export function createPermissionError(
+  message: string,
+  details?: Record<string, unknown>
+): StructuredError {
+  const error = createStructuredError(new Error(message), {
+    reason: message,
+    errorCode: 'PERMISSION_DENIED',
+  });
+
+  if (details) {
+    error.error.details = {
+      ...error.error.details,
+      ...details,
+    };
+  }
+
+  return error;
+}
@@ -0,0 +1,95 @@
+/**
+ * Event Store
+ *
+ * Bounded in-memory event store for resumable Streamable HTTP sessions.
+ * Clients that lose their SSE stream can reconnect with `Last-Event-ID`
+ * and receive every message sent after that event.
+ *
+ * @module utils/event-store
+ */
+
+import type { EventStore, EventId, StreamId } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Stored event entry
+ */
+interface StoredEvent {
+  eventId: EventId;
+  streamId: StreamId;
+  message: JSONRPCMessage;
+}
+
+/**
+ * In-memory event store with a fixed capacity
+ *
+ * One instance is created per session, so stream IDs only need to be unique
+ * within a session. When the store is full the oldest events are dropped;
+ * a client resuming from a dropped event gets nothing replayed.
+ */
+export class BoundedEventStore implements EventStore {
+  private events: StoredEvent[] = [];
+  private streamByEventId = new Map<EventId, StreamId>();
+  private sequence = 0;
+  private maxEvents: number;
+
+  constructor(maxEvents: number = 1000) {
+    this.maxEvents = Math.max(1, maxEvents);
+  }
+
+  /**
+   * Store an event and return its ID
+   */
+  async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    this.sequence++;
+    const eventId = String(this.sequence);
+    this.events.push({ eventId, streamId, message });
+    this.streamByEventId.set(eventId, streamId);
+
+    // Drop oldest events once over capacity
+    while (this.events.length > this.maxEvents) {
+      const dropped = this.events.shift();
+      if (dropped) {
+        this.streamByEventId.delete(dropped.eventId);
+      }
+    }
+
+    return eventId;
+  }
+
+  /**
+   * Get the stream an event belongs to
+   */
+  async getStreamIdForEventId(eventId: EventId): Promise<StreamId | undefined> {
+    return this.streamByEventId.get(eventId);
+  }
+
+  /**
+   * Replay all events on the same stream that were stored after lastEventId
+   */
+  async replayEventsAfter(
+    lastEventId: EventId,
+    { send }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<StreamId> {
+    const streamId = this.streamByEventId.get(lastEventId);
+    if (streamId === undefined) {
+      return '';
+    }
+
+    const lastSequence = Number(lastEventId);
+    for (const event of this.events) {
+      if (event.streamId === streamId && Number(event.eventId) > lastSequence) {
+        await send(event.eventId, event.message);
+      }
+    }
+
+    return streamId;
+  }
+
+  /**
+   * Number of events currently held
+   */
+  get size(): number {
+    return this.events.length;
+  }
+}
@@ -0,0 +1,672 @@
+/**
+ * Event Stream
+ *
+ * Subscribes to the Structs event subjects on NATS (planet activity,
+ * structs, fleets, players, blocks) and keeps the most recent events of each
+ * subject in a bounded ring buffer, so agents can poll for raids and attacks
+ * instead of discovering them on the next dashboard call.
+ *
+ * Every event gets a cursor (increasing across all subjects). Agents create
+ * subscriptions, filters over the buffered events by subject pattern and/or
+ * entity ID, and poll them for events past their cursor. Only the configured
+ * subjects are subscribed to on NATS; a subscription's subject must overlap
+ * them. Subscriptions have random IDs and belong to the client (API key or
+ * session) that created them. The connection is opened on first use and
+ * re-established whenever it drops.
+ *
+ * @module utils/event-stream
+ */
+
+import { randomUUID } from 'crypto';
+import { connect } from 'nats';
+import { config } from '../config.js';
+import { getEntityTypeFromId } from '../types/references.js';
+import { createLogger } from './logger.js';
+import { invalidateEntities } from './query-cache.js';
+
+const log = createLogger('event-stream');
+
+/**
+ * Connection state
+ */
+export type StreamState = 'idle' | 'connecting' | 'connected' | 'reconnecting' | 'closed';
+
+/**
+ * One event received from NATS
+ */
+export interface StreamEvent {
+  /** Position in the stream; increases across all subjects */
+  cursor: number;
+  subject: string;
+  /** Entity type from the subject (e.g. `planet` for `structs.planet.2-1`) */
+  entity_type?: string;
+  /** Entity the subject names, if any */
+  entity_id?: string;
+  /** Entity IDs named by the subject or the payload */
+  entity_ids: string[];
+  /** Payload (parsed JSON, or the raw text) */
+  data: unknown;
+  received_at: string;
+}
+
+/**
+ * Which events a subscription receives (all must match; empty receives everything)
+ */
+export interface EventFilter {
+  /** Subject pattern; `*` matches one token, `>` the rest */
+  subject?: string;
+  /** Only events naming this entity */
+  entity_id?: string;
+}
+
+/**
+ * An agent's subscription
+ */
+export interface EventSubscription {
+  subscription_id: string;
+  filter: EventFilter;
+  /** Last cursor delivered; the next poll returns events after it */
+  cursor: number;
+  created_at: string;
+  last_polled_at?: string;
+}
+
+/**
+ * Options for one poll
+ */
+export interface PollOptions {
+  /** Return events after this cursor (default: the subscription's cursor, or 0) */
+  cursor?: number;
+  limit?: number;
+  /** Wait up to this many ms for an event when none are buffered */
+  waitMs?: number;
+  /** Stop waiting when this signal aborts */
+  signal?: AbortSignal;
+  /** Client polling; must be the one that created the subscription */
+  owner?: string;
+}
+
+/**
+ * Poll result
+ */
+export interface PollResult {
+  events: StreamEvent[];
+  /** Cursor to poll from next */
+  next_cursor: number;
+  /** More matching events are buffered past `next_cursor` */
+  has_more: boolean;
+  /** Matching events after the cursor were evicted before they were read */
+  events_missed: boolean;
+}
+
+/**
+ * Connection and buffer state
+ */
+export interface StreamStatus {
+  state: StreamState;
+  servers: string;
+  subjects: string[];
+  connected_at?: string;
+  reconnects: number;
+  last_error?: string;
+  buffered_subjects: number;
+  buffered_events: number;
+  /** Cursor of the latest event */
+  latest_cursor: number;
+  subscriptions: number;
+}
+
+/**
+ * A received message (the subset of a NATS `Msg` the stream reads)
+ */
+export interface StreamMessage {
+  subject: string;
+  data: Uint8Array;
+}
+
+/**
+ * A NATS connection (the subset of `NatsConnection` the stream uses)
+ */
+export interface StreamConnection {
+  subscribe(subject: string, options: { callback: (error: Error | null, message: StreamMessage) => void }): { unsubscribe(): void };
+  status(): AsyncIterable<{ type: string; data?: unknown }>;
+  closed(): Promise<void | Error>;
+  drain(): Promise<void>;
+}
+
+/**
+ * Stream settings (defaults come from `config.natsUrl` and `config.events`)
+ */
+export interface EventStreamOptions {
+  servers: string;
+  /** Subjects to subscribe to */
+  subjects: string[];
+  /** Events kept per subject */
+  bufferSize: number;
+  /** Subjects buffered at once; the least recently active are dropped */
+  maxSubjects: number;
+  maxSubscriptions: number;
+  /** Subscriptions not polled for this long (ms) are removed */
+  subscriptionIdleTimeout: number;
+  /** First delay before reconnecting after the connection is lost (ms) */
+  reconnectDelay: number;
+  /** Opens the connection (tests) */
+  connect?: (options: { servers: string; name: string; reconnect: boolean; maxReconnectAttempts: number; reconnectTimeWait: number }) => Promise<StreamConnection>;
+}
+
+/**
+ * Event stream
+ */
+export interface EventStream {
+  /** Connect in the background, if not already connecting or connected */
+  start(): void;
+  /** Close the connection and stop reconnecting */
+  close(): Promise<void>;
+  getStatus(): StreamStatus;
+  /**
+   * Create a subscription
+   *
+   * @param filter - Events to receive
+   * @param fromStart - Receive the events already buffered, not just new ones
+   * @param owner - Client creating it (API key or session); only it may poll
+   * @returns Subscription
+   * @throws Error if the subject pattern is invalid or outside the configured
+   *   subjects, or the subscription limit is reached
+   */
+  subscribe(filter: EventFilter, fromStart?: boolean, owner?: string): EventSubscription;
+  /** Get a subscription, if it exists and belongs to `owner` */
+  getSubscription(subscriptionId: string, owner?: string): EventSubscription | undefined;
+  /**
+   * Poll a subscription for events after its cursor, and advance the cursor
+   *
+   * @throws Error if the subscription doesn't exist or belongs to another client
+   */
+  poll(subscriptionId: string, options?: PollOptions): Promise<PollResult>;
+  /** Poll buffered events matching a filter, without a subscription */
+  pollFilter(filter: EventFilter, options?: PollOptions): Promise<PollResult>;
+  /** Add a received message to the buffers (called for each NATS message) */
+  ingest(message: StreamMessage): StreamEvent;
+  /**
+   * Call a function for every event received from now on
+   *
+   * @returns Function that removes the listener
+   */
+  onEvent(listener: (event: StreamEvent) => void): () => void;
+}
+
+const MAX_PAYLOAD_IDS = 50;
+const MAX_RECONNECT_DELAY = 30000;
+
+/**
+ * Fixed-size buffer that overwrites its oldest item
+ */
+class RingBuffer<T> {
+  private items: T[] = [];
+  private start = 0;
+
+  constructor(private readonly capacity: number) {}
+
+  /**
+   * Add an item
+   *
+   * @returns The evicted item, if the buffer was full
+   */
+  push(item: T): T | undefined {
+    if (this.items.length < this.capacity) {
+      this.items.push(item);
+      return undefined;
+    }
+    const evicted = this.items[this.start];
+    this.items[this.start] = item;
+    this.start = (this.start + 1) % this.capacity;
+    return evicted;
+  }
+
+  /** Items, oldest first */
+  toArray(): T[] {
+    return [...this.items.slice(this.start), ...this.items.slice(0, this.start)];
+  }
+
+  get size(): number {
+    return this.items.length;
+  }
+}
+
+interface SubjectBuffer {
+  events: RingBuffer<StreamEvent>;
+  /** Cursor of the newest event evicted from this buffer */
+  evictedThrough: number;
+}
+
+/**
+ * Check whether a subject pattern is valid
+ */
+export function isValidSubjectPattern(pattern: string): boolean {
+  const tokens = pattern.split('.');
+  return tokens.every((token, index) =>
+    token.length > 0 && !/\s/.test(token) && (token === '>' ? index === tokens.length - 1 : !token.includes('>'))
+  );
+}
+
+/**
+ * Check whether a subject matches a pattern
+ *
+ * Wildcards in `subject` are matched as literal tokens, so this also tells
+ * whether one pattern covers another.
+ *
+ * @param pattern - Pattern; `*` matches one token, `>` one or more
+ * @param subject - Subject
+ */
+export function subjectMatches(pattern: string, subject: string): boolean {
+  const patternTokens = pattern.split('.');
+  const subjectTokens = subject.split('.');
+  for (let i = 0; i < patternTokens.length; i++) {
+    if (patternTokens[i] === '>') {
+      return subjectTokens.length > i;
+    }
+    if (i >= subjectTokens.length || (patternTokens[i] !== '*' && patternTokens[i] !== subjectTokens[i])) {
+      return false;
+    }
+  }
+  return patternTokens.length === subjectTokens.length;
+}
+
+/**
+ * Check whether two subject patterns can match a common subject
+ *
+ * @param a - Pattern; `*` matches one token, `>` one or more
+ * @param b - Pattern
+ */
+export function subjectsOverlap(a: string, b: string): boolean {
+  const aTokens = a.split('.');
+  const bTokens = b.split('.');
+  for (let i = 0; i < Math.max(aTokens.length, bTokens.length); i++) {
+    if (aTokens[i] === '>') {
+      return i < bTokens.length;
+    }
+    if (bTokens[i] === '>') {
+      return i < aTokens.length;
+    }
+    if (aTokens[i] === undefined || bTokens[i] === undefined) {
+      return false;
+    }
+    if (aTokens[i] !== '*' && bTokens[i] !== '*' && aTokens[i] !== bTokens[i]) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Collect the entity IDs in a payload
+ */
+function collectEntityIds(value: unknown, ids: Set<string>, depth = 0): void {
+  if (ids.size >= MAX_PAYLOAD_IDS || depth > 5) {
+    return;
+  }
+  if (typeof value === 'string') {
+    if (getEntityTypeFromId(value)) {
+      ids.add(value);
+    }
+  } else if (Array.isArray(value)) {
+    value.forEach((item) => collectEntityIds(item, ids, depth + 1));
+  } else if (value && typeof value === 'object') {
+    Object.values(value).forEach((item) => collectEntityIds(item, ids, depth + 1));
+  }
+}
+
+function decode(data: Uint8Array): unknown {
+  const text = new TextDecoder().decode(data);
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+function matchesFilter(event: StreamEvent, filter: EventFilter): boolean {
+  return (!filter.subject || subjectMatches(filter.subject, event.subject))
+    && (!filter.entity_id || event.entity_ids.includes(filter.entity_id));
+}
+
+/**
+ * Create an event stream
+ *
+ * @param options - Stream settings
+ * @returns Event stream (not yet connected; see `start()`)
+ */
+export function createEventStream(options: EventStreamOptions): EventStream {
+  const openConnection = options.connect ?? (connect as unknown as NonNullable<EventStreamOptions['connect']>);
+  const buffers = new Map<string, SubjectBuffer>(); // least recently active first
+  const subscriptions = new Map<string, EventSubscription>();
+  const owners = new Map<string, string>(); // subscription ID -> owner, when known
+  const waiters = new Set<() => void>();
+  const listeners = new Set<(event: StreamEvent) => void>();
+
+  let state: StreamState = 'idle';
+  let connection: StreamConnection | undefined;
+  let connectedAt: string | undefined;
+  let lastError: string | undefined;
+  let reconnects = 0;
+  let latestCursor = 0;
+  let droppedSubjectsThrough = 0; // newest cursor in a subject buffer that was dropped
+  let retryTimer: NodeJS.Timeout | undefined;
+
+  // State changes while awaiting, which narrowing can't see
+  const isClosed = () => state === 'closed';
+
+  function listen(subject: string): void {
+    connection?.subscribe(subject, {
+      callback: (error, message) => {
+        if (error) {
+          log.warn('Subscription error', { subject, error });
+          return;
+        }
+        stream.ingest(message);
+      },
+    });
+  }
+
+  async function watchStatus(current: StreamConnection): Promise<void> {
+    for await (const status of current.status()) {
+      if (status.type === 'disconnect' || status.type === 'reconnecting') {
+        state = 'reconnecting';
+      } else if (status.type === 'reconnect') {
+        state = 'connected';
+        reconnects++;
+        log.info('Reconnected to NATS', { servers: options.servers });
+      } else if (status.type === 'error') {
+        lastError = String(status.data);
+      }
+    }
+  }
+
+  async function run(delay: number): Promise<void> {
+    retryTimer = undefined;
+    if (isClosed()) {
+      return;
+    }
+    let current: StreamConnection;
+    try {
+      current = await openConnection({
+        servers: options.servers,
+        name: 'structs-mcp',
+        reconnect: true,
+        maxReconnectAttempts: -1,
+        reconnectTimeWait: options.reconnectDelay,
+      });
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : String(error);
+      if (isClosed()) {
+        return;
+      }
+      if (delay === options.reconnectDelay) {
+        log.warn('Could not connect to NATS; retrying', { servers: options.servers, error });
+      }
+      state = 'reconnecting';
+      schedule(Math.min(delay * 2, MAX_RECONNECT_DELAY), delay);
+      return;
+    }
+    if (isClosed()) {
+      await current.drain().catch(() => {});
+      return;
+    }
+
+    connection = current;
+    state = 'connected';
+    connectedAt = new Date().toISOString();
+    log.info('Connected to NATS', { servers: options.servers, subjects: options.subjects });
+    options.subjects.forEach(listen);
+    watchStatus(current).catch(() => {});
+
+    // Closed: we closed it, or the client gave up reconnecting
+    const closedWith = await current.closed();
+    connection = undefined;
+    if (isClosed()) {
+      return;
+    }
+    lastError = closedWith instanceof Error ? closedWith.message : 'Connection closed';
+    log.warn('NATS connection closed; reconnecting', { error: lastError });
+    state = 'reconnecting';
+    reconnects++;
+    schedule(options.reconnectDelay, options.reconnectDelay);
+  }
+
+  function schedule(nextDelay: number, wait: number): void {
+    retryTimer = setTimeout(() => { void run(nextDelay); }, wait);
+    retryTimer.unref();
+  }
+
+  function pruneSubscriptions(): void {
+    const cutoff = Date.now() - options.subscriptionIdleTimeout;
+    for (const [id, subscription] of subscriptions) {
+      if (Date.parse(subscription.last_polled_at ?? subscription.created_at) < cutoff) {
+        subscriptions.delete(id);
+        owners.delete(id);
+      }
+    }
+  }
+
+  function collect(filter: EventFilter, after: number, limit: number): PollResult {
+    const matching: StreamEvent[] = [];
+    let missed = after < droppedSubjectsThrough;
+    for (const [subject, buffer] of buffers) {
+      if (filter.subject && !subjectMatches(filter.subject, subject)) {
+        continue;
+      }
+      if (buffer.evictedThrough > after) {
+        missed = true;
+      }
+      for (const event of buffer.events.toArray()) {
+        if (event.cursor > after && matchesFilter(event, filter)) {
+          matching.push(event);
+        }
+      }
+    }
+    matching.sort((a, b) => a.cursor - b.cursor);
+    const events = matching.slice(0, limit);
+    const hasMore = matching.length > limit;
+    return {
+      events,
+      // Nothing left to read up to the latest cursor unless the page was cut short
+      next_cursor: hasMore ? events[events.length - 1].cursor : Math.max(after, latestCursor),
+      has_more: hasMore,
+      events_missed: missed,
+    };
+  }
+
+  async function read(filter: EventFilter, after: number, pollOptions: PollOptions): Promise<PollResult> {
+    const limit = pollOptions.limit ?? 100;
+    let result = collect(filter, after, limit);
+    const deadline = Date.now() + (pollOptions.waitMs ?? 0);
+    while (result.events.length === 0 && Date.now() < deadline && !pollOptions.signal?.aborted) {
+      await new Promise<void>((resolve) => {
+        const done = () => {
+          clearTimeout(timer);
+          waiters.delete(done);
+          pollOptions.signal?.removeEventListener('abort', done);
+          resolve();
+        };
+        const timer = setTimeout(done, deadline - Date.now());
+        waiters.add(done);
+        pollOptions.signal?.addEventListener('abort', done);
+      });
+      result = collect(filter, after, limit);
+    }
+    return result;
+  }
+
+  const stream: EventStream = {
+    start() {
+      if (state === 'idle') {
+        state = 'connecting';
+        void run(options.reconnectDelay);
+      }
+    },
+
+    async close() {
+      state = 'closed';
+      if (retryTimer) {
+        clearTimeout(retryTimer);
+        retryTimer = undefined;
+      }
+      const current = connection;
+      connection = undefined;
+      await current?.drain().catch(() => {});
+      waiters.forEach((wake) => wake());
+    },
+
+    getStatus() {
+      let bufferedEvents = 0;
+      buffers.forEach((buffer) => { bufferedEvents += buffer.events.size; });
+      return {
+        state,
+        servers: options.servers,
+        subjects: [...options.subjects],
+        connected_at: connectedAt,
+        reconnects,
+        last_error: lastError,
+        buffered_subjects: buffers.size,
+        buffered_events: bufferedEvents,
+        latest_cursor: latestCursor,
+        subscriptions: subscriptions.size,
+      };
+    },
+
+    subscribe(filter, fromStart = false, owner) {
+      if (filter.subject !== undefined && !isValidSubjectPattern(filter.subject)) {
+        throw new Error(`Invalid subject pattern: "${filter.subject}". Use dot-separated tokens; * matches one token, > the rest`);
+      }
+      // Only the configured subjects are received, so nothing else could ever match
+      if (filter.subject && !options.subjects.some((subject) => subjectsOverlap(subject, filter.subject!))) {
+        throw new Error(`Subject "${filter.subject}" is outside the subscribed event subjects (${options.subjects.join(', ')})`);
+      }
+      pruneSubscriptions();
+      if (subscriptions.size >= options.maxSubscriptions) {
+        throw new Error(`Subscription limit reached (${options.maxSubscriptions}); poll or let idle subscriptions expire`);
+      }
+
+      const subscription: EventSubscription = {
+        subscription_id: `sub-${randomUUID()}`,
+        filter: { ...filter },
+        cursor: fromStart ? 0 : latestCursor,
+        created_at: new Date().toISOString(),
+      };
+      subscriptions.set(subscription.subscription_id, subscription);
+      if (owner !== undefined) {
+        owners.set(subscription.subscription_id, owner);
+      }
+      stream.start();
+      return subscription;
+    },
+
+    getSubscription(subscriptionId, owner) {
+      pruneSubscriptions();
+      const subscriptionOwner = owners.get(subscriptionId);
+      // Another client's subscription looks the same as a missing one
+      if (subscriptionOwner !== undefined && subscriptionOwner !== owner) {
+        return undefined;
+      }
+      return subscriptions.get(subscriptionId);
+    },
+
+    async poll(subscriptionId, pollOptions = {}) {
+      const subscription = stream.getSubscription(subscriptionId, pollOptions.owner);
+      if (!subscription) {
+        throw new Error(`Subscription not found: ${subscriptionId}. It may have expired after ${Math.round(options.subscriptionIdleTimeout / 60000)} minutes without a poll`);
+      }
+      subscription.last_polled_at = new Date().toISOString();
+      const result = await read(subscription.filter, pollOptions.cursor ?? subscription.cursor, pollOptions);
+      subscription.cursor = result.next_cursor;
+      subscription.last_polled_at = new Date().toISOString();
+      return result;
+    },
+
+    async pollFilter(filter, pollOptions = {}) {
+      stream.start();
+      return read(filter, pollOptions.cursor ?? 0, pollOptions);
+    },
+
+    ingest(message) {
+      const data = decode(message.data);
+      const tokens = message.subject.split('.');
+      const subjectId = tokens.find((token) => getEntityTypeFromId(token) !== null);
+      const ids = new Set<string>(subjectId ? [subjectId] : []);
+      collectEntityIds(data, ids);
+
+      const event: StreamEvent = {
+        cursor: ++latestCursor,
+        subject: message.subject,
+        entity_type: tokens[0] === 'structs' && tokens.length > 1 ? tokens[1] : undefined,
+        entity_id: subjectId,
+        entity_ids: [...ids],
+        data,
+        received_at: new Date().toISOString(),
+      };
+
+      let buffer = buffers.get(message.subject);
+      if (buffer) {
+        buffers.delete(message.subject); // re-inserted as most recently active
+      } else {
+        buffer = { events: new RingBuffer(options.bufferSize), evictedThrough: 0 };
+        if (buffers.size >= options.maxSubjects) {
+          const [oldestSubject, oldest] = buffers.entries().next().value as [string, SubjectBuffer];
+          const newest = oldest.events.toArray().pop();
+          droppedSubjectsThrough = Math.max(droppedSubjectsThrough, newest?.cursor ?? 0);
+          buffers.delete(oldestSubject);
+        }
+      }
+      buffers.set(message.subject, buffer);
+      const evicted = buffer.events.push(event);
+      if (evicted) {
+        buffer.evictedThrough = evicted.cursor;
+      }
+
+      waiters.forEach((wake) => wake());
+      for (const listener of listeners) {
+        try {
+          listener(event);
+        } catch (error) {
+          log.warn('Event listener failed', { subject: event.subject, error });
+        }
+      }
+      return event;
+    },
+
+    onEvent(listener) {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+  };
+
+  return stream;
+}
+
+let eventStream: EventStream | undefined;
+
+/**
+ * Get the shared event stream (configured from `config`)
+ *
+ * Cached state of the entities an event names is invalidated as it arrives.
+ */
+export function getEventStream(): EventStream {
+  if (!eventStream) {
+    eventStream = createEventStream({
+      servers: config.natsUrl,
+      ...config.events,
+      subjects: config.events.subjects.split(',').map((subject) => subject.trim()).filter(Boolean),
+    });
+    eventStream.onEvent((event) => {
+      invalidateEntities(event.entity_ids);
+    });
+  }
+  return eventStream;
+}
+
+/**
+ * Close the shared event stream, if it was created
+ */
+export async function closeEventStream(): Promise<void> {
+  await eventStream?.close();
+  eventStream = undefined;
+}
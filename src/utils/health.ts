@@ -0,0 +1,160 @@
+/**
+ * Health Checks
+ *
+ * Dependency checks behind the HTTP `/healthz`, `/readyz` and `/metrics`
+ * endpoints: consensus API reachability, Postgres reachability, compendium
+ * presence, current block height and the proof-of-work job queue.
+ *
+ * @module utils/health
+ */
+
+import axios from 'axios';
+import { config } from '../config.js';
+import { checkDatabaseConnection } from './database.js';
+import { isCompendiumPresent } from './compendium.js';
+import { getProcessManager } from './process-manager.js';
+import { getConsensusClient } from './consensus-client.js';
+import type { GaugeSample } from './metrics.js';
+
+/**
+ * Result of a single dependency check
+ */
+export interface DependencyCheck {
+  status: 'up' | 'down' | 'not_configured';
+  latency_ms?: number;
+  error?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Full health report
+ */
+export interface HealthReport {
+  status: 'ok' | 'degraded' | 'unavailable';
+  ready: boolean;
+  checks: {
+    consensus_api: DependencyCheck;
+    database: DependencyCheck;
+    compendium: DependencyCheck;
+  };
+  block_height?: number;
+  jobs: ReturnType<ReturnType<typeof getProcessManager>['getQueueStats']>;
+  uptime_seconds: number;
+  timestamp: string;
+}
+
+const startedAt = Date.now();
+
+/**
+ * Check the consensus API and read the current block height
+ *
+ * Probes the node directly (no retries or circuit breaker) and reports the
+ * shared client's circuit state alongside.
+ */
+async function checkConsensusApi(): Promise<DependencyCheck & { block_height?: number }> {
+  const start = Date.now();
+  try {
+    const response = await axios.get(`${config.consensusApiUrl}/structs/blockheight`, {
+      timeout: 3000,
+    });
+    const raw = response.data?.blockheight ?? response.data?.block_height ?? response.data?.height ?? response.data;
+    const height = parseInt(String(raw), 10);
+    return {
+      status: 'up',
+      latency_ms: Date.now() - start,
+      url: config.consensusApiUrl,
+      circuit: getConsensusClient().getCircuitState(),
+      block_height: isNaN(height) ? undefined : height,
+    };
+  } catch (error) {
+    return {
+      status: 'down',
+      latency_ms: Date.now() - start,
+      url: config.consensusApiUrl,
+      circuit: getConsensusClient().getCircuitState(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Check Postgres (optional dependency)
+ */
+async function checkDatabase(): Promise<DependencyCheck> {
+  if (!config.databaseUrl) {
+    return { status: 'not_configured' };
+  }
+  const start = Date.now();
+  const up = await checkDatabaseConnection();
+  return {
+    status: up ? 'up' : 'down',
+    latency_ms: Date.now() - start,
+  };
+}
+
+/**
+ * Run all dependency checks
+ *
+ * The server is ready when the consensus API is reachable, the compendium
+ * is present, and the database is reachable if one is configured.
+ *
+ * @param aiDocsPath - Compendium path
+ * @returns Health report
+ */
+export async function getHealthReport(aiDocsPath: string): Promise<HealthReport> {
+  const [consensus, database, compendiumPresent] = await Promise.all([
+    checkConsensusApi(),
+    checkDatabase(),
+    isCompendiumPresent(aiDocsPath),
+  ]);
+
+  const { block_height: blockHeight, ...consensusCheck } = consensus;
+  const compendium: DependencyCheck = {
+    status: compendiumPresent ? 'up' : 'down',
+    path: aiDocsPath,
+  };
+
+  const ready =
+    consensusCheck.status === 'up' &&
+    compendium.status === 'up' &&
+    database.status !== 'down';
+  const allDown = consensusCheck.status === 'down' && compendium.status === 'down';
+
+  return {
+    status: ready ? 'ok' : allDown ? 'unavailable' : 'degraded',
+    ready,
+    checks: {
+      consensus_api: consensusCheck,
+      database,
+      compendium,
+    },
+    block_height: blockHeight,
+    jobs: getProcessManager().getQueueStats(),
+    uptime_seconds: Math.round((Date.now() - startedAt) / 1000),
+    timestamp: new Date().toISOString(),
+  };
+}
+
+/**
+ * Convert a health report to Prometheus gauges
+ */
+export function healthReportToGauges(report: HealthReport): GaugeSample[] {
+  const up = (check: DependencyCheck) => (check.status === 'up' ? 1 : 0);
+  const gauges: GaugeSample[] = [
+    { name: 'structs_mcp_up', help: 'Whether the server is ready (1) or not (0)', value: report.ready ? 1 : 0 },
+    { name: 'structs_mcp_dependency_up', help: 'Dependency reachability', value: up(report.checks.consensus_api), labels: { dependency: 'consensus_api' } },
+    { name: 'structs_mcp_dependency_up', help: 'Dependency reachability', value: up(report.checks.compendium), labels: { dependency: 'compendium' } },
+    { name: 'structs_mcp_uptime_seconds', help: 'Seconds since the server started', value: report.uptime_seconds },
+  ];
+  if (report.checks.database.status !== 'not_configured') {
+    gauges.push({ name: 'structs_mcp_dependency_up', help: 'Dependency reachability', value: up(report.checks.database), labels: { dependency: 'database' } });
+  }
+  if (report.block_height !== undefined) {
+    gauges.push({ name: 'structs_mcp_block_height', help: 'Current chain block height', value: report.block_height });
+  }
+  for (const status of ['queued', 'running', 'waiting', 'completed', 'failed'] as const) {
+    gauges.push({ name: 'structs_mcp_pow_jobs', help: 'Proof-of-work jobs by status', value: report.jobs[status], labels: { status } });
+  }
+  gauges.push({ name: 'structs_mcp_pow_worker_processes', help: 'Live proof-of-work worker processes', value: report.jobs.active_processes });
+  return gauges;
+}
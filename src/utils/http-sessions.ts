@@ -0,0 +1,254 @@
+/**
+ * HTTP Session Manager
+ *
+ * Tracks stateful Streamable HTTP sessions. Each client gets its own MCP
+ * server instance, transport, session ID and event store, so it can receive
+ * server-to-client notifications and resume a dropped stream with
+ * `Last-Event-ID`. Idle sessions (no requests and no open streams) are
+ * closed automatically.
+ *
+ * @module utils/http-sessions
+ */
+
+import { randomUUID } from 'crypto';
+import type { ServerResponse } from 'http';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  StreamableHTTPServerTransport,
+  type StreamableHTTPServerTransportOptions,
+} from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { BoundedEventStore } from './event-store.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('http-sessions');
+
+type HttpRequest = Parameters<StreamableHTTPServerTransport['handleRequest']>[0];
+
+/**
+ * Active HTTP session
+ */
+export interface HttpSession {
+  session_id: string;
+  server: Server;
+  transport: StreamableHTTPServerTransport;
+  /** API key name that opened the session (when auth is enabled) */
+  client_id?: string;
+  created_at: number;
+  last_activity: number;
+  /** Responses still open, e.g. the standalone SSE stream of a GET */
+  open_responses: number;
+}
+
+/**
+ * Session manager options
+ */
+export interface HttpSessionManagerOptions {
+  idleTimeoutMs: number;
+  maxEventsPerSession: number;
+  sweepIntervalMs?: number;
+  /** Transport factory, replaceable in tests */
+  createTransport?: (options: StreamableHTTPServerTransportOptions) => StreamableHTTPServerTransport;
+}
+
+/**
+ * HTTP Session Manager class
+ */
+export class HttpSessionManager {
+  private sessions: Map<string, HttpSession> = new Map();
+  private createServer: () => Server;
+  private options: HttpSessionManagerOptions;
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  constructor(createServer: () => Server, options: HttpSessionManagerOptions) {
+    this.createServer = createServer;
+    this.options = options;
+  }
+
+  /**
+   * Get a session by ID and mark it as active
+   *
+   * @param sessionId - Session ID from the Mcp-Session-Id header
+   * @returns Session or undefined if unknown or already closed
+   */
+  get(sessionId: string): HttpSession | undefined {
+    const session = this.sessions.get(sessionId);
+    if (session) {
+      session.last_activity = Date.now();
+    }
+    return session;
+  }
+
+  /**
+   * Handle a request on a session's transport
+   *
+   * The session counts as active until the response closes, so a client
+   * listening on a long-lived SSE stream is not swept as idle.
+   *
+   * @param session - Session from get()
+   * @param req - HTTP request
+   * @param res - HTTP response
+   * @param body - Parsed request body
+   */
+  async handleRequest(session: HttpSession, req: HttpRequest, res: ServerResponse, body?: unknown): Promise<void> {
+    session.open_responses++;
+    res.once('close', () => {
+      session.open_responses--;
+      session.last_activity = Date.now();
+    });
+    await session.transport.handleRequest(req, res, body);
+  }
+
+  /**
+   * Open a new session with its initialize request
+   *
+   * The session is registered once the transport has generated its ID, which
+   * happens while the initialize request is being handled. If initialization
+   * fails, the session's server and transport are closed again.
+   *
+   * @param req - HTTP request carrying the initialize request
+   * @param res - HTTP response
+   * @param body - Parsed request body
+   * @param clientId - API key name that is opening the session, if any
+   */
+  async open(req: HttpRequest, res: ServerResponse, body: unknown, clientId?: string): Promise<void> {
+    const { server, transport } = await this.create(clientId);
+    try {
+      await transport.handleRequest(req, res, body);
+    } finally {
+      if (!transport.sessionId || !this.sessions.has(transport.sessionId)) {
+        await this.discard(server, transport);
+      }
+    }
+  }
+
+  /**
+   * Create a server and transport for a new session
+   */
+  private async create(clientId?: string): Promise<{ server: Server; transport: StreamableHTTPServerTransport }> {
+    const server = this.createServer();
+    const createdAt = Date.now();
+
+    const createTransport = this.options.createTransport ?? ((options) => new StreamableHTTPServerTransport(options));
+    const transport: StreamableHTTPServerTransport = createTransport({
+      sessionIdGenerator: () => randomUUID(),
+      eventStore: new BoundedEventStore(this.options.maxEventsPerSession),
+      onsessioninitialized: (sessionId) => {
+        this.sessions.set(sessionId, {
+          session_id: sessionId,
+          server,
+          transport,
+          client_id: clientId,
+          created_at: createdAt,
+          last_activity: Date.now(),
+          open_responses: 0,
+        });
+        log.info('HTTP session opened', { session_id: sessionId, client_id: clientId, active_sessions: this.sessions.size });
+      },
+      onsessionclosed: (sessionId) => {
+        this.sessions.delete(sessionId);
+        log.info('HTTP session closed by client', { session_id: sessionId, active_sessions: this.sessions.size });
+      },
+    });
+
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        this.sessions.delete(transport.sessionId);
+      }
+    };
+
+    await server.connect(transport);
+    return { server, transport };
+  }
+
+  /**
+   * Close the server and transport of a session that never initialized
+   */
+  private async discard(server: Server, transport: StreamableHTTPServerTransport): Promise<void> {
+    try {
+      await transport.close();
+      await server.close();
+    } catch (error) {
+      log.warn('Error closing uninitialized HTTP session', { error });
+    }
+    log.info('HTTP session initialization failed', { active_sessions: this.sessions.size });
+  }
+
+  /**
+   * Close a session and release its server and transport
+   *
+   * @param sessionId - Session ID
+   * @returns True if the session existed
+   */
+  async close(sessionId: string): Promise<boolean> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return false;
+    }
+    this.sessions.delete(sessionId);
+    try {
+      await session.server.close();
+    } catch (error) {
+      log.warn('Error closing HTTP session', { session_id: sessionId, error });
+    }
+    return true;
+  }
+
+  /**
+   * Close sessions that have been idle longer than the configured timeout
+   *
+   * @returns Number of sessions closed
+   */
+  async closeIdleSessions(): Promise<number> {
+    const cutoff = Date.now() - this.options.idleTimeoutMs;
+    const idle = Array.from(this.sessions.values()).filter((s) => s.open_responses === 0 && s.last_activity < cutoff);
+    for (const session of idle) {
+      await this.close(session.session_id);
+      log.info('HTTP session expired after inactivity', { session_id: session.session_id });
+    }
+    return idle.length;
+  }
+
+  /**
+   * Start the periodic idle-session sweep
+   */
+  startSweeper(): void {
+    if (this.sweepTimer) {
+      return;
+    }
+    const interval = this.options.sweepIntervalMs ?? Math.min(60000, this.options.idleTimeoutMs);
+    this.sweepTimer = setInterval(() => {
+      this.closeIdleSessions().catch((error) => {
+        log.error('Error sweeping idle HTTP sessions', { error });
+      });
+    }, interval);
+    // Don't keep the process alive just for the sweeper
+    this.sweepTimer.unref();
+  }
+
+  /**
+   * Stop the sweeper and close every session
+   */
+  async closeAll(): Promise<void> {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+    for (const sessionId of Array.from(this.sessions.keys())) {
+      await this.close(sessionId);
+    }
+  }
+
+  /**
+   * All active sessions
+   */
+  list(): HttpSession[] {
+    return Array.from(this.sessions.values());
+  }
+
+  /**
+   * Number of active sessions
+   */
+  get size(): number {
+    return this.sessions.size;
+  }
+}
@@ -0,0 +1,358 @@
+/**
+ * Logger
+ *
+ * Leveled, structured logging for the server and its background workers.
+ *
+ * - Levels follow the MCP logging levels (`debug` … `emergency`); the
+ *   threshold comes from `config.logLevel` (`LOG_LEVEL`).
+ * - Output goes to stderr (stdout is reserved for the stdio transport), as
+ *   one JSON object per line or as plain text (`LOG_FORMAT=text`).
+ * - Each tool call runs in a log context that carries a correlation ID, so
+ *   every line logged while handling the call can be tied back to it.
+ * - Child loggers add fixed fields such as `component` or `job_id`.
+ * - Entries are forwarded to MCP clients as `notifications/message` once the
+ *   client sets a level with `logging/setLevel`: entries logged while handling
+ *   a request go to the client that made it, entries logged outside any
+ *   request only to clients that opted in to background entries.
+ *
+ * @module utils/logger
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  SetLevelRequestSchema,
+  type LoggingLevel,
+  type LoggingMessageNotification,
+  type ServerNotification,
+} from '@modelcontextprotocol/sdk/types.js';
+import { config } from '../config.js';
+
+/**
+ * Log level (same set as MCP logging levels)
+ */
+export type LogLevel = LoggingLevel;
+
+/**
+ * Severity order, lowest first
+ */
+const LEVEL_SEVERITY: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  notice: 2,
+  warning: 3,
+  error: 4,
+  critical: 5,
+  alert: 6,
+  emergency: 7,
+};
+
+/**
+ * One log line
+ */
+export interface LogEntry {
+  timestamp: string;
+  level: LogLevel;
+  message: string;
+  component?: string;
+  request_id?: string;
+  tool?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Destination for log entries other than stderr (e.g. an MCP client)
+ */
+export interface LogSink {
+  /** Minimum level to receive, or undefined to receive nothing */
+  getLevel(): LogLevel | undefined;
+  send(entry: LogEntry): void;
+  /** Also receive entries logged outside any request (jobs, alerts, pollers) */
+  background?: boolean;
+}
+
+/**
+ * Per-request log context
+ */
+export interface LogContext {
+  request_id: string;
+  tool?: string;
+  /** Sink of the client that made the request; request-scoped entries only go there */
+  sink?: LogSink;
+}
+
+/**
+ * Parse a level name, accepting common aliases (warn, fatal)
+ *
+ * @param value - Level name
+ * @param fallback - Level to use when the name is not recognized
+ * @returns Log level
+ */
+export function parseLogLevel(value: string | undefined, fallback: LogLevel = 'info'): LogLevel {
+  const normalized = (value || '').trim().toLowerCase();
+  if (normalized === 'warn') return 'warning';
+  if (normalized === 'fatal') return 'critical';
+  if (normalized in LEVEL_SEVERITY) return normalized as LogLevel;
+  return fallback;
+}
+
+/**
+ * Whether `level` is at or above `threshold`
+ */
+export function isLevelEnabled(level: LogLevel, threshold: LogLevel): boolean {
+  return LEVEL_SEVERITY[level] >= LEVEL_SEVERITY[threshold];
+}
+
+let threshold: LogLevel = parseLogLevel(config.logLevel);
+let writeLine: (line: string) => void = (line) => {
+  process.stderr.write(line + '\n');
+};
+const sinks = new Set<LogSink>();
+const contextStorage = new AsyncLocalStorage<LogContext>();
+
+/**
+ * Set the local (stderr) log threshold
+ */
+export function setLogLevel(level: LogLevel): void {
+  threshold = level;
+}
+
+/**
+ * Replace the stderr writer (useful for testing)
+ */
+export function setLogWriter(writer: (line: string) => void): void {
+  writeLine = writer;
+}
+
+/**
+ * Register a sink; returns a function that unregisters it
+ */
+export function registerLogSink(sink: LogSink): () => void {
+  sinks.add(sink);
+  return () => {
+    sinks.delete(sink);
+  };
+}
+
+/**
+ * Generate a correlation ID for a request
+ */
+export function createRequestId(): string {
+  return randomUUID();
+}
+
+/**
+ * Run a function inside a log context
+ *
+ * Everything logged while `fn` (and anything it awaits) runs carries the
+ * context's request ID and tool name.
+ *
+ * @param context - Log context
+ * @param fn - Function to run
+ * @returns Result of fn
+ */
+export function runWithLogContext<T>(context: LogContext, fn: () => T): T {
+  return contextStorage.run(context, fn);
+}
+
+/**
+ * Get the current log context, if any
+ */
+export function getLogContext(): LogContext | undefined {
+  return contextStorage.getStore();
+}
+
+/**
+ * Make field values JSON-safe (errors become their message)
+ */
+function normalizeFields(fields: Record<string, unknown>): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(fields)) {
+    if (value === undefined) {
+      continue;
+    }
+    result[key] = value instanceof Error ? value.message : value;
+  }
+  return result;
+}
+
+/**
+ * Format an entry as a single text line
+ */
+function formatText(entry: LogEntry): string {
+  const { timestamp, level, message, component, ...rest } = entry;
+  const prefix = component ? `[${component}] ` : '';
+  const extras = Object.entries(rest)
+    .map(([key, value]) => `${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`)
+    .join(' ');
+  return `${timestamp} ${level.toUpperCase().padEnd(7)} ${prefix}${message}${extras ? ` ${extras}` : ''}`;
+}
+
+/**
+ * Logger with fixed bindings
+ */
+export class Logger {
+  constructor(private readonly bindings: Record<string, unknown> = {}) {}
+
+  /**
+   * Create a child logger with additional fixed fields
+   *
+   * @param bindings - Fields added to every entry (e.g. component, job_id)
+   * @returns Child logger
+   */
+  child(bindings: Record<string, unknown>): Logger {
+    return new Logger({ ...this.bindings, ...bindings });
+  }
+
+  debug(message: string, fields?: Record<string, unknown>): void {
+    this.log('debug', message, fields);
+  }
+
+  info(message: string, fields?: Record<string, unknown>): void {
+    this.log('info', message, fields);
+  }
+
+  notice(message: string, fields?: Record<string, unknown>): void {
+    this.log('notice', message, fields);
+  }
+
+  warn(message: string, fields?: Record<string, unknown>): void {
+    this.log('warning', message, fields);
+  }
+
+  error(message: string, fields?: Record<string, unknown>): void {
+    this.log('error', message, fields);
+  }
+
+  /**
+   * Log a message at the given level
+   *
+   * @param level - Log level
+   * @param message - Message
+   * @param fields - Extra structured fields
+   */
+  log(level: LogLevel, message: string, fields: Record<string, unknown> = {}): void {
+    const context = contextStorage.getStore();
+    const toStderr = isLevelEnabled(level, threshold);
+
+    // Request-scoped entries only go to the requesting client, the rest only
+    // to clients that may see every client's background work
+    const candidates = context?.sink ? [context.sink] : Array.from(sinks).filter((sink) => sink.background);
+    const targets = candidates.filter((sink) => {
+      const sinkLevel = sink.getLevel();
+      return sinkLevel !== undefined && isLevelEnabled(level, sinkLevel);
+    });
+
+    if (!toStderr && targets.length === 0) {
+      return;
+    }
+
+    const entry: LogEntry = {
+      timestamp: new Date().toISOString(),
+      level,
+      message,
+      ...normalizeFields(this.bindings),
+      ...(context ? { request_id: context.request_id, tool: context.tool } : {}),
+      ...normalizeFields(fields),
+    };
+
+    if (toStderr) {
+      writeLine(config.logFormat === 'text' ? formatText(entry) : JSON.stringify(entry));
+    }
+    for (const sink of targets) {
+      try {
+        sink.send(entry);
+      } catch {
+        // A disconnected client must not break logging
+      }
+    }
+  }
+}
+
+/**
+ * Root logger
+ */
+export const logger = new Logger();
+
+/**
+ * Create a child logger for a component
+ *
+ * @param component - Component name (e.g. "process-manager", "workflow")
+ * @returns Child logger
+ */
+export function createLogger(component: string): Logger {
+  return logger.child({ component });
+}
+
+/**
+ * Convert a log entry to `notifications/message` params
+ */
+function toLoggingParams(entry: LogEntry): LoggingMessageNotification['params'] {
+  const { level, component, ...data } = entry;
+  return { level, logger: component || 'structs-mcp', data };
+}
+
+/**
+ * Create a sink that sends entries on a single request's response stream
+ *
+ * Used for entries logged while handling a request, so they reach the
+ * client that made it (and arrive before the response).
+ *
+ * @param parent - Client sink (provides the level set by the client)
+ * @param sendNotification - The request handler's `extra.sendNotification`
+ * @returns Request-scoped sink
+ */
+export function createRequestLogSink(
+  parent: LogSink,
+  sendNotification: (notification: ServerNotification) => Promise<void>
+): LogSink {
+  return {
+    getLevel: () => parent.getLevel(),
+    send: (entry) => {
+      sendNotification({ method: 'notifications/message', params: toLoggingParams(entry) }).catch(() => {
+        // Request already finished or client disconnected
+      });
+    },
+  };
+}
+
+/**
+ * Forward log entries to an MCP client
+ *
+ * Registers a `logging/setLevel` handler on the server (the server must
+ * declare the `logging` capability). Nothing is sent until the client sets
+ * a level. The sink is removed when the server closes.
+ *
+ * @param server - MCP server
+ * @param options - `background`: also forward entries logged outside any
+ *   request, which may concern other clients' players and jobs
+ * @returns The sink, for use in request log contexts
+ */
+export function attachMcpLogging(server: Server, options: { background?: boolean } = {}): LogSink {
+  let clientLevel: LogLevel | undefined;
+
+  server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+    clientLevel = request.params.level;
+    return {};
+  });
+
+  const sink: LogSink = {
+    getLevel: () => clientLevel,
+    background: options.background,
+    send: (entry) => {
+      server.sendLoggingMessage(toLoggingParams(entry)).catch(() => {
+        // Not connected (or connection closed); drop the message
+      });
+    },
+  };
+
+  const unregister = registerLogSink(sink);
+  const previousOnClose = server.onclose;
+  server.onclose = () => {
+    unregister();
+    previousOnClose?.();
+  };
+
+  return sink;
+}
@@ -0,0 +1,164 @@
+/**
+ * Metrics
+ *
+ * In-process tool call metrics (counts, latencies, errors) and Prometheus
+ * text exposition for the HTTP `/metrics` endpoint.
+ *
+ * @module utils/metrics
+ */
+
+/**
+ * Latency histogram bucket upper bounds in seconds
+ */
+const LATENCY_BUCKETS = [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+/**
+ * Per-tool call statistics
+ */
+export interface ToolCallStats {
+  calls: number;
+  errors: number;
+  total_duration_ms: number;
+  max_duration_ms: number;
+  /** Cumulative counts per bucket in LATENCY_BUCKETS order */
+  buckets: number[];
+}
+
+/**
+ * Gauge sample rendered alongside tool metrics
+ */
+export interface GaugeSample {
+  name: string;
+  help: string;
+  value: number;
+  labels?: Record<string, string>;
+}
+
+const toolStats = new Map<string, ToolCallStats>();
+
+/**
+ * Record one tool call
+ *
+ * @param toolName - Tool name
+ * @param durationMs - Wall-clock duration in milliseconds
+ * @param isError - Whether the call failed or returned isError
+ */
+export function recordToolCall(toolName: string, durationMs: number, isError: boolean): void {
+  let stats = toolStats.get(toolName);
+  if (!stats) {
+    stats = {
+      calls: 0,
+      errors: 0,
+      total_duration_ms: 0,
+      max_duration_ms: 0,
+      buckets: LATENCY_BUCKETS.map(() => 0),
+    };
+    toolStats.set(toolName, stats);
+  }
+
+  stats.calls++;
+  if (isError) {
+    stats.errors++;
+  }
+  stats.total_duration_ms += durationMs;
+  stats.max_duration_ms = Math.max(stats.max_duration_ms, durationMs);
+
+  const seconds = durationMs / 1000;
+  LATENCY_BUCKETS.forEach((bound, index) => {
+    if (seconds <= bound) {
+      stats!.buckets[index]++;
+    }
+  });
+}
+
+/**
+ * Get a snapshot of per-tool statistics
+ */
+export function getToolCallStats(): Record<string, ToolCallStats & { error_rate: number; avg_duration_ms: number }> {
+  const result: Record<string, ToolCallStats & { error_rate: number; avg_duration_ms: number }> = {};
+  for (const [name, stats] of toolStats.entries()) {
+    result[name] = {
+      ...stats,
+      buckets: [...stats.buckets],
+      error_rate: stats.calls > 0 ? stats.errors / stats.calls : 0,
+      avg_duration_ms: stats.calls > 0 ? stats.total_duration_ms / stats.calls : 0,
+    };
+  }
+  return result;
+}
+
+/**
+ * Reset all tool metrics (useful for testing)
+ */
+export function resetMetrics(): void {
+  toolStats.clear();
+}
+
+/**
+ * Escape a Prometheus label value
+ */
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+/**
+ * Format a label set as {a="b",c="d"}
+ */
+function formatLabels(labels?: Record<string, string>): string {
+  if (!labels || Object.keys(labels).length === 0) {
+    return '';
+  }
+  const parts = Object.entries(labels).map(([key, value]) => `${key}="${escapeLabel(value)}"`);
+  return `{${parts.join(',')}}`;
+}
+
+/**
+ * Render tool metrics and gauges in Prometheus text format (version 0.0.4)
+ *
+ * @param gauges - Point-in-time gauges (health, block height, queue sizes)
+ * @returns Exposition text
+ */
+export function renderPrometheusMetrics(gauges: GaugeSample[] = []): string {
+  const lines: string[] = [];
+
+  lines.push('# HELP structs_mcp_tool_calls_total Tool calls by tool name');
+  lines.push('# TYPE structs_mcp_tool_calls_total counter');
+  for (const [name, stats] of toolStats.entries()) {
+    lines.push(`structs_mcp_tool_calls_total${formatLabels({ tool: name })} ${stats.calls}`);
+  }
+
+  lines.push('# HELP structs_mcp_tool_errors_total Tool calls that failed or returned isError');
+  lines.push('# TYPE structs_mcp_tool_errors_total counter');
+  for (const [name, stats] of toolStats.entries()) {
+    lines.push(`structs_mcp_tool_errors_total${formatLabels({ tool: name })} ${stats.errors}`);
+  }
+
+  lines.push('# HELP structs_mcp_tool_duration_seconds Tool call latency');
+  lines.push('# TYPE structs_mcp_tool_duration_seconds histogram');
+  for (const [name, stats] of toolStats.entries()) {
+    LATENCY_BUCKETS.forEach((bound, index) => {
+      lines.push(`structs_mcp_tool_duration_seconds_bucket${formatLabels({ tool: name, le: String(bound) })} ${stats.buckets[index]}`);
+    });
+    lines.push(`structs_mcp_tool_duration_seconds_bucket${formatLabels({ tool: name, le: '+Inf' })} ${stats.calls}`);
+    lines.push(`structs_mcp_tool_duration_seconds_sum${formatLabels({ tool: name })} ${stats.total_duration_ms / 1000}`);
+    lines.push(`structs_mcp_tool_duration_seconds_count${formatLabels({ tool: name })} ${stats.calls}`);
+  }
+
+  // Group gauges by name so HELP/TYPE appear once per metric
+  const gaugesByName = new Map<string, GaugeSample[]>();
+  for (const gauge of gauges) {
+    if (!gaugesByName.has(gauge.name)) {
+      gaugesByName.set(gauge.name, []);
+    }
+    gaugesByName.get(gauge.name)!.push(gauge);
+  }
+  for (const [name, samples] of gaugesByName.entries()) {
+    lines.push(`# HELP ${name} ${samples[0].help}`);
+    lines.push(`# TYPE ${name} gauge`);
+    for (const sample of samples) {
+      lines.push(`${name}${formatLabels(sample.labels)} ${sample.value}`);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
@@ -13,6 +13,10 @@ import { dirname, join } from 'path';
 import { existsSync, mkdirSync, readFileSync, writeFileSync, renameSync } from 'fs';
 import { createRequire } from 'module';
 import { config } from '../config.js';
+import { createLogger, parseLogLevel, type Logger } from './logger.js';
+import { invalidateEntities } from './query-cache.js';
+
+const log = createLogger('process-manager');
 
 /**
  * Job status
@@ -52,12 +56,19 @@ export interface JobStatus {
   };
 }
 
+/**
+ * Called on every worker status line (`waiting`, `ready`, `difficulty_update`,
+ * ...) and once when the job finishes
+ */
+export type JobUpdateListener = (jobStatus: JobStatus, update?: Record<string, unknown>) => void;
+
 /**
  * Process Manager class
  */
 export class ProcessManager {
   private jobs: Map<string, JobStatus> = new Map();
   private processes: Map<string, ChildProcess> = new Map();
+  private listeners: Map<string, Set<JobUpdateListener>> = new Map();
   private workerPath: string;
   private jobsDataDir: string;
   private jobsFilePath: string;
@@ -82,7 +93,7 @@ export class ProcessManager {
       // For now, use the TypeScript file and assume tsx is available
       this.workerPath = tsPath;
     } else {
-      console.error(`⚠️  Warning: Worker script not found at ${jsPath} or ${tsPath}`);
+      log.warn('Worker script not found', { js_path: jsPath, ts_path: tsPath });
       // Fallback: use the TypeScript path anyway and hope tsx handles it
       this.workerPath = tsPath;
     }
@@ -99,7 +110,7 @@ export class ProcessManager {
           mkdirSync(this.jobsDataDir, { recursive: true });
         }
       } catch (error) {
-        console.error(`⚠️  Warning: Could not create jobs data directory: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        log.warn('Could not create jobs data directory; job persistence disabled', { path: this.jobsDataDir, error });
         this.persistJobs = false;
       }
     }
@@ -162,6 +173,8 @@ export class ProcessManager {
     // In production, the TypeScript should be compiled to JavaScript
     const isTypeScript = this.workerPath.endsWith('.ts');
     const workerArgs = [JSON.stringify(workerJobData)];
+    // Workers always log JSON so their stderr can be parsed and re-emitted
+    const workerEnv = { ...process.env, LOG_FORMAT: 'json' };
     
     let workerProcess: ChildProcess;
     
@@ -178,6 +191,7 @@ export class ProcessManager {
         workerProcess = fork(tsxPath, [this.workerPath, ...workerArgs], {
           stdio: ['pipe', 'pipe', 'pipe', 'ipc'],
           detached: false,
+          env: workerEnv,
           execArgv: [],
         });
       } else {
@@ -187,6 +201,7 @@ export class ProcessManager {
           workerProcess = fork(tsxModule, [this.workerPath, ...workerArgs], {
             stdio: ['pipe', 'pipe', 'pipe', 'ipc'],
             detached: false,
+            env: workerEnv,
             execArgv: [],
           });
         } catch (error) {
@@ -195,6 +210,7 @@ export class ProcessManager {
           workerProcess = fork(this.workerPath, workerArgs, {
             stdio: ['pipe', 'pipe', 'pipe', 'ipc'],
             detached: false,
+            env: workerEnv,
             execArgv: ['--loader', 'tsx/esm'],
           });
         }
@@ -204,6 +220,7 @@ export class ProcessManager {
       workerProcess = fork(this.workerPath, workerArgs, {
         stdio: ['pipe', 'pipe', 'pipe', 'ipc'],
         detached: false,
+        env: workerEnv,
         execArgv: [],
       });
     }
@@ -238,74 +255,33 @@ export class ProcessManager {
       stdout += data.toString();
     });
 
+    const workerLog = createLogger('pow-worker').child({ job_id: jobId });
+    let stderrBuffer = '';
+
     workerProcess.stderr?.on('data', (data: Buffer) => {
       const stderrData = data.toString();
       stderr += stderrData;
-      
-      // Try to parse status updates from stderr (worker logs status to stderr)
-      try {
-        const lines = stderrData.trim().split('\n');
-        for (const line of lines) {
-          if (line.trim().startsWith('{')) {
-            try {
-              const statusUpdate = JSON.parse(line);
-              if (statusUpdate.status === 'waiting') {
-                jobStatus.status = 'waiting';
-                jobStatus.waiting_info = {
-                  current_age: statusUpdate.current_age || 0,
-                  target_age: statusUpdate.target_age || 10,
-                  blocks_remaining: statusUpdate.blocks_remaining || 0,
-                };
-              } else if (statusUpdate.status === 'ready') {
-                // Worker is ready to start proof-of-work
-                jobStatus.status = 'running';
-                delete jobStatus.waiting_info;
-              } else if (statusUpdate.status === 'difficulty_update') {
-                // Difficulty was updated - log this in the result
-                if (!jobStatus.result) {
-                  jobStatus.result = {};
-                }
-                if (!jobStatus.result.difficulty_updates) {
-                  jobStatus.result.difficulty_updates = [];
-                }
-                jobStatus.result.difficulty_updates.push({
-                  old_difficulty: statusUpdate.old_difficulty,
-                  new_difficulty: statusUpdate.new_difficulty,
-                  current_age: statusUpdate.current_age,
-                  iteration: statusUpdate.iteration,
-                  timestamp: new Date().toISOString(),
-                });
-                // Update current difficulty in result
-                if (jobStatus.result.proof_of_work) {
-                  jobStatus.result.proof_of_work.current_difficulty = statusUpdate.new_difficulty;
-                  jobStatus.result.proof_of_work.current_age = statusUpdate.current_age;
-                }
-              } else if (statusUpdate.status === 'error') {
-                // Log errors but don't fail the job yet
-                if (!jobStatus.result) {
-                  jobStatus.result = {};
-                }
-                if (!jobStatus.result.errors) {
-                  jobStatus.result.errors = [];
-                }
-                jobStatus.result.errors.push({
-                  message: statusUpdate.message,
-                  iteration: statusUpdate.iteration,
-                  timestamp: new Date().toISOString(),
-                });
-              }
-            } catch (parseError) {
-              // Not valid JSON, ignore this line
-            }
-          }
-        }
-      } catch (error) {
-        // Not JSON, ignore
+
+      // Only complete lines are parsed; a partial line waits for the next chunk
+      stderrBuffer += stderrData;
+      const lines = stderrBuffer.split('\n');
+      stderrBuffer = lines.pop() || '';
+      for (const line of lines) {
+        this.handleWorkerLine(line, jobStatus, workerLog);
       }
     });
 
     // Handle worker completion
     workerProcess.on('exit', (code, signal) => {
+      if (stderrBuffer) {
+        this.handleWorkerLine(stderrBuffer, jobStatus, workerLog);
+        stderrBuffer = '';
+      }
+      // Killed jobs already have their final status and reason
+      if (jobStatus.completed_at) {
+        this.processes.delete(jobId);
+        return;
+      }
       try {
         if (code === 0 && stdout) {
           // Parse result from stdout
@@ -328,8 +304,15 @@ export class ProcessManager {
         jobStatus.completed_at = new Date().toISOString();
       }
 
+      // The worker submitted a transaction for these entities
+      if (jobStatus.status === 'completed' && jobStatus.job_data) {
+        const { entity_id, target_id, player_id } = jobStatus.job_data;
+        invalidateEntities([entity_id, player_id, ...(target_id ? [target_id] : [])], { pending: true });
+      }
+
       // Clean up process reference
       this.processes.delete(jobId);
+      this.notifyJobListeners(jobStatus);
     });
 
     // Handle worker errors
@@ -338,6 +321,173 @@ export class ProcessManager {
       jobStatus.error = `Worker process error: ${error.message}`;
       jobStatus.completed_at = new Date().toISOString();
       this.processes.delete(jobId);
+      this.notifyJobListeners(jobStatus);
+    });
+  }
+
+  /**
+   * Handle one stderr line from a worker
+   *
+   * Status lines update the job; logger entries and status lines are
+   * re-emitted through the server logger so worker output ends up in the
+   * same stream (and client notifications) as everything else.
+   *
+   * @param line - Raw stderr line
+   * @param jobStatus - Job status object
+   * @param workerLog - Logger bound to the job
+   */
+  private handleWorkerLine(line: string, jobStatus: JobStatus, workerLog: Logger): void {
+    const trimmed = line.trim();
+    if (!trimmed) {
+      return;
+    }
+
+    let parsed: any;
+    try {
+      parsed = trimmed.startsWith('{') ? JSON.parse(trimmed) : undefined;
+    } catch {
+      parsed = undefined;
+    }
+    if (!parsed || typeof parsed !== 'object') {
+      // Plain text output (e.g. an uncaught exception trace)
+      workerLog.info(trimmed);
+      return;
+    }
+
+    // Logger entry written by the worker's own logger
+    if (typeof parsed.level === 'string' && typeof parsed.message === 'string' && !parsed.status) {
+      const { level, message, timestamp: _timestamp, component: _component, job_id: _jobId, ...fields } = parsed;
+      workerLog.log(parseLogLevel(level), message, fields);
+      return;
+    }
+
+    const statusUpdate = parsed;
+    if (statusUpdate.status === 'waiting') {
+      jobStatus.status = 'waiting';
+      jobStatus.waiting_info = {
+        current_age: statusUpdate.current_age || 0,
+        target_age: statusUpdate.target_age || 10,
+        blocks_remaining: statusUpdate.blocks_remaining || 0,
+      };
+    } else if (statusUpdate.status === 'ready') {
+      // Worker is ready to start proof-of-work
+      jobStatus.status = 'running';
+      delete jobStatus.waiting_info;
+    } else if (statusUpdate.status === 'difficulty_update') {
+      // Difficulty was updated - log this in the result
+      if (!jobStatus.result) {
+        jobStatus.result = {};
+      }
+      if (!jobStatus.result.difficulty_updates) {
+        jobStatus.result.difficulty_updates = [];
+      }
+      jobStatus.result.difficulty_updates.push({
+        old_difficulty: statusUpdate.old_difficulty,
+        new_difficulty: statusUpdate.new_difficulty,
+        current_age: statusUpdate.current_age,
+        iteration: statusUpdate.iteration,
+        timestamp: new Date().toISOString(),
+      });
+      // Update current difficulty in result
+      if (jobStatus.result.proof_of_work) {
+        jobStatus.result.proof_of_work.current_difficulty = statusUpdate.new_difficulty;
+        jobStatus.result.proof_of_work.current_age = statusUpdate.current_age;
+      }
+    } else if (statusUpdate.status === 'error') {
+      // Log errors but don't fail the job yet
+      if (!jobStatus.result) {
+        jobStatus.result = {};
+      }
+      if (!jobStatus.result.errors) {
+        jobStatus.result.errors = [];
+      }
+      jobStatus.result.errors.push({
+        message: statusUpdate.message,
+        iteration: statusUpdate.iteration,
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    this.notifyJobListeners(jobStatus, statusUpdate);
+
+    const { message, ...fields } = statusUpdate;
+    workerLog.log(
+      statusUpdate.status === 'error' ? 'warning' : 'info',
+      typeof message === 'string' ? message : `Worker status: ${statusUpdate.status ?? 'unknown'}`,
+      fields
+    );
+  }
+
+  /**
+   * Call the listeners registered for a job
+   *
+   * @param jobStatus - Job status object
+   * @param update - Worker status line, if this was one
+   */
+  private notifyJobListeners(jobStatus: JobStatus, update?: Record<string, unknown>): void {
+    for (const listener of this.listeners.get(jobStatus.job_id) ?? []) {
+      try {
+        listener(jobStatus, update);
+      } catch (error) {
+        log.warn('Job listener failed', { job_id: jobStatus.job_id, error });
+      }
+    }
+  }
+
+  /**
+   * Wait for a job to complete or fail
+   *
+   * If the signal is aborted first, the worker is killed and the promise
+   * rejects.
+   *
+   * @param jobId - Job ID
+   * @param options - Abort signal and a listener for status updates while waiting
+   * @returns Final job status
+   * @throws Error if the job doesn't exist or the wait was cancelled
+   */
+  waitForJob(
+    jobId: string,
+    options: { signal?: AbortSignal; onUpdate?: JobUpdateListener } = {}
+  ): Promise<JobStatus> {
+    const job = this.jobs.get(jobId);
+    if (!job) {
+      return Promise.reject(new Error(`Job not found: ${jobId}`));
+    }
+    if (job.status === 'completed' || job.status === 'failed') {
+      return Promise.resolve(job);
+    }
+
+    return new Promise((resolve, reject) => {
+      const listeners = this.listeners.get(jobId) ?? new Set<JobUpdateListener>();
+      this.listeners.set(jobId, listeners);
+
+      const cleanup = () => {
+        listeners.delete(listener);
+        if (listeners.size === 0) {
+          this.listeners.delete(jobId);
+        }
+        options.signal?.removeEventListener('abort', onAbort);
+      };
+      const listener: JobUpdateListener = (jobStatus, update) => {
+        if (jobStatus.status === 'completed' || jobStatus.status === 'failed') {
+          cleanup();
+          resolve(jobStatus);
+          return;
+        }
+        options.onUpdate?.(jobStatus, update);
+      };
+      const onAbort = () => {
+        cleanup();
+        this.killJob(jobId, 'Job was cancelled by the client');
+        reject(new Error('Request cancelled by client'));
+      };
+
+      listeners.add(listener);
+      if (options.signal?.aborted) {
+        onAbort();
+      } else {
+        options.signal?.addEventListener('abort', onAbort, { once: true });
+      }
     });
   }
 
@@ -367,7 +517,7 @@ export class ProcessManager {
     if (jobStatus.job_data && jobStatus.status !== 'completed' && jobStatus.status !== 'failed') {
       try {
         const { calculateDifficulty } = await import('../utils/proof-of-work.js');
-        const { getCurrentBlockHeight } = await import('../workers/proof-of-work-worker.js');
+        const { getCurrentBlockHeight } = await import('./block-clock.js');
         
         // Calculate current difficulty
         const blockStart = jobStatus.job_data.block_start;
@@ -420,6 +570,35 @@ export class ProcessManager {
     return Array.from(this.jobs.values());
   }
 
+  /**
+   * Get job counts by status (for health and metrics endpoints)
+   *
+   * @returns Job counts and number of live worker processes
+   */
+  getQueueStats(): {
+    total: number;
+    queued: number;
+    running: number;
+    waiting: number;
+    completed: number;
+    failed: number;
+    active_processes: number;
+  } {
+    const stats = {
+      total: this.jobs.size,
+      queued: 0,
+      running: 0,
+      waiting: 0,
+      completed: 0,
+      failed: 0,
+      active_processes: this.processes.size,
+    };
+    for (const job of this.jobs.values()) {
+      stats[job.status]++;
+    }
+    return stats;
+  }
+
   /**
    * Clean up completed/failed jobs older than specified age
    * 
@@ -448,9 +627,10 @@ export class ProcessManager {
    * Kill a running job
    * 
    * @param jobId - Job ID
+   * @param reason - Error recorded on the job
    * @returns True if job was killed, false if not found or already completed
    */
-  killJob(jobId: string): boolean {
+  killJob(jobId: string, reason: string = 'Job was killed by user'): boolean {
     const process = this.processes.get(jobId);
     if (process) {
       process.kill();
@@ -458,8 +638,10 @@ export class ProcessManager {
       const job = this.jobs.get(jobId);
       if (job) {
         job.status = 'failed';
-        job.error = 'Job was killed by user';
+        job.error = reason;
         job.completed_at = new Date().toISOString();
+        // The worker's exit handler skips killed jobs, so wake waiters here
+        this.notifyJobListeners(job);
       }
       
       // Persist job update to disk
@@ -494,7 +676,7 @@ export class ProcessManager {
       // Rename temp file to actual file (atomic on most systems)
       renameSync(tempFile, this.jobsFilePath);
     } catch (error) {
-      console.error(`⚠️  Warning: Could not save jobs to disk: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      log.warn('Could not save jobs to disk', { error });
     }
   }
 
@@ -525,9 +707,9 @@ export class ProcessManager {
         }
       }
 
-      console.error(`✅ Loaded ${this.jobs.size} jobs from disk`);
+      log.info('Loaded jobs from disk', { jobs: this.jobs.size });
     } catch (error) {
-      console.error(`⚠️  Warning: Could not load jobs from disk: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      log.warn('Could not load jobs from disk', { error });
     }
   }
 
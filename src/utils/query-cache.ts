@@ -0,0 +1,298 @@
+/**
+ * Query Cache
+ *
+ * Shared LRU cache in front of the consensus API queries in `tools/query`.
+ * Each entry lives for its entity type's TTL (`CACHE_POLICIES`): struct
+ * types hardly ever change, while player state (power, ore) changes every
+ * block. Only successful responses are cached, and callers get their own
+ * copy, so changing a result cannot change what the next caller sees.
+ *
+ * Entries are also dropped explicitly when the server submits an action or
+ * the event stream reports a change: every entity named, and every cached
+ * list of those entity types, is invalidated. Other per-entity caches
+ * (resolved references, subscribed state resources) follow along through
+ * `onEntitiesInvalidated()`. An action's invalidation is `pending`: the
+ * transaction is queued but not committed, so the chain may still return
+ * the old state for a while.
+ *
+ * Controlled by `config.cacheEnabled` and `config.cacheMaxSize`.
+ *
+ * @module utils/query-cache
+ */
+
+import { LRUCache } from 'lru-cache';
+import { config } from '../config.js';
+import { validateEntityId } from '../tools/validation.js';
+
+/**
+ * Entity types with a cache policy
+ */
+export type CachedEntityType =
+  | 'player'
+  | 'planet'
+  | 'guild'
+  | 'struct'
+  | 'struct_type'
+  | 'fleet'
+  | 'reactor'
+  | 'substation'
+  | 'provider'
+  | 'agreement'
+  | 'allocation'
+  | 'infusion'
+  | 'address'
+  | 'permission'
+  | 'guild_rank_permission'
+  | 'struct_attribute'
+  | 'planet_attribute'
+  | 'grid';
+
+const BLOCK_TIME_MS = 5000;
+
+/**
+ * TTL in ms per entity type
+ */
+export const CACHE_POLICIES: Record<CachedEntityType, number> = {
+  struct_type: 60 * 60 * 1000, // Game constants, change only with chain upgrades
+  guild: 60000,
+  provider: 60000,
+  address: 60000,
+  guild_rank_permission: 60000,
+  agreement: 30000,
+  reactor: 30000,
+  infusion: 30000,
+  planet: 2 * BLOCK_TIME_MS,
+  substation: 2 * BLOCK_TIME_MS,
+  allocation: 2 * BLOCK_TIME_MS,
+  permission: 2 * BLOCK_TIME_MS,
+  player: BLOCK_TIME_MS, // Power and ore change every block
+  struct: BLOCK_TIME_MS,
+  fleet: BLOCK_TIME_MS,
+  struct_attribute: BLOCK_TIME_MS,
+  planet_attribute: BLOCK_TIME_MS,
+  grid: BLOCK_TIME_MS,
+};
+
+/**
+ * Hit/miss counters
+ */
+interface Counters {
+  hits: number;
+  misses: number;
+}
+
+/**
+ * Cache statistics
+ */
+export interface QueryCacheStats {
+  enabled: boolean;
+  size: number;
+  max_size: number;
+  hits: number;
+  misses: number;
+  hit_rate: number;
+  invalidations: number;
+  by_entity_type: Record<string, Counters & { hit_rate: number; ttl_ms: number }>;
+}
+
+interface CacheEntry {
+  entityType: CachedEntityType;
+  /** Entity ID (for attributes and permissions, their object's ID), or undefined for list pages */
+  id?: string;
+  value: unknown;
+}
+
+/**
+ * What an invalidation listener is told besides the IDs
+ */
+export interface InvalidationInfo {
+  /** Submitted but not yet committed: re-reading now may return the old state */
+  pending: boolean;
+}
+
+type InvalidationListener = (ids: string[], info: InvalidationInfo) => void;
+
+let cache: LRUCache<string, CacheEntry> | undefined;
+const counters = new Map<CachedEntityType, Counters>();
+let invalidations = 0;
+/** Bumped by every invalidation, so loads that started before one are not cached */
+let generation = 0;
+const invalidationListeners = new Set<InvalidationListener>();
+
+function getCache(): LRUCache<string, CacheEntry> {
+  if (!cache) {
+    cache = new LRUCache<string, CacheEntry>({ max: config.cacheMaxSize });
+  }
+  return cache;
+}
+
+function count(entityType: CachedEntityType, hit: boolean): void {
+  const entry = counters.get(entityType) ?? { hits: 0, misses: 0 };
+  if (hit) {
+    entry.hits++;
+  } else {
+    entry.misses++;
+  }
+  counters.set(entityType, entry);
+}
+
+function hitRate({ hits, misses }: Counters): number {
+  return hits + misses === 0 ? 0 : Math.round((hits / (hits + misses)) * 1000) / 1000;
+}
+
+/**
+ * Read through the cache
+ *
+ * @param entityType - Entity type (selects the TTL and invalidation group)
+ * @param id - Entity ID for single-entity queries, undefined for lists
+ * @param key - Key identifying the request (path and parameters)
+ * @param load - Loads the value on a miss; rejections are not cached, nor are
+ *   values loaded while an invalidation ran (they may predate it)
+ * @returns Copy of the cached or freshly loaded value
+ */
+export async function cachedQuery<T>(
+  entityType: CachedEntityType,
+  id: string | undefined,
+  key: string,
+  load: () => Promise<T>
+): Promise<T> {
+  if (!config.cacheEnabled) {
+    return load();
+  }
+
+  const cacheKey = `${entityType}:${key}`;
+  const entry = getCache().get(cacheKey);
+  if (entry) {
+    count(entityType, true);
+    return structuredClone(entry.value) as T;
+  }
+
+  count(entityType, false);
+  const startedAt = generation;
+  const value = await load();
+  if (generation === startedAt) {
+    getCache().set(cacheKey, { entityType, id, value: structuredClone(value) }, { ttl: CACHE_POLICIES[entityType] });
+  }
+  return value;
+}
+
+/**
+ * Invalidate cached entities, the lists that contain them, and attributes and
+ * permissions of those entities
+ *
+ * Listeners registered with `onEntitiesInvalidated()` are told about the
+ * IDs even when the query cache is disabled.
+ *
+ * @param ids - Entity IDs (e.g. "1-11", "5-42"); invalid IDs are ignored
+ * @param options - `pending`: the change is a queued transaction, not yet committed
+ * @returns Number of query cache entries removed
+ */
+export function invalidateEntities(ids: Iterable<string>, options: { pending?: boolean } = {}): number {
+  const targets = new Map<string, Set<string>>();
+  const allIds = new Set<string>();
+  for (const id of ids) {
+    const validation = validateEntityId(id);
+    if (validation.valid && validation.type) {
+      allIds.add(validation.format!);
+      if (validation.type in CACHE_POLICIES) {
+        const set = targets.get(validation.type) ?? new Set<string>();
+        set.add(validation.format!);
+        targets.set(validation.type, set);
+      }
+    }
+  }
+  if (allIds.size === 0) {
+    return 0;
+  }
+
+  generation++;
+  let removed = 0;
+  for (const [key, entry] of cache?.entries() ?? []) {
+    const typeIds = targets.get(entry.entityType);
+    const listOrEntity = typeIds && (entry.id === undefined || typeIds.has(entry.id));
+    if (listOrEntity || (entry.id !== undefined && allIds.has(entry.id))) {
+      cache!.delete(key);
+      removed++;
+    }
+  }
+  invalidations += removed;
+
+  for (const listener of invalidationListeners) {
+    try {
+      listener([...allIds], { pending: options.pending ?? false });
+    } catch {
+      // One cache failing to evict must not stop the others
+    }
+  }
+  return removed;
+}
+
+/**
+ * Be told which entities were invalidated
+ *
+ * @param listener - Called with the (valid, formatted) IDs of every invalidation
+ * @returns Function that removes the listener
+ */
+export function onEntitiesInvalidated(listener: InvalidationListener): () => void {
+  invalidationListeners.add(listener);
+  return () => {
+    invalidationListeners.delete(listener);
+  };
+}
+
+/**
+ * Invalidate everything an action touches: the acting player and every
+ * entity ID among the action's arguments (as pending, since the transaction
+ * has only been queued)
+ *
+ * @param playerId - Acting player
+ * @param args - Action arguments
+ * @returns Number of entries removed
+ */
+export function invalidateActionTargets(playerId: string | undefined, args: Record<string, unknown> = {}): number {
+  const ids = new Set<string>();
+  if (playerId) {
+    ids.add(playerId);
+  }
+  for (const value of Object.values(args)) {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      if (typeof item === 'string') {
+        ids.add(item);
+      }
+    }
+  }
+  return invalidateEntities(ids, { pending: true });
+}
+
+/**
+ * Get cache statistics
+ */
+export function getQueryCacheStats(): QueryCacheStats {
+  const total: Counters = { hits: 0, misses: 0 };
+  const byEntityType: QueryCacheStats['by_entity_type'] = {};
+  for (const [entityType, entry] of counters) {
+    total.hits += entry.hits;
+    total.misses += entry.misses;
+    byEntityType[entityType] = { ...entry, hit_rate: hitRate(entry), ttl_ms: CACHE_POLICIES[entityType] };
+  }
+
+  return {
+    enabled: config.cacheEnabled,
+    size: cache?.size ?? 0,
+    max_size: config.cacheMaxSize,
+    ...total,
+    hit_rate: hitRate(total),
+    invalidations,
+    by_entity_type: byEntityType,
+  };
+}
+
+/**
+ * Clear the cache and its statistics (useful for testing)
+ */
+export function clearQueryCache(): void {
+  generation++;
+  cache?.clear();
+  counters.clear();
+  invalidations = 0;
+}
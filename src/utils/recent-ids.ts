@@ -0,0 +1,70 @@
+/**
+ * Recently Seen Entity IDs
+ *
+ * Remembers entity IDs that appeared in tool arguments and results so
+ * argument completion can suggest real IDs instead of agents guessing.
+ *
+ * @module utils/recent-ids
+ */
+
+import type { EntityType } from '../types/references.js';
+import { extractEntityIds } from './references.js';
+
+/**
+ * Maximum IDs remembered per entity type
+ */
+const MAX_IDS_PER_TYPE = 200;
+
+/**
+ * Entity IDs per type, in insertion order (oldest first)
+ */
+const recentIds = new Map<EntityType, Set<string>>();
+
+/**
+ * Record every entity ID found in a value
+ *
+ * @param value - Tool arguments or result payload
+ */
+export function recordEntityIds(value: unknown): void {
+  const idsByType = extractEntityIds(value);
+  for (const [entityType, ids] of idsByType.entries()) {
+    let seen = recentIds.get(entityType);
+    if (!seen) {
+      seen = new Set();
+      recentIds.set(entityType, seen);
+    }
+    for (const id of ids) {
+      // Re-insert so the most recently seen ID is last
+      seen.delete(id);
+      seen.add(id);
+    }
+    while (seen.size > MAX_IDS_PER_TYPE) {
+      const oldest = seen.values().next().value as string;
+      seen.delete(oldest);
+    }
+  }
+}
+
+/**
+ * Get recently seen IDs of a type, most recent first
+ *
+ * @param entityType - Entity type
+ * @param prefix - Optional prefix filter
+ * @returns Entity IDs
+ */
+export function getRecentEntityIds(entityType: EntityType, prefix: string = ''): string[] {
+  const seen = recentIds.get(entityType);
+  if (!seen) {
+    return [];
+  }
+  return Array.from(seen)
+    .reverse()
+    .filter((id) => id.startsWith(prefix));
+}
+
+/**
+ * Forget all recently seen IDs (useful for testing)
+ */
+export function clearRecentEntityIds(): void {
+  recentIds.clear();
+}
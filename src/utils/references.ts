@@ -3,6 +3,9 @@
  * 
  * Core functionality for extracting entity IDs from responses and resolving
  * references to include full entity data.
+ *
+ * Resolved references are cached for `references.cacheTTL`; an entity's entry
+ * is evicted as soon as an action or event invalidates it in the query cache.
  * 
  * @module utils/references
  */
@@ -27,9 +30,15 @@ import {
   queryProvider,
   queryAgreement,
   queryAllocation,
+  queryInfusion,
+  queryAddress,
 } from '../tools/query.js';
 import { config } from '../config.js';
-import axios, { AxiosError } from 'axios';
+import { createLogger } from './logger.js';
+import { onEntitiesInvalidated } from './query-cache.js';
+import { reportProgress, throwIfCancelled } from './request-context.js';
+
+const log = createLogger('references');
 
 /**
  * Non-entity fields that should never be treated as entity IDs
@@ -118,6 +127,21 @@ class ReferenceCache {
     });
   }
 
+  /**
+   * Remove the entries of these entities
+   *
+   * @returns Number of entries removed
+   */
+  delete(entityIds: Iterable<string>): number {
+    let removed = 0;
+    for (const entityId of entityIds) {
+      if (this.cache.delete(entityId)) {
+        removed++;
+      }
+    }
+    return removed;
+  }
+
   clear(): void {
     this.cache.clear();
   }
@@ -129,6 +153,11 @@ const referenceCache = new ReferenceCache(
   config.references?.cacheTTL ?? 30000
 );
 
+// Entities changed by an action or event are evicted along with their query cache entries
+onEntitiesInvalidated((ids) => {
+  referenceCache.delete(ids);
+});
+
 /**
  * Extract all entity IDs from a response payload
  * 
@@ -161,6 +190,12 @@ export function extractEntityIds(
     }
 
     if (typeof value === 'string') {
+      // Permission IDs name an object and a player: "{objectId}@{playerId}"
+      if (value.includes('@')) {
+        value.split('@').forEach((part) => traverse(part, path, entityCount));
+        return;
+      }
+
       // Check if it matches entity ID pattern
       if (isValidEntityId(value)) {
         // Exclude self-reference
@@ -256,44 +291,40 @@ async function queryEntityById(
     const queryPromise = (async () => {
       switch (entityType) {
         case 'player':
-          const playerResult = await queryPlayer(entityId);
-          entityData = playerResult.player;
+          entityData = (await queryPlayer(entityId)).player;
           break;
         case 'planet':
-          const planetResult = await queryPlanet(entityId);
-          entityData = planetResult.planet;
+          entityData = (await queryPlanet(entityId)).planet;
           break;
         case 'guild':
-          const guildResult = await queryGuild(entityId);
-          entityData = guildResult.guild;
+          entityData = (await queryGuild(entityId)).guild;
           break;
         case 'fleet':
-          const fleetResult = await queryFleet(entityId);
-          entityData = fleetResult.fleet;
+          entityData = (await queryFleet(entityId)).fleet;
           break;
         case 'struct':
-          const structResult = await queryStruct(entityId);
-          entityData = structResult.struct;
+          entityData = (await queryStruct(entityId)).struct;
           break;
         case 'reactor':
-          const reactorResult = await queryReactor(entityId);
-          entityData = reactorResult.reactor;
+          entityData = (await queryReactor(entityId)).reactor;
           break;
         case 'substation':
-          const substationResult = await querySubstation(entityId);
-          entityData = substationResult.substation;
+          entityData = (await querySubstation(entityId)).substation;
           break;
         case 'provider':
-          const providerResult = await queryProvider(entityId);
-          entityData = providerResult.provider;
+          entityData = (await queryProvider(entityId)).provider;
           break;
         case 'agreement':
-          const agreementResult = await queryAgreement(entityId);
-          entityData = agreementResult.agreement;
+          entityData = (await queryAgreement(entityId)).agreement;
           break;
         case 'allocation':
-          const allocationResult = await queryAllocation(entityId);
-          entityData = allocationResult.allocation;
+          entityData = (await queryAllocation(entityId)).allocation;
+          break;
+        case 'infusion':
+          entityData = (await queryInfusion(entityId)).infusion;
+          break;
+        case 'address':
+          entityData = (await queryAddress(entityId)).address;
           break;
         default:
           throw new Error(`Unsupported entity type: ${entityType}`);
@@ -323,6 +354,7 @@ async function queryEntityById(
   } catch (error) {
     // Return error indicator
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    log.debug('Reference resolution failed', { entity_id: entityId, entity_type: entityType, error: errorMessage });
     const referencedEntity: ReferencedEntity = {
       reference_type: entityType,
       id: entityId,
@@ -358,8 +390,12 @@ async function resolveReferencesWithThrottle(
   // Process with concurrency limit using a semaphore-like pattern
   const pending: Promise<void>[] = [];
   let activeCount = 0;
+  const total = resolvedIds.size + Math.min(idsToResolve.length, maxReferences);
 
   for (const entityId of idsToResolve) {
+    // Stop starting new lookups once the client cancels
+    throwIfCancelled();
+
     // Check if we've reached the max references limit
     if (Object.keys(references).length >= maxReferences) {
       break;
@@ -388,6 +424,7 @@ async function resolveReferencesWithThrottle(
         if (Object.keys(references).length < maxReferences) {
           references[entityId] = referencedEntity;
           resolvedIds.add(entityId);
+          reportProgress(resolvedIds.size, total, `Resolved reference ${entityId}`);
         }
         activeCount--;
       })
@@ -440,7 +477,13 @@ export async function resolveReferences(
   }
 
   // Resolve with throttling
+  const startedAt = Date.now();
   const references = await resolveReferencesWithThrottle(allIds, options, resolvedIds);
+  log.debug('References resolved', {
+    requested: allIds.length,
+    resolved: Object.keys(references).length,
+    duration_ms: Date.now() - startedAt,
+  });
 
   // Handle depth > 1 (recursive references)
   const depth = options.reference_depth ?? DEFAULT_REFERENCE_OPTIONS.reference_depth;
@@ -503,6 +546,18 @@ export function addReferencesToResponse(
   };
 }
 
+/**
+ * Evict cached references to these entities
+ *
+ * Called for every query cache invalidation, so it rarely needs calling directly.
+ *
+ * @param entityIds - Entity IDs
+ * @returns Number of entries removed
+ */
+export function invalidateReferences(entityIds: Iterable<string>): number {
+  return referenceCache.delete(entityIds);
+}
+
 /**
  * Clear reference cache (useful for testing)
  */
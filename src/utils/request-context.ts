@@ -0,0 +1,132 @@
+/**
+ * Request Context
+ *
+ * Cancellation, progress and caller for the tool call being handled. The
+ * CallTool handler runs each call inside a context holding the request's
+ * AbortSignal (aborted when the client sends `notifications/cancelled`),
+ * when the client sent a `progressToken`, a progress callback that emits
+ * `notifications/progress`, and who made the call.
+ *
+ * Code below the handler reads both from here rather than threading them
+ * through every signature. The consensus client passes the signal to its own
+ * requests; other HTTP clients are left alone.
+ *
+ * @module utils/request-context
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * One progress notification
+ */
+export interface ProgressUpdate {
+  progress: number;
+  total?: number;
+  message?: string;
+}
+
+/**
+ * Context of the tool call being handled
+ */
+export interface RequestContext {
+  signal?: AbortSignal;
+  /** Set only when the client asked for progress */
+  onProgress?: (update: ProgressUpdate) => void;
+  /** Who made the call: API key name, else HTTP session ID (unset for stdio) */
+  owner?: string;
+}
+
+const storage = new AsyncLocalStorage<RequestContext & { lastProgress?: number }>();
+
+/**
+ * Run a function inside a request context
+ *
+ * @param context - Signal and progress callback for the request
+ * @param fn - Function to run
+ * @returns Result of `fn`
+ */
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T): T {
+  return storage.run({ ...context }, fn);
+}
+
+/**
+ * Run a function outside any request context
+ *
+ * Background work started by a tool call (jobs, workflows) outlives the
+ * request, so it must not be cancelled by it or report progress against it.
+ *
+ * @param fn - Function to run
+ * @returns Result of `fn`
+ */
+export function runDetached<T>(fn: () => T): T {
+  return storage.exit(fn);
+}
+
+/**
+ * Get the abort signal of the current request, if any
+ */
+export function getAbortSignal(): AbortSignal | undefined {
+  return storage.getStore()?.signal;
+}
+
+/**
+ * Get who made the current request, if known
+ */
+export function getRequestOwner(): string | undefined {
+  return storage.getStore()?.owner;
+}
+
+/**
+ * Throw if the current request was cancelled
+ *
+ * @throws Error if the client cancelled the request
+ */
+export function throwIfCancelled(): void {
+  if (getAbortSignal()?.aborted) {
+    throw new Error('Request cancelled by client');
+  }
+}
+
+/**
+ * Report progress for the current request
+ *
+ * No-op unless the client sent a progressToken. Progress must increase with
+ * every notification, so updates that don't are dropped.
+ *
+ * @param progress - Progress so far (increasing)
+ * @param total - Total, if known
+ * @param message - Human-readable status
+ */
+export function reportProgress(progress: number, total?: number, message?: string): void {
+  const context = storage.getStore();
+  if (!context?.onProgress || context.signal?.aborted) {
+    return;
+  }
+  if (context.lastProgress !== undefined && progress <= context.lastProgress) {
+    return;
+  }
+  context.lastProgress = progress;
+  context.onProgress({ progress, total, message });
+}
+
+/**
+ * Sleep, waking early with an error if the current request is cancelled
+ *
+ * @param ms - Milliseconds to sleep
+ * @throws Error if the client cancelled the request
+ */
+export async function sleep(ms: number): Promise<void> {
+  const signal = getAbortSignal();
+  throwIfCancelled();
+  await new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error('Request cancelled by client'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
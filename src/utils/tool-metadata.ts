@@ -66,6 +66,7 @@ export interface ToolMetadata {
 function extractCategory(toolName: string): ToolCategory {
   if (toolName === 'structs_prepare_command') return 'command';
   if (toolName === 'structs_player_dashboard') return 'dashboard';
+  if (toolName === 'structs_guild_dashboard') return 'dashboard';
   if (toolName === 'structs_preflight_check') return 'preflight';
   if (toolName === 'structs_diagnose_error') return 'diagnosis';
   if (toolName.startsWith('structs_query_')) return 'query';
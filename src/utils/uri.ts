@@ -4,6 +4,27 @@
  * @module utils/uri
  */
 
+import path from 'path';
+
+/**
+ * Map category to directory (aligns with structs-ai layout)
+ */
+const categoryMap: Record<string, string> = {
+  schemas: 'schemas',
+  api: 'api',
+  protocols: 'protocols',
+  examples: 'examples',
+  reference: 'reference',
+  patterns: 'patterns',
+  visuals: 'visuals',
+  guides: '', // Guides are in root of /ai
+  identity: 'identity',
+  skills: 'skills',
+  knowledge: 'knowledge',
+  playbooks: 'playbooks',
+  awareness: 'awareness',
+};
+
 /**
  * Parse a structs:// resource URI
  * 
@@ -58,23 +79,6 @@ export function uriToFilePath(
     return null;
   }
   
-  // Map category to directory (aligns with structs-ai layout)
-  const categoryMap: Record<string, string> = {
-    schemas: 'schemas',
-    api: 'api',
-    protocols: 'protocols',
-    examples: 'examples',
-    reference: 'reference',
-    patterns: 'patterns',
-    visuals: 'visuals',
-    guides: '', // Guides are in root of /ai
-    identity: 'identity',
-    skills: 'skills',
-    knowledge: 'knowledge',
-    playbooks: 'playbooks',
-    awareness: 'awareness',
-  };
-
   const categoryDir = categoryMap[parsed.category];
   if (categoryDir === undefined && parsed.category !== 'guides') {
     return null;
@@ -88,6 +92,37 @@ export function uriToFilePath(
   return `${aiDocsPath}/${categoryDir}/${parsed.path}`;
 }
 
+/**
+ * Convert a file system path under the AI docs directory to a structs:// URI
+ *
+ * Inverse of uriToFilePath. Files in the root map to `guides`; files in a
+ * category directory map to that category.
+ *
+ * @param filePath - File system path
+ * @param aiDocsPath - Base path to /ai directory
+ * @returns Resource URI or null if the file is outside any category
+ */
+export function filePathToUri(
+  filePath: string,
+  aiDocsPath: string
+): string | null {
+  const relativePath = path.relative(path.resolve(aiDocsPath), path.resolve(filePath));
+  if (!relativePath || relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+    return null;
+  }
+
+  const parts = relativePath.split(path.sep);
+  if (parts.length === 1) {
+    return `structs://guides/${parts[0]}`;
+  }
+
+  const category = Object.keys(categoryMap).find((key) => categoryMap[key] === parts[0]);
+  if (!category) {
+    return null;
+  }
+  return `structs://${category}/${parts.slice(1).join('/')}`;
+}
+
 /**
  * Validate a resource URI format
  * 
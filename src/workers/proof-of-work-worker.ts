@@ -11,8 +11,7 @@
 
 import { findProofOfWork, calculateDifficulty } from '../utils/proof-of-work.js';
 import { submitTransaction } from '../tools/action.js';
-import { query } from '../utils/database.js';
-import axios from 'axios';
+import { getCurrentBlockHeight } from '../utils/block-clock.js';
 import { config } from '../config.js';
 
 /**
@@ -61,116 +60,6 @@ interface JobResult {
   completed_at?: string;
 }
 
-/**
- * Get current block height from database
- * 
- * Uses structs.current_block table (primary source).
- * Falls back to consensus API if database query fails.
- * 
- * Note: It's okay for this value to get stale during computations.
- * The reference implementation (TaskWorker.js) allows estimation
- * during processing. Blocks pass approximately every 5 seconds.
- * 
- * @returns Current block height
- */
-let cachedBlockHeight: number | null = null;
-let cachedBlockHeightTime: number = 0;
-let lastKnownBlockHeight: number | null = null;
-let lastKnownBlockTime: number = 0;
-const BLOCK_HEIGHT_CACHE_MS = 10000; // Cache for 10 seconds
-const BLOCK_TIME_MS = 5000; // Blocks pass every ~5 seconds
-
-async function getCurrentBlockHeight(): Promise<number> {
-  const now = Date.now();
-  
-  // Return cached value if still fresh (within 10 seconds)
-  if (cachedBlockHeight !== null && (now - cachedBlockHeightTime) < BLOCK_HEIGHT_CACHE_MS) {
-    return cachedBlockHeight;
-  }
-
-  // Try to query database first
-  try {
-    // Primary: Query structs.current_block table
-    // Table structure: chain (PK), height, updated_at
-    // Get the latest height regardless of chain (most recent updated_at)
-    const result = await query(
-      'SELECT height FROM structs.current_block ORDER BY updated_at DESC LIMIT 1',
-      []
-    );
-    
-    if (result.rows.length > 0 && result.rows[0].height !== null && result.rows[0].height !== undefined) {
-      const height = Number(result.rows[0].height);
-      if (!isNaN(height) && height > 0) {
-        cachedBlockHeight = height;
-        cachedBlockHeightTime = now;
-        lastKnownBlockHeight = height;
-        lastKnownBlockTime = now;
-        return height;
-      }
-    }
-  } catch (dbError) {
-    // Database query failed, try API fallback or estimation
-    console.error(`Database query failed: ${dbError instanceof Error ? dbError.message : 'Unknown error'}`);
-  }
-
-  // Fallback: Try consensus API
-  try {
-    const consensusRPCUrl = config.consensusApiUrl;
-    const response = await axios.get(`${consensusRPCUrl}/structs/blockheight`, {
-      timeout: 5000, // Shorter timeout for fallback
-    });
-    
-    // Response format may vary, try different possible fields
-    const blockHeight = response.data.blockheight || 
-                       response.data.block_height || 
-                       response.data.height ||
-                       response.data;
-    
-    let height: number;
-    if (typeof blockHeight === 'number') {
-      height = blockHeight;
-    } else {
-      // If it's a string, try to parse it
-      const parsed = parseInt(String(blockHeight), 10);
-      if (isNaN(parsed)) {
-        throw new Error('Could not parse block height from API response');
-      }
-      height = parsed;
-    }
-    
-    if (height > 0) {
-      cachedBlockHeight = height;
-      cachedBlockHeightTime = now;
-      lastKnownBlockHeight = height;
-      lastKnownBlockTime = now;
-      return height;
-    }
-  } catch (apiError) {
-    // If we have a last known value, estimate based on time elapsed
-    // Blocks pass every ~5 seconds, so estimate: lastKnown + (timeElapsed / 5000)
-    if (lastKnownBlockHeight !== null && lastKnownBlockTime > 0) {
-      const timeElapsed = now - lastKnownBlockTime;
-      const blocksElapsed = Math.floor(timeElapsed / BLOCK_TIME_MS);
-      const estimatedHeight = lastKnownBlockHeight + blocksElapsed;
-      
-      // Use estimated value (it's okay to be a bit stale/estimated)
-      console.error(`Using estimated block height: ${estimatedHeight} (last known: ${lastKnownBlockHeight}, ${blocksElapsed} blocks estimated, error: ${apiError instanceof Error ? apiError.message : 'Unknown error'})`);
-      return estimatedHeight;
-    }
-    
-    // If we have a cached value, use it even if stale (it's okay to be a bit stale)
-    if (cachedBlockHeight !== null) {
-      console.error(`Using stale cached block height: ${cachedBlockHeight} (error: ${apiError instanceof Error ? apiError.message : 'Unknown error'})`);
-      return cachedBlockHeight;
-    }
-  }
-  
-  throw new Error(`Failed to get block height from database (structs.current_block) or API, and no cached/estimated value available`);
-}
-
-// Export getCurrentBlockHeight for use in process manager
-export { getCurrentBlockHeight };
-
 /**
  * Wait until age reaches target (default: 10)
  * 
@@ -0,0 +1,196 @@
+/**
+ * Alert Tests
+ *
+ * Tests for the alert rules engine: merging configured rules into the
+ * built-in ones, player state rules firing and resolving, event rules with
+ * the watched player's entities, proof-of-work job rules, and listing.
+ */
+
+import { describe, it, expect, jest, beforeAll, beforeEach, afterEach } from '@jest/globals';
+import axios from 'axios';
+import { createAlertEngine, parseAlertRules, DEFAULT_ALERT_RULES, type AlertEngine } from '../src/tools/alerts.js';
+import { createEventStream, type StreamEvent } from '../src/utils/event-stream.js';
+import { clearQueryCache } from '../src/utils/query-cache.js';
+import type { JobStatus } from '../src/utils/process-manager.js';
+import { createFakeNode } from './fake-node.js';
+
+let grid = { ore: '3', capacity: '1000', load: '500' };
+let halted = false;
+
+/**
+ * Fake consensus API: player 1-11 on planet 2-1 (structs 5-1, 5-2) with fleet 9-1 (struct 5-3)
+ */
+const fakeNode = createFakeNode({
+  '/structs/player/1-11': () => ({ Player: { id: '1-11', planetId: '2-1', fleetId: '9-1' }, gridAttributes: grid, halted }),
+  '/structs/planet/2-1': { Planet: { id: '2-1', owner: '1-11', land: ['5-1', '5-2'] } },
+  '/structs/fleet/9-1': { Fleet: { id: '9-1', owner: '1-11', space: ['5-3'] } },
+});
+
+function event(cursor: number, subject: string, data: Record<string, unknown>): StreamEvent {
+  const ids = [subject.split('.')[2], ...Object.values(data).filter((value): value is string => typeof value === 'string' && /^\d+-\d+$/.test(value))];
+  return { cursor, subject, entity_type: subject.split('.')[1], entity_id: subject.split('.')[2], entity_ids: ids, data, received_at: new Date().toISOString() };
+}
+
+describe('Alert rules', () => {
+  it('should override, disable and add rules by id, and skip invalid ones', () => {
+    const { rules, errors } = parseAlertRules([
+      { id: 'ore_high', when: [{ field: 'ore', op: '>', value: 50 }] },
+      { id: 'load_high', enabled: false },
+      { id: 'low_connections', source: 'player', when: [{ field: 'connection_count', op: '<', value: 1 }], severity: 'info' },
+      { id: 'broken', source: 'planet', when: [] },
+      { id: 'bad_pattern', source: 'event', when: [{ field: 'category', op: 'matches', value: '(' }] },
+    ]);
+
+    expect(rules.map((rule) => rule.id)).toEqual([...DEFAULT_ALERT_RULES.map((rule) => rule.id), 'low_connections']);
+    expect(rules.find((rule) => rule.id === 'ore_high')).toMatchObject({ severity: 'notice', when: [{ value: 50 }] });
+    expect(rules.find((rule) => rule.id === 'load_high')?.enabled).toBe(false);
+    expect(rules.find((rule) => rule.id === 'low_connections')).toMatchObject({ severity: 'info', message: 'Alert low_connections' });
+    expect(errors).toEqual([
+      expect.stringContaining('(broken): source must be one of'),
+      expect.stringContaining('(broken): when must list'),
+      expect.stringContaining('(bad_pattern): when[0] has an invalid pattern'),
+    ]);
+    expect(parseAlertRules('nope').errors).toEqual(['alerts.rules: expected a list of rules']);
+  });
+});
+
+describe('Alert engine', () => {
+  let jobs: JobStatus[];
+  let engine: AlertEngine;
+
+  beforeAll(() => {
+    axios.defaults.adapter = fakeNode;
+  });
+
+  beforeEach(() => {
+    clearQueryCache();
+    grid = { ore: '3', capacity: '1000', load: '500' };
+    halted = false;
+    jobs = [];
+    engine = createAlertEngine({
+      players: ['1-11'],
+      rules: [...DEFAULT_ALERT_RULES],
+      interval: 60000,
+      historySize: 10,
+      getJobs: () => jobs,
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should fire player rules once when they start matching and resolve them when they stop', async () => {
+    expect(await engine.evaluate()).toEqual([]);
+
+    grid = { ore: '25', capacity: '1000', load: '950' };
+    clearQueryCache();
+    const fired = await engine.evaluate();
+    expect(fired.map((alert) => alert.rule_id)).toEqual(['load_high', 'ore_high']);
+    expect(fired[0]).toMatchObject({
+      severity: 'warning',
+      player_id: '1-11',
+      entity_id: '1-11',
+      message: 'Player 1-11 load is 950 of 1000 W (0.95 of capacity)',
+      active: true,
+    });
+
+    // Still matching: nothing new
+    clearQueryCache();
+    expect(await engine.evaluate()).toEqual([]);
+
+    grid = { ore: '25', capacity: '1000', load: '400' };
+    clearQueryCache();
+    await engine.evaluate();
+    expect(engine.list({ active_only: true }).alerts.map((alert) => alert.rule_id)).toEqual(['ore_high']);
+    expect(engine.list().alerts[0]).toMatchObject({ rule_id: 'load_high', active: false, resolved_at: expect.any(String) });
+  });
+
+  it('should match events against the watched player\'s planet, fleet and structs', async () => {
+    await engine.evaluate(); // reads the player's entities
+
+    const fired = [
+      ...engine.handleEvent(event(1, 'structs.planet.2-1', { category: 'fleet_arrive', fleetId: '9-1' })), // own fleet
+      ...engine.handleEvent(event(2, 'structs.planet.2-1', { category: 'fleet_arrive', fleetId: '9-7' })),
+      ...engine.handleEvent(event(3, 'structs.planet.2-2', { category: 'fleet_arrive', fleetId: '9-7' })), // another planet
+      ...engine.handleEvent(event(4, 'structs.struct.5-3', { category: 'struct_health', health: 2 })),
+      ...engine.handleEvent(event(5, 'structs.struct.5-3', { category: 'struct_health', health: 1 })), // cooldown
+      ...engine.handleEvent(event(6, 'structs.struct.5-9', { category: 'struct_health', health: 1 })), // not ours
+    ];
+
+    expect(fired.map((alert) => [alert.rule_id, alert.entity_id])).toEqual([
+      ['enemy_fleet_arrived', '2-1'],
+      ['struct_damaged', '5-3'],
+    ]);
+    expect(fired[0]).toMatchObject({ severity: 'alert', message: 'Fleet 9-7 arrived at planet 2-1', active: false });
+  });
+
+  it('should fire an event rule again once its cooldown has run out', async () => {
+    await engine.evaluate();
+    jest.useFakeTimers({ now: Date.now() });
+    const damaged = (cursor: number) => engine.handleEvent(event(cursor, 'structs.struct.5-3', { category: 'struct_health', health: 1 }));
+
+    expect(damaged(1)).toHaveLength(1);
+    jest.advanceTimersByTime(59000);
+    expect(damaged(2)).toEqual([]);
+    jest.advanceTimersByTime(1000);
+    expect(damaged(3)).toHaveLength(1);
+  });
+
+  it('should fire when a proof-of-work job is done waiting for its target difficulty', async () => {
+    const job: JobStatus = {
+      job_id: 'job-1',
+      status: 'waiting',
+      started_at: new Date().toISOString(),
+      waiting_info: { current_age: 2, target_age: 10, blocks_remaining: 8 },
+      job_data: { action_type: 'build', entity_id: '5-4', difficulty: 8, block_start: 100, player_id: '1-11' },
+    };
+    jobs = [job];
+    expect(await engine.evaluate()).toEqual([]);
+
+    job.status = 'running';
+    const fired = await engine.evaluate();
+    expect(fired).toMatchObject([{ rule_id: 'pow_ready', entity_id: '5-4', message: 'Proof-of-work job job-1 (build 5-4) reached its target difficulty' }]);
+
+    // Cleaned up job: resolved
+    jobs = [];
+    await engine.evaluate();
+    expect(engine.list({ rule_id: 'pow_ready' }).alerts[0].active).toBe(false);
+  });
+
+  it('should list alerts after a cursor with filters', async () => {
+    await engine.evaluate();
+    for (let cursor = 1; cursor <= 12; cursor++) {
+      engine.handleEvent(event(cursor, 'structs.planet.2-1', { category: 'fleet_arrive', fleetId: `9-${cursor + 10}` }));
+    }
+
+    // History keeps the last 10
+    expect(engine.list({ limit: 100 }).alerts.map((alert) => alert.alert_id)).toEqual([3, 4, 5, 6, 7, 8, 9, 10, 11, 12]);
+    expect(engine.list({ since: 8, limit: 2 })).toMatchObject({ next_cursor: 10, has_more: true });
+    expect(engine.list({ since: 10 })).toMatchObject({ next_cursor: 12, has_more: false });
+    expect(engine.list({ severity: 'critical' }).alerts).toHaveLength(10);
+    expect(engine.list({ severity: 'emergency' }).alerts).toHaveLength(0);
+  });
+
+  it('should evaluate events from the stream once started', async () => {
+    const stream = createEventStream({
+      servers: 'nats://fake:4222',
+      subjects: ['structs.planet.>'],
+      bufferSize: 10,
+      maxSubjects: 10,
+      maxSubscriptions: 10,
+      subscriptionIdleTimeout: 60000,
+      reconnectDelay: 10,
+      connect: async () => { throw new Error('ECONNREFUSED'); },
+    });
+    engine = createAlertEngine({ players: ['1-11'], rules: [...DEFAULT_ALERT_RULES], interval: 60000, historySize: 10, stream, getJobs: () => [] });
+    engine.start();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    stream.ingest({ subject: 'structs.planet.2-1', data: new TextEncoder().encode(JSON.stringify({ category: 'fleet_arrive', fleetId: '9-7' })) });
+    engine.stop();
+    await stream.close();
+
+    expect(engine.list().alerts.map((alert) => alert.rule_id)).toEqual(['enemy_fleet_arrived']);
+  });
+});
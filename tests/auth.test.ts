@@ -0,0 +1,230 @@
+/**
+ * Auth Tests
+ *
+ * Tests for API key loading, matching, the HTTP middleware and per-key tool scopes.
+ */
+
+import { describe, it, expect, jest, beforeAll, afterAll } from '@jest/globals';
+import { createHash } from 'crypto';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { Request, Response } from 'express';
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import {
+  getToolScope,
+  checkToolAccess,
+  filterToolsForAuth,
+  findApiKey,
+  loadApiKeys,
+  createAuthMiddleware,
+  type ApiKeyEntry,
+} from '../src/utils/auth.js';
+
+describe('Auth', () => {
+  describe('getToolScope', () => {
+    it('should classify read, calculate and action tools', () => {
+      expect(getToolScope('structs_query_player')).toBe('read');
+      expect(getToolScope('structs_player_dashboard')).toBe('read');
+      expect(getToolScope('structs_calculate_power')).toBe('calculate');
+      expect(getToolScope('structs_action_submit_transaction')).toBe('actions');
+    });
+
+    it('should treat tools that submit transactions as actions', () => {
+      expect(getToolScope('structs_calculate_proof_of_work')).toBe('actions');
+      expect(getToolScope('structs_workflow_execute')).toBe('actions');
+    });
+  });
+
+  describe('checkToolAccess', () => {
+    const readOnly = { token: 't', clientId: 'reader', scopes: ['read'] };
+    const actor = { token: 't', clientId: 'actor', scopes: ['read', 'actions'], extra: { player_ids: ['1-11'] } };
+
+    it('should allow everything when auth is disabled', () => {
+      expect(checkToolAccess('structs_action_submit_transaction', {}, undefined).allowed).toBe(true);
+    });
+
+    it('should deny tools outside the key scopes', () => {
+      const result = checkToolAccess('structs_calculate_power', {}, readOnly);
+      expect(result.allowed).toBe(false);
+      expect(result.reason).toContain('calculate');
+    });
+
+    it('should limit actions to the configured player IDs', () => {
+      expect(checkToolAccess('structs_action_submit_transaction', { player_id: '1-11' }, actor).allowed).toBe(true);
+      expect(checkToolAccess('structs_action_submit_transaction', { player_id: '1-12' }, actor).allowed).toBe(false);
+      expect(checkToolAccess('structs_action_submit_transaction', {}, actor).allowed).toBe(false);
+    });
+
+    it('should not apply the player ID limit to reads or keys without one', () => {
+      expect(checkToolAccess('structs_query_player', { player_id: '1-12' }, actor).allowed).toBe(true);
+      const unrestricted = { token: 't', clientId: 'bot', scopes: ['actions'] };
+      expect(checkToolAccess('structs_action_submit_transaction', { player_id: '1-12' }, unrestricted).allowed).toBe(true);
+    });
+
+    it('should allow all tools for the wildcard scope', () => {
+      const admin = { token: 't', clientId: 'admin', scopes: ['*'] };
+      expect(checkToolAccess('structs_action_submit_transaction', { player_id: '1-99' }, admin).allowed).toBe(true);
+    });
+  });
+
+  describe('filterToolsForAuth', () => {
+    it('should only list tools the key may call', () => {
+      const tools = [
+        { name: 'structs_query_player', inputSchema: { type: 'object' } },
+        { name: 'structs_calculate_power', inputSchema: { type: 'object' } },
+        { name: 'structs_action_submit_transaction', inputSchema: { type: 'object' } },
+      ] as Tool[];
+      const filtered = filterToolsForAuth(tools, { token: 't', clientId: 'c', scopes: ['calculate'] });
+      expect(filtered.map((t) => t.name)).toEqual(['structs_calculate_power']);
+    });
+  });
+
+  describe('findApiKey', () => {
+    const keys: ApiKeyEntry[] = [
+      { name: 'plain', key: 'secret-one', scopes: ['read'] },
+      { name: 'hashed', key_sha256: createHash('sha256').update('secret-two').digest('hex'), scopes: ['*'] },
+    ];
+
+    it('should match plaintext and hashed keys', () => {
+      expect(findApiKey(keys, 'secret-one')?.name).toBe('plain');
+      expect(findApiKey(keys, 'secret-two')?.name).toBe('hashed');
+    });
+
+    it('should reject unknown keys', () => {
+      expect(findApiKey(keys, 'secret-three')).toBeUndefined();
+    });
+  });
+
+  describe('loadApiKeys', () => {
+    let dir: string;
+
+    beforeAll(() => {
+      dir = mkdtempSync(join(tmpdir(), 'structs-auth-'));
+    });
+
+    afterAll(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    function writeKeys(name: string, content: string): string {
+      const file = join(dir, name);
+      writeFileSync(file, content);
+      return file;
+    }
+
+    it('should load JSON and YAML key files', () => {
+      const json = writeKeys('keys.json', JSON.stringify({
+        keys: [{ name: 'bot', key: 'secret-one', scopes: ['read', 'actions'], player_ids: ['1-11'] }],
+      }));
+      expect(loadApiKeys(json)).toEqual([
+        { name: 'bot', key: 'secret-one', key_sha256: undefined, scopes: ['read', 'actions'], player_ids: ['1-11'] },
+      ]);
+
+      const yaml = writeKeys('keys.yaml', 'keys:\n  - name: viewer\n    key_sha256: ABCDEF\n    scopes: [read]\n');
+      expect(loadApiKeys(yaml)[0]).toMatchObject({ name: 'viewer', key_sha256: 'abcdef', scopes: ['read'] });
+    });
+
+    it('should reject files that do not parse', () => {
+      const file = writeKeys('broken.json', '{"keys": [{"name": "bot", ');
+      expect(() => loadApiKeys(file)).toThrow(`Invalid API keys file ${file}`);
+    });
+
+    it('should reject files without a keys array', () => {
+      const file = writeKeys('empty.json', '{"api_keys": []}');
+      expect(() => loadApiKeys(file)).toThrow('expected a top-level "keys" array');
+    });
+
+    it('should reject unknown scopes', () => {
+      const file = writeKeys('scopes.json', JSON.stringify({
+        keys: [{ name: 'bot', key: 'secret-one', scopes: ['read', 'admin'] }],
+      }));
+      expect(() => loadApiKeys(file)).toThrow('Invalid API key "bot": unknown scope "admin"');
+    });
+
+    it('should reject duplicate names', () => {
+      const file = writeKeys('names.json', JSON.stringify({
+        keys: [
+          { name: 'bot', key: 'secret-one', scopes: ['read'] },
+          { name: 'bot', key: 'secret-two', scopes: ['*'] },
+        ],
+      }));
+      expect(() => loadApiKeys(file)).toThrow('Invalid API key "bot": duplicate name');
+    });
+
+    it('should reject the same key under two names, even when one is hashed', () => {
+      const file = writeKeys('keys-dup.json', JSON.stringify({
+        keys: [
+          { name: 'reader', key: 'secret-one', scopes: ['read'] },
+          { name: 'admin', key_sha256: createHash('sha256').update('secret-one').digest('hex'), scopes: ['*'] },
+        ],
+      }));
+      expect(() => loadApiKeys(file)).toThrow('Invalid API key "admin": same key as an earlier entry');
+    });
+  });
+
+  describe('createAuthMiddleware', () => {
+    const middleware = createAuthMiddleware([
+      { name: 'bot', key: 'secret-one', scopes: ['read', 'actions'], player_ids: ['1-11'] },
+      { name: 'viewer', key: 'secret-two', scopes: ['read'] },
+    ]);
+
+    function run(headers: Record<string, string>) {
+      const req = { headers } as unknown as Request;
+      const res = {
+        headers: {} as Record<string, string>,
+        statusCode: 200,
+        body: undefined as any,
+        setHeader(name: string, value: string) {
+          this.headers[name] = value;
+          return this;
+        },
+        status(code: number) {
+          this.statusCode = code;
+          return this;
+        },
+        json(body: unknown) {
+          this.body = body;
+          return this;
+        },
+      };
+      const next = jest.fn();
+      middleware(req, res as unknown as Response, next);
+      return { req, res, next };
+    }
+
+    it('should reject requests without a key', () => {
+      const { res, next } = run({});
+      expect(next).not.toHaveBeenCalled();
+      expect(res.statusCode).toBe(401);
+      expect(res.headers['WWW-Authenticate']).toBe('Bearer realm="structs-mcp"');
+      expect(res.body).toMatchObject({ jsonrpc: '2.0', error: { code: -32001 }, id: null });
+      expect(res.body.error.message).toContain('Missing API key');
+    });
+
+    it('should reject unknown keys', () => {
+      const { res, next } = run({ authorization: 'Bearer secret-three' });
+      expect(next).not.toHaveBeenCalled();
+      expect(res.statusCode).toBe(401);
+      expect(res.body.error.message).toBe('Invalid API key');
+    });
+
+    it('should accept a bearer token and set the auth info', () => {
+      const { req, res, next } = run({ authorization: 'Bearer secret-one' });
+      expect(next).toHaveBeenCalledTimes(1);
+      expect(res.statusCode).toBe(200);
+      expect(req.auth).toEqual({
+        token: 'secret-one',
+        clientId: 'bot',
+        scopes: ['read', 'actions'],
+        extra: { player_ids: ['1-11'] },
+      });
+    });
+
+    it('should accept an X-API-Key header', () => {
+      const { req, next } = run({ 'x-api-key': 'secret-two' });
+      expect(next).toHaveBeenCalledTimes(1);
+      expect(req.auth).toEqual({ token: 'secret-two', clientId: 'viewer', scopes: ['read'], extra: undefined });
+    });
+  });
+});
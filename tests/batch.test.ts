@@ -0,0 +1,104 @@
+/**
+ * Batch Query Tests
+ *
+ * Tests for structs_query_batch: routing mixed IDs by type, per-ID errors,
+ * the concurrency limit and projection.
+ */
+
+import { describe, it, expect, beforeAll, beforeEach } from '@jest/globals';
+import axios from 'axios';
+import { queryBatch } from '../src/tools/batch.js';
+import { queryHandlers } from '../src/tools/handlers/query-handlers.js';
+import { clearQueryCache } from '../src/utils/query-cache.js';
+import { config } from '../src/config.js';
+import { createFakeNode } from './fake-node.js';
+
+const requests: string[] = [];
+let inFlight = 0;
+let maxInFlight = 0;
+
+/**
+ * Fake consensus API: player 1-11, planet 2-1 and structs 5-1 to 5-20
+ */
+const fakeNode = createFakeNode(async ({ path }) => {
+  inFlight++;
+  maxInFlight = Math.max(maxInFlight, inFlight);
+  await new Promise((resolve) => setTimeout(resolve, 5));
+  inFlight--;
+
+  const [, , type, id] = path.split('/');
+  if (type === 'player' && id === '1-11') {
+    return { Player: { id: '1-11', guildId: '0-1', planetId: '2-1' }, gridAttributes: { ore: '12' } };
+  }
+  if (type === 'planet' && id === '2-1') {
+    return { Planet: { id: '2-1', owner: '1-11' } };
+  }
+  if (type === 'struct' && /^5-([1-9]|1\d|20)$/.test(id ?? '')) {
+    return { Struct: { id, owner: '1-11', type: '14' } };
+  }
+  return undefined;
+}, { onRequest: ({ path }) => requests.push(path) });
+
+describe('Batch queries', () => {
+  beforeAll(() => {
+    axios.defaults.adapter = fakeNode;
+  });
+
+  beforeEach(() => {
+    clearQueryCache();
+    requests.length = 0;
+    maxInFlight = 0;
+  });
+
+  it('should route mixed IDs by type and key results by ID', async () => {
+    const result = await queryBatch(['1-11', '2-1', '5-3', '1-11']);
+
+    expect(result.error).toBeUndefined();
+    expect(Object.keys(result.entities)).toEqual(['1-11', '2-1', '5-3']);
+    expect(result.entities['2-1']).toMatchObject({ Planet: { owner: '1-11' } });
+    expect(result.errors).toEqual({});
+    expect(requests.sort()).toEqual(['/structs/planet/2-1', '/structs/player/1-11', '/structs/struct/5-3']);
+  });
+
+  it('should report failed lookups per ID without failing the batch', async () => {
+    const result = await queryBatch(['5-1', '5-999', 'not-an-id']);
+
+    expect(Object.keys(result.entities)).toEqual(['5-1']);
+    expect(Object.keys(result.errors)).toEqual(['5-999', 'not-an-id']);
+    expect(result.errors['not-an-id']).toContain('Invalid entity ID');
+  });
+
+  it('should keep at most the configured number of lookups in flight', async () => {
+    const ids = Array.from({ length: 20 }, (_, i) => `5-${i + 1}`);
+
+    const result = await queryBatch(ids, 3);
+
+    expect(Object.keys(result.entities)).toHaveLength(20);
+    expect(maxInFlight).toBeLessThanOrEqual(3);
+
+    clearQueryCache();
+    maxInFlight = 0;
+    await queryBatch(ids, 1000);
+    expect(maxInFlight).toBeLessThanOrEqual(config.batch.concurrency);
+  });
+
+  it('should reject empty and oversized batches', async () => {
+    expect((await queryBatch([])).error).toContain('ids is required');
+    const tooMany = Array.from({ length: config.batch.maxIds + 1 }, (_, i) => `5-${i + 1}`);
+    expect((await queryBatch(tooMany)).error).toContain('Too many IDs');
+    expect(requests).toEqual([]);
+  });
+
+  it('should project each entity and keep the errors', async () => {
+    const handler = queryHandlers.get('structs_query_batch')!;
+
+    const response = await handler({ ids: ['1-11', '5-1', '5-999'], fields: ['*.Player.guildId', '*.Struct.type'] });
+
+    expect(response.isError).toBeUndefined();
+    expect(response.structuredContent?.entities).toEqual({
+      '1-11': { Player: { guildId: '0-1' } },
+      '5-1': { Struct: { type: '14' } },
+    });
+    expect(Object.keys(response.structuredContent?.errors as object)).toEqual(['5-999']);
+  });
+});
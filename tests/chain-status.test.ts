@@ -0,0 +1,125 @@
+/**
+ * Chain Status Tests
+ *
+ * Tests for the block clock (height fallbacks, measured block time,
+ * block/time conversions) and structs_chain_status.
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterEach, jest } from '@jest/globals';
+import axios from 'axios';
+import { getBlockHeight, parseClockTime, resetBlockClock } from '../src/utils/block-clock.js';
+import { getChainStatus } from '../src/tools/chain-status.js';
+import { config } from '../src/config.js';
+import { createFakeNode } from './fake-node.js';
+
+const LATEST_HEIGHT = 10000;
+const BLOCK_TIME_MS = 5500;
+let latestTime = Date.now();
+let apiDown = false;
+
+/**
+ * Fake consensus API: a chain at height 10000 with 5.5 second blocks, on another network
+ */
+const fakeNode = createFakeNode(({ path }) => {
+  if (apiDown) return undefined;
+
+  if (path === '/structs/blockheight') return { blockHeight: String(LATEST_HEIGHT) };
+  if (path === '/cosmos/base/tendermint/v1beta1/syncing') return { syncing: false };
+  if (path === '/cosmos/base/tendermint/v1beta1/node_info') {
+    return { default_node_info: { network: 'structstestnet-999', moniker: 'node' }, application_version: { version: 'v0.15.0' } };
+  }
+  const block = path.match(/^\/cosmos\/base\/tendermint\/v1beta1\/blocks\/(\w+)$/);
+  if (block) {
+    const height = block[1] === 'latest' ? LATEST_HEIGHT : Number(block[1]);
+    const time = new Date(latestTime - (LATEST_HEIGHT - height) * BLOCK_TIME_MS).toISOString();
+    return { block: { header: { height: String(height), time } } };
+  }
+  return undefined;
+});
+
+describe('Block clock', () => {
+  beforeAll(() => {
+    axios.defaults.adapter = fakeNode;
+  });
+
+  beforeEach(() => {
+    resetBlockClock();
+    latestTime = Date.now();
+    apiDown = false;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should read the height from the API and estimate it when the API goes down', async () => {
+    expect(await getBlockHeight()).toMatchObject({ height: LATEST_HEIGHT, source: 'api' });
+
+    apiDown = true;
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now + 60000);
+
+    expect(await getBlockHeight()).toMatchObject({ height: LATEST_HEIGHT + 12, source: 'estimate' });
+  });
+
+  it('should parse ISO times and the next occurrence of a UTC time of day', () => {
+    const now = Date.parse('2026-03-01T15:00:00Z');
+
+    expect(parseClockTime('14:00', now)).toBe(Date.parse('2026-03-02T14:00:00Z'));
+    expect(parseClockTime('16:30:15', now)).toBe(Date.parse('2026-03-01T16:30:15Z'));
+    expect(parseClockTime('2026-03-05T00:00:00Z', now)).toBe(Date.parse('2026-03-05T00:00:00Z'));
+    expect(() => parseClockTime('25:00', now)).toThrow('Invalid time');
+    expect(() => parseClockTime('soon', now)).toThrow('Invalid time');
+  });
+});
+
+describe('Chain status', () => {
+  beforeEach(() => {
+    resetBlockClock();
+    latestTime = Date.now();
+    apiDown = false;
+  });
+
+  it('should report height, measured block time, node state and endpoints', async () => {
+    const status = await getChainStatus();
+
+    expect(status).toMatchObject({
+      chain_id: config.chainId,
+      height: LATEST_HEIGHT,
+      height_source: 'api',
+      block_time: { average_ms: BLOCK_TIME_MS, source: 'measured', window: 100, latest_height: LATEST_HEIGHT },
+      node: { reachable: true, syncing: false, network: 'structstestnet-999', app_version: 'v0.15.0' },
+      endpoints: { consensus_api: config.consensusApiUrl, database: null },
+      errors: [],
+    });
+    expect(status.warnings).toEqual([expect.stringContaining('structstestnet-999')]);
+  });
+
+  it('should convert past and future blocks to times', async () => {
+    const past = await getChainStatus(LATEST_HEIGHT - 10);
+    const future = await getChainStatus(LATEST_HEIGHT + 100);
+
+    expect(past.block).toMatchObject({ blocks_away: -10, estimated: false, time: new Date(latestTime - 10 * BLOCK_TIME_MS).toISOString() });
+    expect(future.block).toMatchObject({ blocks_away: 100, estimated: true, time: new Date(latestTime + 100 * BLOCK_TIME_MS).toISOString() });
+  });
+
+  it('should convert a time to the first block produced at or after it', async () => {
+    const status = await getChainStatus(undefined, new Date(latestTime + 60000).toISOString());
+
+    expect(status.at_time).toMatchObject({ height: LATEST_HEIGHT + 11, blocks_away: 11, estimated: true });
+    await expect(getChainStatus(0)).rejects.toThrow('Invalid block');
+  });
+
+  it('should fall back to the default block time when the node is unreachable', async () => {
+    apiDown = true;
+
+    const status = await getChainStatus(LATEST_HEIGHT);
+
+    expect(status.block_time).toEqual({ average_ms: 5000, source: 'default' });
+    expect(status.node.reachable).toBe(false);
+    expect(status.errors).toEqual([
+      expect.stringContaining('Failed to get block height'),
+      'Cannot convert between blocks and times without a current height',
+    ]);
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * Completion Tests
+ *
+ * Tests for argument completion and recently seen entity IDs.
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { completeArgument } from '../src/completions/index.js';
+import { recordEntityIds, getRecentEntityIds, clearRecentEntityIds } from '../src/utils/recent-ids.js';
+
+describe('Completions', () => {
+  const promptRef = { type: 'ref/prompt' as const, name: 'structs_first_session' };
+
+  beforeEach(() => {
+    clearRecentEntityIds();
+  });
+
+  it('should complete action names by prefix', async () => {
+    const result = await completeArgument(promptRef, { name: 'action', value: 'struct-build' });
+    expect(result.values.length).toBeGreaterThan(0);
+    expect(result.values.every((value) => value.includes('struct-build'))).toBe(true);
+  });
+
+  it('should complete workflow types', async () => {
+    const result = await completeArgument(promptRef, { name: 'workflow_type', value: 'struct' });
+    expect(result.values).toContain('struct_build');
+  });
+
+  it('should suggest recently seen IDs, most recent first', async () => {
+    recordEntityIds({ fleets: [{ id: '9-1' }, { id: '9-2' }], owner: '1-11' });
+    recordEntityIds({ fleet: { id: '9-1' } });
+
+    expect(getRecentEntityIds('fleet')).toEqual(['9-1', '9-2']);
+    expect(getRecentEntityIds('player')).toEqual(['1-11']);
+
+    const result = await completeArgument(promptRef, { name: 'fleet_id', value: '9-' });
+    expect(result.values).toEqual(['9-1', '9-2']);
+  });
+
+  it('should return nothing for unknown arguments', async () => {
+    const result = await completeArgument(promptRef, { name: 'unknown', value: '' });
+    expect(result.values).toEqual([]);
+    expect(result.hasMore).toBe(false);
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Consensus Client Tests
+ *
+ * Tests for retries, circuit breaking, de-duplication and error mapping of
+ * the shared consensus API client.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { AxiosError, type AxiosAdapter, type InternalAxiosRequestConfig } from 'axios';
+import {
+  createConsensusClient,
+  isConsensusError,
+  toApiError,
+  type ConsensusClientOptions,
+} from '../src/utils/consensus-client.js';
+import { runWithRequestContext } from '../src/utils/request-context.js';
+
+type Reply = number | 'timeout' | ((requestConfig: InternalAxiosRequestConfig) => Promise<unknown>);
+
+/**
+ * Adapter that answers with the given replies in order (repeating the last)
+ */
+function scriptedAdapter(replies: Reply[]): AxiosAdapter & { calls: InternalAxiosRequestConfig[] } {
+  const calls: InternalAxiosRequestConfig[] = [];
+  const adapter = async (requestConfig: InternalAxiosRequestConfig) => {
+    calls.push(requestConfig);
+    const reply = replies[Math.min(calls.length - 1, replies.length - 1)];
+    if (reply === 'timeout') {
+      throw new AxiosError('timeout exceeded', 'ECONNABORTED', requestConfig);
+    }
+    if (typeof reply === 'function') {
+      const data = await reply(requestConfig);
+      return { data, status: 200, statusText: 'OK', headers: {}, config: requestConfig };
+    }
+    const response = { data: { status: reply }, status: reply, statusText: reply === 200 ? 'OK' : 'Failed', headers: { 'X-Cosmos-Block-Height': '42' }, config: requestConfig };
+    if (reply >= 400) {
+      throw new AxiosError('Request failed', 'ERR_BAD_RESPONSE', requestConfig, null, response);
+    }
+    return response;
+  };
+  return Object.assign(adapter, { calls });
+}
+
+function clientOptions(adapter: AxiosAdapter, overrides: Partial<ConsensusClientOptions> = {}): ConsensusClientOptions {
+  return {
+    baseUrl: 'http://node.test:1317/',
+    timeout: 1000,
+    retries: 2,
+    retryDelay: 1,
+    breakerThreshold: 3,
+    breakerReset: 60000,
+    adapter,
+    ...overrides,
+  };
+}
+
+describe('Consensus client', () => {
+  it('should retry 5xx responses and timeouts with backoff', async () => {
+    const adapter = scriptedAdapter([503, 'timeout', 200]);
+    const client = createConsensusClient(clientOptions(adapter));
+
+    const response = await client.get('/structs/player/1-11', { params: { b: '2', a: '1' } });
+
+    expect(response.data).toEqual({ status: 200 });
+    expect(response.headers['x-cosmos-block-height']).toBe('42');
+    expect(adapter.calls).toHaveLength(3);
+    expect(adapter.calls[0].url).toBe('http://node.test:1317/structs/player/1-11');
+    expect(adapter.calls[0].timeout).toBe(1000);
+  });
+
+  it('should not retry client errors and map them to API errors', async () => {
+    const adapter = scriptedAdapter([404]);
+    const client = createConsensusClient(clientOptions(adapter));
+
+    const error = await client.get('/structs/player/1-999').catch((caught: unknown) => caught);
+
+    expect(adapter.calls).toHaveLength(1);
+    expect(isConsensusError(error)).toBe(true);
+    if (!isConsensusError(error)) return;
+    expect(error.message).toBe('API error: 404 Failed');
+    const structured = toApiError(error);
+    expect(structured.error.code).toBe('API_404');
+    expect(structured.error.details).toMatchObject({ status: 404, attempts: 1, url: 'http://node.test:1317/structs/player/1-999' });
+  });
+
+  it('should report the attempts when retries run out', async () => {
+    const adapter = scriptedAdapter(['timeout']);
+    const client = createConsensusClient(clientOptions(adapter, { breakerThreshold: 10 }));
+
+    await expect(client.get('/structs/blockheight')).rejects.toThrow('API error: no response within 1000ms (after 3 attempts)');
+    expect(adapter.calls).toHaveLength(3);
+  });
+
+  it('should fail fast while the circuit is open and close after a successful trial', async () => {
+    const adapter = scriptedAdapter([500, 500, 500, 200]);
+    const client = createConsensusClient(clientOptions(adapter, { retries: 0, breakerReset: 30 }));
+
+    for (let i = 0; i < 3; i++) {
+      await expect(client.get(`/structs/struct/5-${i}`)).rejects.toThrow('500');
+    }
+    expect(client.getCircuitState()).toBe('open');
+
+    const fastFailure = await client.get('/structs/struct/5-9').catch((caught: unknown) => caught);
+    expect(isConsensusError(fastFailure) && fastFailure.code).toBe('API_CIRCUIT_OPEN');
+    expect(adapter.calls).toHaveLength(3);
+
+    await new Promise((resolve) => setTimeout(resolve, 40));
+    expect(client.getCircuitState()).toBe('half_open');
+    await expect(client.get('/structs/struct/5-9')).resolves.toMatchObject({ status: 200 });
+    expect(client.getCircuitState()).toBe('closed');
+  });
+
+  it('should share identical in-flight GETs', async () => {
+    let release: (value: unknown) => void = () => undefined;
+    const adapter = scriptedAdapter([() => new Promise((resolve) => { release = resolve; })]);
+    const client = createConsensusClient(clientOptions(adapter));
+
+    const first = client.get('/structs/guild', { params: { 'pagination.limit': '10', 'pagination.key': 'x' } });
+    const second = client.get('/structs/guild', { params: { 'pagination.key': 'x', 'pagination.limit': '10' } });
+    await new Promise((resolve) => setImmediate(resolve));
+    release({ Guild: [] });
+
+    const [a, b] = await Promise.all([first, second]);
+    expect(a.data).toEqual({ Guild: [] });
+    expect(b).toBe(a);
+    expect(adapter.calls).toHaveLength(1);
+  });
+
+  it('should let one caller cancel without aborting a shared request', async () => {
+    let release: (value: unknown) => void = () => undefined;
+    const adapter = scriptedAdapter([() => new Promise((resolve) => { release = resolve; })]);
+    const client = createConsensusClient(clientOptions(adapter));
+    const controller = new AbortController();
+
+    const cancelled = runWithRequestContext({ signal: controller.signal }, () => client.get('/structs/planet/2-1'));
+    const other = client.get('/structs/planet/2-1');
+    await new Promise((resolve) => setImmediate(resolve));
+    controller.abort();
+
+    await expect(cancelled).rejects.toThrow('cancelled');
+    release({ Planet: { id: '2-1' } });
+    await expect(other).resolves.toMatchObject({ data: { Planet: { id: '2-1' } } });
+    expect((adapter.calls[0].signal as AbortSignal).aborted).toBe(false);
+  });
+
+  it('should abort a shared request when the last caller waiting for it cancels', async () => {
+    const adapter = scriptedAdapter([() => new Promise(() => undefined), 200]);
+    const client = createConsensusClient(clientOptions(adapter));
+    const controllers = [new AbortController(), new AbortController()];
+
+    const callers = controllers.map((controller) => runWithRequestContext({ signal: controller.signal }, () => client.get('/structs/planet/2-1')));
+    await new Promise((resolve) => setImmediate(resolve));
+    const signal = adapter.calls[0].signal as AbortSignal;
+
+    controllers[0].abort();
+    await expect(callers[0]).rejects.toThrow('cancelled');
+    expect(signal.aborted).toBe(false);
+
+    controllers[1].abort();
+    await expect(callers[1]).rejects.toThrow('cancelled');
+    expect(signal.aborted).toBe(true);
+
+    // A new caller starts a new request rather than joining the aborted one
+    await expect(client.get('/structs/planet/2-1')).resolves.toMatchObject({ status: 200 });
+    expect(adapter.calls).toHaveLength(2);
+    expect(client.getCircuitState()).toBe('closed');
+  });
+});
@@ -0,0 +1,276 @@
+/**
+ * Dashboard Tests
+ *
+ * Tests for the guild dashboard (member state, structs, fleets and
+ * operations, the guild bank, reactor allocations and substations, members
+ * in trouble listed first) and player dashboard snapshot deltas.
+ */
+
+import { describe, it, expect, beforeAll, beforeEach } from '@jest/globals';
+import axios from 'axios';
+import { AjvJsonSchemaValidator } from '@modelcontextprotocol/sdk/validation/ajv-provider.js';
+import { getGuildDashboard, getPlayerDashboard, clearDashboardSnapshots, type PlayerDashboard, type PlayerDashboardDelta } from '../src/tools/dashboard.js';
+import { guildDashboardSchema, playerDashboardSchema } from '../src/tools/definitions/output-schemas.js';
+import { config } from '../src/config.js';
+import { clearQueryCache } from '../src/utils/query-cache.js';
+import { createFakeNode } from './fake-node.js';
+
+const requests: string[] = [];
+
+/**
+ * Fake consensus API: guild 0-1 with members 1-11 (fine) and 1-12 (halted, ore exposed, fleet away)
+ */
+const BASE_ROUTES: Record<string, any> = {
+  '/structs/guild/0-1': { Guild: { id: '0-1', owner: '1-11', primaryReactorId: '3-1', entrySubstationId: '4-1', bankCollateralPool: 'structs1pool' } },
+  '/structs/player': {
+    Player: [{ id: '1-11', guildId: '0-1' }, { id: '1-12', guildId: '0-1' }, { id: '1-13', guildId: '0-2' }],
+    pagination: { next_key: null },
+  },
+  '/structs/player/1-11': {
+    Player: { id: '1-11', guildId: '0-1', fleetId: '9-1', storage: [{ denom: 'uguild.0-1', amount: '300' }] },
+    gridAttributes: { capacity: '1000', load: '400', ore: '0' },
+    halted: false,
+  },
+  '/structs/player/1-12': {
+    Player: { id: '1-12', guildId: '0-1', fleetId: '9-2', storage: [{ denom: 'uguild.0-1', amount: '200' }, { denom: 'ualpha', amount: '9' }] },
+    gridAttributes: { capacity: '100', load: '150', ore: '7' },
+    halted: true,
+  },
+  '/structs/fleet/9-1': { Fleet: { id: '9-1', status: 'onStation', locationId: '2-1' } },
+  '/structs/fleet/9-2': { Fleet: { id: '9-2', status: 'away', locationId: '2-5' } },
+  '/structs/struct_type': { StructType: [{ id: 1, name: 'Command Ship' }, { id: 14, name: 'Ore Extractor' }], pagination: { next_key: null } },
+  '/structs/struct': {
+    Struct: [
+      { id: '5-1', owner: '1-11', type: 1, status: 'online' },
+      { id: '5-2', owner: '1-11', type: 14, status: 'online' },
+    ],
+    pagination: { next_key: 'page2' },
+  },
+  '/structs/struct?pagination.key=page2': {
+    Struct: [
+      { id: '5-3', owner: '1-12', type: 14, status: 'building' },
+      { id: '5-4', owner: '1-13', type: 14, status: 'online' },
+    ],
+    pagination: { next_key: null },
+  },
+  '/structs/allocation_by_source/3-1': {
+    Allocation: [{ id: '6-1', type: 'dynamic', sourceObjectId: '3-1', destinationId: '4-2', controller: '1-11' }],
+    pagination: { next_key: null },
+  },
+  '/structs/allocation': { Allocation: [], pagination: { next_key: null } },
+  '/structs/substation/4-1': { Substation: { id: '4-1', owner: '1-11' }, gridAttributes: { capacity: '500', load: '100', connectionCount: '2' } },
+  '/structs/substation/4-2': { Substation: { id: '4-2', owner: '1-11' } },
+  '/cosmos/bank/v1beta1/supply/by_denom': { amount: { denom: 'uguild.0-1', amount: '1000' } },
+  '/cosmos/bank/v1beta1/balances/structs1pool': { balances: [{ denom: 'ualpha', amount: '5000' }] },
+};
+
+const ROUTES: Record<string, any> = {};
+
+/**
+ * Put the routes back to BASE_ROUTES after a test changed them
+ */
+function resetRoutes() {
+  for (const route of Object.keys(ROUTES)) delete ROUTES[route];
+  Object.assign(ROUTES, structuredClone(BASE_ROUTES));
+}
+
+const fakeNode = createFakeNode(ROUTES, { onRequest: ({ path }) => requests.push(path) });
+
+describe('Guild dashboard', () => {
+  beforeAll(() => {
+    axios.defaults.adapter = fakeNode;
+  });
+
+  beforeEach(() => {
+    resetRoutes();
+    clearQueryCache();
+    requests.length = 0;
+  });
+
+  it('should list members in trouble first with their issues', async () => {
+    const dashboard = await getGuildDashboard('0-1');
+
+    expect(dashboard.errors).toEqual([]);
+    expect(dashboard.members_in_trouble).toEqual([
+      {
+        player_id: '1-12',
+        issues: [
+          { type: 'halted', detail: 'Halted: load 150 W exceeds capacity 100 W' },
+          { type: 'ore_exposed', detail: '7 unrefined ore can be stolen in a raid; refine it' },
+        ],
+      },
+    ]);
+    expect(dashboard.members.map((member) => [member.id, member.status])).toEqual([['1-12', 'halted'], ['1-11', 'online']]);
+    expect(dashboard.summary).toEqual({
+      total_members: 2,
+      online_members: 1,
+      halted_members: 1,
+      members_in_trouble: 1,
+      total_structs: 3,
+      fleets_away: 1,
+      total_substations: 2,
+      total_allocations: 1,
+    });
+  });
+
+  it('should summarize each member\'s power, structs and fleet', async () => {
+    const dashboard = await getGuildDashboard('0-1');
+    const member = dashboard.members.find((m) => m.id === '1-11');
+
+    expect(member).toMatchObject({
+      power: { capacity: 1000, load: 400, online: true, margin: 600 },
+      structs_by_type: { 'Command Ship': 1, 'Ore Extractor': 1 },
+      total_structs: 2,
+      fleet: { id: '9-1', status: 'on_station', location_id: '2-1' },
+      issues: [],
+    });
+    expect(dashboard.operations_in_progress).toEqual([
+      { player_id: '1-12', type: 'build', entity_id: '5-3', detail: 'Struct type Ore Extractor' },
+      { player_id: '1-12', type: 'fleet_away', entity_id: '9-2', detail: 'Away at 2-5' },
+    ]);
+  });
+
+  it('should read each struct list page once, however many members there are', async () => {
+    config.cacheEnabled = false;
+    try {
+      const dashboard = await getGuildDashboard('0-1');
+      expect(dashboard.summary.total_structs).toBe(3);
+    } finally {
+      config.cacheEnabled = true;
+    }
+    expect(requests.filter((path) => path === '/structs/struct')).toHaveLength(2);
+  });
+
+  it('should report the guild bank, reactor allocations and substations', async () => {
+    const dashboard = await getGuildDashboard('0-1');
+
+    expect(dashboard.bank).toEqual({
+      token_denom: 'uguild.0-1',
+      tokens_issued: 1000,
+      member_holdings: 500,
+      collateral_pool: 'structs1pool',
+      collateral: [{ denom: 'ualpha', amount: 5000 }],
+    });
+    expect(dashboard.allocations).toEqual([{ id: '6-1', type: 'dynamic', source_id: '3-1', destination_id: '4-2', controller: '1-11' }]);
+    expect(dashboard.substations).toEqual([
+      { id: '4-1', owner: '1-11', capacity: 500, load: 100, connection_count: 2 },
+      { id: '4-2', owner: '1-11' },
+    ]);
+    expect(new AjvJsonSchemaValidator().getValidator(guildDashboardSchema)(dashboard).valid).toBe(true);
+  });
+
+  it('should reject an invalid guild ID and report failed queries', async () => {
+    await expect(getGuildDashboard('guild-1')).rejects.toThrow('Invalid entity ID format');
+
+    const dashboard = await getGuildDashboard('0-9');
+    expect(dashboard.errors).toEqual([expect.stringContaining('Guild query failed: API error: 404')]);
+    expect(dashboard.members).toEqual([]);
+  });
+});
+
+describe('Player dashboard snapshots', () => {
+  const validate = (value: unknown) => new AjvJsonSchemaValidator().getValidator(playerDashboardSchema)(value).valid;
+
+  beforeAll(() => {
+    axios.defaults.adapter = fakeNode;
+  });
+
+  beforeEach(() => {
+    resetRoutes();
+    clearQueryCache();
+    clearDashboardSnapshots();
+  });
+
+  it('should return the full dashboard with a snapshot token, then an empty delta', async () => {
+    const full = await getPlayerDashboard('1-11') as PlayerDashboard;
+    expect(full.snapshot_token).toMatch(/^snap_/);
+    expect(full.snapshot_expired).toBeUndefined();
+    expect(full.fleets).toEqual([{ id: '9-1', planet_id: '2-1', on_station: true, struct_ids: [] }]);
+    expect(validate(full)).toBe(true);
+
+    clearQueryCache();
+    const delta = await getPlayerDashboard('1-11', undefined, full.snapshot_token) as PlayerDashboardDelta;
+    expect(delta).toMatchObject({ player: { id: '1-11' }, since: full.timestamp, unchanged: true });
+    expect(delta.snapshot_token).not.toBe(full.snapshot_token);
+    expect(validate(delta)).toBe(true);
+  });
+
+  it('should report structs, fleets, power and operations that changed', async () => {
+    const { snapshot_token } = await getPlayerDashboard('1-11') as PlayerDashboard;
+
+    ROUTES['/structs/player/1-11'].gridAttributes.load = '700';
+    ROUTES['/structs/struct'].Struct = [
+      { id: '5-2', owner: '1-11', type: 14, status: 'built' },
+      { id: '5-9', owner: '1-11', type: 14, status: 'building' },
+    ];
+    ROUTES['/structs/fleet/9-1'].Fleet = { id: '9-1', status: 'away', locationId: '2-5' };
+    clearQueryCache();
+    const delta = await getPlayerDashboard('1-11', undefined, snapshot_token) as PlayerDashboardDelta;
+
+    expect(delta.unchanged).toBe(false);
+    expect(delta.changes.player).toEqual({});
+    expect(delta.changes.power).toEqual({ load: { from: 400, to: 700 }, margin: { from: 600, to: 300 } });
+    expect(delta.changes.structs).toEqual({
+      added: [expect.objectContaining({ id: '5-9', status: 'building' })],
+      removed: [expect.objectContaining({ id: '5-1' })],
+      changed: [{ id: '5-2', changes: { status: { from: 'online', to: 'built' } } }],
+    });
+    expect(delta.changes.fleets.moved).toEqual([{ id: '9-1', changes: { planet_id: { from: '2-1', to: '2-5' } } }]);
+    expect(delta.changes.fleets.changed).toEqual([{ id: '9-1', changes: { on_station: { from: true, to: false } } }]);
+    expect(delta.changes.operations).toEqual({ started: [{ type: 'build', entity_id: '5-9', detail: 'Struct type 14' }], finished: [] });
+    expect(delta.summary.total_structs).toBe(2);
+    expect(validate(delta)).toBe(true);
+  });
+
+  it('should not diff or keep a dashboard read with errors', async () => {
+    const { snapshot_token } = await getPlayerDashboard('1-11') as PlayerDashboard;
+
+    delete ROUTES['/structs/struct'];
+    clearQueryCache();
+    const failed = await getPlayerDashboard('1-11', undefined, snapshot_token) as PlayerDashboard;
+    expect(failed.errors).toEqual([expect.stringContaining('Struct list query failed')]);
+    expect(failed.structs).toEqual([]);
+    expect(failed.snapshot_token).toBe(snapshot_token);
+
+    resetRoutes();
+    clearQueryCache();
+    const delta = await getPlayerDashboard('1-11', undefined, snapshot_token) as PlayerDashboardDelta;
+    expect(delta.unchanged).toBe(true);
+  });
+
+  it('should report a truncated struct list and not diff it', async () => {
+    const { snapshot_token } = await getPlayerDashboard('1-11') as PlayerDashboard;
+
+    // The owner filter gives up after its page limit with more pages left
+    ROUTES['/structs/struct?pagination.key=page2'].pagination.next_key = 'page2';
+    clearQueryCache();
+    const truncated = await getPlayerDashboard('1-11', undefined, snapshot_token) as PlayerDashboard;
+    expect(truncated.errors).toEqual([expect.stringContaining('Struct list truncated at 2 structs')]);
+    expect(truncated.structs).toHaveLength(2);
+    expect((truncated as Partial<PlayerDashboardDelta>).changes).toBeUndefined();
+    expect(truncated.snapshot_token).toBe(snapshot_token);
+  });
+
+  it('should read the snapshot before storing a new one', async () => {
+    const maxSnapshots = config.dashboard.maxSnapshots;
+    config.dashboard.maxSnapshots = 1;
+    clearDashboardSnapshots();
+    try {
+      const { snapshot_token } = await getPlayerDashboard('1-11') as PlayerDashboard;
+      clearQueryCache();
+      expect(await getPlayerDashboard('1-11', undefined, snapshot_token)).toMatchObject({ unchanged: true });
+    } finally {
+      config.dashboard.maxSnapshots = maxSnapshots;
+      clearDashboardSnapshots();
+    }
+  });
+
+  it('should return the full dashboard for an unknown token or another player\'s token', async () => {
+    const other = await getPlayerDashboard('1-12') as PlayerDashboard;
+
+    for (const token of ['snap_unknown', other.snapshot_token]) {
+      const full = await getPlayerDashboard('1-11', undefined, token) as PlayerDashboard;
+      expect(full).toMatchObject({ snapshot_expired: true, player: { id: '1-11' }, structs: expect.any(Array) });
+    }
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Entity Query Tests
+ *
+ * Tests for the infusion, address, permission, attribute and grid queries
+ * and their list filters.
+ */
+
+import { describe, it, expect, beforeAll, beforeEach } from '@jest/globals';
+import axios from 'axios';
+import { resolveAttributeType } from '../src/tools/attributes.js';
+import { matchesListFilters } from '../src/tools/list-filters.js';
+import {
+  queryAddress,
+  queryGrid,
+  queryPermission,
+  queryStructAttribute,
+  listPermissions,
+} from '../src/tools/query.js';
+import { getAllToolDefinitions } from '../src/tools/definitions/index.js';
+import { extractEntityIds } from '../src/utils/references.js';
+import { clearQueryCache } from '../src/utils/query-cache.js';
+import { createFakeNode } from './fake-node.js';
+
+const requests: string[] = [];
+
+/**
+ * Fake consensus API: grid values of player 1-11, one struct attribute and
+ * permissions; no permission-by-object endpoint
+ */
+const fakeNode = createFakeNode({
+  '/structs/grid/2-1-11': { gridAttribute: { attributeId: '2-1-11', value: '500' } },
+  '/structs/grid/3-1-11': { gridAttribute: { attributeId: '3-1-11', value: '120' } },
+  '/structs/struct_attribute/0-5-1': { structAttribute: { attributeId: '0-5-1', value: '3' } },
+  '/structs/permission/0-1@1-11': { permission: { permissionId: '0-1@1-11', value: '16777215' } },
+  '/structs/address/structs1qypqxpq9qcrsszg2pvxq6rs0zqg3yyc5lzv7xu': { address: 'structs1qypqxpq9qcrsszg2pvxq6rs0zqg3yyc5lzv7xu', playerId: '1-11', permissions: '1' },
+  '/structs/permission': {
+    Permission: [
+      { permissionId: '0-1@1-11', value: '16777215' },
+      { permissionId: '5-1@1-11', value: '1' },
+      { permissionId: '0-1@1-12', value: '1' },
+    ],
+    pagination: { next_key: null, total: '3' },
+  },
+}, { onRequest: ({ path }) => requests.push(path) });
+
+describe('Entity queries', () => {
+  beforeAll(() => {
+    axios.defaults.adapter = fakeNode;
+  });
+
+  beforeEach(() => {
+    clearQueryCache();
+    requests.length = 0;
+  });
+
+  it('should resolve attribute types by name or code', () => {
+    expect(resolveAttributeType('grid', 'Capacity')).toEqual({ name: 'capacity', code: 2 });
+    expect(resolveAttributeType('struct', 0)).toEqual({ name: 'health', code: 0 });
+    expect(resolveAttributeType('planet', 'shields').error).toContain('Unknown planet attribute type');
+  });
+
+  it('should read the grid power summary and report unset values as null', async () => {
+    const result = await queryGrid('1-11');
+
+    expect(result.error).toBeUndefined();
+    expect(result.grid).toEqual({
+      object_id: '1-11',
+      attributes: { capacity: '500', load: '120', structsLoad: null, power: null, connectionCapacity: null, connectionCount: null },
+    });
+
+    expect((await queryGrid('1-11', 'load')).grid?.attributes).toEqual({ load: '120' });
+  });
+
+  it('should read struct attributes and validate the struct ID', async () => {
+    expect((await queryStructAttribute('5-1', 'health')).struct_attribute).toEqual({
+      attribute_id: '0-5-1',
+      object_id: '5-1',
+      attribute_type: 'health',
+      value: '3',
+    });
+    expect((await queryStructAttribute('2-1', 'health')).error).toContain('Entity type mismatch');
+  });
+
+  it('should query permissions by object and player, and addresses by account address', async () => {
+    const permission = await queryPermission('0-1', '1-11');
+    expect(permission.permission).toEqual({ permission: { permissionId: '0-1@1-11', value: '16777215' } });
+
+    const address = await queryAddress('structs1qypqxpq9qcrsszg2pvxq6rs0zqg3yyc5lzv7xu');
+    expect(address.address).toMatchObject({ playerId: '1-11' });
+    expect((await queryAddress('not-an-address')).error).toContain('Invalid address');
+  });
+
+  it('should filter permissions by the parts of their IDs', async () => {
+    expect(matchesListFilters({ permissionId: '5-1@1-11' }, { object_id: '5-1', player_id: '1-11' })).toBe(true);
+    expect(matchesListFilters({ attributeId: '2-1-11', value: '5' }, { object_id: '1-11' })).toBe(true);
+
+    // No permission/object endpoint on this node: walks the full list instead
+    const result = await listPermissions(undefined, undefined, { object_id: '0-1' });
+    expect(result.permissions).toEqual([
+      { permissionId: '0-1@1-11', value: '16777215' },
+      { permissionId: '0-1@1-12', value: '1' },
+    ]);
+    expect(requests).toEqual(['/structs/permission/object/0-1', '/structs/permission']);
+  });
+
+  it('should register query and list tools for the new entity types', () => {
+    const names = getAllToolDefinitions().map((tool) => tool.name);
+    expect(names).toEqual(expect.arrayContaining([
+      'structs_query_infusion',
+      'structs_list_infusions',
+      'structs_query_address',
+      'structs_list_addresses',
+      'structs_query_permission',
+      'structs_list_permissions',
+      'structs_query_guild_rank_permission',
+      'structs_list_guild_rank_permissions',
+      'structs_query_struct_attribute',
+      'structs_list_struct_attributes',
+      'structs_query_planet_attribute',
+      'structs_list_planet_attributes',
+      'structs_query_grid',
+      'structs_list_grid_attributes',
+    ]));
+  });
+
+  it('should extract the object and player of permission IDs as references', () => {
+    const ids = extractEntityIds({ permissions: [{ permissionId: '5-1@1-11' }], infusion: { id: '7-3' } });
+
+    expect(ids.get('struct')).toEqual(new Set(['5-1']));
+    expect(ids.get('player')).toEqual(new Set(['1-11']));
+    expect(ids.get('infusion')).toEqual(new Set(['7-3']));
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Event Store Tests
+ *
+ * Tests for the bounded in-memory event store used by stateful HTTP sessions.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { BoundedEventStore } from '../src/utils/event-store.js';
+
+function notification(n: number): JSONRPCMessage {
+  return { jsonrpc: '2.0', method: 'notifications/message', params: { n } };
+}
+
+async function replay(store: BoundedEventStore, lastEventId: string) {
+  const sent: Array<{ eventId: string; message: JSONRPCMessage }> = [];
+  const streamId = await store.replayEventsAfter(lastEventId, {
+    send: async (eventId, message) => {
+      sent.push({ eventId, message });
+    },
+  });
+  return { streamId, sent };
+}
+
+describe('BoundedEventStore', () => {
+  it('should replay events after the given event on the same stream', async () => {
+    const store = new BoundedEventStore();
+    const first = await store.storeEvent('stream-a', notification(1));
+    await store.storeEvent('stream-b', notification(2));
+    const third = await store.storeEvent('stream-a', notification(3));
+
+    const { streamId, sent } = await replay(store, first);
+    expect(streamId).toBe('stream-a');
+    expect(sent.map((e) => e.eventId)).toEqual([third]);
+  });
+
+  it('should map event IDs to stream IDs, including SDK stream IDs with underscores', async () => {
+    const store = new BoundedEventStore();
+    const eventId = await store.storeEvent('_GET_stream', notification(1));
+    expect(await store.getStreamIdForEventId(eventId)).toBe('_GET_stream');
+  });
+
+  it('should return an empty stream ID for unknown events', async () => {
+    const store = new BoundedEventStore();
+    const { streamId, sent } = await replay(store, '42');
+    expect(streamId).toBe('');
+    expect(sent).toHaveLength(0);
+  });
+
+  it('should drop the oldest events when over capacity', async () => {
+    const store = new BoundedEventStore(2);
+    const first = await store.storeEvent('s', notification(1));
+    const second = await store.storeEvent('s', notification(2));
+    const third = await store.storeEvent('s', notification(3));
+
+    expect(store.size).toBe(2);
+    expect(await store.getStreamIdForEventId(first)).toBeUndefined();
+
+    const { sent } = await replay(store, second);
+    expect(sent.map((e) => e.eventId)).toEqual([third]);
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * Event Stream Tests
+ *
+ * Tests for the NATS event stream (subject matching, ring buffers,
+ * subscriptions and cursors, reconnecting) and structs_events_poll.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import {
+  createEventStream,
+  subjectMatches,
+  subjectsOverlap,
+  closeEventStream,
+  type EventStream,
+  type EventStreamOptions,
+  type StreamConnection,
+  type StreamMessage,
+} from '../src/utils/event-stream.js';
+import { pollEvents, subscribeEvents } from '../src/tools/events.js';
+import { runWithRequestContext } from '../src/utils/request-context.js';
+
+/**
+ * Fake NATS connection: records subscriptions and delivers published messages to them
+ */
+function createFakeConnection() {
+  const listeners = new Map<string, (error: Error | null, message: StreamMessage) => void>();
+  let close: (error?: Error) => void = () => {};
+  const closed = new Promise<void | Error>((resolve) => { close = resolve; });
+  const connection: StreamConnection = {
+    subscribe(subject, { callback }) {
+      listeners.set(subject, callback);
+      return { unsubscribe: () => listeners.delete(subject) };
+    },
+    status: () => ({ [Symbol.asyncIterator]: () => ({ next: () => closed.then(() => ({ done: true as const, value: undefined })) }) }),
+    closed: () => closed,
+    drain: async () => close(),
+  };
+  return {
+    connection,
+    listeners,
+    /** Deliver a message to the first subscription whose pattern matches */
+    publish(subject: string, data: unknown) {
+      const callback = [...listeners].find(([pattern]) => subjectMatches(pattern, subject))?.[1];
+      callback?.(null, { subject, data: new TextEncoder().encode(JSON.stringify(data)) });
+    },
+    /** Drop the connection the way the client does when it gives up reconnecting */
+    drop: () => close(new Error('connection lost')),
+  };
+}
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 5));
+
+describe('Event stream', () => {
+  let connections: ReturnType<typeof createFakeConnection>[];
+  let stream: EventStream;
+
+  function openStream(overrides: Partial<EventStreamOptions> = {}): EventStream {
+    return createEventStream({
+      servers: 'nats://fake:4222',
+      subjects: ['structs.planet.>', 'structs.struct.>', 'structs.block'],
+      bufferSize: 3,
+      maxSubjects: 10,
+      maxSubscriptions: 2,
+      subscriptionIdleTimeout: 60000,
+      reconnectDelay: 10,
+      connect: async () => {
+        const fake = createFakeConnection();
+        connections.push(fake);
+        return fake.connection;
+      },
+      ...overrides,
+    });
+  }
+
+  beforeEach(() => {
+    connections = [];
+    stream = openStream();
+  });
+
+  afterEach(async () => {
+    await stream.close();
+  });
+
+  it('should match subjects against NATS wildcards', () => {
+    expect(subjectMatches('structs.planet.>', 'structs.planet.2-1')).toBe(true);
+    expect(subjectMatches('structs.planet.>', 'structs.planet')).toBe(false);
+    expect(subjectMatches('structs.*.2-1', 'structs.planet.2-1')).toBe(true);
+    expect(subjectMatches('structs.*.2-1', 'structs.planet.2-1.raid')).toBe(false);
+    expect(subjectMatches('structs.block', 'structs.block')).toBe(true);
+  });
+
+  it('should connect on first subscribe and deliver new events matching the filter', async () => {
+    expect(stream.getStatus().state).toBe('idle');
+    const planet = stream.subscribe({ entity_id: '2-1' });
+    await tick();
+
+    expect(stream.getStatus().state).toBe('connected');
+    expect([...connections[0].listeners.keys()]).toEqual(['structs.planet.>', 'structs.struct.>', 'structs.block']);
+
+    connections[0].publish('structs.planet.2-1', { category: 'raid_status', fleetId: '9-4' });
+    connections[0].publish('structs.planet.2-2', { category: 'raid_status' });
+    connections[0].publish('structs.struct.5-7', { category: 'attack', targetPlanet: '2-1' });
+
+    const first = await stream.poll(planet.subscription_id);
+    expect(first.events.map((event) => event.subject)).toEqual(['structs.planet.2-1', 'structs.struct.5-7']);
+    expect(first.events[0]).toMatchObject({ entity_type: 'planet', entity_id: '2-1', entity_ids: ['2-1', '9-4'], data: { category: 'raid_status' } });
+    expect(first).toMatchObject({ next_cursor: 3, has_more: false, events_missed: false });
+
+    // The cursor advanced: nothing new
+    expect((await stream.poll(planet.subscription_id)).events).toEqual([]);
+  });
+
+  it('should page with limit and report events evicted from the ring buffer', async () => {
+    const all = stream.subscribe({ subject: 'structs.block' });
+    await tick();
+    for (let height = 1; height <= 5; height++) {
+      connections[0].publish('structs.block', { height });
+    }
+
+    // Only the last 3 blocks are buffered
+    const page = await stream.poll(all.subscription_id, { limit: 2 });
+    expect(page.events.map((event) => (event.data as { height: number }).height)).toEqual([3, 4]);
+    expect(page).toMatchObject({ next_cursor: 4, has_more: true, events_missed: true });
+
+    const rest = await stream.poll(all.subscription_id);
+    expect(rest.events.map((event) => event.cursor)).toEqual([5]);
+    expect(rest.events_missed).toBe(false);
+  });
+
+  it('should wait for the next event when asked to', async () => {
+    const blocks = stream.subscribe({ subject: 'structs.block' });
+    await tick();
+
+    const poll = stream.poll(blocks.subscription_id, { waitMs: 1000 });
+    setTimeout(() => connections[0].publish('structs.block', { height: 7 }), 20);
+
+    expect((await poll).events).toHaveLength(1);
+  });
+
+  it('should enforce the subscription limit and reject invalid subjects', () => {
+    expect(() => stream.subscribe({ subject: 'structs.>.planet' })).toThrow('Invalid subject pattern');
+    stream.subscribe({});
+    stream.subscribe({});
+    expect(() => stream.subscribe({})).toThrow('Subscription limit reached (2)');
+  });
+
+  it('should only accept subjects that overlap the configured ones, without new NATS subscriptions', async () => {
+    expect(subjectsOverlap('structs.planet.>', 'structs.*.2-1')).toBe(true);
+    expect(subjectsOverlap('structs.block', 'structs.*')).toBe(true);
+    expect(subjectsOverlap('structs.block', 'structs.block.>')).toBe(false);
+    expect(subjectsOverlap('structs.planet.>', 'structs.fleet.>')).toBe(false);
+
+    expect(() => stream.subscribe({ subject: 'structs.fleet.>' })).toThrow('outside the subscribed event subjects');
+    expect(() => stream.subscribe({ subject: 'chain.secrets' })).toThrow('outside the subscribed event subjects');
+    stream.subscribe({ subject: '>' });
+    await tick();
+
+    expect([...connections[0].listeners.keys()]).toEqual(['structs.planet.>', 'structs.struct.>', 'structs.block']);
+  });
+
+  it('should give subscriptions random IDs that only their owner can poll', async () => {
+    const mine = stream.subscribe({}, false, 'key-a');
+    const other = stream.subscribe({}, false, 'key-a');
+    expect(mine.subscription_id).toMatch(/^sub-[0-9a-f-]{36}$/);
+    expect(other.subscription_id).not.toBe(mine.subscription_id);
+    await tick();
+    connections[0].publish('structs.block', { height: '100' });
+
+    await expect(stream.poll(mine.subscription_id, { owner: 'key-b' })).rejects.toThrow('Subscription not found');
+    await expect(stream.poll(mine.subscription_id)).rejects.toThrow('Subscription not found');
+    // The failed polls did not move the owner's cursor
+    expect((await stream.poll(mine.subscription_id, { owner: 'key-a' })).events).toHaveLength(1);
+  });
+
+  it('should reconnect and resubscribe after the connection is lost', async () => {
+    stream.subscribe({ subject: 'structs.planet.2-1' });
+    await tick();
+    expect(connections[0].listeners.has('structs.planet.>')).toBe(true);
+
+    connections[0].drop();
+    await tick();
+    expect(stream.getStatus()).toMatchObject({ state: 'reconnecting', last_error: 'connection lost' });
+
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    expect(connections).toHaveLength(2);
+    expect(stream.getStatus()).toMatchObject({ state: 'connected', reconnects: 1 });
+    expect(connections[1].listeners.has('structs.planet.>')).toBe(true);
+  });
+
+  it('should keep retrying when the server is unreachable', async () => {
+    let attempts = 0;
+    stream = openStream({
+      connect: async () => {
+        attempts++;
+        throw new Error('ECONNREFUSED');
+      },
+    });
+    stream.start();
+    await new Promise((resolve) => setTimeout(resolve, 60));
+
+    expect(attempts).toBeGreaterThan(1);
+    expect(stream.getStatus()).toMatchObject({ state: 'reconnecting', last_error: 'ECONNREFUSED' });
+  });
+});
+
+describe('structs_events_poll', () => {
+  it('should reject an invalid cursor, entity ID and unknown subscription', async () => {
+    await expect(pollEvents({ cursor: -1 })).rejects.toThrow('Invalid cursor');
+    await expect(pollEvents({ entity_id: 'planet-1' })).rejects.toThrow('Invalid entity ID');
+    await expect(pollEvents({ subscription_id: 'sub-999' })).rejects.toThrow('Subscription not found');
+  });
+
+  it('should bind subscriptions to the API key or session that made them', async () => {
+    try {
+      const { subscription } = runWithRequestContext({ owner: 'key-a' }, () => subscribeEvents({}));
+      const poll = (owner: string) => runWithRequestContext({ owner }, () => pollEvents({ subscription_id: subscription.subscription_id }));
+
+      await expect(poll('key-b')).rejects.toThrow('Subscription not found');
+      await expect(poll('key-a')).resolves.toMatchObject({ subscription_id: subscription.subscription_id, events: [] });
+    } finally {
+      await closeEventStream();
+    }
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Fake Consensus Node
+ *
+ * Axios adapter for tests that answers consensus API requests from a route
+ * table instead of the network. Install it with
+ * `axios.defaults.adapter = createFakeNode(routes)`.
+ */
+
+import { AxiosError, type AxiosAdapter, type InternalAxiosRequestConfig } from 'axios';
+
+/**
+ * A request as the routes see it
+ */
+export interface FakeRequest {
+  path: string;
+  params: Record<string, string>;
+  /** x-cosmos-block-height header, if the request was pinned to a height */
+  height?: string;
+  config: InternalAxiosRequestConfig;
+}
+
+/**
+ * Response body, or a function of the request returning one (undefined: no route)
+ */
+export type FakeRoute = unknown | ((request: FakeRequest) => unknown);
+
+/**
+ * Routes by path (a page of a list by `{path}?pagination.key={key}`), or one function for every request
+ */
+export type FakeRoutes = Record<string, FakeRoute> | ((request: FakeRequest) => unknown);
+
+export interface FakeNodeOptions {
+  /** Called with every request before it is answered */
+  onRequest?: (request: FakeRequest) => void;
+  /** Response headers */
+  headers?: (request: FakeRequest) => Record<string, string>;
+  /** Status for requests no route answers (default: 404) */
+  missingStatus?: number;
+}
+
+const STATUS_TEXT: Record<number, string> = { 200: 'OK', 404: 'Not Found', 501: 'Not Implemented' };
+
+/**
+ * Create a fake consensus node
+ *
+ * @param routes - Route table or routing function
+ * @param options - Request hook, response headers and missing route status
+ * @returns Axios adapter
+ */
+export function createFakeNode(routes: FakeRoutes, options: FakeNodeOptions = {}): AxiosAdapter {
+  return async (config) => {
+    const path = new URL(config.url!).pathname;
+    const params = (config.params ?? {}) as Record<string, string>;
+    const height = config.headers?.['x-cosmos-block-height'] as string | undefined;
+    const request: FakeRequest = { path, params, height, config };
+    options.onRequest?.(request);
+
+    let data: unknown;
+    if (typeof routes === 'function') {
+      data = await routes(request);
+    } else {
+      const pageKey = params['pagination.key'];
+      const route = pageKey && `${path}?pagination.key=${pageKey}` in routes ? routes[`${path}?pagination.key=${pageKey}`] : routes[path];
+      data = typeof route === 'function' ? await route(request) : route;
+    }
+
+    const respond = (body: unknown, status: number) => ({
+      data: body,
+      status,
+      statusText: STATUS_TEXT[status] ?? String(status),
+      headers: options.headers?.(request) ?? {},
+      config,
+    });
+    if (data === undefined) {
+      const status = options.missingStatus ?? 404;
+      const response = respond({}, status);
+      throw new AxiosError(response.statusText, status >= 500 ? 'ERR_BAD_RESPONSE' : 'ERR_BAD_REQUEST', config, null, response);
+    }
+    return respond(data, 200);
+  };
+}
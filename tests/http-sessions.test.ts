@@ -0,0 +1,187 @@
+/**
+ * HTTP Session Manager Tests
+ *
+ * Tests for session lifecycle and idle expiry, using a fake transport in
+ * place of the Streamable HTTP transport.
+ */
+
+import { describe, it, expect, jest, afterEach } from '@jest/globals';
+import { EventEmitter } from 'events';
+import type { ServerResponse } from 'http';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type {
+  StreamableHTTPServerTransport,
+  StreamableHTTPServerTransportOptions,
+} from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { HttpSessionManager, type HttpSessionManagerOptions } from '../src/utils/http-sessions.js';
+
+/**
+ * Transport that initializes a session for `{ method: 'initialize' }` bodies
+ * and fails for `{ method: 'initialize', fail: true }`
+ */
+class FakeTransport {
+  sessionId?: string;
+  closed = false;
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: unknown) => void;
+
+  constructor(private options: StreamableHTTPServerTransportOptions) {}
+
+  async start(): Promise<void> {}
+
+  async send(): Promise<void> {}
+
+  async close(): Promise<void> {
+    this.closed = true;
+    this.onclose?.();
+  }
+
+  async handleRequest(_req: unknown, res: FakeResponse, body?: { method?: string; fail?: boolean }): Promise<void> {
+    if (body?.method === 'initialize') {
+      if (body.fail) {
+        throw new Error('initialize failed');
+      }
+      this.sessionId = this.options.sessionIdGenerator?.();
+      this.options.onsessioninitialized?.(this.sessionId!);
+    }
+    if (!res.keepOpen) {
+      res.end();
+    }
+  }
+}
+
+/**
+ * Response that closes on end(), or stays open until end() for streams
+ */
+class FakeResponse extends EventEmitter {
+  constructor(public keepOpen = false) {
+    super();
+  }
+
+  end(): void {
+    this.emit('close');
+  }
+}
+
+function createManager(options: Partial<HttpSessionManagerOptions> = {}) {
+  const transports: FakeTransport[] = [];
+  const manager = new HttpSessionManager(
+    () => new Server({ name: 'test', version: '0.0.0' }, { capabilities: {} }),
+    {
+      idleTimeoutMs: 1000,
+      maxEventsPerSession: 10,
+      createTransport: (transportOptions) => {
+        const transport = new FakeTransport(transportOptions);
+        transports.push(transport);
+        return transport as unknown as StreamableHTTPServerTransport;
+      },
+      ...options,
+    }
+  );
+  return { manager, transports };
+}
+
+async function open(manager: HttpSessionManager, body: unknown = { method: 'initialize' }, clientId?: string) {
+  await manager.open({} as never, new FakeResponse() as unknown as ServerResponse, body, clientId);
+}
+
+describe('HttpSessionManager', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should register a session once initialize succeeds and close it again', async () => {
+    const { manager, transports } = createManager();
+    await open(manager, { method: 'initialize' }, 'bot');
+
+    expect(manager.size).toBe(1);
+    const [session] = manager.list();
+    expect(session.session_id).toBe(transports[0].sessionId);
+    expect(session.client_id).toBe('bot');
+    expect(manager.get(session.session_id)).toBe(session);
+
+    expect(await manager.close(session.session_id)).toBe(true);
+    expect(manager.size).toBe(0);
+    expect(transports[0].closed).toBe(true);
+    expect(manager.get(session.session_id)).toBeUndefined();
+    expect(await manager.close(session.session_id)).toBe(false);
+  });
+
+  it('should close the server and transport when initialize fails', async () => {
+    const { manager, transports } = createManager();
+    await expect(open(manager, { method: 'initialize', fail: true })).rejects.toThrow('initialize failed');
+
+    expect(manager.size).toBe(0);
+    expect(transports).toHaveLength(1);
+    expect(transports[0].closed).toBe(true);
+  });
+
+  it('should close a session that never got an ID', async () => {
+    const { manager, transports } = createManager();
+    await open(manager, { method: 'tools/list' });
+
+    expect(manager.size).toBe(0);
+    expect(transports[0].closed).toBe(true);
+  });
+
+  it('should drop a session when its transport closes', async () => {
+    const { manager, transports } = createManager();
+    await open(manager);
+    await transports[0].close();
+    expect(manager.size).toBe(0);
+  });
+
+  it('should only expire sessions idle for longer than the timeout', async () => {
+    const { manager } = createManager();
+    await open(manager);
+    await open(manager);
+    const [stale, fresh] = manager.list();
+    stale.last_activity = Date.now() - 2000;
+
+    expect(await manager.closeIdleSessions()).toBe(1);
+    expect(manager.list()).toEqual([fresh]);
+  });
+
+  it('should keep a session with an open response alive until the response closes', async () => {
+    const { manager } = createManager();
+    await open(manager);
+    const [session] = manager.list();
+
+    const stream = new FakeResponse(true);
+    await manager.handleRequest(session, {} as never, stream as unknown as ServerResponse);
+    expect(session.open_responses).toBe(1);
+
+    session.last_activity = Date.now() - 2000;
+    expect(await manager.closeIdleSessions()).toBe(0);
+    expect(manager.size).toBe(1);
+
+    stream.end();
+    expect(session.open_responses).toBe(0);
+    // Closing the stream counts as activity
+    expect(await manager.closeIdleSessions()).toBe(0);
+    session.last_activity = Date.now() - 2000;
+    expect(await manager.closeIdleSessions()).toBe(1);
+  });
+
+  it('should sweep idle sessions periodically and close everything on closeAll', async () => {
+    jest.useFakeTimers();
+    const { manager, transports } = createManager({ idleTimeoutMs: 1000, sweepIntervalMs: 500 });
+    await open(manager);
+    await open(manager);
+    manager.startSweeper();
+
+    const [, active] = manager.list();
+    await jest.advanceTimersByTimeAsync(800);
+    manager.get(active.session_id);
+    await jest.advanceTimersByTimeAsync(700);
+
+    expect(manager.list()).toEqual([active]);
+    expect(transports[0].closed).toBe(true);
+
+    await manager.closeAll();
+    expect(manager.size).toBe(0);
+    expect(transports[1].closed).toBe(true);
+    expect(jest.getTimerCount()).toBe(0);
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * List Tool Tests
+ *
+ * Tests for filter matching, filtered page walking and fetch_all in the
+ * list tools, and for queries pinned to a block height.
+ */
+
+import { describe, it, expect, beforeAll, beforeEach } from '@jest/globals';
+import axios from 'axios';
+import { matchesListFilters, getListFilters } from '../src/tools/list-filters.js';
+import { listStructs, listPlanets, queryPlanet } from '../src/tools/query.js';
+import { getAllToolDefinitions } from '../src/tools/definitions/index.js';
+import { clearQueryCache } from '../src/utils/query-cache.js';
+import { config } from '../src/config.js';
+import { createFakeNode } from './fake-node.js';
+
+const structs = Array.from({ length: 250 }, (_, i) => ({
+  id: `5-${i + 1}`,
+  owner: i % 50 === 0 ? '1-11' : '1-12',
+  type: i % 2 === 0 ? '14' : '1',
+  operatingAmbit: 'LAND',
+  locationId: '2-1',
+}));
+
+const planets = [
+  { id: '2-1', owner: '1-11', status: 'active' },
+  { id: '2-2', owner: '1-12', status: 'active' },
+  { id: '2-3', owner: '1-11', status: 'complete' },
+];
+
+const LATEST_HEIGHT = '5000';
+
+const requests: string[] = [];
+const requestedHeights: Array<string | undefined> = [];
+
+/**
+ * Fake consensus API: paged struct and planet lists, planets by ID, no
+ * planet_by_player; answers at the requested height
+ */
+const fakeNode = createFakeNode(({ path, params, height }) => {
+  const page = (items: unknown[], field: string) => {
+    const start = Number(params['pagination.key'] ?? 0);
+    const limit = Number(params['pagination.limit'] ?? 100);
+    const end = start + limit;
+    return { [field]: items.slice(start, end), pagination: { next_key: end < items.length ? String(end) : null, total: String(items.length) } };
+  };
+
+  if (path === '/structs/struct') return page(structs, 'Struct');
+  if (path === '/structs/planet') return page(planets, 'Planet');
+  const planet = planets.find((candidate) => path === `/structs/planet/${candidate.id}`);
+  if (planet) {
+    // Planets were still unclaimed before height 1000
+    return { Planet: height && Number(height) < 1000 ? { ...planet, owner: null } : planet };
+  }
+  return undefined;
+}, {
+  onRequest: ({ path, params, height }) => {
+    requests.push(`${path}?${params['pagination.key'] ?? ''}`);
+    requestedHeights.push(height);
+  },
+  headers: ({ height }) => ({ 'x-cosmos-block-height': height ?? LATEST_HEIGHT }),
+  missingStatus: 501,
+});
+
+describe('List filters', () => {
+  beforeAll(() => {
+    axios.defaults.adapter = fakeNode;
+  });
+
+  beforeEach(() => {
+    clearQueryCache();
+    requests.length = 0;
+  });
+
+  it('should match items by any naming of the filtered field', () => {
+    expect(matchesListFilters({ owner: '1-11', operatingAmbit: 'LAND' }, { owner: '1-11', ambit: 'land' })).toBe(true);
+    expect(matchesListFilters({ owner: '1-12' }, { owner: '1-11' })).toBe(false);
+    expect(matchesListFilters({ struct_type: 14 }, { struct_type_id: '14' })).toBe(true);
+    expect(matchesListFilters({ id: '5-1' }, { status: 'active' })).toBe(false);
+  });
+
+  it('should only read the filters a list tool accepts', () => {
+    expect(getListFilters('struct', { owner: '1-11', guild_id: '0-1', pagination_limit: 5 })).toEqual({ owner: '1-11' });
+    expect(getListFilters('struct', { pagination_limit: 5 })).toBeUndefined();
+    const tool = getAllToolDefinitions().find((definition) => definition.name === 'structs_list_structs');
+    expect(Object.keys(tool!.inputSchema.properties!)).toEqual(
+      expect.arrayContaining(['owner', 'planet_id', 'struct_type_id', 'ambit', 'status'])
+    );
+  });
+
+  it('should walk pages until enough matches are found', async () => {
+    const result = await listStructs(undefined, 2, { owner: '1-11', struct_type_id: '14' });
+
+    expect(result.error).toBeUndefined();
+    expect(result.structs).toEqual([structs[0], structs[50]]);
+    expect(result.pagination).toEqual({ next_key: '100' });
+    expect(result.filter).toEqual({
+      applied: { owner: '1-11', struct_type_id: '14' },
+      server_side: [],
+      scanned: 100,
+      matched: 2,
+      pages: 1,
+    });
+
+    const rest = await listStructs(result.pagination!.next_key!, 10, { owner: '1-11' });
+    expect((rest.structs as Array<{ id: string }>).map((s) => s.id)).toEqual(['5-101', '5-151', '5-201']);
+    expect(rest.pagination).toEqual({ next_key: null });
+  });
+
+  it('should fall back to walking the list when the filter endpoint is missing', async () => {
+    const result = await listPlanets(undefined, undefined, { owner: '1-11', status: 'ACTIVE' });
+
+    expect(result.planets).toEqual([planets[0]]);
+    expect(result.filter?.server_side).toEqual([]);
+    expect(requests).toEqual(['/structs/planet_by_player/1-11?', '/structs/planet?']);
+  });
+
+  it('should return pages unchanged without filters', async () => {
+    const result = await listStructs(undefined, 3);
+
+    expect(result.structs).toEqual(structs.slice(0, 3));
+    expect(result.pagination).toEqual({ next_key: '3', total: '250' });
+    expect(result.filter).toBeUndefined();
+  });
+});
+
+describe('List fetch_all', () => {
+  const caps = { ...config.lists };
+
+  beforeAll(() => {
+    axios.defaults.adapter = fakeNode;
+  });
+
+  beforeEach(() => {
+    clearQueryCache();
+    Object.assign(config.lists, caps);
+  });
+
+  it('should walk every page until the list ends', async () => {
+    const result = await listStructs(undefined, undefined, undefined, true);
+
+    expect(result.structs).toEqual(structs);
+    expect(result.truncated).toBe(false);
+    expect(result.pagination).toEqual({ next_key: null, total: '250' });
+  });
+
+  it('should stop before the item cap and return whole pages', async () => {
+    config.lists.fetchAllMaxItems = 120;
+
+    const result = await listStructs(undefined, undefined, undefined, true);
+
+    expect(result.structs).toEqual(structs.slice(0, 100));
+    expect(result.truncated).toBe(true);
+    expect(result.pagination?.next_key).toBe('100');
+  });
+
+  it('should return what fits when the first page passes the byte cap', async () => {
+    config.lists.fetchAllMaxBytes = JSON.stringify(structs[200]).length * 3 + 10;
+
+    const result = await listStructs('200', undefined, undefined, true);
+
+    expect(result.structs).toEqual(structs.slice(200, 203));
+    expect(result.truncated).toBe(true);
+    expect(result.pagination?.next_key).toBe('200');
+  });
+
+  it('should combine with filters', async () => {
+    const result = await listStructs(undefined, undefined, { owner: '1-11' }, true);
+
+    expect((result.structs as Array<{ id: string }>).map((s) => s.id)).toEqual(['5-1', '5-51', '5-101', '5-151', '5-201']);
+    expect(result.truncated).toBe(false);
+    expect(result.filter).toMatchObject({ scanned: 250, matched: 5, pages: 3 });
+  });
+});
+
+describe('Historical queries', () => {
+  beforeAll(() => {
+    axios.defaults.adapter = fakeNode;
+  });
+
+  beforeEach(() => {
+    clearQueryCache();
+    requests.length = 0;
+    requestedHeights.length = 0;
+  });
+
+  it('should read entities at the requested height and report it', async () => {
+    const past = await queryPlanet('2-1', 900);
+    const latest = await queryPlanet('2-1');
+
+    expect(past).toMatchObject({ planet: { Planet: { id: '2-1', owner: null } }, height: 900 });
+    expect(latest).toMatchObject({ planet: { Planet: { owner: '1-11' } } });
+    expect(latest.height).toBeUndefined();
+    // Cached per height
+    expect(requestedHeights).toEqual(['900', undefined]);
+    await queryPlanet('2-1', 900);
+    expect(requestedHeights).toHaveLength(2);
+  });
+
+  it('should read every page of a walk at the same height', async () => {
+    const result = await listStructs(undefined, undefined, { owner: '1-11' }, true, 1200);
+
+    expect(result.height).toBe(1200);
+    expect(result.filter?.pages).toBe(3);
+    expect(requestedHeights).toEqual(['1200', '1200', '1200']);
+  });
+
+  it('should reject heights that are not positive integers', async () => {
+    const result = await queryPlanet('2-1', -5);
+
+    expect(result.planet).toBeNull();
+    expect(result.error).toContain('Invalid at_height');
+    expect(requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Logger Tests
+ *
+ * Tests for level filtering, child loggers, correlation IDs and sinks.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import {
+  logger,
+  createLogger,
+  parseLogLevel,
+  setLogLevel,
+  setLogWriter,
+  registerLogSink,
+  runWithLogContext,
+  type LogEntry,
+  type LogLevel,
+} from '../src/utils/logger.js';
+
+describe('Logger', () => {
+  let lines: string[];
+
+  beforeEach(() => {
+    lines = [];
+    setLogWriter((line) => lines.push(line));
+    setLogLevel('info');
+  });
+
+  afterEach(() => {
+    setLogWriter((line) => process.stderr.write(line + '\n'));
+  });
+
+  it('should parse level names and aliases', () => {
+    expect(parseLogLevel('warn')).toBe('warning');
+    expect(parseLogLevel('DEBUG')).toBe('debug');
+    expect(parseLogLevel('verbose')).toBe('info');
+  });
+
+  it('should write JSON lines at or above the threshold', () => {
+    logger.debug('hidden');
+    logger.warn('shown', { count: 2 });
+
+    expect(lines).toHaveLength(1);
+    const entry = JSON.parse(lines[0]);
+    expect(entry.level).toBe('warning');
+    expect(entry.message).toBe('shown');
+    expect(entry.count).toBe(2);
+  });
+
+  it('should add child bindings and serialize errors', () => {
+    createLogger('process-manager').child({ job_id: 'pow_1' }).error('failed', { error: new Error('boom') });
+
+    const entry = JSON.parse(lines[0]);
+    expect(entry.component).toBe('process-manager');
+    expect(entry.job_id).toBe('pow_1');
+    expect(entry.error).toBe('boom');
+  });
+
+  it('should tag entries with the request context across awaits', async () => {
+    await runWithLogContext({ request_id: 'req-1', tool: 'structs_query_player' }, async () => {
+      await Promise.resolve();
+      logger.info('inside');
+    });
+    logger.info('outside');
+
+    expect(JSON.parse(lines[0]).request_id).toBe('req-1');
+    expect(JSON.parse(lines[0]).tool).toBe('structs_query_player');
+    expect(JSON.parse(lines[1]).request_id).toBeUndefined();
+  });
+
+  it('should forward to sinks only once a level is set', () => {
+    let sinkLevel: LogLevel | undefined;
+    const received: LogEntry[] = [];
+    const unregister = registerLogSink({ getLevel: () => sinkLevel, send: (entry) => received.push(entry), background: true });
+
+    logger.info('before level');
+    sinkLevel = 'debug';
+    logger.debug('debug for client');
+    unregister();
+
+    expect(received.map((entry) => entry.message)).toEqual(['debug for client']);
+    // Below the local threshold, so not written to stderr
+    expect(lines).toHaveLength(1);
+  });
+
+  it('should send request-scoped entries only to the request sink', () => {
+    const global: LogEntry[] = [];
+    const scoped: LogEntry[] = [];
+    const unregister = registerLogSink({ getLevel: () => 'info', send: (entry) => global.push(entry) });
+
+    runWithLogContext(
+      { request_id: 'req-2', sink: { getLevel: () => 'info', send: (entry) => scoped.push(entry) } },
+      () => logger.info('scoped')
+    );
+    unregister();
+
+    expect(scoped).toHaveLength(1);
+    expect(global).toHaveLength(0);
+  });
+
+  it('should not send one session\'s entries or background entries to another session', () => {
+    const received: Record<string, string[]> = { a: [], b: [], operator: [] };
+    const sink = (name: string, background?: boolean) => ({
+      getLevel: (): LogLevel => 'info',
+      send: (entry: LogEntry) => received[name].push(entry.message),
+      background,
+    });
+    const sessionA = sink('a');
+    const sessionB = sink('b');
+    const unregister = [registerLogSink(sessionA), registerLogSink(sessionB), registerLogSink(sink('operator', true))];
+
+    runWithLogContext({ request_id: 'req-a', sink: sessionA }, () => logger.info('for a'));
+    runWithLogContext({ request_id: 'req-b', sink: sessionB }, () => logger.info('for b'));
+    createLogger('alerts').log('alert', 'Player 1-11 halted', { player_id: '1-11' });
+    unregister.forEach((fn) => fn());
+
+    expect(received.a).toEqual(['for a']);
+    expect(received.b).toEqual(['for b']);
+    expect(received.operator).toEqual(['Player 1-11 halted']);
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Metrics Tests
+ *
+ * Tests for tool call metrics and Prometheus rendering.
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import {
+  recordToolCall,
+  getToolCallStats,
+  resetMetrics,
+  renderPrometheusMetrics,
+} from '../src/utils/metrics.js';
+
+describe('Metrics', () => {
+  beforeEach(() => {
+    resetMetrics();
+  });
+
+  it('should count calls, errors and latencies per tool', () => {
+    recordToolCall('structs_query_player', 20, false);
+    recordToolCall('structs_query_player', 80, true);
+
+    const stats = getToolCallStats()['structs_query_player'];
+    expect(stats.calls).toBe(2);
+    expect(stats.errors).toBe(1);
+    expect(stats.error_rate).toBe(0.5);
+    expect(stats.avg_duration_ms).toBe(50);
+    expect(stats.max_duration_ms).toBe(80);
+  });
+
+  it('should render cumulative histogram buckets', () => {
+    recordToolCall('structs_query_player', 20, false);
+    const text = renderPrometheusMetrics();
+
+    expect(text).toContain('structs_mcp_tool_calls_total{tool="structs_query_player"} 1');
+    expect(text).toContain('structs_mcp_tool_duration_seconds_bucket{tool="structs_query_player",le="0.01"} 0');
+    expect(text).toContain('structs_mcp_tool_duration_seconds_bucket{tool="structs_query_player",le="0.05"} 1');
+    expect(text).toContain('structs_mcp_tool_duration_seconds_bucket{tool="structs_query_player",le="+Inf"} 1');
+  });
+
+  it('should render gauges with one HELP/TYPE header per metric', () => {
+    const text = renderPrometheusMetrics([
+      { name: 'structs_mcp_pow_jobs', help: 'Jobs', value: 2, labels: { status: 'running' } },
+      { name: 'structs_mcp_pow_jobs', help: 'Jobs', value: 1, labels: { status: 'failed' } },
+    ]);
+
+    expect(text.match(/# TYPE structs_mcp_pow_jobs gauge/g)).toHaveLength(1);
+    expect(text).toContain('structs_mcp_pow_jobs{status="running"} 2');
+    expect(text).toContain('structs_mcp_pow_jobs{status="failed"} 1');
+  });
+});
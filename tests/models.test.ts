@@ -0,0 +1,105 @@
+/**
+ * Entity Model Tests
+ *
+ * Tests for normalizing raw consensus API shapes to the canonical models,
+ * and for the `normalized` result format.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  normalizeEntity,
+  normalizePlayer,
+  normalizeStruct,
+  normalizeStructType,
+  normalizePlanet,
+  normalizeFleet,
+} from '../src/tools/models.js';
+import { shapeResult } from '../src/tools/projection.js';
+
+describe('Entity models', () => {
+  it('should unwrap a player query envelope', () => {
+    const player = normalizePlayer({
+      Player: { id: '1-11', index: '11', guildId: '0-1', primaryAddress: 'structs1abc', storage: [{ denom: 'ualpha', amount: '5000000' }] },
+      gridAttributes: { ore: '12', capacity: '500', load: '120', connectionCount: '2' },
+      halted: true,
+    });
+
+    expect(player).toEqual({
+      id: '1-11',
+      index: 11,
+      guild_id: '0-1',
+      primary_address: 'structs1abc',
+      halted: true,
+      storage: [{ denom: 'ualpha', amount: 5000000 }],
+      grid: {
+        ore: { value: 12, unit: 'ore' },
+        capacity: { value: 500, unit: 'watt' },
+        load: { value: 120, unit: 'watt' },
+        connection_count: 2,
+      },
+    });
+  });
+
+  it('should read snake_case list items the same way', () => {
+    expect(normalizePlayer({ index: 12, guild_id: '0-2', halted: 'false' })).toEqual({
+      id: '1-12',
+      index: 12,
+      guild_id: '0-2',
+      halted: false,
+      storage: [],
+    });
+  });
+
+  it('should decode struct location, ambit and status flags', () => {
+    const struct = normalizeStruct({
+      Struct: { id: '5-1', owner: '1-11', type: '14', locationType: 'planet', locationId: '2-1', operatingAmbit: 'LAND', slot: 0 },
+      structAttributes: { health: '3', status: '7', blockStartBuild: '1200' },
+    });
+
+    expect(struct).toMatchObject({ type_id: 14, planet_id: '2-1', ambit: 'land', slot: 0, status: 'online', health: 3, build_start_block: 1200 });
+    expect(struct?.fleet_id).toBeUndefined();
+    expect(normalizeStruct({ id: '5-2', status: '1' })?.status).toBe('building');
+    expect(normalizeStruct({ id: '5-3', status: 'ACTIVE', locationId: '9-4' })).toMatchObject({ status: 'active', fleet_id: '9-4' });
+  });
+
+  it('should normalize struct types, planets and fleets', () => {
+    expect(normalizeStructType({ id: 14, name: 'Ore Extractor', passiveDraw: '50', possibleAmbit: 4 })).toMatchObject({
+      id: '14',
+      type_id: 14,
+      passive_draw: { value: 50, unit: 'watt' },
+      possible_ambits: ['land'],
+    });
+    expect(normalizePlanet({ Planet: { id: '2-1', maxOre: '5', land: ['5-1', ''] }, planetAttributes: { planetaryShield: '10' } })).toMatchObject({
+      max_ore: { value: 5, unit: 'ore' },
+      slots: { space: [], air: [], land: ['5-1'], water: [] },
+      attributes: { planetary_shield: 10 },
+    });
+    expect(normalizeFleet({ id: '9-1', status: 'onStation', locationId: '2-1', commandStruct: '5-1' })).toMatchObject({
+      status: 'on_station',
+      planet_id: '2-1',
+      command_struct_id: '5-1',
+    });
+  });
+
+  it('should return null for non-object input', () => {
+    expect(normalizeEntity('guild', null)).toBeNull();
+    expect(normalizeEntity('agreement', 'x')).toBeNull();
+  });
+});
+
+describe('Normalized format', () => {
+  it('should normalize query, list and batch payloads before selecting fields', () => {
+    expect(shapeResult({ player: { Player: { id: '1-11', guildId: '0-1' } }, timestamp: 't' }, { format: 'normalized', fields: ['guild_id'] })).toEqual({
+      player: { guild_id: '0-1' },
+      timestamp: 't',
+    });
+    expect(shapeResult({ structs: [{ id: '5-1', type: '14' }], pagination: null }, { format: 'normalized', fields: ['type_id'] })).toEqual({
+      structs: [{ type_id: 14 }],
+      pagination: null,
+    });
+    expect(shapeResult({ entities: { '3-1': { Reactor: { id: '3-1', defaultCommission: '0.05' } } }, errors: {} }, { format: 'normalized' })).toEqual({
+      entities: { '3-1': { id: '3-1', default_commission: 0.05 } },
+      errors: {},
+    });
+  });
+});
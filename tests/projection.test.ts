@@ -0,0 +1,100 @@
+/**
+ * Projection Tests
+ *
+ * Tests for the `fields` and `format` arguments of the query and list tools.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { parseFieldPath, shapeResult } from '../src/tools/projection.js';
+import { createHandler } from '../src/tools/handlers/wrapper.js';
+
+const playerResult = {
+  player: {
+    Player: { id: '1-11', guildId: '0-1', planetId: null, primaryAddress: 'structs1abc' },
+    gridAttributes: { ore: '12', fuel: '0', capacity: { total: '100', used: '40' } },
+  },
+  timestamp: '2026-01-01T00:00:00.000Z',
+};
+
+const structsResult = {
+  structs: [
+    { id: '5-1', owner: '1-11', type: '14', location: { planetId: '2-1', ambit: 'land' } },
+    { id: '5-2', owner: '1-12', type: '3', location: { planetId: '2-2', ambit: 'space' } },
+  ],
+  pagination: { next_key: null, total: '2' },
+  timestamp: '2026-01-01T00:00:00.000Z',
+};
+
+describe('Field paths', () => {
+  it('should parse dotted paths, brackets and wildcards', () => {
+    expect(parseFieldPath('Player.id')).toEqual(['Player', 'id']);
+    expect(parseFieldPath('$.structs[*].location.ambit')).toEqual(['structs', '*', 'location', 'ambit']);
+    expect(parseFieldPath("structs[0]['id']")).toEqual(['structs', '0', 'id']);
+    expect(parseFieldPath('structs[].id')).toEqual(['structs', '*', 'id']);
+  });
+
+  it('should reject malformed paths', () => {
+    expect(() => parseFieldPath('')).toThrow('Invalid field path');
+    expect(() => parseFieldPath('Player..id')).toThrow('Invalid field path');
+    expect(() => parseFieldPath('structs[x]')).toThrow('Invalid field path');
+  });
+});
+
+describe('Result shaping', () => {
+  it('should return the result unchanged without fields or format', () => {
+    expect(shapeResult(playerResult, {})).toBe(playerResult);
+  });
+
+  it('should select entity fields and keep the envelope', () => {
+    expect(shapeResult(playerResult, { fields: ['Player.id', 'gridAttributes.ore'] })).toEqual({
+      player: { Player: { id: '1-11' }, gridAttributes: { ore: '12' } },
+      timestamp: playerResult.timestamp,
+    });
+  });
+
+  it('should apply paths to every list item and accept comma-separated fields', () => {
+    expect(shapeResult(structsResult, { fields: 'id, location.planetId' })).toEqual({
+      structs: [
+        { id: '5-1', location: { planetId: '2-1' } },
+        { id: '5-2', location: { planetId: '2-2' } },
+      ],
+      pagination: structsResult.pagination,
+      timestamp: structsResult.timestamp,
+    });
+    expect(shapeResult(structsResult, { fields: ['$.structs[1].id'] })).toMatchObject({ structs: [{ id: '5-2' }] });
+  });
+
+  it('should keep an empty payload when nothing matches', () => {
+    expect(shapeResult(playerResult, { fields: ['missing'] })).toEqual({ player: null, timestamp: playerResult.timestamp });
+  });
+
+  it('should drop nulls and flatten attribute maps in compact format', () => {
+    expect(shapeResult(playerResult, { format: 'compact' })).toEqual({
+      player: {
+        Player: { id: '1-11', guildId: '0-1', primaryAddress: 'structs1abc' },
+        'gridAttributes.ore': '12',
+        'gridAttributes.fuel': '0',
+        'gridAttributes.capacity.total': '100',
+        'gridAttributes.capacity.used': '40',
+      },
+      timestamp: playerResult.timestamp,
+    });
+    expect(shapeResult(structsResult, { format: 'compact', fields: ['id'] })).toMatchObject({
+      pagination: { next_key: null },
+    });
+  });
+
+  it('should reject unknown formats', () => {
+    expect(() => shapeResult(playerResult, { format: 'yaml' })).toThrow('Invalid format');
+  });
+
+  it('should shape handler responses', async () => {
+    const handler = createHandler(async () => structsResult, { isListTool: true });
+
+    const response = await handler({ fields: ['owner'] });
+
+    expect(response.isError).toBeUndefined();
+    expect(response.structuredContent?.structs).toEqual([{ owner: '1-11' }, { owner: '1-12' }]);
+    expect((await handler({ fields: ['a..b'] })).isError).toBe(true);
+  });
+});
@@ -1,10 +1,13 @@
 /**
  * Proof-of-Work Tests
  * 
- * Tests for proof-of-work hashing utilities.
+ * Tests for proof-of-work hashing utilities and waiting on proof-of-work jobs.
  */
 
-import { describe, it, expect } from '@jest/globals';
+import { describe, it, expect, jest } from '@jest/globals';
+import type { ChildProcess } from 'child_process';
+import { config } from '../src/config.js';
+import { ProcessManager, type JobStatus } from '../src/utils/process-manager.js';
 import {
   calculateDifficulty,
   buildHashInput,
@@ -193,5 +196,23 @@ describe('Proof-of-Work Utilities', () => {
       expect(verified).toBe(false);
     });
   });
-});
 
+  describe('ProcessManager.waitForJob', () => {
+    it('should resolve when the job is killed', async () => {
+      config.persistJobs = false;
+      const manager = new ProcessManager();
+      // Stand in for a running worker rather than spawning one
+      const internals = manager as unknown as { jobs: Map<string, JobStatus>; processes: Map<string, ChildProcess> };
+      const kill = jest.fn();
+      internals.jobs.set('pow_1', { job_id: 'pow_1', status: 'running', started_at: new Date().toISOString() });
+      internals.processes.set('pow_1', { kill } as unknown as ChildProcess);
+
+      const waiting = manager.waitForJob('pow_1');
+      expect(manager.killJob('pow_1', 'Stopped for the test')).toBe(true);
+
+      await expect(waiting).resolves.toMatchObject({ status: 'failed', error: 'Stopped for the test' });
+      expect(kill).toHaveBeenCalledTimes(1);
+      expect(manager.killJob('pow_1')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * Query Cache Tests
+ *
+ * Tests for the shared TTL cache in front of chain queries, and for
+ * invalidating single entities in the caches that follow it.
+ */
+
+import { describe, it, expect, beforeAll, beforeEach } from '@jest/globals';
+import axios from 'axios';
+import { config } from '../src/config.js';
+import {
+  cachedQuery,
+  invalidateEntities,
+  invalidateActionTargets,
+  onEntitiesInvalidated,
+  getQueryCacheStats,
+  clearQueryCache,
+  CACHE_POLICIES,
+} from '../src/utils/query-cache.js';
+import { resolveReferences, clearReferenceCache } from '../src/utils/references.js';
+import { getEventStream, closeEventStream } from '../src/utils/event-stream.js';
+import type { EntityType } from '../src/types/references.js';
+import { createFakeNode } from './fake-node.js';
+
+describe('Query cache', () => {
+  let loads: number;
+  const load = (value: unknown) => async () => {
+    loads++;
+    return value;
+  };
+
+  beforeEach(() => {
+    clearQueryCache();
+    loads = 0;
+  });
+
+  it('should serve repeated queries from the cache', async () => {
+    await cachedQuery('player', '1-11', '/structs/player/1-11', load({ id: '1-11' }));
+    const second = await cachedQuery('player', '1-11', '/structs/player/1-11', load({ id: 'other' }));
+
+    expect(second).toEqual({ id: '1-11' });
+    expect(loads).toBe(1);
+    const stats = getQueryCacheStats();
+    expect(stats).toMatchObject({ enabled: true, size: 1, hits: 1, misses: 1, hit_rate: 0.5 });
+    expect(stats.by_entity_type.player).toEqual({ hits: 1, misses: 1, hit_rate: 0.5, ttl_ms: CACHE_POLICIES.player });
+  });
+
+  it('should give struct types a longer TTL than players', () => {
+    expect(CACHE_POLICIES.struct_type).toBeGreaterThan(CACHE_POLICIES.player);
+    expect(CACHE_POLICIES.player).toBeLessThanOrEqual(5000);
+  });
+
+  it('should not cache failed loads', async () => {
+    const failing = async () => {
+      loads++;
+      throw new Error('API error: 503 Service Unavailable');
+    };
+
+    await expect(cachedQuery('planet', '2-1', '/structs/planet/2-1', failing)).rejects.toThrow('503');
+    await cachedQuery('planet', '2-1', '/structs/planet/2-1', load({ id: '2-1' }));
+
+    expect(loads).toBe(2);
+  });
+
+  it('should invalidate action targets and lists of their types only', async () => {
+    await cachedQuery('player', '1-11', '/structs/player/1-11', load({}));
+    await cachedQuery('player', '1-12', '/structs/player/1-12', load({}));
+    await cachedQuery('player', undefined, '/structs/player', load([]));
+    await cachedQuery('struct', '5-3', '/structs/struct/5-3', load({}));
+    await cachedQuery('struct_type', undefined, '/structs/struct_type', load([]));
+
+    const removed = invalidateActionTargets('1-11', { struct_id: '5-3', slot: 0, note: 'not-an-id' });
+
+    expect(removed).toBe(3);
+    expect(getQueryCacheStats()).toMatchObject({ size: 2, invalidations: 3 });
+    await cachedQuery('player', '1-12', '/structs/player/1-12', load({}));
+    await cachedQuery('struct_type', undefined, '/structs/struct_type', load([]));
+    expect(loads).toBe(5);
+
+    expect(invalidateEntities(['1-12'])).toBe(1);
+  });
+
+  it('should not cache a load that started before an invalidation', async () => {
+    let finish: (value: unknown) => void = () => undefined;
+    const slow = cachedQuery('player', '1-11', '/structs/player/1-11', () => new Promise((resolve) => { finish = resolve; }));
+    await new Promise((resolve) => setImmediate(resolve));
+
+    invalidateEntities(['1-11']);
+    finish({ load: 'before the action' });
+    await expect(slow).resolves.toEqual({ load: 'before the action' });
+
+    const fresh = await cachedQuery('player', '1-11', '/structs/player/1-11', load({ load: 'after the action' }));
+    expect(fresh).toEqual({ load: 'after the action' });
+    expect(loads).toBe(1);
+  });
+
+  it('should give each caller its own copy of a cached value', async () => {
+    type Response = { Player: { id: string } };
+    const first = await cachedQuery('player', '1-11', '/structs/player/1-11', load({ Player: { id: '1-11' } })) as Response;
+    first.Player.id = 'changed by the first caller';
+    const second = await cachedQuery('player', '1-11', '/structs/player/1-11', load({})) as Response;
+    second.Player.id = 'changed by the second caller';
+    const third = await cachedQuery('player', '1-11', '/structs/player/1-11', load({}));
+
+    expect(third).toEqual({ Player: { id: '1-11' } });
+    expect(loads).toBe(1);
+  });
+
+  it('should bypass the cache when disabled', async () => {
+    config.cacheEnabled = false;
+    try {
+      await cachedQuery('guild', '0-1', '/structs/guild/0-1', load({}));
+      await cachedQuery('guild', '0-1', '/structs/guild/0-1', load({}));
+    } finally {
+      config.cacheEnabled = true;
+    }
+
+    expect(loads).toBe(2);
+    expect(getQueryCacheStats()).toMatchObject({ enabled: true, size: 0, hits: 0, misses: 0 });
+  });
+});
+
+describe('Entity invalidation', () => {
+  const requests: string[] = [];
+
+  beforeAll(() => {
+    // Player 1-11 and planet 2-1
+    axios.defaults.adapter = createFakeNode({
+      '/structs/player/1-11': { Player: { id: '1-11' } },
+      '/structs/planet/2-1': { Planet: { id: '2-1' } },
+    }, { onRequest: ({ path }) => requests.push(path) });
+  });
+
+  beforeEach(() => {
+    clearQueryCache();
+    clearReferenceCache();
+    requests.length = 0;
+  });
+
+  it('should tell listeners the valid IDs, even with the query cache disabled', () => {
+    const seen: string[][] = [];
+    const stop = onEntitiesInvalidated((ids) => seen.push(ids));
+
+    invalidateActionTargets('1-11', { struct_id: '5-3', note: 'not-an-id' });
+    config.cacheEnabled = false;
+    try {
+      invalidateEntities(['2-1']);
+    } finally {
+      config.cacheEnabled = true;
+    }
+    stop();
+    invalidateEntities(['2-2']);
+
+    expect(seen).toEqual([['1-11', '5-3'], ['2-1']]);
+  });
+
+  it('should evict only the invalidated entity from the reference cache', async () => {
+    const ids = new Map<EntityType, Set<string>>([['player', new Set(['1-11'])], ['planet', new Set(['2-1'])]]);
+    const resolve = () => resolveReferences(ids, { reference_depth: 1, max_parallel_queries: 2, reference_query_timeout: 50 });
+
+    await resolve();
+    await resolve();
+    expect(requests).toHaveLength(2);
+
+    invalidateEntities(['1-11']);
+    const references = await resolve();
+
+    expect(requests).toEqual(expect.arrayContaining(['/structs/player/1-11', '/structs/planet/2-1']));
+    expect(requests.slice(2)).toEqual(['/structs/player/1-11']);
+    expect(references['1-11']).toMatchObject({ status: 'success' });
+  });
+
+  it('should invalidate the entities each stream event names', async () => {
+    await cachedQuery('struct', '5-3', '/structs/struct/5-3', async () => ({}));
+    await cachedQuery('planet', '2-1', '/structs/planet/2-1', async () => ({}));
+
+    getEventStream().ingest({ subject: 'structs.struct.5-3', data: new TextEncoder().encode('{"category":"struct_health"}') });
+    await closeEventStream();
+
+    expect(getQueryCacheStats()).toMatchObject({ size: 1, invalidations: 1 });
+  });
+});
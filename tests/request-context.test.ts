@@ -0,0 +1,67 @@
+/**
+ * Request Context Tests
+ *
+ * Tests for progress reporting and cancellation of tool calls.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import axios from 'axios';
+import {
+  runWithRequestContext,
+  runDetached,
+  getAbortSignal,
+  reportProgress,
+  sleep,
+  type ProgressUpdate,
+} from '../src/utils/request-context.js';
+
+describe('Request context', () => {
+  it('should only send increasing progress when a callback is set', () => {
+    const updates: ProgressUpdate[] = [];
+
+    reportProgress(1);
+    runWithRequestContext({ onProgress: (update) => updates.push(update) }, () => {
+      reportProgress(1, 3, 'first');
+      reportProgress(1, 3, 'repeated');
+      reportProgress(2, 3, 'second');
+    });
+
+    expect(updates).toEqual([
+      { progress: 1, total: 3, message: 'first' },
+      { progress: 2, total: 3, message: 'second' },
+    ]);
+  });
+
+  it('should wake a sleep when the request is cancelled', async () => {
+    const controller = new AbortController();
+    const sleeping = runWithRequestContext({ signal: controller.signal }, () => sleep(60000));
+    controller.abort();
+
+    await expect(sleeping).rejects.toThrow('cancelled');
+  });
+
+  it('should not expose the context to detached work', async () => {
+    const controller = new AbortController();
+    const signals = await runWithRequestContext({ signal: controller.signal }, async () => {
+      await Promise.resolve();
+      return [getAbortSignal(), runDetached(() => getAbortSignal())];
+    });
+
+    expect(signals).toEqual([controller.signal, undefined]);
+  });
+
+  it('should leave the signal off axios requests outside the consensus client', async () => {
+    const controller = new AbortController();
+    let seen: unknown;
+    await runWithRequestContext({ signal: controller.signal }, () =>
+      axios.get('http://localhost/test', {
+        adapter: async (requestConfig) => {
+          seen = requestConfig.signal;
+          return { data: {}, status: 200, statusText: 'OK', headers: {}, config: requestConfig };
+        },
+      })
+    );
+
+    expect(seen).toBeUndefined();
+  });
+});
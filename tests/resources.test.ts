@@ -10,8 +10,21 @@ import {
   listResources,
   clearCache,
   getCacheStats,
+  invalidateResourcePath,
 } from '../src/resources/index.js';
-import { existsSync } from 'fs';
+import { parseStateUri, getStateResource, startStatePoller, STATE_RESOURCE_TEMPLATES } from '../src/resources/state.js';
+import { registerResourceSubscriptions } from '../src/resources/subscriptions.js';
+import { invalidateActionTargets, invalidateEntities, clearQueryCache } from '../src/utils/query-cache.js';
+import { queryPlayer } from '../src/tools/query.js';
+import { createFakeNode } from './fake-node.js';
+import axios from 'axios';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { existsSync, mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 
 describe('Resource Server', () => {
   const aiDocsPath = '../../ai';
@@ -130,6 +143,72 @@ describe('Resource Server', () => {
     });
   });
 
+  describe('State resources', () => {
+    it('should parse state URIs for each template', () => {
+      expect(parseStateUri('structs://state/player/1-11')).toEqual({ entityType: 'player', id: '1-11' });
+      expect(parseStateUri('structs://state/guild/0-1')).toEqual({ entityType: 'guild', id: '0-1' });
+      expect(STATE_RESOURCE_TEMPLATES.map((t) => t.uriTemplate.split('/')[3])).toEqual(['player', 'planet', 'struct', 'guild']);
+    });
+
+    it('should reject unknown entity types and malformed URIs', () => {
+      expect(parseStateUri('structs://state/reactor/4-1')).toBeNull();
+      expect(parseStateUri('structs://state/player')).toBeNull();
+      expect(parseStateUri('structs://guides/AGENTS.md')).toBeNull();
+    });
+
+    it('should surface query errors instead of returning empty state', async () => {
+      // Validation fails before any network call
+      await expect(getStateResource('structs://state/player/not-an-id')).rejects.toThrow(/Failed to read/);
+    });
+
+    it('should not re-read action targets before the transaction commits', async () => {
+      // The node keeps returning the old state until the block commits
+      let load = '100';
+      const requests: string[] = [];
+      axios.defaults.adapter = createFakeNode({
+        '/structs/player/1-11': () => ({ Player: { id: '1-11' }, gridAttributes: { load } }),
+      }, { onRequest: ({ path }) => requests.push(path) });
+      clearQueryCache();
+
+      const server = new Server({ name: 'test', version: '1' }, { capabilities: { resources: { subscribe: true } } });
+      registerResourceSubscriptions(server);
+      const client = new Client({ name: 'test', version: '1' });
+      const updates: string[] = [];
+      client.setNotificationHandler(ResourceUpdatedNotificationSchema, async (notification) => {
+        updates.push(notification.params.uri);
+      });
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+      await client.subscribeResource({ uri: 'structs://state/player/1-11' });
+      const poller = startStatePoller(60000);
+      const settle = () => new Promise((resolve) => setTimeout(resolve, 20));
+
+      try {
+        await poller.poll();
+        expect(requests).toHaveLength(1);
+
+        // Queued transaction: nothing is re-read, so the old state is not cached again
+        invalidateActionTargets('1-11');
+        await settle();
+        expect(requests).toHaveLength(1);
+
+        load = '700';
+        expect((await queryPlayer('1-11')).player).toMatchObject({ gridAttributes: { load: '700' } });
+
+        // The commit's event re-reads right away
+        invalidateEntities(['1-11']);
+        await settle();
+        expect(requests).toHaveLength(3);
+        expect(updates).toEqual(['structs://state/player/1-11']);
+      } finally {
+        poller.stop();
+        await client.close();
+        await server.close();
+        clearQueryCache();
+      }
+    });
+  });
+
   describe('Cache Management', () => {
     it('should clear cache', () => {
       clearCache();
@@ -149,6 +228,27 @@ describe('Resource Server', () => {
         expect(stats.entries.length).toBeGreaterThan(0);
       }
     });
+
+    it('should invalidate entries for a changed file or directory', async () => {
+      const docsPath = mkdtempSync(join(tmpdir(), 'structs-docs-'));
+      try {
+        mkdirSync(join(docsPath, 'skills', 'combat'), { recursive: true });
+        writeFileSync(join(docsPath, 'AGENTS.md'), 'v1');
+        writeFileSync(join(docsPath, 'skills', 'combat', 'SKILL.md'), 'v1');
+        await getResource('structs://guides/AGENTS.md', docsPath);
+        await getResource('structs://skills/combat/SKILL.md', docsPath);
+
+        expect(invalidateResourcePath(join(docsPath, 'skills'))).toEqual(['structs://skills/combat/SKILL.md']);
+        expect(getCacheStats().entries).toEqual(['structs://guides/AGENTS.md']);
+
+        writeFileSync(join(docsPath, 'AGENTS.md'), 'v2');
+        expect(invalidateResourcePath(join(docsPath, 'AGENTS.md'))).toEqual(['structs://guides/AGENTS.md']);
+        const reloaded = await getResource('structs://guides/AGENTS.md', docsPath);
+        expect((reloaded as { text?: string })?.text).toBe('v2');
+      } finally {
+        rmSync(docsPath, { recursive: true, force: true });
+      }
+    });
   });
 });
 
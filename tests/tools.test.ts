@@ -0,0 +1,101 @@
+/**
+ * Tool Definition and Response Tests
+ *
+ * Tests for tool annotations, output schemas and structuredContent.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { AjvJsonSchemaValidator } from '@modelcontextprotocol/sdk/validation/ajv-provider.js';
+import { getAllToolDefinitions } from '../src/tools/definitions/index.js';
+import { createHandler } from '../src/tools/handlers/wrapper.js';
+import { getToolHandler } from '../src/tools/handlers/index.js';
+import { diagnoseError } from '../src/tools/error-lookup.js';
+
+function getTool(name: string) {
+  const tool = getAllToolDefinitions().find((t) => t.name === name);
+  if (!tool) throw new Error(`Missing tool ${name}`);
+  return tool;
+}
+
+function validate(toolName: string, value: unknown) {
+  const validator = new AjvJsonSchemaValidator().getValidator(getTool(toolName).outputSchema!);
+  return validator(value);
+}
+
+describe('Tool definitions', () => {
+  it('should annotate every tool', () => {
+    for (const tool of getAllToolDefinitions()) {
+      expect(typeof tool.annotations?.readOnlyHint).toBe('boolean');
+      expect(typeof tool.annotations?.destructiveHint).toBe('boolean');
+      expect(typeof tool.annotations?.idempotentHint).toBe('boolean');
+    }
+  });
+
+  it('should mark transaction tools destructive', () => {
+    expect(getTool('structs_action_submit_transaction').annotations).toMatchObject({
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: false,
+    });
+    expect(getTool('structs_workflow_execute').annotations?.destructiveHint).toBe(true);
+    expect(getTool('structs_query_player').annotations).toMatchObject({
+      readOnlyHint: true,
+      destructiveHint: false,
+    });
+  });
+
+  it('should not mark event subscriptions read-only or idempotent', () => {
+    expect(getTool('structs_events_subscribe').annotations).toMatchObject({
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,
+    });
+  });
+
+  it('should declare output schemas for the composite tools', () => {
+    for (const name of [
+      'structs_player_dashboard',
+      'structs_guild_dashboard',
+      'structs_preflight_check',
+      'structs_prepare_command',
+      'structs_diagnose_error',
+      'structs_query_proof_of_work_status',
+    ]) {
+      expect(getTool(name).outputSchema?.type).toBe('object');
+    }
+  });
+});
+
+describe('Tool responses', () => {
+  it('should return structuredContent alongside the text', async () => {
+    const handler = createHandler(async () => ({ id: '1-11', missing: undefined }));
+    const response = await handler({});
+
+    expect(response.structuredContent).toEqual({ id: '1-11' });
+    expect(JSON.parse(response.content[0].text)).toEqual(response.structuredContent);
+  });
+
+  it('should omit structuredContent for errors and non-object results', async () => {
+    const failing = await createHandler(async () => {
+      throw new Error('boom');
+    })({});
+    const list = await createHandler(async () => ['a'])({});
+
+    expect(failing.isError).toBe(true);
+    expect(failing.structuredContent).toBeUndefined();
+    expect(list.structuredContent).toBeUndefined();
+  });
+
+  it('should produce results that match the output schemas', async () => {
+    const diagnosis = await getToolHandler('structs_diagnose_error')!({ error_input: '6' });
+    const command = await getToolHandler('structs_prepare_command')!({ action: 'struct-build-initiate' });
+    const actionList = await getToolHandler('structs_prepare_command')!({ action: 'list' });
+
+    expect(diagnosis.structuredContent).toEqual(diagnoseError('6'));
+    expect(validate('structs_diagnose_error', diagnosis.structuredContent).valid).toBe(true);
+    expect(validate('structs_prepare_command', command.structuredContent).valid).toBe(true);
+    expect(validate('structs_prepare_command', actionList.structuredContent).valid).toBe(true);
+    expect(validate('structs_query_proof_of_work_status', { job_id: 'pow_1', status: 'running', started_at: 'now' }).valid).toBe(true);
+    expect(validate('structs_preflight_check', { feasible: true }).valid).toBe(false);
+  });
+});
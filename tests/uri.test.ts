@@ -7,6 +7,7 @@
 import {
   parseResourceURI,
   uriToFilePath,
+  filePathToUri,
   isValidResourceURI,
 } from '../src/utils/uri.js';
 import { describe, it, expect } from '@jest/globals';
@@ -94,6 +95,19 @@ describe('URI Utilities', () => {
     });
   });
 
+  describe('filePathToUri', () => {
+    it('should map category files and root guides back to URIs', () => {
+      expect(filePathToUri('/ai/schemas/entities/player.json', '/ai')).toBe('structs://schemas/entities/player.json');
+      expect(filePathToUri('/ai/skills/combat/SKILL.md', '/ai/')).toBe('structs://skills/combat/SKILL.md');
+      expect(filePathToUri('/ai/AGENTS.md', '/ai')).toBe('structs://guides/AGENTS.md');
+    });
+
+    it('should return null outside the docs directory or known categories', () => {
+      expect(filePathToUri('/other/file.md', '/ai')).toBeNull();
+      expect(filePathToUri('/ai/.git/HEAD', '/ai')).toBeNull();
+    });
+  });
+
   describe('isValidResourceURI', () => {
     it('should validate correct URIs', () => {
       expect(isValidResourceURI('structs://schemas/entities/player.json')).toBe(true);